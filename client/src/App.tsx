@@ -16,10 +16,25 @@ import Export from './pages/Export';
 import Recurring from './pages/Recurring';
 import Actions from './pages/Actions';
 import Settings from './pages/Settings';
+import AuditLog from './pages/AuditLog';
+import SecurityLog from './pages/SecurityLog';
+import Trash from './pages/Trash';
+import Ageing from './pages/Ageing';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import VerifyEmail from './pages/VerifyEmail';
+import ChangePasswordRequired from './pages/ChangePasswordRequired';
+import TwoFactorSetupRequired from './pages/TwoFactorSetupRequired';
 
 function PrivateRoute({ children }: { children: React.ReactNode }) {
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
-  return isAuthenticated ? <>{children}</> : <Navigate to="/login" />;
+  const mustChangePassword = useAuthStore((state) => state.user?.mustChangePassword);
+  const mustEnableTwoFactor = useAuthStore((state) => state.user?.mustEnableTwoFactor);
+  if (!isAuthenticated) return <Navigate to="/login" />;
+  // A password set by an admin has to be replaced before anything else
+  if (mustChangePassword) return <ChangePasswordRequired />;
+  if (mustEnableTwoFactor) return <TwoFactorSetupRequired />;
+  return <>{children}</>;
 }
 
 function PublicRoute({ children }: { children: React.ReactNode }) {
@@ -56,6 +71,17 @@ function App() {
           </PublicRoute>
         }
       />
+      <Route
+        path="/forgot-password"
+        element={
+          <PublicRoute>
+            <ForgotPassword />
+          </PublicRoute>
+        }
+      />
+      {/* Opened from emailed links, whether or not the user is logged in */}
+      <Route path="/reset-password" element={<ResetPassword />} />
+      <Route path="/verify-email" element={<VerifyEmail />} />
       <Route
         path="/"
         element={
@@ -75,6 +101,10 @@ function App() {
         <Route path="categories" element={<Categories />} />
         <Route path="export" element={<Export />} />
         <Route path="settings" element={<Settings />} />
+        <Route path="audit-log" element={<AuditLog />} />
+        <Route path="security-log" element={<SecurityLog />} />
+        <Route path="trash" element={<Trash />} />
+        <Route path="overdue" element={<Ageing />} />
       </Route>
       <Route path="*" element={<Navigate to="/" />} />
     </Routes>
@@ -0,0 +1,30 @@
+// Centered card with the logo, as on the login page, for the account recovery pages
+export default function AuthCard({
+  title,
+  subtitle,
+  children,
+}: {
+  title: string;
+  subtitle: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      {/* Background decoration */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-purple-500/20 rounded-full blur-3xl animate-pulse-slow" />
+        <div className="absolute bottom-1/4 right-1/4 w-80 h-80 bg-purple-700/20 rounded-full blur-3xl animate-pulse-slow delay-1000" />
+      </div>
+
+      <div className="glass-card w-full max-w-md p-8 relative">
+        <div className="text-center mb-8">
+          <img src="/logo.png" alt="Rumah Money Mate" className="w-16 h-16 mx-auto rounded-2xl mb-4 shadow-lg shadow-purple-500/30" />
+          <h1 className="text-2xl font-bold text-white">{title}</h1>
+          <p className="text-white/60 mt-2">{subtitle}</p>
+        </div>
+
+        {children}
+      </div>
+    </div>
+  );
+}
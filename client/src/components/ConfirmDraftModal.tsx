@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { PhotoIcon } from '@heroicons/react/24/outline';
+import { expensesAPI } from '../lib/api';
+import { useAuthStore, selectBaseCurrency } from '../stores/authStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { amountStep, currencyLabel, formatMoney, toMinor } from '../lib/money';
+import Modal from './Modal';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+
+export interface DraftExpense {
+  id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  usage: number | null;
+  date: string;
+  receiptImage: string | null;
+  category: { id: string; name: string; icon: string | null; color: string | null } | null;
+}
+
+interface ConfirmDraftModalProps {
+  draft: DraftExpense | null;
+  onClose: () => void;
+  onConfirmed: () => void;
+}
+
+// Enter the actual amount, usage and bill for a variable-amount recurring draft
+export default function ConfirmDraftModal({ draft, onClose, onConfirmed }: ConfirmDraftModalProps) {
+  const baseCurrency = useAuthStore(selectBaseCurrency);
+  const { currency, waterUnit, electricityUnit } = useSettingsStore();
+  const [amount, setAmount] = useState('');
+  const [usage, setUsage] = useState('');
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setAmount('');
+    setUsage(draft?.usage != null ? String(draft.usage) : '');
+    setReceipt(null);
+  }, [draft]);
+
+  if (!draft) return null;
+
+  const categoryName = draft.category?.name.toLowerCase();
+  const usageUnit = categoryName === 'water' ? waterUnit : categoryName === 'electricity' ? electricityUnit : null;
+  const label = currencyLabel(draft.currency, baseCurrency, currency);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const minor = toMinor(amount, draft.currency);
+    if (isNaN(minor) || minor <= 0) {
+      toast.error('Enter the amount on the bill');
+      return;
+    }
+    if (!receipt && !draft.receiptImage) {
+      toast.error('Please upload the bill');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const data = new FormData();
+      data.append('amount', String(minor));
+      if (usage) data.append('usage', usage);
+      if (receipt) data.append('receipt', receipt);
+
+      await expensesAPI.confirm(draft.id, data);
+      toast.success('Bill recorded');
+      onConfirmed();
+      onClose();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to record bill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!draft} onClose={onClose} title="Enter Bill Amount" size="sm">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <p className="font-medium text-white">{draft.description}</p>
+          <p className="text-sm text-white/60">
+            Due {format(new Date(draft.date), 'MMM d, yyyy')}
+            {draft.amount > 0 && ` · estimated ${label} ${formatMoney(draft.amount, draft.currency)}`}
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">
+            Actual Amount ({label}) <span className="text-red-400">*</span>
+          </label>
+          <input
+            type="number"
+            step={amountStep(draft.currency)}
+            min={amountStep(draft.currency)}
+            required
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="glass-input"
+            placeholder={formatMoney(0, draft.currency)}
+          />
+        </div>
+
+        {usageUnit && (
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">
+              Usage ({usageUnit}) <span className="text-white/40">(Optional)</span>
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              value={usage}
+              onChange={(e) => setUsage(e.target.value)}
+              className="glass-input"
+              placeholder={`Enter usage in ${usageUnit}`}
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">
+            Bill {!draft.receiptImage && <span className="text-red-400">*</span>}
+          </label>
+          <label className="glass-input flex items-center justify-center gap-2 cursor-pointer hover:bg-white/10">
+            <PhotoIcon className="w-5 h-5 text-white/40" />
+            <span className="text-white/60">
+              {receipt ? receipt.name : draft.receiptImage ? 'Replace uploaded bill' : 'Click to upload bill'}
+            </span>
+            <input
+              type="file"
+              accept="image/*,.pdf"
+              onChange={(e) => setReceipt(e.target.files?.[0] || null)}
+              className="hidden"
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-3 pt-2">
+          <button type="button" onClick={onClose} className="glass-button-secondary flex-1">
+            Cancel
+          </button>
+          <button type="submit" disabled={saving} className="glass-button flex-1">
+            {saving ? 'Saving...' : 'Record Bill'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { auditAPI, categoriesAPI, usersAPI } from '../lib/api';
+import { formatMoney } from '../lib/money';
+import { selectBaseCurrency, useAuthStore } from '../stores/authStore';
+import Modal from './Modal';
+import LoadingSpinner from './LoadingSpinner';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+
+export interface AuditEntry {
+  id: string;
+  entityType: string;
+  entityId: string;
+  entityLabel: string | null;
+  action: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  currency: string | null;    // Currency of the amounts in the changes
+  reason: string | null;
+  createdAt: string;
+  actor: { id: string; displayName: string } | null;
+}
+
+// Names of members and categories, so IDs in a diff can be shown as names
+export type AuditNames = Record<string, string>;
+
+export const useAuditNames = () => {
+  const [names, setNames] = useState<AuditNames>({});
+
+  useEffect(() => {
+    Promise.all([usersAPI.getAll(), categoriesAPI.getAll()])
+      .then(([users, categories]) => {
+        const map: AuditNames = {};
+        users.data.forEach((u: { id: string; displayName: string }) => { map[u.id] = u.displayName; });
+        categories.data.forEach((c: { id: string; name: string }) => { map[c.id] = c.name; });
+        setNames(map);
+      })
+      .catch(() => {});
+  }, []);
+
+  return names;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  userId: 'Paid by',
+  fromUserId: 'From',
+  toUserId: 'To',
+  categoryId: 'Category',
+  receiptImage: 'Receipt',
+  isDraft: 'Draft',
+  isActive: 'Active',
+  isVariableAmount: 'Variable amount',
+  nextDueDate: 'Next due date',
+  startDate: 'Start date',
+  endDate: 'End date',
+  effectiveDate: 'Effective date',
+  totalOccurrences: 'Occurrences',
+  splitEqually: 'Split equally',
+  splitType: 'Split type',
+  splitConfig: 'Split config',
+  baseCurrency: 'Base currency',
+  taxAmount: 'Tax',
+  taxPercent: 'Tax %',
+  serviceCharge: 'Service charge',
+  servicePercent: 'Service %',
+  subtotalOverride: 'Subtotal for charges',
+  approvalDelete: 'Approvals to delete valuable records',
+  approvalDeleteAmount: 'Deletes need approvals from',
+  approvalResetAllPasswords: 'Approvals to reset all passwords',
+  approvalPromoteAdmin: 'Approvals to make an owner or grant owner permissions',
+  approvalDeleteUser: 'Approvals to delete a member',
+};
+
+const MONEY_FIELDS = ['amount', 'totalAmount', 'taxAmount', 'serviceCharge', 'subtotalOverride'];
+
+interface BillItemValue {
+  description: string;
+  amount: number;
+  quantity: number;
+  shares: { userId: string; weight: number }[];
+}
+const ID_FIELDS = ['userId', 'fromUserId', 'toUserId', 'categoryId'];
+
+export const fieldLabel = (field: string) =>
+  FIELD_LABELS[field] || field.charAt(0).toUpperCase() + field.slice(1).replace(/([A-Z])/g, ' $1').toLowerCase();
+
+// A value from a diff as text. Amounts are in the minor units of the given currency.
+export const formatValue = (field: string, value: unknown, names: AuditNames, currency: string): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'splits' && Array.isArray(value)) {
+    return value.length === 0
+      ? 'none'
+      : value.map((s: { userId: string; amount: number }) => `${names[s.userId] || 'Former member'} ${formatMoney(s.amount, currency)}`).join(', ');
+  }
+  if (field === 'items' && Array.isArray(value)) {
+    return value
+      .map((item: BillItemValue) =>
+        `${item.quantity} × ${item.description} ${formatMoney(item.amount, currency)} ` +
+        `(${item.shares.map(s => names[s.userId] || 'Former member').join(', ')})`)
+      .join('; ');
+  }
+  if (MONEY_FIELDS.includes(field) && typeof value === 'number') return formatMoney(value, currency);
+  // Settings are saved as text
+  if (field === 'approvalDeleteAmount' && /^\d+$/.test(String(value))) return formatMoney(Number(value), currency);
+  if (ID_FIELDS.includes(field) && typeof value === 'string') return names[value] || 'Unknown';
+  if (field === 'receiptImage') return 'uploaded';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return format(new Date(value), 'MMM d, yyyy');
+  return String(value);
+};
+
+export const ACTION_STYLES: Record<string, string> = {
+  create: 'bg-green-500/20 text-green-400',
+  import: 'bg-green-500/20 text-green-400',
+  delete: 'bg-red-500/20 text-red-400',
+  purge: 'bg-red-500/20 text-red-400',
+  restore: 'bg-green-500/20 text-green-400',
+  update: 'bg-blue-500/20 text-blue-400',
+};
+
+// One audit entry: who did what and when, why, and the field-by-field changes
+export function AuditEntryCard({ entry, names, showRecord = false }: { entry: AuditEntry; names: AuditNames; showRecord?: boolean }) {
+  const baseCurrency = useAuthStore(selectBaseCurrency);
+  const changes = Object.entries(entry.changes);
+  const isUpdate = changes.some(([, c]) => c.from !== null && c.to !== null);
+  // Old amounts are in the old currency when the currency itself changed
+  const toCurrency = entry.currency || baseCurrency;
+  const fromCurrency = (entry.changes.currency?.from as string | undefined) || toCurrency;
+
+  return (
+    <div className="p-3 rounded-xl bg-white/5">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className={`px-2 py-0.5 rounded-lg text-xs font-medium capitalize ${ACTION_STYLES[entry.action] || 'bg-purple-500/20 text-purple-300'}`}>
+          {entry.action.replace(/-/g, ' ')}
+        </span>
+        {showRecord && (
+          <span className="text-white">
+            <span className="text-white/50 capitalize">{entry.entityType}</span> {entry.entityLabel}
+          </span>
+        )}
+        <span className="text-white/50 text-xs ml-auto">
+          {entry.actor?.displayName || 'System'} • {format(new Date(entry.createdAt), 'MMM d, yyyy h:mm a')}
+        </span>
+      </div>
+
+      {entry.reason && (
+        <p className="text-sm text-white/60 mt-2">Reason: {entry.reason}</p>
+      )}
+
+      {changes.length > 0 && (
+        <ul className="mt-2 space-y-1 text-sm">
+          {changes.map(([field, change]) => (
+            <li key={field} className="text-white/70">
+              <span className="text-white/50">{fieldLabel(field)}:</span>{' '}
+              {isUpdate || change.to === null ? (
+                <>
+                  <span className="line-through text-white/40">{formatValue(field, change.from, names, fromCurrency)}</span>
+                  {change.to !== null && <> → <span className="text-white">{formatValue(field, change.to, names, toCurrency)}</span></>}
+                </>
+              ) : (
+                <span className="text-white">{formatValue(field, change.to, names, toCurrency)}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface HistoryModalProps {
+  entityType: string;
+  entityId: string | null;
+  title?: string;
+  onClose: () => void;
+}
+
+// Change history of a single record
+export default function HistoryModal({ entityType, entityId, title = 'History', onClose }: HistoryModalProps) {
+  const names = useAuditNames();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!entityId) return;
+
+    setLoading(true);
+    auditAPI.getHistory(entityType, entityId)
+      .then(response => setEntries(response.data))
+      .catch((error) => toast.error(error.response?.data?.error || 'Failed to load history'))
+      .finally(() => setLoading(false));
+  }, [entityType, entityId]);
+
+  return (
+    <Modal isOpen={!!entityId} onClose={onClose} title={title} size="lg">
+      {loading ? (
+        <LoadingSpinner />
+      ) : entries.length === 0 ? (
+        <div className="text-center py-8">
+          <ClockIcon className="w-10 h-10 text-white/30 mx-auto mb-3" />
+          <p className="text-white/60">No recorded changes</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map(entry => (
+            <AuditEntryCard key={entry.id} entry={entry} names={names} />
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+}
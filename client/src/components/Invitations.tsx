@@ -0,0 +1,277 @@
+import { useState, useEffect } from 'react';
+import { ClipboardDocumentIcon, LinkIcon, NoSymbolIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { invitationsAPI } from '../lib/api';
+import { can, Role, useAuthStore } from '../stores/authStore';
+import { useLiveUpdates } from '../lib/events';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+
+interface Invitation {
+  id: string;
+  role: Role;
+  email: string | null;
+  maxUses: number;
+  useCount: number;
+  expiresAt: string;
+  createdAt: string;
+  status: 'active' | 'used' | 'expired' | 'revoked';
+  createdBy: { id: string; displayName: string };
+  invitee: { id: string; displayName: string } | null;  // An existing account it was sent to
+  usedBy: { id: string; displayName: string; registeredAt: string }[];
+}
+
+const STATUS_BADGES: Record<Invitation['status'], string> = {
+  active: 'badge-success',
+  used: 'badge-info',
+  expired: 'badge-warning',
+  revoked: 'badge-danger',
+};
+
+const emptyForm = { role: 'member' as Role, email: '', maxUses: '1', expiresInDays: '7' };
+
+// Registration links for the active household (members.manage)
+export default function Invitations() {
+  const { user } = useAuthStore();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [created, setCreated] = useState<{ link: string; emailSent: boolean } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, []);
+
+  // Someone registering uses up an invitation
+  useLiveUpdates(['members'], () => {
+    fetchInvitations();
+  });
+
+  const fetchInvitations = async () => {
+    try {
+      const response = await invitationsAPI.getAll();
+      setInvitations(response.data);
+    } catch (error) {
+      console.error('Failed to fetch invitations:', error);
+    }
+  };
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    setCreated(null);
+    setForm(emptyForm);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const response = await invitationsAPI.create({
+        role: form.role,
+        email: form.email.trim() || undefined,
+        maxUses: Number(form.maxUses),
+        expiresInDays: Number(form.expiresInDays),
+      });
+      // The server only knows the client's address when APP_URL is set
+      const link = response.data.link || `${window.location.origin}/register?invite=${encodeURIComponent(response.data.code)}`;
+      setCreated({ link, emailSent: response.data.emailSent });
+      fetchInvitations();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create invitation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Invitation link copied');
+    } catch (error) {
+      toast.error('Failed to copy, please select the link and copy it');
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!confirm(`Revoke this invitation${invitation.email ? ` for ${invitation.email}` : ''}? Its link will stop working.`)) {
+      return;
+    }
+
+    try {
+      await invitationsAPI.revoke(invitation.id);
+      toast.success('Invitation revoked');
+      fetchInvitations();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to revoke invitation');
+    }
+  };
+
+  return (
+    <div className="glass-card p-5 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Invitations</h2>
+          <p className="text-sm text-white/60">Links that let new people create an account and join this household</p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-purple-500/20 text-purple-400 rounded-xl hover:bg-purple-500/30 transition-colors"
+        >
+          <PlusIcon className="w-5 h-5" />
+          <span className="hidden sm:inline">New Invitation</span>
+        </button>
+      </div>
+
+      {invitations.length === 0 ? (
+        <p className="text-sm text-white/40">No invitations yet</p>
+      ) : (
+        <div className="divide-y divide-white/10">
+          {invitations.map((invitation) => (
+            <div key={invitation.id} className="py-3 flex items-start justify-between gap-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-white truncate">{invitation.invitee?.displayName || invitation.email || 'Anyone with the link'}</span>
+                  <span className={`badge ${STATUS_BADGES[invitation.status]}`}>{invitation.status}</span>
+                  {invitation.role !== 'member' && <span className="badge badge-info capitalize">{invitation.role}</span>}
+                </div>
+                <p className="text-xs text-white/50">
+                  Used {invitation.useCount} of {invitation.maxUses} · Expires {format(new Date(invitation.expiresAt), 'MMM d, yyyy')} · By {invitation.createdBy.displayName}
+                </p>
+                {invitation.usedBy.length > 0 && (
+                  <p className="text-xs text-white/50">
+                    Joined: {invitation.usedBy.map((user) => user.displayName).join(', ')}
+                  </p>
+                )}
+              </div>
+              {invitation.status === 'active' && (
+                <button
+                  onClick={() => handleRevoke(invitation)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-red-500/10 text-red-400 hover:bg-red-500/20 border border-red-500/20 shrink-0"
+                >
+                  <NoSymbolIcon className="w-4 h-4" />
+                  Revoke
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create Invitation Modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="glass-card p-6 max-w-md w-full space-y-4">
+            <h3 className="text-xl font-semibold text-white">New Invitation</h3>
+
+            {created ? (
+              <>
+                <p className="text-white/60 text-sm">
+                  {created.emailSent
+                    ? 'The invitation was emailed. You can also share this link yourself.'
+                    : 'Share this link with the person you are inviting.'}{' '}
+                  It won't be shown again.
+                </p>
+                <div className="flex items-center gap-2 p-3 rounded-xl bg-white/5 border border-white/10">
+                  <LinkIcon className="w-4 h-4 text-white/50 shrink-0" />
+                  <span className="text-sm font-mono text-white break-all">{created.link}</span>
+                </div>
+                <div className="flex gap-3 pt-2">
+                  <button
+                    onClick={() => handleCopy(created.link)}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors"
+                  >
+                    <ClipboardDocumentIcon className="w-5 h-5" />
+                    Copy
+                  </button>
+                  <button
+                    onClick={closeModal}
+                    className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors"
+                  >
+                    Done
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-white/70 mb-2">Role</label>
+                  <select
+                    value={form.role}
+                    onChange={(e) => setForm({ ...form, role: e.target.value as Role })}
+                    className="glass-input"
+                  >
+                    <option value="member">Member</option>
+                    {/* Any other role is a role change */}
+                    {can(user, 'roles.manage') && (
+                      <>
+                        <option value="viewer">Viewer</option>
+                        <option value="treasurer">Treasurer</option>
+                        <option value="owner">Owner</option>
+                      </>
+                    )}
+                  </select>
+                  {form.role === 'owner' && (
+                    <p className="text-xs text-white/40 mt-1">
+                      They join as a member and become an owner once the approvals for making an owner are given.
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-white/70 mb-2">Email (optional)</label>
+                  <input
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    placeholder="Only this address can use the link"
+                    className="glass-input"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-white/70 mb-2">Uses</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="50"
+                      value={form.maxUses}
+                      onChange={(e) => setForm({ ...form, maxUses: e.target.value })}
+                      className="glass-input"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-white/70 mb-2">Expires in (days)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="30"
+                      value={form.expiresInDays}
+                      onChange={(e) => setForm({ ...form, expiresInDays: e.target.value })}
+                      className="glass-input"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-3 pt-2">
+                  <button
+                    onClick={closeModal}
+                    className="flex-1 px-4 py-2 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleCreate}
+                    disabled={saving}
+                    className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {saving ? 'Creating...' : 'Create Link'}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
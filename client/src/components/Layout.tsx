@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Link, Outlet, useLocation, useNavigate } from 'react-router-dom';
 import {
   HomeIcon,
@@ -15,12 +15,29 @@ import {
   ArrowPathIcon,
   ClipboardDocumentCheckIcon,
   Cog6ToothIcon,
+  HomeModernIcon,
+  PlusIcon,
+  ClockIcon,
+  ArchiveBoxIcon,
+  BellAlertIcon,
+  ShieldExclamationIcon,
+  TicketIcon,
 } from '@heroicons/react/24/outline';
-import { useAuthStore } from '../stores/authStore';
-import { authAPI } from '../lib/api';
+import { can, Permission, useAuthStore } from '../stores/authStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { authAPI, householdsAPI, invitationsAPI } from '../lib/api';
+import NotificationBell from './NotificationBell';
+import { connectEvents, useLiveUpdates } from '../lib/events';
 import toast from 'react-hot-toast';
 
-const navigation = [
+interface ReceivedInvitation {
+  id: string;
+  household: { id: string; name: string };
+  role: string;
+  invitedBy: { id: string; displayName: string };
+}
+
+const navigation: { name: string; href: string; icon: typeof HomeIcon; permission?: Permission }[] = [
   { name: 'Dashboard', href: '/', icon: HomeIcon },
   { name: 'Expenses', href: '/expenses', icon: CurrencyDollarIcon },
   { name: 'Payments', href: '/payments', icon: CreditCardIcon },
@@ -28,16 +45,101 @@ const navigation = [
   { name: 'Recurring', href: '/recurring', icon: ArrowPathIcon },
   { name: 'Members', href: '/members', icon: UsersIcon },
   { name: 'Categories', href: '/categories', icon: TagIcon },
-  { name: 'Actions', href: '/actions', icon: ClipboardDocumentCheckIcon, adminOnly: true },
+  { name: 'Actions', href: '/actions', icon: ClipboardDocumentCheckIcon },
   { name: 'Export/Import', href: '/export', icon: ArrowDownTrayIcon },
-  { name: 'Settings', href: '/settings', icon: Cog6ToothIcon, adminOnly: true },
+  { name: 'Overdue', href: '/overdue', icon: BellAlertIcon, permission: 'reports.read' },
+  { name: 'Trash', href: '/trash', icon: ArchiveBoxIcon, permission: 'trash.manage' },
+  { name: 'Audit Log', href: '/audit-log', icon: ClockIcon, permission: 'audit.read' },
+  { name: 'Security Log', href: '/security-log', icon: ShieldExclamationIcon, permission: 'security.manage' },
+  { name: 'Settings', href: '/settings', icon: Cog6ToothIcon, permission: 'settings.write' },
 ];
 
 export default function Layout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const location = useLocation();
   const navigate = useNavigate();
-  const { user, refreshToken, logout } = useAuthStore();
+  const { user, accessToken, refreshToken, logout, households, activeHouseholdId, setHouseholds, setActiveHousehold } = useAuthStore();
+  const fetchSettings = useSettingsStore((state) => state.fetchSettings);
+  const [invitations, setInvitations] = useState<ReceivedInvitation[]>([]);
+
+  // Refresh memberships so roles and newly joined households stay current, along
+  // with the invitations waiting for this account
+  const fetchHouseholds = () => {
+    householdsAPI.getAll()
+      .then((response) => setHouseholds(response.data))
+      .catch((error) => console.error('Failed to fetch households:', error));
+    invitationsAPI.getReceived()
+      .then((response) => setInvitations(response.data))
+      .catch((error) => console.error('Failed to fetch invitations:', error));
+  };
+
+  useEffect(() => {
+    fetchHouseholds();
+  }, [setHouseholds]);
+
+  useLiveUpdates(['members'], fetchHouseholds);
+
+  // Keep the live update stream open for the active household
+  useEffect(() => {
+    if (!accessToken) return;
+    return connectEvents();
+  }, [accessToken, activeHouseholdId]);
+
+  const handleSwitchHousehold = (householdId: string) => {
+    if (householdId === activeHouseholdId) return;
+    setActiveHousehold(householdId);
+    fetchSettings();
+    const household = households.find((h) => h.id === householdId);
+    toast.success(`Switched to ${household?.name || 'household'}`);
+  };
+
+  const handleCreateHousehold = async () => {
+    const name = prompt('Name of the new household');
+    if (!name || !name.trim()) return;
+
+    try {
+      const response = await householdsAPI.create(name.trim());
+      setHouseholds([...households, response.data]);
+      handleSwitchHousehold(response.data.id);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create household');
+    }
+  };
+
+  // Join a household after accepting an invitation, by its id or the code from its link
+  const joinHousehold = async (accept: () => Promise<{ data: { message: string; household: { id: string } } }>) => {
+    try {
+      const response = await accept();
+      toast.success(response.data.message);
+      const households = await householdsAPI.getAll();
+      setHouseholds(households.data);
+      setInvitations((current) => current.filter((i) => i.household.id !== response.data.household.id));
+      setActiveHousehold(response.data.household.id);
+      fetchSettings();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to accept invitation');
+    }
+  };
+
+  const handleJoinWithCode = () => {
+    const code = prompt('Invitation code or link');
+    if (!code || !code.trim()) return;
+
+    // Accept a pasted link as well as the bare code
+    const match = code.match(/[?&]invite=([^&\s]+)/);
+    joinHousehold(() => invitationsAPI.acceptCode(match ? decodeURIComponent(match[1]) : code.trim()));
+  };
+
+  const handleDeclineInvitation = async (invitation: ReceivedInvitation) => {
+    if (!confirm(`Decline the invitation to ${invitation.household.name}?`)) return;
+
+    try {
+      await invitationsAPI.decline(invitation.id);
+      setInvitations((current) => current.filter((i) => i.id !== invitation.id));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to decline invitation');
+    }
+  };
 
   const handleLogout = async () => {
     try {
@@ -88,11 +190,69 @@ export default function Layout() {
           </div>
         </div>
 
+        {/* Household switcher */}
+        <div className="px-4 pt-4">
+          <label className="flex items-center gap-2 text-xs text-white/50 mb-2">
+            <HomeModernIcon className="w-4 h-4" />
+            Household
+          </label>
+          <div className="flex gap-2">
+            <select
+              value={activeHouseholdId || ''}
+              onChange={(e) => handleSwitchHousehold(e.target.value)}
+              className="glass-select py-2 text-sm"
+            >
+              {households.map((household) => (
+                <option key={household.id} value={household.id}>
+                  {household.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleCreateHousehold}
+              className="p-2 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-colors"
+              title="Create a new household"
+            >
+              <PlusIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={handleJoinWithCode}
+              className="p-2 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-colors"
+              title="Join a household with an invitation"
+            >
+              <TicketIcon className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Invitations waiting for this account */}
+          {invitations.map((invitation) => (
+            <div key={invitation.id} className="mt-3 p-3 rounded-xl bg-purple-500/10 border border-purple-500/30 text-sm">
+              <p className="text-white/80">
+                {invitation.invitedBy.displayName} invited you to <span className="font-medium text-white">{invitation.household.name}</span> as a {invitation.role}
+              </p>
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={() => joinHousehold(() => invitationsAPI.accept(invitation.id))}
+                  className="flex-1 px-3 py-1 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                >
+                  Accept
+                </button>
+                <button
+                  onClick={() => handleDeclineInvitation(invitation)}
+                  className="flex-1 px-3 py-1 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+                >
+                  Decline
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
         {/* Navigation */}
         <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
           {navigation.map((item) => {
-            // Skip admin-only items for non-admins
-            if (item.adminOnly && !user?.isAdmin) return null;
+            // Skip pages the user doesn't have the permission for
+            if (item.permission && !can(user, item.permission)) return null;
             
             const isActive = location.pathname === item.href;
             return (
@@ -132,7 +292,7 @@ export default function Layout() {
                 {user?.displayName}
               </p>
               <p className="text-xs text-white/50 truncate">
-                {user?.isAdmin ? 'Admin' : 'Member'}
+                <span className="capitalize">{user?.role || 'member'}</span>
               </p>
             </div>
           </Link>
@@ -158,15 +318,24 @@ export default function Layout() {
               <Bars3Icon className="w-6 h-6" />
             </button>
             <h1 className="text-lg font-bold">Rumah Money Mate</h1>
-            <Link to="/profile" className="p-2 rounded-lg hover:bg-white/10">
-              <UserCircleIcon className="w-6 h-6" />
-            </Link>
+            <div className="flex items-center">
+              <NotificationBell />
+              <Link to="/profile" className="p-2 rounded-lg hover:bg-white/10">
+                <UserCircleIcon className="w-6 h-6" />
+              </Link>
+            </div>
           </div>
         </header>
 
+        {/* Desktop notifications */}
+        <div className="hidden lg:flex justify-end px-8 pt-4 -mb-4">
+          <NotificationBell />
+        </div>
+
         {/* Page content */}
         <div className="flex-1 p-4 lg:p-8 overflow-auto">
-          <Outlet />
+          {/* Remount the page when the household changes so it reloads its data */}
+          <Outlet key={activeHouseholdId || 'default'} />
         </div>
 
         {/* Footer credit */}
@@ -0,0 +1,154 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BellIcon } from '@heroicons/react/24/outline';
+import { formatDistanceToNow } from 'date-fns';
+import { notificationsAPI } from '../lib/api';
+import { useAuthStore } from '../stores/authStore';
+import { useLiveUpdates } from '../lib/events';
+
+interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export default function NotificationBell() {
+  const navigate = useNavigate();
+  const activeHouseholdId = useAuthStore((state) => state.activeHouseholdId);
+  const [open, setOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const fetchUnreadCount = () => {
+    notificationsAPI.getUnreadCount()
+      .then((response) => setUnreadCount(response.data.count))
+      .catch(() => {});
+  };
+
+  useEffect(() => {
+    fetchUnreadCount();
+  }, [activeHouseholdId]);
+
+  // New notifications arrive over the live update stream
+  useLiveUpdates(['notifications'], fetchUnreadCount);
+
+  // Close the panel when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleToggle = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+
+    setOpen(true);
+    setLoading(true);
+    try {
+      const response = await notificationsAPI.getAll({ limit: 20 });
+      setNotifications(response.data.notifications);
+      setUnreadCount(response.data.unreadCount);
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenNotification = async (notification: Notification) => {
+    if (!notification.readAt) {
+      try {
+        await notificationsAPI.markRead(notification.id);
+        setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, readAt: new Date().toISOString() } : n));
+        setUnreadCount(prev => Math.max(0, prev - 1));
+      } catch (error) {
+        console.error('Failed to mark notification read:', error);
+      }
+    }
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationsAPI.markAllRead();
+      const now = new Date().toISOString();
+      setNotifications(prev => prev.map(n => ({ ...n, readAt: n.readAt || now })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={handleToggle}
+        className="relative p-2 rounded-lg hover:bg-white/10"
+        title="Notifications"
+      >
+        <BellIcon className="w-6 h-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 max-w-[calc(100vw-2rem)] glass-card bg-gray-900/95 shadow-xl z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <h3 className="font-semibold text-white">Notifications</h3>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkAllRead} className="text-xs text-purple-400 hover:text-purple-300">
+                Mark all as read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {loading ? (
+              <p className="p-4 text-sm text-white/50 text-center">Loading...</p>
+            ) : notifications.length === 0 ? (
+              <p className="p-4 text-sm text-white/50 text-center">No notifications yet</p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`w-full text-left px-4 py-3 border-b border-white/5 hover:bg-white/5 transition-colors ${
+                    notification.readAt ? 'opacity-60' : ''
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    {!notification.readAt && <span className="mt-1.5 w-2 h-2 rounded-full bg-purple-400 flex-shrink-0" />}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-white">{notification.title}</p>
+                      <p className="text-xs text-white/60 mt-0.5">{notification.message}</p>
+                      <p className="text-xs text-white/40 mt-1">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
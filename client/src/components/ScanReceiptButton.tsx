@@ -0,0 +1,74 @@
+import { useRef, useState } from 'react';
+import { DocumentMagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { ocrAPI } from '../lib/api';
+import toast from 'react-hot-toast';
+
+export interface OcrDraft {
+  id: string;
+  receiptImage: string;
+  status: 'completed' | 'failed';
+  confidence: number | null;
+  merchant: string | null;
+  date: string | null;
+  total: number | null;
+  taxAmount: number | null;
+  serviceCharge: number | null;
+  items: { description: string; amount: number; quantity: number }[];
+  error: string | null;
+}
+
+interface ScanReceiptButtonProps {
+  onScanned: (draft: OcrDraft) => void;
+}
+
+// Upload a receipt and read it with OCR. The draft comes back for the form to
+// pre-fill; a receipt that couldn't be read is still returned so it can be attached.
+export default function ScanReceiptButton({ onScanned }: ScanReceiptButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [scanning, setScanning] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setScanning(true);
+    try {
+      const data = new FormData();
+      data.append('receipt', file);
+      const response = await ocrAPI.readReceipt(data);
+      const draft: OcrDraft = response.data;
+
+      if (draft.status === 'failed') {
+        toast.error(draft.error || 'Could not read the receipt - fill in the details yourself');
+      } else {
+        toast.success('Receipt read - check the details before saving');
+      }
+      onScanned(draft);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to read receipt');
+    } finally {
+      setScanning(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <>
+      <input
+        type="file"
+        ref={inputRef}
+        accept="image/*,.pdf"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="hidden"
+      />
+      <button
+        type="button"
+        disabled={scanning}
+        onClick={() => inputRef.current?.click()}
+        className="w-full px-3 py-2 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded-xl text-blue-300 text-sm font-medium flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+      >
+        <DocumentMagnifyingGlassIcon className="w-5 h-5" />
+        {scanning ? 'Reading receipt...' : 'Scan receipt to fill in details'}
+      </button>
+    </>
+  );
+}
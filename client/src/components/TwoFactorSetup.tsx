@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { ClipboardDocumentIcon } from '@heroicons/react/24/outline';
+import { twoFactorAPI } from '../lib/api';
+import toast from 'react-hot-toast';
+
+interface TwoFactorSetupProps {
+  onDone: () => void;
+}
+
+// Recovery codes are only shown once, right after they are created
+export function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch (error) {
+      toast.error('Failed to copy, please write them down');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-white/70">
+        Keep these recovery codes somewhere safe. Each one logs you in once if you lose your phone.
+        They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 rounded-xl bg-white/5 border border-white/10 font-mono text-white text-center">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-3">
+        <button type="button" onClick={handleCopy} className="glass-button-secondary flex-1 flex items-center justify-center gap-2">
+          <ClipboardDocumentIcon className="w-5 h-5" />
+          Copy
+        </button>
+        <button type="button" onClick={onDone} className="glass-button flex-1">
+          I've saved them
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Walks through adding the account to an authenticator app and confirming the first code
+export default function TwoFactorSetup({ onDone }: TwoFactorSetupProps) {
+  const [setup, setSetup] = useState<{ secret: string; qrCode: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleStart = async () => {
+    setLoading(true);
+    try {
+      const response = await twoFactorAPI.setup();
+      setSetup(response.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to start two-factor setup');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const response = await twoFactorAPI.enable(code);
+      toast.success(response.data.message);
+      setRecoveryCodes(response.data.recoveryCodes);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to turn on two-factor authentication');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={onDone} />;
+  }
+
+  if (!setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-white/70">
+          Protect your account with a code from an authenticator app (such as Google Authenticator,
+          Authy or 1Password) as well as your password.
+        </p>
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={loading}
+          className="glass-button w-full disabled:opacity-50"
+        >
+          {loading ? 'Starting...' : 'Set Up Two-Factor Authentication'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      <p className="text-sm text-white/70">
+        Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+      </p>
+      <img src={setup.qrCode} alt="Two-factor QR code" className="w-48 h-48 mx-auto rounded-xl bg-white p-2" />
+      <p className="text-xs text-white/50 text-center">
+        Can't scan it? Enter this key instead:
+        <span className="block font-mono text-white/80 break-all mt-1">{setup.secret}</span>
+      </p>
+      <input
+        type="text"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className="glass-input font-mono tracking-widest text-center"
+        placeholder="123456"
+        autoComplete="one-time-code"
+        inputMode="numeric"
+      />
+      <button
+        type="submit"
+        disabled={loading || !code.trim()}
+        className="glass-button w-full disabled:opacity-50"
+      >
+        {loading ? 'Verifying...' : 'Turn On'}
+      </button>
+    </form>
+  );
+}
@@ -1,7 +1,7 @@
 import axios from 'axios';
-import { useAuthStore } from '../stores/authStore';
+import { useAuthStore, Permission, Role } from '../stores/authStore';
 
-const API_URL = import.meta.env.PROD ? '/api' : 'http://localhost:3001/api';
+export const API_URL = import.meta.env.PROD ? '/api' : 'http://localhost:3001/api';
 
 const api = axios.create({
   baseURL: API_URL,
@@ -13,38 +13,79 @@ const api = axios.create({
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
-    const token = useAuthStore.getState().accessToken;
+    const { accessToken: token, activeHouseholdId } = useAuthStore.getState();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    // Scope every request to the household selected in the sidebar
+    if (activeHouseholdId) {
+      config.headers['X-Household-Id'] = activeHouseholdId;
+    }
     return config;
   },
   (error) => Promise.reject(error)
 );
 
+// Each refresh token works once, so requests that fail together share one refresh
+// instead of each sending the same token
+let refreshing: Promise<string> | null = null;
+
+const refreshAccessToken = async () => {
+  const { refreshToken } = useAuthStore.getState();
+  try {
+    const response = await axios.post(`${API_URL}/auth/refresh`, { refreshToken });
+
+    const { accessToken, refreshToken: newRefreshToken } = response.data;
+    useAuthStore.getState().setTokens(accessToken, newRefreshToken);
+    return accessToken as string;
+  } catch (error: any) {
+    // Another tab swapped the same token a moment ago: use the tokens it saved
+    if (error.response?.data?.code === 'REFRESH_TOKEN_SUPERSEDED') {
+      await useAuthStore.persist.rehydrate();
+      const { accessToken, refreshToken: savedRefreshToken } = useAuthStore.getState();
+      if (accessToken && savedRefreshToken !== refreshToken) return accessToken;
+    }
+    throw error;
+  }
+};
+
 // Response interceptor to handle token refresh
 api.interceptors.response.use(
   (response) => response,
   async (error) => {
     const originalRequest = error.config;
 
+    // The server only answers the password change until an admin-set password is replaced
+    if (error.response?.status === 403 && error.response.data?.code === 'PASSWORD_CHANGE_REQUIRED') {
+      useAuthStore.getState().updateUser({ mustChangePassword: true });
+      return Promise.reject(error);
+    }
+
+    // Likewise for admins of a household that requires two-factor authentication
+    if (error.response?.status === 403 && error.response.data?.code === 'TWO_FACTOR_SETUP_REQUIRED') {
+      useAuthStore.getState().updateUser({ mustEnableTwoFactor: true });
+      return Promise.reject(error);
+    }
+
     if (error.response?.status === 401 && !originalRequest._retry) {
       originalRequest._retry = true;
 
       try {
-        const refreshToken = useAuthStore.getState().refreshToken;
-        if (refreshToken) {
-          const response = await axios.post(`${API_URL}/auth/refresh`, {
-            refreshToken,
+        if (useAuthStore.getState().refreshToken) {
+          refreshing = refreshing || refreshAccessToken().finally(() => {
+            refreshing = null;
           });
-
-          const { accessToken, refreshToken: newRefreshToken } = response.data;
-          useAuthStore.getState().setTokens(accessToken, newRefreshToken);
+          const accessToken = await refreshing;
 
           originalRequest.headers.Authorization = `Bearer ${accessToken}`;
           return api(originalRequest);
         }
-      } catch (refreshError) {
+      } catch (refreshError: any) {
+        // Rate limited, or another tab is still saving its new tokens: the session
+        // is still good, so only this request fails
+        if (refreshError.response?.status === 429 || refreshError.response?.status === 409) {
+          return Promise.reject(error);
+        }
         useAuthStore.getState().logout();
         window.location.href = '/login';
       }
@@ -60,16 +101,66 @@ export default api;
 export const authAPI = {
   login: (data: { username: string; password: string }) =>
     api.post('/auth/login', data),
+  loginTwoFactor: (challengeToken: string, code: string) =>
+    api.post('/auth/login/two-factor', { challengeToken, code }),
   register: (data: {
     username: string;
     email: string;
     password: string;
     displayName: string;
-    invitationKey: string;
+    invitationCode: string;
   }) => api.post('/auth/register', data),
+  previewInvitation: (code: string) => api.get('/auth/invitation', { params: { code } }),
   logout: (refreshToken: string) =>
     api.post('/auth/logout', { refreshToken }),
   getMe: () => api.get('/auth/me'),
+  getOptions: () => api.get('/auth/options'),
+  forgotPassword: (email: string) => api.post('/auth/forgot-password', { email }),
+  resetPassword: (token: string, newPassword: string) =>
+    api.post('/auth/reset-password', { token, newPassword }),
+  verifyEmail: (token: string) => api.post('/auth/verify-email', { token }),
+  resendVerification: () => api.post('/auth/resend-verification'),
+};
+
+// Sessions API (where you are logged in)
+export const sessionsAPI = {
+  getAll: () => api.get('/auth/sessions'),
+  revoke: (id: string) => api.delete(`/auth/sessions/${id}`),
+  revokeAll: () => api.delete('/auth/sessions'),
+};
+
+// Two-factor authentication API
+export const twoFactorAPI = {
+  getStatus: () => api.get('/auth/two-factor'),
+  setup: () => api.post('/auth/two-factor/setup'),
+  enable: (code: string) => api.post('/auth/two-factor/enable', { code }),
+  regenerateRecoveryCodes: (code: string) => api.post('/auth/two-factor/recovery-codes', { code }),
+  disable: (password: string, code: string) => api.post('/auth/two-factor/disable', { password, code }),
+};
+
+// Invitations API (registration links, admin only; the received ones are the user's own)
+export const invitationsAPI = {
+  getAll: () => api.get('/invitations'),
+  create: (data: { role: Role; email?: string; maxUses: number; expiresInDays: number }) =>
+    api.post('/invitations', data),
+  revoke: (id: string) => api.delete(`/invitations/${id}`),
+  getReceived: () => api.get('/invitations/received'),
+  acceptCode: (code: string) => api.post('/invitations/accept', { code }),
+  accept: (id: string) => api.post(`/invitations/${id}/accept`),
+  decline: (id: string) => api.post(`/invitations/${id}/decline`),
+};
+
+// Households API
+export const householdsAPI = {
+  getAll: () => api.get('/households'),
+  create: (name: string) => api.post('/households', { name }),
+  getCurrent: () => api.get('/households/current'),
+  updateCurrent: (data: { name?: string; baseCurrency?: string }) => api.put('/households/current', data),
+  // Sends an invitation the user accepts from their own account
+  addMember: (username: string, role: Role = 'member') =>
+    api.post('/households/current/members', { username, role }),
+  removeMember: (userId: string) =>
+    api.delete(`/households/current/members/${userId}`),
 };
 
 // Users API
@@ -91,12 +182,16 @@ export const usersAPI = {
       headers: { 'Content-Type': 'multipart/form-data' },
     });
   },
-  setAdmin: (id: string, isAdmin: boolean) =>
-    api.put(`/users/${id}/admin`, { isAdmin }),
+  getRoles: () => api.get('/users/roles'),
+  setRole: (id: string, data: { role: Role; grants?: Permission[]; reason?: string }) =>
+    api.put(`/users/${id}/role`, data),
   getStats: (id: string) => api.get(`/users/${id}/stats`),
   delete: (id: string) => api.delete(`/users/${id}`),
   resetPassword: (id: string, newPassword: string) =>
     api.post(`/users/${id}/reset-password`, { newPassword }),
+  sendPasswordReset: (id: string) => api.post(`/users/${id}/send-password-reset`),
+  unlock: (id: string) => api.post(`/users/${id}/unlock`),
+  resetTwoFactor: (id: string) => api.delete(`/users/${id}/two-factor`),
   resetAllPasswords: (newPassword: string) =>
     api.post('/users/reset-all-passwords', { newPassword }),
 };
@@ -114,6 +209,10 @@ export const expensesAPI = {
       headers: { 'Content-Type': 'multipart/form-data' },
     }),
   delete: (id: string) => api.delete(`/expenses/${id}`),
+  confirm: (id: string, data: FormData) =>
+    api.post(`/expenses/${id}/confirm`, data, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    }),
   getSummaryByCategory: (params?: any) =>
     api.get('/expenses/summary/by-category', { params }),
 };
@@ -137,6 +236,8 @@ export const paymentsAPI = {
     api.post('/payments', data, {
       headers: { 'Content-Type': 'multipart/form-data' },
     }),
+  update: (id: string, data: { amount?: number; currency?: string; description?: string; date?: string; toUserId?: string; reason?: string }) =>
+    api.put(`/payments/${id}`, data),
   updateStatus: (id: string, status: 'confirmed' | 'rejected') =>
     api.put(`/payments/${id}/status`, { status }),
   delete: (id: string) => api.delete(`/payments/${id}`),
@@ -144,8 +245,93 @@ export const paymentsAPI = {
   getAllBalances: () => api.get('/payments/balances/all'),
 };
 
+// Settlements API
+export type SettlementStrategy = 'minimal' | 'pairwise' | 'capped';
+
+export const settlementsAPI = {
+  getPlan: (params: { strategy: SettlementStrategy; cap?: number }) =>
+    api.get('/settlements/plan', { params }),
+  applyPlan: (data: { strategy: SettlementStrategy; cap?: number }) =>
+    api.post('/settlements/plan/apply', data),
+};
+
+// Payment Reminders API (amounts in minor units of the base currency)
+export const remindersAPI = {
+  getMine: () => api.get('/reminders'),
+  getAgeing: () => api.get('/reminders/ageing'),
+  run: () => api.post('/reminders/run'),
+  snooze: (creditorId: string, days?: number) => api.post(`/reminders/${creditorId}/snooze`, { days }),
+  paidOffline: (creditorId: string, data?: { amount?: number; description?: string }) =>
+    api.post(`/reminders/${creditorId}/paid-offline`, data || {}),
+};
+
+// Exchange Rates API (rates are quoted as 1 unit of currency = rate units of the base currency)
+export const exchangeRatesAPI = {
+  getAll: (params?: { currency?: string }) => api.get('/exchange-rates', { params }),
+  create: (data: { currency: string; rate: number; effectiveDate: string }) =>
+    api.post('/exchange-rates', data),
+  update: (id: string, data: { currency?: string; rate?: number; effectiveDate?: string }) =>
+    api.put(`/exchange-rates/${id}`, data),
+  delete: (id: string) => api.delete(`/exchange-rates/${id}`),
+  importCSV: (csv: string) => api.post('/exchange-rates/import', { csv }),
+};
+
+// Receipt OCR API (runs on the server without any online service)
+export const ocrAPI = {
+  readReceipt: (data: FormData) =>
+    api.post('/ocr/receipts', data, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    }),
+  getDraft: (id: string) => api.get(`/ocr/drafts/${id}`),
+  discardDraft: (id: string) => api.delete(`/ocr/drafts/${id}`),
+};
+
+// Audit Log API
+export const auditAPI = {
+  getAll: (params?: Record<string, string | number>) => api.get('/audit', { params }),
+  getHistory: (entityType: string, entityId: string) => api.get(`/audit/${entityType}/${entityId}`),
+};
+
+// Security log API
+export const securityAPI = {
+  getEvents: (params?: Record<string, string | number>) => api.get('/security-events', { params }),
+};
+
+// Trash API
+export type TrashType = 'expense' | 'payment' | 'category';
+
+export const trashAPI = {
+  getAll: () => api.get('/trash'),
+  restore: (type: TrashType, id: string) => api.post(`/trash/${type}/${id}/restore`),
+  purge: (type: TrashType, id: string) => api.delete(`/trash/${type}/${id}`),
+  empty: () => api.post('/trash/empty'),
+};
+
+// Live updates API
+export const eventsAPI = {
+  ticket: () => api.post('/events/ticket'),
+};
+
+// Notifications API
+export const notificationsAPI = {
+  getAll: (params?: { unread?: boolean; page?: number; limit?: number }) => api.get('/notifications', { params }),
+  getUnreadCount: () => api.get('/notifications/unread-count'),
+  markRead: (id: string) => api.post(`/notifications/${id}/read`),
+  markAllRead: () => api.post('/notifications/read-all'),
+  getPreferences: () => api.get('/notifications/preferences'),
+  updatePreferences: (preferences: Record<string, boolean>) => api.put('/notifications/preferences', preferences),
+  getEmailPreferences: () => api.get('/notifications/email-preferences'),
+  updateEmailPreferences: (preferences: Record<string, boolean>) => api.put('/notifications/email-preferences', preferences),
+};
+
 // Split Bills API
 export const splitBillsAPI = {
+  getAll: (params?: { page?: number; limit?: number }) => api.get('/split-bills', { params }),
+  getById: (id: string) => api.get(`/split-bills/${id}`),
+  update: (id: string, data: FormData) =>
+    api.put(`/split-bills/${id}`, data, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    }),
   calculate: (data: any) => api.post('/split-bills/calculate', data),
   createExpenses: (data: FormData) =>
     api.post('/split-bills/create-expenses', data, {
@@ -173,6 +359,7 @@ export const dashboardAPI = {
   getTopExpenses: (params?: { period?: string; limit?: number }) =>
     api.get('/dashboard/top-expenses', { params }),
   getBalances: () => api.get('/dashboard/balances'),
+  getDrafts: () => api.get('/dashboard/drafts'),
 };
 
 // Recurring Expenses API
@@ -183,17 +370,26 @@ export const recurringAPI = {
   cancel: (id: string) => api.post(`/recurring/${id}/cancel`),
   reactivate: (id: string) => api.post(`/recurring/${id}/reactivate`),
   delete: (id: string) => api.delete(`/recurring/${id}`),
-  process: () => api.post('/recurring/process'),
+  process: (data?: { dryRun?: boolean; upTo?: string }) => api.post('/recurring/process', data),
+  getRuns: () => api.get('/recurring/runs'),
+  preview: (params: Record<string, string>) => api.get('/recurring/preview', { params }),
 };
 
-// Delete Requests API
-export const deleteRequestsAPI = {
-  getAll: () => api.get('/delete-requests'),
-  create: (data: { recordType: string; recordId: string; reason?: string }) =>
-    api.post('/delete-requests', data),
-  approve: (id: string) => api.post(`/delete-requests/${id}/approve`),
-  reject: (id: string) => api.post(`/delete-requests/${id}/reject`),
-  cancel: (id: string) => api.delete(`/delete-requests/${id}`),
+// Change Requests API (deletions and proposed edits that need an admin's approval)
+export type ChangeRecordType = 'expense' | 'payment' | 'recurring';
+
+export const changeRequestsAPI = {
+  getAll: () => api.get('/change-requests'),
+  create: (data: {
+    recordType: ChangeRecordType;
+    recordId: string;
+    action?: 'delete' | 'edit';
+    changes?: Record<string, unknown>;
+    reason?: string;
+  }) => api.post('/change-requests', data),
+  approve: (id: string, comment?: string) => api.post(`/change-requests/${id}/approve`, { comment }),
+  reject: (id: string, comment?: string) => api.post(`/change-requests/${id}/reject`, { comment }),
+  cancel: (id: string) => api.delete(`/change-requests/${id}`),
 };
 
 // Export API
@@ -0,0 +1,106 @@
+import { useEffect, useRef } from 'react';
+import { API_URL, eventsAPI } from './api';
+
+// Live updates from the server's event stream. Each event names the kinds of data
+// a change touched; pages subscribe to the ones they show and refetch.
+export type EventTopic =
+  | 'expenses'
+  | 'payments'
+  | 'recurring'
+  | 'splitBills'
+  | 'categories'
+  | 'changeRequests'
+  | 'settings'
+  | 'exchangeRates'
+  | 'members'
+  | 'trash'
+  | 'notifications';
+
+export interface ChangeEvent {
+  topics: EventTopic[];
+  actorId: string | null;
+  at: string;
+}
+
+type Listener = (event: ChangeEvent) => void;
+
+const listeners = new Set<{ topics: EventTopic[]; listener: Listener }>();
+
+// Call the listener whenever a change touches one of the topics
+export const subscribeToChanges = (topics: EventTopic[], listener: Listener) => {
+  const entry = { topics, listener };
+  listeners.add(entry);
+  return () => {
+    listeners.delete(entry);
+  };
+};
+
+const dispatch = (event: ChangeEvent) => {
+  for (const { topics, listener } of listeners) {
+    if (event.topics.some(topic => topics.includes(topic))) listener(event);
+  }
+};
+
+// How long to wait before reopening a dropped stream
+const RECONNECT_MS = 5000;
+
+// Open the stream for the active household. The stream is opened with a short-lived
+// ticket rather than the access token, so a dropped connection is reopened with a new
+// ticket; the returned function closes it for good.
+export const connectEvents = () => {
+  let source: EventSource | null = null;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const reconnect = () => {
+    source?.close();
+    if (!closed) retry = setTimeout(open, RECONNECT_MS);
+  };
+
+  const open = async () => {
+    try {
+      const response = await eventsAPI.ticket();
+      if (closed) return;
+
+      source = new EventSource(`${API_URL}/events?${new URLSearchParams({ ticket: response.data.ticket })}`);
+      source.addEventListener('change', (e) => {
+        try {
+          dispatch(JSON.parse((e as MessageEvent).data));
+        } catch (error) {
+          console.error('Invalid change event:', error);
+        }
+      });
+      source.onerror = reconnect;
+    } catch (error) {
+      reconnect();
+    }
+  };
+
+  open();
+  return () => {
+    closed = true;
+    clearTimeout(retry);
+    source?.close();
+  };
+};
+
+// Refetch a page's data when a change touches one of the topics. Bursts of events
+// (e.g. a bulk import) are collapsed into a single refresh.
+export const useLiveUpdates = (topics: EventTopic[], refresh: () => void, delayMs = 300) => {
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+  const key = topics.join(',');
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeToChanges(key.split(',') as EventTopic[], () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => refreshRef.current(), delayMs);
+    });
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [key, delayMs]);
+};
@@ -0,0 +1,85 @@
+// The API exchanges every amount as integer minor units (e.g. sen/cents) of the
+// amount's own currency. These helpers convert at the edges: form inputs in,
+// formatted strings out.
+
+// ISO 4217 minor unit exponents for the currencies that don't use hundredths (same as the server)
+const MINOR_DIGITS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+// Digits after the decimal point for a currency (2 unless it's listed above)
+export const minorDigits = (currency: string): number => MINOR_DIGITS[currency.toUpperCase()] ?? 2;
+
+const minorUnitsPerMajor = (currency: string) => 10 ** minorDigits(currency);
+
+// Step for an amount input in a currency ("0.01", "1", "0.001")
+export const amountStep = (currency: string): string =>
+  minorDigits(currency) > 0 ? `0.${'1'.padStart(minorDigits(currency), '0')}` : '1';
+
+// Parse a typed decimal amount ("12.50") into minor units of a currency without float drift.
+// Returns NaN for anything that isn't a number.
+export const toMinor = (value: string | number, currency: string): number => {
+  const match = /^\s*(-?)(\d*)(?:\.(\d*))?\s*$/.exec(String(value));
+  if (!match || (!match[2] && !match[3])) return NaN;
+
+  const [, sign, whole, fraction = ''] = match;
+  const places = minorDigits(currency);
+  const digits = fraction.padEnd(places + 1, '0');
+  let minor = parseInt(whole || '0', 10) * minorUnitsPerMajor(currency) + parseInt(digits.slice(0, places) || '0', 10);
+  // Round half away from zero on the first decimal the currency doesn't have
+  if (parseInt(digits[places], 10) >= 5) minor += 1;
+
+  return sign ? -minor : minor;
+};
+
+// Minor units of a currency to a major-unit number, for charts and numeric inputs
+export const fromMinor = (amount: number, currency: string): number => amount / minorUnitsPerMajor(currency);
+
+// Minor units as a string with the currency's decimals (MYR 1250 -> "12.50", JPY 1250 -> "1250")
+export const formatMoney = (amount: number, currency: string): string => {
+  const sign = amount < 0 ? '-' : '';
+  const abs = Math.abs(Math.round(amount));
+  const places = minorDigits(currency);
+  if (places === 0) return `${sign}${abs}`;
+
+  const whole = Math.floor(abs / minorUnitsPerMajor(currency));
+  const fraction = String(abs % minorUnitsPerMajor(currency)).padStart(places, '0');
+  return `${sign}${whole}.${fraction}`;
+};
+
+// Label shown before a record's amount: the household's display symbol when the record
+// is in the base currency, otherwise the record's own ISO 4217 code
+export const currencyLabel = (recordCurrency: string | undefined, baseCurrency: string, symbol: string) =>
+  !recordCurrency || recordCurrency === baseCurrency ? symbol : recordCurrency;
+
+// Split a total across weights using the largest remainder method (same as the server).
+// Parts are whole minor units that always sum to the total; ties go to the earlier entry.
+export const allocate = (total: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  if (weights.length === 0) return [];
+  if (weightSum <= 0) return allocateEvenly(total, weights.length);
+
+  const sign = total < 0 ? -1 : 1;
+  const abs = Math.abs(total);
+
+  const exact = weights.map((w) => (abs * Math.max(0, w)) / weightSum);
+  const parts = exact.map(Math.floor);
+  let leftover = abs - parts.reduce((sum, p) => sum + p, 0);
+
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0; i = (i + 1) % order.length, leftover--) {
+    parts[order[i].index] += 1;
+  }
+
+  return parts.map((p) => p * sign);
+};
+
+// Split a total evenly between count people (earlier entries absorb the remainder)
+export const allocateEvenly = (total: number, count: number): number[] =>
+  count > 0 ? allocate(total, new Array(count).fill(1)) : [];
@@ -5,19 +5,34 @@ import {
   ClockIcon,
   CurrencyDollarIcon,
   CreditCardIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+  UserIcon,
+  HomeIcon,
+  ShieldCheckIcon,
 } from '@heroicons/react/24/outline';
-import { deleteRequestsAPI } from '../lib/api';
-import { useAuthStore } from '../stores/authStore';
+import { changeRequestsAPI } from '../lib/api';
+import { currencyLabel, formatMoney } from '../lib/money';
+import { can, useAuthStore, selectBaseCurrency } from '../stores/authStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { fieldLabel, formatValue, useAuditNames } from '../components/HistoryModal';
 import LoadingSpinner from '../components/LoadingSpinner';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
+import { useLiveUpdates } from '../lib/events';
 
-interface DeleteRequest {
+interface ChangeRequest {
   id: string;
-  recordType: string;
+  recordType: 'expense' | 'payment' | 'recurring' | 'user' | 'household' | 'settings';
   recordId: string;
+  action: 'delete' | 'edit' | 'reset-all-passwords' | 'promote-admin' | 'delete-user' | 'approval-rules';
+  quorum: string;
+  diff: Record<string, { from: unknown; to: unknown }> | null;
+  problem: string | null;
   reason: string | null;
   status: string;
+  reviewComment: string | null;
+  reviewedAt: string | null;
   createdAt: string;
   requestedBy: {
     id: string;
@@ -25,30 +40,78 @@ interface DeleteRequest {
     displayName: string;
     avatarUrl: string | null;
   };
-  approvedBy: {
+  reviewedBy: {
     id: string;
     username: string;
     displayName: string;
   } | null;
   record: any;
+  votes: {
+    id: string;
+    approve: boolean;
+    comment: string | null;
+    voter: { id: string; displayName: string };
+  }[];
+  tally: {
+    approvals: number;
+    rejections: number;
+    required: number;
+    eligible: number;
+    canVote: boolean;
+    myVote: boolean | null;
+  };
 }
 
+const RECORD_ICONS = {
+  expense: { icon: CurrencyDollarIcon, bg: 'bg-blue-500/20', text: 'text-blue-400' },
+  payment: { icon: CreditCardIcon, bg: 'bg-green-500/20', text: 'text-green-400' },
+  recurring: { icon: ArrowPathIcon, bg: 'bg-purple-500/20', text: 'text-purple-400' },
+  user: { icon: UserIcon, bg: 'bg-orange-500/20', text: 'text-orange-400' },
+  household: { icon: HomeIcon, bg: 'bg-red-500/20', text: 'text-red-400' },
+  settings: { icon: ShieldCheckIcon, bg: 'bg-orange-500/20', text: 'text-orange-400' },
+};
+
+const ACTION_BADGES = {
+  edit: { label: 'Edit', style: 'bg-blue-500/20 text-blue-400' },
+  delete: { label: 'Delete', style: 'bg-red-500/20 text-red-400' },
+  'reset-all-passwords': { label: 'Reset all passwords', style: 'bg-red-500/20 text-red-400' },
+  'promote-admin': { label: 'Make owner', style: 'bg-orange-500/20 text-orange-400' },
+  'delete-user': { label: 'Delete member', style: 'bg-red-500/20 text-red-400' },
+  'approval-rules': { label: 'Approval rules', style: 'bg-orange-500/20 text-orange-400' },
+};
+
+// How a rule reads, e.g. "2 reviewers" or "a majority of members"
+const describeQuorum = (quorum: string) => {
+  if (quorum === 'majority') return 'a majority of members';
+  if (quorum === 'all') return 'all members';
+  return quorum === '1' ? 'one reviewer' : `${quorum} reviewers`;
+};
+
 export default function Actions() {
   const { user } = useAuthStore();
-  const [requests, setRequests] = useState<DeleteRequest[]>([]);
+  const baseCurrency = useAuthStore(selectBaseCurrency);
+  const { currency } = useSettingsStore();
+  const names = useAuditNames();
+  const [requests, setRequests] = useState<ChangeRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'pending' | 'all'>('pending');
+  const [comments, setComments] = useState<Record<string, string>>({});
 
   useEffect(() => {
     fetchRequests();
   }, []);
 
+  // Refresh when requests are made, voted on or cancelled
+  useLiveUpdates(['changeRequests'], () => {
+    fetchRequests();
+  });
+
   const fetchRequests = async () => {
     try {
-      const response = await deleteRequestsAPI.getAll();
+      const response = await changeRequestsAPI.getAll();
       setRequests(response.data);
     } catch (error) {
-      toast.error('Failed to fetch delete requests');
+      toast.error('Failed to fetch change requests');
     } finally {
       setLoading(false);
     }
@@ -56,8 +119,8 @@ export default function Actions() {
 
   const handleApprove = async (id: string) => {
     try {
-      await deleteRequestsAPI.approve(id);
-      toast.success('Delete request approved');
+      const response = await changeRequestsAPI.approve(id, comments[id] || undefined);
+      toast.success(response.data.message);
       fetchRequests();
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to approve');
@@ -66,8 +129,8 @@ export default function Actions() {
 
   const handleReject = async (id: string) => {
     try {
-      await deleteRequestsAPI.reject(id);
-      toast.success('Delete request rejected');
+      const response = await changeRequestsAPI.reject(id, comments[id] || undefined);
+      toast.success(response.data.message);
       fetchRequests();
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to reject');
@@ -76,20 +139,122 @@ export default function Actions() {
 
   const handleCancel = async (id: string) => {
     try {
-      await deleteRequestsAPI.cancel(id);
-      toast.success('Delete request cancelled');
+      await changeRequestsAPI.cancel(id);
+      toast.success('Change request cancelled');
       fetchRequests();
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to cancel');
     }
   };
 
-  const filteredRequests = filter === 'pending' 
+  const filteredRequests = filter === 'pending'
     ? requests.filter(r => r.status === 'pending')
     : requests;
 
   const pendingCount = requests.filter(r => r.status === 'pending').length;
 
+  const amountLabel = (record: { currency?: string }) => currencyLabel(record.currency, baseCurrency, currency);
+
+  const renderRecord = (request: ChangeRequest) => {
+    const record = request.record;
+    if (request.recordType === 'user') {
+      return <p className="font-medium">{record.displayName}</p>;
+    }
+    if (request.recordType === 'household') {
+      return <p className="font-medium">Every member of {record.name}</p>;
+    }
+    if (request.recordType === 'settings') {
+      return <p className="font-medium">Approval rules of {record.name}</p>;
+    }
+    if (request.recordType === 'payment') {
+      return (
+        <>
+          <p className="font-medium">
+            {record.fromUser?.displayName} → {record.toUser?.displayName}
+          </p>
+          <p className="text-lg font-bold text-green-400">
+            {amountLabel(record)} {formatMoney(record.amount, record.currency || baseCurrency)}
+          </p>
+        </>
+      );
+    }
+    return (
+      <>
+        <p className="font-medium">{record.description}</p>
+        <p className="text-lg font-bold text-purple-400">
+          {amountLabel(record)} {formatMoney(record.amount, record.currency || baseCurrency)}
+        </p>
+        <p className="text-xs text-white/50">
+          by {record.user?.displayName} • {request.recordType === 'recurring'
+            ? `next due ${format(new Date(record.nextDueDate), 'MMM d, yyyy')}`
+            : format(new Date(record.date), 'MMM d, yyyy')}
+        </p>
+      </>
+    );
+  };
+
+  // Current and proposed values side by side
+  const renderDiff = (request: ChangeRequest) => {
+    const fields = Object.entries(request.diff || {});
+    if (fields.length === 0) return null;
+
+    const pending = request.status === 'pending';
+    // Proposed amounts are in the proposed currency when the request changes it
+    const fromCurrency = (request.diff?.currency?.from as string | undefined) || request.record.currency || baseCurrency;
+    const toCurrency = (request.diff?.currency?.to as string | undefined) || request.record.currency || baseCurrency;
+    return (
+      <div className="mt-3 rounded-xl overflow-hidden border border-white/10 text-sm">
+        <div className="grid grid-cols-3 gap-2 px-3 py-2 bg-white/5 text-xs text-white/50">
+          <span>Field</span>
+          <span>{pending ? 'Current' : 'Before'}</span>
+          <span>{pending ? 'Proposed' : 'After'}</span>
+        </div>
+        {fields.map(([field, change]) => (
+          <div key={field} className="grid grid-cols-3 gap-2 px-3 py-2 border-t border-white/5">
+            <span className="text-white/50">{fieldLabel(field)}</span>
+            <span className="text-red-300/80 break-words">{formatValue(field, change.from, names, fromCurrency)}</span>
+            <span className="text-green-300 break-words">{formatValue(field, change.to, names, toCurrency)}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Approvals so far against the quorum, and who voted which way
+  const renderVotes = (request: ChangeRequest) => {
+    const { tally } = request;
+    if (request.quorum === '1' && request.votes.length === 0) return null;
+
+    const progress = Math.min(100, (tally.approvals / Math.max(tally.required, 1)) * 100);
+    return (
+      <div className="mt-3 space-y-2">
+        <div className="flex items-center justify-between text-xs text-white/60">
+          <span>Needs {describeQuorum(request.quorum)}</span>
+          <span>{tally.approvals} of {tally.required} approvals</span>
+        </div>
+        <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${progress}%` }} />
+        </div>
+        {request.votes.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {request.votes.map(vote => (
+              <span
+                key={vote.id}
+                title={vote.comment || undefined}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded-lg text-xs ${
+                  vote.approve ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+                }`}
+              >
+                {vote.approve ? <CheckIcon className="w-3 h-3" /> : <XMarkIcon className="w-3 h-3" />}
+                {vote.voter.displayName}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (loading) return <LoadingSpinner />;
 
   return (
@@ -99,7 +264,7 @@ export default function Actions() {
         <div>
           <h1 className="text-2xl lg:text-3xl font-bold text-white">Actions</h1>
           <p className="text-white/60 mt-1">
-            {user?.isAdmin ? 'Review and approve delete requests' : 'Your delete requests'}
+            {can(user, 'changeRequest.review') ? 'Review and approve edits, deletions and other sensitive actions' : 'Your change requests and the actions waiting for your vote'}
           </p>
         </div>
         <div className="flex gap-2">
@@ -132,119 +297,137 @@ export default function Actions() {
           <div className="glass-card p-12 text-center">
             <ClockIcon className="w-12 h-12 text-white/30 mx-auto mb-4" />
             <p className="text-white/60">
-              {filter === 'pending' ? 'No pending delete requests' : 'No delete requests'}
+              {filter === 'pending' ? 'No pending change requests' : 'No change requests'}
             </p>
           </div>
         ) : (
-          filteredRequests.map((request) => (
-            <div key={request.id} className="glass-card p-4">
-              <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
-                <div className="flex items-start gap-4">
-                  <div className={`p-3 rounded-xl ${
-                    request.recordType === 'expense' ? 'bg-blue-500/20' : 'bg-green-500/20'
-                  }`}>
-                    {request.recordType === 'expense' ? (
-                      <CurrencyDollarIcon className="w-6 h-6 text-blue-400" />
-                    ) : (
-                      <CreditCardIcon className="w-6 h-6 text-green-400" />
-                    )}
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className={`px-2 py-0.5 rounded-lg text-xs font-medium ${
-                        request.status === 'pending' ? 'bg-yellow-500/20 text-yellow-400' :
-                        request.status === 'approved' ? 'bg-green-500/20 text-green-400' :
-                        'bg-red-500/20 text-red-400'
-                      }`}>
-                        {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
-                      </span>
-                      <span className="text-xs text-white/50 capitalize">
-                        {request.recordType}
-                      </span>
+          filteredRequests.map((request) => {
+            const { icon: RecordIcon, bg, text } = RECORD_ICONS[request.recordType] || RECORD_ICONS.expense;
+            return (
+              <div key={request.id} className="glass-card p-4">
+                <div className="flex flex-col lg:flex-row lg:items-start justify-between gap-4">
+                  <div className="flex items-start gap-4 flex-1 min-w-0">
+                    <div className={`p-3 rounded-xl ${bg}`}>
+                      <RecordIcon className={`w-6 h-6 ${text}`} />
                     </div>
-                    
-                    {/* Record details */}
-                    {request.record ? (
-                      <div className="text-white">
-                        {request.recordType === 'expense' ? (
-                          <>
-                            <p className="font-medium">{request.record.description}</p>
-                            <p className="text-lg font-bold text-purple-400">
-                              RM {request.record.amount.toFixed(2)}
-                            </p>
-                            <p className="text-xs text-white/50">
-                              by {request.record.user?.displayName} • {format(new Date(request.record.date), 'MMM d, yyyy')}
-                            </p>
-                          </>
-                        ) : (
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className={`px-2 py-0.5 rounded-lg text-xs font-medium ${
+                          request.status === 'pending' ? 'bg-yellow-500/20 text-yellow-400' :
+                          request.status === 'approved' ? 'bg-green-500/20 text-green-400' :
+                          request.status === 'cancelled' ? 'bg-white/10 text-white/50' :
+                          'bg-red-500/20 text-red-400'
+                        }`}>
+                          {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded-lg text-xs font-medium ${ACTION_BADGES[request.action].style}`}>
+                          {ACTION_BADGES[request.action].label}
+                        </span>
+                        <span className="text-xs text-white/50 capitalize">
+                          {request.recordType}
+                        </span>
+                      </div>
+
+                      {/* Record details */}
+                      {request.record ? (
+                        <div className="text-white">{renderRecord(request)}</div>
+                      ) : (
+                        <p className="text-white/50 italic">Record has been deleted</p>
+                      )}
+                      {request.record?.isDeleted && (
+                        <p className="text-xs text-white/50 italic mt-1">
+                          {request.recordType === 'user' ? 'Account deleted' : 'In the trash'}
+                        </p>
+                      )}
+
+                      {request.action === 'edit' && renderDiff(request)}
+
+                      {renderVotes(request)}
+
+                      {request.problem && (
+                        <p className="flex items-center gap-2 text-sm text-yellow-400 mt-2">
+                          <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" />
+                          Can no longer be applied: {request.problem}
+                        </p>
+                      )}
+
+                      {request.reason && (
+                        <p className="text-sm text-white/60 mt-2">
+                          Reason: {request.reason}
+                        </p>
+                      )}
+
+                      {request.reviewComment && (
+                        <p className="text-sm text-white/60 mt-1">
+                          Reviewer's comment: {request.reviewComment}
+                        </p>
+                      )}
+
+                      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-white/50">
+                        <span>Requested by {request.requestedBy.displayName}</span>
+                        <span>•</span>
+                        <span>{format(new Date(request.createdAt), 'MMM d, yyyy h:mm a')}</span>
+                        {request.reviewedBy && (
                           <>
-                            <p className="font-medium">
-                              {request.record.fromUser?.displayName} → {request.record.toUser?.displayName}
-                            </p>
-                            <p className="text-lg font-bold text-green-400">
-                              RM {request.record.amount.toFixed(2)}
-                            </p>
+                            <span>•</span>
+                            <span>{request.status} by {request.reviewedBy.displayName}</span>
                           </>
                         )}
                       </div>
-                    ) : (
-                      <p className="text-white/50 italic">Record has been deleted</p>
-                    )}
-
-                    {request.reason && (
-                      <p className="text-sm text-white/60 mt-2">
-                        Reason: {request.reason}
-                      </p>
-                    )}
-                    
-                    <div className="flex items-center gap-2 mt-2 text-xs text-white/50">
-                      <span>Requested by {request.requestedBy.displayName}</span>
-                      <span>•</span>
-                      <span>{format(new Date(request.createdAt), 'MMM d, yyyy h:mm a')}</span>
-                      {request.approvedBy && (
-                        <>
-                          <span>•</span>
-                          <span>{request.status} by {request.approvedBy.displayName}</span>
-                        </>
-                      )}
                     </div>
                   </div>
-                </div>
 
-                {/* Actions */}
-                {request.status === 'pending' && (
-                  <div className="flex gap-2">
-                    {user?.isAdmin ? (
-                      <>
-                        <button
-                          onClick={() => handleApprove(request.id)}
-                          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-green-500/20 text-green-400 hover:bg-green-500/30 transition-colors"
-                        >
-                          <CheckIcon className="w-4 h-4" />
-                          Approve
-                        </button>
+                  {/* Actions */}
+                  {request.status === 'pending' && (
+                    <div className="flex flex-col gap-2 lg:w-64">
+                      {request.tally.canVote && (
+                        <>
+                          <input
+                            type="text"
+                            value={comments[request.id] || ''}
+                            onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                            className="glass-input text-sm"
+                            placeholder="Comment (optional)"
+                          />
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleApprove(request.id)}
+                              disabled={!!request.problem}
+                              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-green-500/20 text-green-400 hover:bg-green-500/30 transition-colors disabled:opacity-40"
+                            >
+                              <CheckIcon className="w-4 h-4" />
+                              Approve
+                            </button>
+                            <button
+                              onClick={() => handleReject(request.id)}
+                              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-colors"
+                            >
+                              <XMarkIcon className="w-4 h-4" />
+                              Reject
+                            </button>
+                          </div>
+                        </>
+                      )}
+                      {request.tally.myVote !== null && (
+                        <p className="text-xs text-white/50 text-center">
+                          You voted to {request.tally.myVote ? 'approve' : 'reject'}
+                        </p>
+                      )}
+                      {request.requestedBy.id === user?.id && (
                         <button
-                          onClick={() => handleReject(request.id)}
-                          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-colors"
+                          onClick={() => handleCancel(request.id)}
+                          className="flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-gray-500/20 text-gray-400 hover:bg-gray-500/30 transition-colors"
                         >
                           <XMarkIcon className="w-4 h-4" />
-                          Reject
+                          Cancel
                         </button>
-                      </>
-                    ) : request.requestedBy.id === user?.id && (
-                      <button
-                        onClick={() => handleCancel(request.id)}
-                        className="flex items-center gap-2 px-4 py-2 rounded-xl bg-gray-500/20 text-gray-400 hover:bg-gray-500/30 transition-colors"
-                      >
-                        <XMarkIcon className="w-4 h-4" />
-                        Cancel
-                      </button>
-                    )}
-                  </div>
-                )}
+                      )}
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
-          ))
+            );
+          })
         )}
       </div>
     </div>
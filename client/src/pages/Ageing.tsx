@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { BellAlertIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { remindersAPI } from '../lib/api';
+import { useSettingsStore } from '../stores/settingsStore';
+import { selectBaseCurrency, useAuthStore } from '../stores/authStore';
+import { formatMoney } from '../lib/money';
+import LoadingSpinner from '../components/LoadingSpinner';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { useLiveUpdates } from '../lib/events';
+
+type Bucket = 'current' | 'days31to60' | 'over60';
+
+interface AgeingRow {
+  debtor: { id: string; displayName: string };
+  creditor: { id: string; displayName: string };
+  balance: number;
+  oldestDate: string;
+  buckets: Record<Bucket, number>;
+  reminder: { level: number; lastSentAt: string | null; snoozedUntil: string | null } | null;
+}
+
+interface AgeingReport {
+  asOf: string;
+  buckets: { key: Bucket; label: string }[];
+  schedule: { afterDays: number; repeatDays: number };
+  rows: AgeingRow[];
+  totals: Record<Bucket | 'balance', number>;
+}
+
+const BUCKET_COLORS: Record<Bucket, string> = {
+  current: 'text-white',
+  days31to60: 'text-yellow-400',
+  over60: 'text-red-400',
+};
+
+export default function Ageing() {
+  const { currency } = useSettingsStore();
+  const baseCurrency = useAuthStore(selectBaseCurrency);
+  const [report, setReport] = useState<AgeingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  // Balances change with every expense and payment
+  useLiveUpdates(['expenses', 'payments'], () => {
+    fetchReport();
+  });
+
+  const fetchReport = async () => {
+    try {
+      const response = await remindersAPI.getAgeing();
+      setReport(response.data);
+    } catch (error) {
+      toast.error('Failed to load the ageing report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendReminders = async () => {
+    setSending(true);
+    try {
+      const response = await remindersAPI.run();
+      toast.success(response.data.message);
+      fetchReport();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send reminders');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const describeReminder = (row: AgeingRow) => {
+    if (!row.reminder) return 'Not reminded yet';
+    const parts = [];
+    if (row.reminder.level > 0 && row.reminder.lastSentAt) {
+      parts.push(`Reminded ${row.reminder.level}×, last ${format(new Date(row.reminder.lastSentAt), 'MMM d')}`);
+    }
+    if (row.reminder.snoozedUntil && new Date(row.reminder.snoozedUntil) > new Date()) {
+      parts.push(`snoozed until ${format(new Date(row.reminder.snoozedUntil), 'MMM d')}`);
+    }
+    return parts.join(' • ') || 'Not reminded yet';
+  };
+
+  if (loading || !report) return <LoadingSpinner />;
+
+  return (
+    <div className="space-y-6 animate-slide-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-white">Overdue Balances</h1>
+          <p className="text-white/60 mt-1">
+            {report.schedule.afterDays > 0
+              ? `Members are reminded ${report.schedule.afterDays} days after a split and then every ${report.schedule.repeatDays} days until settled`
+              : 'Payment reminders are turned off in Settings'}
+          </p>
+        </div>
+        <button
+          onClick={handleSendReminders}
+          disabled={sending || report.schedule.afterDays === 0}
+          className="glass-button flex items-center gap-2 disabled:opacity-50"
+        >
+          <BellAlertIcon className="w-5 h-5" />
+          {sending ? 'Sending...' : 'Send Due Reminders'}
+        </button>
+      </div>
+
+      {/* Bucket Totals */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="glass-card p-4">
+          <p className="text-sm text-white/60">Total owed</p>
+          <p className="text-2xl font-bold text-purple-400">{currency} {formatMoney(report.totals.balance, baseCurrency)}</p>
+        </div>
+        {report.buckets.map(bucket => (
+          <div key={bucket.key} className="glass-card p-4">
+            <p className="text-sm text-white/60">{bucket.label}</p>
+            <p className={`text-2xl font-bold ${BUCKET_COLORS[bucket.key]}`}>
+              {currency} {formatMoney(report.totals[bucket.key], baseCurrency)}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Who Owes Whom */}
+      {report.rows.length === 0 ? (
+        <div className="glass-card p-12 text-center">
+          <CheckIcon className="w-12 h-12 text-green-400 mx-auto mb-4" />
+          <p className="text-white/60">Everyone is settled up</p>
+        </div>
+      ) : (
+        <div className="glass-card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-white/10">
+                  <th className="table-header">Owes</th>
+                  <th className="table-header">To</th>
+                  <th className="table-header">Unpaid Since</th>
+                  {report.buckets.map(bucket => (
+                    <th key={bucket.key} className="table-header">{bucket.label}</th>
+                  ))}
+                  <th className="table-header">Total</th>
+                  <th className="table-header">Reminders</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map(row => (
+                  <tr key={`${row.debtor.id}:${row.creditor.id}`} className="table-row">
+                    <td className="table-cell">{row.debtor.displayName}</td>
+                    <td className="table-cell">{row.creditor.displayName}</td>
+                    <td className="table-cell">{format(new Date(row.oldestDate), 'MMM d, yyyy')}</td>
+                    {report.buckets.map(bucket => (
+                      <td key={bucket.key} className={`table-cell ${row.buckets[bucket.key] > 0 ? BUCKET_COLORS[bucket.key] : 'text-white/30'}`}>
+                        {formatMoney(row.buckets[bucket.key], baseCurrency)}
+                      </td>
+                    ))}
+                    <td className="table-cell font-semibold">{currency} {formatMoney(row.balance, baseCurrency)}</td>
+                    <td className="table-cell text-xs text-white/50">{describeReminder(row)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
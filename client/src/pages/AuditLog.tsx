@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { ClockIcon, FunnelIcon } from '@heroicons/react/24/outline';
+import { auditAPI, usersAPI } from '../lib/api';
+import { AuditEntry, AuditEntryCard, useAuditNames } from '../components/HistoryModal';
+import LoadingSpinner from '../components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface Member {
+  id: string;
+  displayName: string;
+}
+
+const ENTITY_TYPES = [
+  { value: 'expense', label: 'Expenses' },
+  { value: 'payment', label: 'Payments' },
+  { value: 'recurring', label: 'Recurring' },
+  { value: 'category', label: 'Categories' },
+  { value: 'exchangeRate', label: 'Exchange rates' },
+  { value: 'settings', label: 'Settings' },
+  { value: 'household', label: 'Household' },
+  { value: 'user', label: 'Members' },
+  { value: 'invitation', label: 'Invitations' },
+  { value: 'changeRequest', label: 'Change requests' },
+];
+
+const ACTIONS = [
+  'create', 'update', 'delete', 'restore', 'purge', 'confirm', 'status', 'cancel', 'reactivate', 'import',
+  'add-member', 'remove-member', 'reset-password', 'send-password-reset', 'reset-two-factor',
+  'revoke', 'decline', 'promote-skipped', 'unlock',
+];
+
+export default function AuditLog() {
+  const names = useAuditNames();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState({
+    entityType: '',
+    action: '',
+    actorId: '',
+    startDate: '',
+    endDate: '',
+  });
+  const [pagination, setPagination] = useState({ page: 1, pages: 1, total: 0 });
+
+  useEffect(() => {
+    usersAPI.getAll().then(response => setMembers(response.data)).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    fetchEntries(1);
+  }, [filter]);
+
+  const fetchEntries = async (page: number) => {
+    try {
+      const params: Record<string, string | number> = { page, limit: 50 };
+      Object.entries(filter).forEach(([key, value]) => {
+        if (value) params[key] = value;
+      });
+
+      const response = await auditAPI.getAll(params);
+      setEntries(response.data.entries);
+      setPagination(response.data.pagination);
+    } catch (error) {
+      toast.error('Failed to fetch audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (key: keyof typeof filter, value: string) =>
+    setFilter(prev => ({ ...prev, [key]: value }));
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="space-y-6 animate-slide-in">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl lg:text-3xl font-bold text-white">Audit Log</h1>
+        <p className="text-white/60 mt-1">Every change to the household's records, who made it and why</p>
+      </div>
+
+      {/* Filters */}
+      <div className="glass-card p-4">
+        <div className="flex items-center gap-2 text-white/60 text-sm mb-3">
+          <FunnelIcon className="w-4 h-4" />
+          <span>Filters</span>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+          <select
+            value={filter.entityType}
+            onChange={(e) => updateFilter('entityType', e.target.value)}
+            className="glass-select"
+          >
+            <option value="">All records</option>
+            {ENTITY_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+          <select
+            value={filter.action}
+            onChange={(e) => updateFilter('action', e.target.value)}
+            className="glass-select"
+          >
+            <option value="">All actions</option>
+            {ACTIONS.map(action => (
+              <option key={action} value={action}>{action.replace(/-/g, ' ')}</option>
+            ))}
+          </select>
+          <select
+            value={filter.actorId}
+            onChange={(e) => updateFilter('actorId', e.target.value)}
+            className="glass-select"
+          >
+            <option value="">Anyone</option>
+            {members.map(member => (
+              <option key={member.id} value={member.id}>{member.displayName}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filter.startDate}
+            onChange={(e) => updateFilter('startDate', e.target.value)}
+            className="glass-input"
+            title="From"
+          />
+          <input
+            type="date"
+            value={filter.endDate}
+            onChange={(e) => updateFilter('endDate', e.target.value)}
+            className="glass-input"
+            title="To"
+          />
+        </div>
+      </div>
+
+      {/* Entries */}
+      {entries.length === 0 ? (
+        <div className="glass-card p-12 text-center">
+          <ClockIcon className="w-12 h-12 text-white/30 mx-auto mb-4" />
+          <p className="text-white/60">No changes match these filters</p>
+        </div>
+      ) : (
+        <div className="glass-card p-4 space-y-3">
+          {entries.map(entry => (
+            <AuditEntryCard key={entry.id} entry={entry} names={names} showRecord />
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {pagination.pages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-white/50">{pagination.total} entries</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => fetchEntries(pagination.page - 1)}
+              disabled={pagination.page <= 1}
+              className="glass-button-secondary disabled:opacity-40"
+            >
+              Previous
+            </button>
+            <span className="px-3 py-2 text-white/70 text-sm">
+              {pagination.page} / {pagination.pages}
+            </span>
+            <button
+              onClick={() => fetchEntries(pagination.page + 1)}
+              disabled={pagination.page >= pagination.pages}
+              className="glass-button-secondary disabled:opacity-40"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
 import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
 import { categoriesAPI } from '../lib/api';
-import { useAuthStore } from '../stores/authStore';
+import { can, useAuthStore } from '../stores/authStore';
 import Modal from '../components/Modal';
 import LoadingSpinner from '../components/LoadingSpinner';
 import toast from 'react-hot-toast';
+import { useLiveUpdates } from '../lib/events';
 
 interface Category {
   id: string;
@@ -34,9 +35,14 @@ export default function Categories() {
     fetchCategories();
   }, []);
 
-  const fetchCategories = async () => {
+  // Refresh quietly when someone else changes a category
+  useLiveUpdates(['categories'], () => {
+    fetchCategories(true);
+  });
+
+  const fetchCategories = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const response = await categoriesAPI.getAll();
       setCategories(response.data);
     } catch (error) {
@@ -83,13 +89,13 @@ export default function Categories() {
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure? Expenses with this category will become uncategorized.')) {
+    if (!confirm('Move this category to the trash? Its expenses keep it until the trash is purged.')) {
       return;
     }
 
     try {
       await categoriesAPI.delete(id);
-      toast.success('Category deleted successfully');
+      toast.success('Category moved to the trash');
       fetchCategories();
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to delete category');
@@ -113,7 +119,7 @@ export default function Categories() {
           <h1 className="text-2xl lg:text-3xl font-bold text-white">Categories</h1>
           <p className="text-white/60 mt-1">Manage expense categories</p>
         </div>
-        {user?.isAdmin && (
+        {can(user, 'category.write') && (
           <button
             onClick={() => {
               resetForm();
@@ -149,7 +155,7 @@ export default function Categories() {
               </div>
             </div>
 
-            {user?.isAdmin && !category.isDefault && (
+            {can(user, 'category.write') && !category.isDefault && (
               <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                 <button
                   onClick={() => handleEdit(category)}
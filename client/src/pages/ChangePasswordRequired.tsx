@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { authAPI, usersAPI } from '../lib/api';
+import { useAuthStore } from '../stores/authStore';
+import AuthCard from '../components/AuthCard';
+import toast from 'react-hot-toast';
+
+// Shown instead of the app after an admin reset the password: the admin knows it,
+// so the user has to choose their own before doing anything else
+export default function ChangePasswordRequired() {
+  const { refreshToken, updateUser, logout } = useAuthStore();
+  const [passwordData, setPasswordData] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: '',
+  });
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (passwordData.newPassword.length < 6) {
+      toast.error('Password must be at least 6 characters');
+      return;
+    }
+    if (passwordData.newPassword !== passwordData.confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await usersAPI.updateProfile({
+        currentPassword: passwordData.currentPassword,
+        newPassword: passwordData.newPassword,
+      });
+      updateUser({ mustChangePassword: false });
+      toast.success('Password changed');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to change password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      if (refreshToken) await authAPI.logout(refreshToken);
+    } catch (error) {
+      // Log out locally even if the server call fails
+    }
+    logout();
+  };
+
+  return (
+    <AuthCard title="Choose a New Password" subtitle="Your password was reset by an admin. Please pick your own to continue.">
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">Password from your admin</label>
+          <input
+            type="password"
+            value={passwordData.currentPassword}
+            onChange={(e) => setPasswordData({ ...passwordData, currentPassword: e.target.value })}
+            className="glass-input"
+            autoComplete="current-password"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">New Password</label>
+          <input
+            type="password"
+            value={passwordData.newPassword}
+            onChange={(e) => setPasswordData({ ...passwordData, newPassword: e.target.value })}
+            className="glass-input"
+            autoComplete="new-password"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">Confirm New Password</label>
+          <input
+            type="password"
+            value={passwordData.confirmPassword}
+            onChange={(e) => setPasswordData({ ...passwordData, confirmPassword: e.target.value })}
+            className="glass-input"
+            autoComplete="new-password"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="glass-button w-full py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Saving...' : 'Change Password'}
+        </button>
+      </form>
+
+      <button onClick={handleLogout} className="w-full text-center text-white/60 hover:text-white/80 mt-6 text-sm">
+        Log out
+      </button>
+    </AuthCard>
+  );
+}
@@ -22,13 +22,17 @@ import {
   BanknotesIcon,
   BoltIcon,
   BeakerIcon,
+  DocumentTextIcon,
 } from '@heroicons/react/24/outline';
 import { dashboardAPI, categoriesAPI } from '../lib/api';
+import { currencyLabel, formatMoney, fromMinor } from '../lib/money';
 import { useSettingsStore } from '../stores/settingsStore';
-import { useAuthStore } from '../stores/authStore';
+import { canActOn, useAuthStore, selectBaseCurrency } from '../stores/authStore';
 import LoadingSpinner from '../components/LoadingSpinner';
+import ConfirmDraftModal, { DraftExpense } from '../components/ConfirmDraftModal';
 import { format } from 'date-fns';
 import { Link } from 'react-router-dom';
+import { useLiveUpdates } from '../lib/events';
 
 ChartJS.register(
   CategoryScale,
@@ -65,6 +69,10 @@ interface Category {
   color: string;
 }
 
+interface Draft extends DraftExpense {
+  user: { id: string; displayName: string };
+}
+
 type Period = '6months' | '1year' | '2years' | '5years' | 'all' | 'custom';
 
 interface DateRange {
@@ -99,6 +107,8 @@ export default function Dashboard() {
   const [expenseTrend, setExpenseTrend] = useState<any[]>([]);
   const [utilitiesTrend, setUtilitiesTrend] = useState<any[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [confirmingDraft, setConfirmingDraft] = useState<Draft | null>(null);
   const [loading, setLoading] = useState(true);
   const [showWaterUsage, setShowWaterUsage] = useState(true);
   const [showWaterAmount, setShowWaterAmount] = useState(true);
@@ -106,6 +116,7 @@ export default function Dashboard() {
   const [showElectricityAmount, setShowElectricityAmount] = useState(true);
   
   const { currency, waterUnit, electricityUnit } = useSettingsStore();
+  const baseCurrency = useAuthStore(selectBaseCurrency);
   const { user } = useAuthStore();
 
   // Fetch date range on mount
@@ -137,9 +148,15 @@ export default function Dashboard() {
     fetchExpenseTrend();
   }, [period, selectedCategories, showMyDataOnly, customRange]);
 
-  const fetchDashboardData = async () => {
+  // Totals and balances follow every expense, payment and rate change
+  useLiveUpdates(['expenses', 'payments', 'exchangeRates', 'members'], () => {
+    fetchDashboardData(true);
+    fetchExpenseTrend();
+  });
+
+  const fetchDashboardData = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const params: any = { period };
       if (period === 'custom') {
         params.startMonth = customRange.startMonth;
@@ -150,16 +167,18 @@ export default function Dashboard() {
       if (showMyDataOnly && user) {
         params.userId = user.id;
       }
-      const [summaryRes, balancesRes, utilitiesRes, categoriesRes] = await Promise.all([
+      const [summaryRes, balancesRes, utilitiesRes, categoriesRes, draftsRes] = await Promise.all([
         dashboardAPI.getSummary(params),
         dashboardAPI.getBalances(),
         dashboardAPI.getUtilitiesTrend(params),
         categoriesAPI.getAll(),
+        dashboardAPI.getDrafts(),
       ]);
       setData(summaryRes.data);
       setBalances(balancesRes.data.debts || []);
       setUtilitiesTrend(utilitiesRes.data);
       setCategories(categoriesRes.data);
+      setDrafts(draftsRes.data);
     } catch (error) {
       console.error('Failed to fetch dashboard data:', error);
     } finally {
@@ -232,7 +251,7 @@ export default function Dashboard() {
     datasets: [
       {
         label: 'Expenses',
-        data: expenseTrend.map((m) => m.amount),
+        data: expenseTrend.map((m) => fromMinor(m.amount, baseCurrency)),
         fill: true,
         borderColor: '#a855f7',
         backgroundColor: 'rgba(168, 85, 247, 0.1)',
@@ -250,7 +269,7 @@ export default function Dashboard() {
     labels: data.categoryBreakdown.map((c) => c.category?.name || 'No Category'),
     datasets: [
       {
-        data: data.categoryBreakdown.map((c) => c.total),
+        data: data.categoryBreakdown.map((c) => fromMinor(c.total, baseCurrency)),
         backgroundColor: data.categoryBreakdown.map(
           (c) => c.category?.color || '#666'
         ),
@@ -290,7 +309,7 @@ export default function Dashboard() {
     datasets: [
       {
         label: 'Total Expenses',
-        data: data.userBreakdown.map((u) => u.total),
+        data: data.userBreakdown.map((u) => fromMinor(u.total, baseCurrency)),
         backgroundColor: 'rgba(168, 85, 247, 0.6)',
         borderColor: '#a855f7',
         borderWidth: 1,
@@ -359,7 +378,7 @@ export default function Dashboard() {
       }] : []),
       ...(showWaterAmount ? [{
         label: `Water Bill (${currency})`,
-        data: utilitiesTrend.map((m) => m.waterAmount),
+        data: utilitiesTrend.map((m) => fromMinor(m.waterAmount, baseCurrency)),
         borderColor: '#0891B2',
         backgroundColor: 'rgba(8, 145, 178, 0.1)',
         tension: 0.4,
@@ -376,7 +395,7 @@ export default function Dashboard() {
       }] : []),
       ...(showElectricityAmount ? [{
         label: `Electricity Bill (${currency})`,
-        data: utilitiesTrend.map((m) => m.electricityAmount),
+        data: utilitiesTrend.map((m) => fromMinor(m.electricityAmount, baseCurrency)),
         borderColor: '#CA8A04',
         backgroundColor: 'rgba(202, 138, 4, 0.1)',
         tension: 0.4,
@@ -584,6 +603,49 @@ export default function Dashboard() {
         </div>
       )}
 
+      {/* Outstanding Bills (variable recurring drafts) */}
+      {drafts.length > 0 && (
+        <div className="glass-card p-6 border border-yellow-500/30">
+          <div className="flex items-center gap-2 mb-4">
+            <DocumentTextIcon className="w-5 h-5 text-yellow-400" />
+            <h3 className="text-lg font-semibold text-white">Bills Awaiting Amount</h3>
+            <span className="px-2 py-0.5 rounded-lg text-xs bg-yellow-500/20 text-yellow-400">
+              {drafts.length}
+            </span>
+          </div>
+          <p className="text-sm text-white/50 mb-3">
+            These bills are not counted in balances until the payer enters the actual amount.
+          </p>
+          <div className="space-y-2">
+            {drafts.map((draft) => (
+              <div
+                key={draft.id}
+                className="flex items-center justify-between p-3 rounded-xl bg-white/5"
+              >
+                <div className="flex items-center gap-3">
+                  <span className="text-lg">{draft.category?.icon || '📄'}</span>
+                  <div>
+                    <p className="text-sm font-medium text-white">{draft.description}</p>
+                    <p className="text-xs text-white/50">
+                      {draft.user.displayName} • due {format(new Date(draft.date), 'MMM d')}
+                      {draft.amount > 0 && ` • est. ${currencyLabel(draft.currency, baseCurrency, currency)} ${formatMoney(draft.amount, draft.currency)}`}
+                    </p>
+                  </div>
+                </div>
+                {canActOn(user, 'expense.edit', [draft.user.id]) && (
+                  <button
+                    onClick={() => setConfirmingDraft(draft)}
+                    className="glass-button text-sm px-3 py-1.5"
+                  >
+                    Enter Amount
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <div className="stat-card">
@@ -591,7 +653,7 @@ export default function Dashboard() {
             <div>
               <p className="text-white/60 text-sm">Total Expenses</p>
               <p className="text-2xl font-bold text-white mt-1">
-                {currency} {data.totalAmount.toFixed(2)}
+                {currency} {formatMoney(data.totalAmount, baseCurrency)}
               </p>
             </div>
             <div className="w-12 h-12 rounded-xl bg-purple-500/20 flex items-center justify-center">
@@ -608,7 +670,7 @@ export default function Dashboard() {
             <div>
               <p className="text-white/60 text-sm">Average per Month</p>
               <p className="text-2xl font-bold text-white mt-1">
-                {currency} {(data.totalAmount / (period === '6months' ? 6 : period === '1year' ? 12 : period === '2years' ? 24 : period === '5years' ? 60 : Math.max(expenseTrend.length, 1))).toFixed(2)}
+                {currency} {formatMoney(data.totalAmount / (period === '6months' ? 6 : period === '1year' ? 12 : period === '2years' ? 24 : period === '5years' ? 60 : Math.max(expenseTrend.length, 1)), baseCurrency)}
               </p>
             </div>
             <div className="w-12 h-12 rounded-xl bg-blue-500/20 flex items-center justify-center">
@@ -873,7 +935,7 @@ export default function Dashboard() {
                     </div>
                   </div>
                   <p className="text-sm font-semibold text-white">
-                    {currency} {expense.amount.toFixed(2)}
+                    {currencyLabel(expense.currency, baseCurrency, currency)} {formatMoney(expense.amount, expense.currency || baseCurrency)}
                   </p>
                 </div>
               ))
@@ -922,7 +984,7 @@ export default function Dashboard() {
                 </div>
                 <div className="text-right">
                   <p className="text-lg font-bold text-yellow-400">
-                    {currency} {balance.amount.toFixed(2)}
+                    {currency} {formatMoney(balance.amount, baseCurrency)}
                   </p>
                   <p className="text-xs text-white/40">owes</p>
                 </div>
@@ -935,6 +997,12 @@ export default function Dashboard() {
           </div>
         )}
       </div>
+
+      <ConfirmDraftModal
+        draft={confirmingDraft}
+        onClose={() => setConfirmingDraft(null)}
+        onConfirmed={() => fetchDashboardData()}
+      />
     </div>
   );
 }
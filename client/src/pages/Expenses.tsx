@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   PlusIcon,
   PencilIcon,
@@ -14,14 +15,20 @@ import {
   DocumentTextIcon,
   CurrencyDollarIcon,
   UsersIcon,
+  ClockIcon,
 } from '@heroicons/react/24/outline';
-import { expensesAPI, categoriesAPI, usersAPI, deleteRequestsAPI } from '../lib/api';
-import { useAuthStore } from '../stores/authStore';
+import { expensesAPI, categoriesAPI, usersAPI, changeRequestsAPI } from '../lib/api';
+import { can, canActOn, useAuthStore, selectBaseCurrency } from '../stores/authStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { allocateEvenly, amountStep, currencyLabel, formatMoney, fromMinor, toMinor } from '../lib/money';
 import Modal from '../components/Modal';
 import LoadingSpinner from '../components/LoadingSpinner';
+import ConfirmDraftModal from '../components/ConfirmDraftModal';
+import HistoryModal from '../components/HistoryModal';
+import ScanReceiptButton, { OcrDraft } from '../components/ScanReceiptButton';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
+import { useLiveUpdates } from '../lib/events';
 
 interface ExpenseSplit {
   id: string;
@@ -33,10 +40,13 @@ interface Expense {
   id: string;
   description: string;
   amount: number;
+  currency: string;
   usage: number | null;
   date: string;
   receiptImage: string | null;
   notes: string | null;
+  isDraft: boolean;
+  splitBill?: { id: string } | null;
   user: { id: string; displayName: string; avatarUrl: string | null };
   createdBy?: { id: string; displayName: string } | null;
   category: { id: string; name: string; icon: string; color: string } | null;
@@ -57,8 +67,13 @@ interface Member {
 }
 
 export default function Expenses() {
+  const navigate = useNavigate();
   const { user } = useAuthStore();
+  const baseCurrency = useAuthStore(selectBaseCurrency);
   const { currency, waterUnit, electricityUnit, allowUserSelfDelete, allowUserSelfEdit } = useSettingsStore();
+  // Changes to anyone's expenses apply directly; members who can't edit directly propose their edits instead
+  const editAny = can(user, 'expense.edit.any');
+  const proposingEdit = !editAny && !allowUserSelfEdit;
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [members, setMembers] = useState<Member[]>([]);
@@ -68,10 +83,13 @@ export default function Expenses() {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showViewModal, setShowViewModal] = useState(false);
   const [viewingExpense, setViewingExpense] = useState<Expense | null>(null);
+  const [historyExpense, setHistoryExpense] = useState<Expense | null>(null);
   const [deletingExpense, setDeletingExpense] = useState<Expense | null>(null);
   const [deleteReason, setDeleteReason] = useState('');
   const [selectedReceipt, setSelectedReceipt] = useState<string | null>(null);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [confirmingDraft, setConfirmingDraft] = useState<Expense | null>(null);
+  const [ocrDraft, setOcrDraft] = useState<OcrDraft | null>(null);
   const [filter, setFilter] = useState({ 
     categoryId: '', 
     search: '',
@@ -83,11 +101,13 @@ export default function Expenses() {
   const [formData, setFormData] = useState({
     description: '',
     amount: '',
+    currency: baseCurrency,
     usage: '',
     date: format(new Date(), 'yyyy-MM-dd'),
     categoryId: '',
     userId: '', // On behalf of
     notes: '',
+    reason: '', // Why an existing expense is being changed (kept in its history)
     receipt: null as File | null,
     // Split options - always enabled by default
     splitType: 'equal' as 'equal' | 'percentage' | 'amount',
@@ -100,9 +120,15 @@ export default function Expenses() {
     fetchMembers();
   }, [filter.categoryId, filter.startDate, filter.endDate, pagination.page]);
 
-  const fetchExpenses = async () => {
+  // Refresh quietly when housemates add or change expenses
+  useLiveUpdates(['expenses', 'categories'], () => {
+    fetchExpenses(true);
+    fetchCategories();
+  });
+
+  const fetchExpenses = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const params: any = { page: pagination.page, limit: 20 };
       if (filter.categoryId) params.categoryId = filter.categoryId;
       if (filter.startDate) params.startDate = filter.startDate;
@@ -143,9 +169,9 @@ export default function Expenses() {
     }
   };
 
-  // Smart rounding for split amounts - owner (first member) gets the remainder
+  // Split amounts in minor units - owner (first member) gets the remainder
   const calculateSplitAmounts = () => {
-    const totalAmount = parseFloat(formData.amount) || 0;
+    const totalAmount = toMinor(formData.amount, formData.currency) || 0;
     const splitMembers = formData.splitMembers;
     
     if (splitMembers.length === 0) return [];
@@ -153,27 +179,24 @@ export default function Expenses() {
     let amounts: { memberId: string; amount: number }[] = [];
     
     if (formData.splitType === 'equal') {
-      const perPerson = totalAmount / splitMembers.length;
-      const roundedPerPerson = Math.floor(perPerson * 100) / 100;
-      const totalOthers = roundedPerPerson * (splitMembers.length - 1);
-      const ownerAmount = Math.round((totalAmount - totalOthers) * 100) / 100;
+      const shares = allocateEvenly(totalAmount, splitMembers.length);
       
       amounts = splitMembers.map((m, index) => ({
         memberId: m.memberId,
-        amount: index === 0 ? ownerAmount : roundedPerPerson
+        amount: shares[index]
       }));
     } else if (formData.splitType === 'percentage') {
       // Calculate others' amounts first, owner gets remainder
       let totalOthersAmount = 0;
       const othersAmounts = splitMembers.slice(1).map((m) => {
         const percentage = m.percentage || 0;
-        const amount = Math.round((totalAmount * percentage / 100) * 100) / 100;
+        const amount = Math.round(totalAmount * percentage / 100);
         totalOthersAmount += amount;
         return { memberId: m.memberId, amount };
       });
       
       // Owner gets the remainder to ensure exact total
-      const ownerAmount = Math.round((totalAmount - totalOthersAmount) * 100) / 100;
+      const ownerAmount = totalAmount - totalOthersAmount;
       amounts = [
         { memberId: splitMembers[0].memberId, amount: ownerAmount },
         ...othersAmounts
@@ -182,13 +205,13 @@ export default function Expenses() {
       // Calculate others' amounts, owner gets remainder
       let totalOthersAmount = 0;
       const othersAmounts = splitMembers.slice(1).map(m => {
-        const amount = m.amount || 0;
+        const amount = toMinor(m.amount || 0, formData.currency) || 0;
         totalOthersAmount += amount;
         return { memberId: m.memberId, amount };
       });
       
       // Owner gets the remainder
-      const ownerAmount = Math.round((totalAmount - totalOthersAmount) * 100) / 100;
+      const ownerAmount = totalAmount - totalOthersAmount;
       amounts = [
         { memberId: splitMembers[0].memberId, amount: Math.max(0, ownerAmount) },
         ...othersAmounts
@@ -204,11 +227,11 @@ export default function Expenses() {
     return Math.max(0, 100 - othersTotal);
   };
 
-  // Calculate owner's amount (total minus others)
+  // Calculate owner's amount in minor units (total minus others)
   const getOwnerAmount = () => {
-    const totalAmount = parseFloat(formData.amount) || 0;
-    const othersTotal = formData.splitMembers.slice(1).reduce((sum, m) => sum + (m.amount || 0), 0);
-    return Math.max(0, Math.round((totalAmount - othersTotal) * 100) / 100);
+    const totalAmount = toMinor(formData.amount, formData.currency) || 0;
+    const othersTotal = formData.splitMembers.slice(1).reduce((sum, m) => sum + (toMinor(m.amount || 0, formData.currency) || 0), 0);
+    return Math.max(0, totalAmount - othersTotal);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -219,6 +242,12 @@ export default function Expenses() {
       return;
     }
 
+    const amount = toMinor(formData.amount, formData.currency);
+    if (!(amount > 0)) {
+      toast.error('Please enter a valid amount');
+      return;
+    }
+
     // Validate split - check that others' percentages don't exceed 100%
     if (formData.splitMembers.length > 0) {
       if (formData.splitType === 'percentage') {
@@ -228,8 +257,8 @@ export default function Expenses() {
           return;
         }
       } else if (formData.splitType === 'amount') {
-        const othersAmount = formData.splitMembers.slice(1).reduce((sum, m) => sum + (m.amount || 0), 0);
-        const totalAmount = parseFloat(formData.amount) || 0;
+        const othersAmount = formData.splitMembers.slice(1).reduce((sum, m) => sum + (toMinor(m.amount || 0, formData.currency) || 0), 0);
+        const totalAmount = toMinor(formData.amount, formData.currency) || 0;
         if (othersAmount > totalAmount) {
           toast.error('Others\' amounts cannot exceed total');
           return;
@@ -237,16 +266,48 @@ export default function Expenses() {
       }
     }
 
+    // Without self-editing, a member's edit is sent for review as a change request
+    if (editingExpense && proposingEdit) {
+      try {
+        await changeRequestsAPI.create({
+          recordType: 'expense',
+          recordId: editingExpense.id,
+          action: 'edit',
+          changes: {
+            description: formData.description,
+            amount,
+            currency: formData.currency,
+            date: formData.date,
+            categoryId: formData.categoryId,
+            userId: formData.userId || undefined,
+            notes: formData.notes || null,
+            usage: formData.usage,
+            ...(formData.splitMembers.length > 0 && { splits: calculateSplitAmounts() }),
+          },
+          reason: formData.reason || undefined,
+        });
+        toast.success('Edit submitted for approval');
+        setShowModal(false);
+        resetForm();
+      } catch (error: any) {
+        toast.error(error.response?.data?.error || 'Failed to submit edit');
+      }
+      return;
+    }
+
     try {
       const data = new FormData();
       data.append('description', formData.description);
-      data.append('amount', formData.amount);
+      data.append('amount', String(amount));
+      data.append('currency', formData.currency);
       data.append('date', formData.date);
       if (formData.categoryId) data.append('categoryId', formData.categoryId);
       if (formData.userId) data.append('userId', formData.userId);
       if (formData.notes) data.append('notes', formData.notes);
       if (formData.usage) data.append('usage', formData.usage);
       if (formData.receipt) data.append('receipt', formData.receipt);
+      if (ocrDraft && !editingExpense) data.append('ocrDraftId', ocrDraft.id);
+      if (editingExpense && formData.reason) data.append('reason', formData.reason);
 
       // Always add splits data (split is always enabled)
       if (formData.splitMembers.length > 0) {
@@ -273,12 +334,13 @@ export default function Expenses() {
   const handleDelete = async (expense: Expense) => {
     const isOwner = expense.user.id === user?.id || expense.createdBy?.id === user?.id;
     
-    if (user?.isAdmin) {
-      // Admin can always delete directly
+    if (editAny) {
+      // Can always delete directly
       if (!confirm('Are you sure you want to delete this expense?')) return;
       try {
-        await expensesAPI.delete(expense.id);
-        toast.success('Expense deleted successfully');
+        // Valuable expenses wait for more approvals (202)
+        const response = await expensesAPI.delete(expense.id);
+        toast.success(response.status === 202 ? response.data.message : 'Expense moved to the trash');
         fetchExpenses();
       } catch (error: any) {
         toast.error(error.response?.data?.error || 'Failed to delete expense');
@@ -287,8 +349,9 @@ export default function Expenses() {
       // Owner can delete directly when setting enabled
       if (!confirm('Are you sure you want to delete this expense?')) return;
       try {
-        await expensesAPI.delete(expense.id);
-        toast.success('Expense deleted successfully');
+        // Valuable expenses wait for more approvals (202)
+        const response = await expensesAPI.delete(expense.id);
+        toast.success(response.status === 202 ? response.data.message : 'Expense moved to the trash');
         fetchExpenses();
       } catch (error: any) {
         toast.error(error.response?.data?.error || 'Failed to delete expense');
@@ -310,12 +373,12 @@ export default function Expenses() {
     if (!deletingExpense) return;
 
     try {
-      await deleteRequestsAPI.create({
+      await changeRequestsAPI.create({
         recordType: 'expense',
         recordId: deletingExpense.id,
         reason: deleteReason || undefined,
       });
-      toast.success('Delete request submitted for admin approval');
+      toast.success('Delete request submitted for approval');
       setShowDeleteModal(false);
       setDeletingExpense(null);
       setDeleteReason('');
@@ -325,9 +388,9 @@ export default function Expenses() {
   };
 
   const handleEdit = (expense: Expense) => {
-    // Check if user can edit
-    if (!user?.isAdmin && !allowUserSelfEdit) {
-      toast.error('Editing your own records is currently disabled by admin');
+    // Itemised bills are edited item by item on the Split Bill page
+    if (expense.splitBill) {
+      navigate(`/split-bill?bill=${expense.splitBill.id}`);
       return;
     }
     
@@ -337,22 +400,24 @@ export default function Expenses() {
       ? expense.splits.map(s => ({
           memberId: s.userId,
           percentage: Math.round((s.amount / expense.amount) * 100),
-          amount: s.amount
+          amount: fromMinor(s.amount, expense.currency)
         }))
       : members.map((m) => ({
           memberId: m.id,
           percentage: Math.floor(100 / members.length),
-          amount: Math.floor(expense.amount / members.length * 100) / 100
+          amount: fromMinor(Math.floor(expense.amount / members.length), expense.currency)
         }));
     
     setFormData({
       description: expense.description,
-      amount: expense.amount.toString(),
+      amount: formatMoney(expense.amount, expense.currency),
+      currency: expense.currency,
       usage: expense.usage?.toString() || '',
       date: format(new Date(expense.date), 'yyyy-MM-dd'),
       categoryId: expense.category?.id || '',
       userId: expense.user.id,
       notes: expense.notes || '',
+      reason: '',
       receipt: null,
       splitType: 'equal',
       splitMembers: existingSplits,
@@ -376,24 +441,42 @@ export default function Expenses() {
     setFormData({
       description: '',
       amount: '',
+      currency: baseCurrency,
       usage: '',
       date: format(new Date(), 'yyyy-MM-dd'),
       categoryId: '',
       userId: '',
       notes: '',
+      reason: '',
       receipt: null,
       splitType: 'equal',
       splitMembers: initialSplitMembers,
     });
     setEditingExpense(null);
+    setOcrDraft(null);
+  };
+
+  // Pre-fill the form from what OCR read; the scanned receipt is attached on save
+  const handleReceiptScanned = (draft: OcrDraft) => {
+    setOcrDraft(draft);
+    setFormData((prev) => ({
+      ...prev,
+      description: draft.merchant || prev.description,
+      amount: draft.total ? String(fromMinor(draft.total, baseCurrency)) : prev.amount,
+      date: draft.date ? format(new Date(draft.date), 'yyyy-MM-dd') : prev.date,
+      receipt: null,
+    }));
   };
 
   const filteredExpenses = expenses.filter((expense) =>
     expense.description.toLowerCase().includes(filter.search.toLowerCase())
   );
 
+  const amountLabel = (expense: Expense) => currencyLabel(expense.currency, baseCurrency, currency);
+  const formLabel = currencyLabel(formData.currency, baseCurrency, currency);
+
   const canEdit = (expense: Expense) =>
-    user?.isAdmin || expense.user.id === user?.id;
+    canActOn(user, 'expense.edit', [expense.user.id, expense.createdBy?.id]);
 
   return (
     <div className="space-y-6 animate-slide-in">
@@ -403,16 +486,18 @@ export default function Expenses() {
           <h1 className="text-2xl lg:text-3xl font-bold text-white">Expenses</h1>
           <p className="text-white/60 mt-1">Track all house expenses</p>
         </div>
-        <button
-          onClick={() => {
-            resetForm();
-            setShowModal(true);
-          }}
-          className="glass-button flex items-center gap-2"
-        >
-          <PlusIcon className="w-5 h-5" />
-          Add Expense
-        </button>
+        {can(user, 'expense.create') && (
+          <button
+            onClick={() => {
+              resetForm();
+              setShowModal(true);
+            }}
+            className="glass-button flex items-center gap-2"
+          >
+            <PlusIcon className="w-5 h-5" />
+            Add Expense
+          </button>
+        )}
       </div>
 
       {/* Filters */}
@@ -527,7 +612,14 @@ export default function Expenses() {
                         )}
                       </td>
                       <td className="table-cell font-semibold text-green-400">
-                        {currency} {expense.amount.toFixed(2)}
+                        {expense.isDraft ? (
+                          <span className="text-yellow-400">
+                            {expense.amount > 0 ? `~${amountLabel(expense)} ${formatMoney(expense.amount, expense.currency)}` : 'Awaiting bill'}
+                            <span className="ml-2 px-1.5 py-0.5 rounded text-xs font-normal bg-yellow-500/20">Draft</span>
+                          </span>
+                        ) : (
+                          <>{amountLabel(expense)} {formatMoney(expense.amount, expense.currency)}</>
+                        )}
                         {expense.usage != null && expense.usage > 0 && expense.category && (
                           <p className="text-xs text-white/50 font-normal">
                             {expense.usage} {expense.category.name.toLowerCase() === 'water' ? waterUnit : electricityUnit}
@@ -551,7 +643,7 @@ export default function Expenses() {
                               const member = members.find(m => m.id === split.userId);
                               return (
                                 <div key={split.id} className="text-white/70">
-                                  {member?.displayName || 'Unknown'}: <span className="text-yellow-400">{currency} {split.amount.toFixed(2)}</span>
+                                  {member?.displayName || 'Unknown'}: <span className="text-yellow-400">{amountLabel(expense)} {formatMoney(split.amount, expense.currency)}</span>
                                 </div>
                               );
                             })}
@@ -585,29 +677,38 @@ export default function Expenses() {
                           >
                             <EyeIcon className="w-4 h-4" />
                           </button>
+                          {expense.isDraft && canActOn(user, 'expense.edit', [expense.user.id]) && (
+                            <button
+                              onClick={() => setConfirmingDraft(expense)}
+                              className="px-2 py-1 rounded-lg text-xs bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30"
+                              title="Enter the actual amount"
+                            >
+                              Enter amount
+                            </button>
+                          )}
                           {canEdit(expense) && (
                             <>
                               <button
                                 onClick={() => handleEdit(expense)}
                                 className={`p-1.5 rounded-lg text-white/60 ${
-                                  user?.isAdmin || allowUserSelfEdit
-                                    ? 'hover:bg-white/10 hover:text-white'
-                                    : 'hover:bg-yellow-500/20 hover:text-yellow-400'
+                                  proposingEdit
+                                    ? 'hover:bg-yellow-500/20 hover:text-yellow-400'
+                                    : 'hover:bg-white/10 hover:text-white'
                                 }`}
-                                title={user?.isAdmin || allowUserSelfEdit ? 'Edit' : 'Editing disabled'}
+                                title={proposingEdit ? 'Propose an edit' : 'Edit'}
                               >
                                 <PencilIcon className="w-4 h-4" />
                               </button>
                               <button
                                 onClick={() => handleDelete(expense)}
                                 className={`p-1.5 rounded-lg text-white/60 ${
-                                  user?.isAdmin || allowUserSelfDelete
+                                  editAny || allowUserSelfDelete
                                     ? 'hover:bg-red-500/20 hover:text-red-400'
                                     : 'hover:bg-yellow-500/20 hover:text-yellow-400'
                                 }`}
-                                title={user?.isAdmin ? 'Delete' : (allowUserSelfDelete ? 'Delete' : 'Request deletion')}
+                                title={editAny ? 'Delete' : (allowUserSelfDelete ? 'Delete' : 'Request deletion')}
                               >
-                                {user?.isAdmin || allowUserSelfDelete ? (
+                                {editAny || allowUserSelfDelete ? (
                                   <TrashIcon className="w-4 h-4" />
                                 ) : (
                                   <ExclamationTriangleIcon className="w-4 h-4" />
@@ -664,9 +765,16 @@ export default function Expenses() {
           setShowModal(false);
           resetForm();
         }}
-        title={editingExpense ? 'Edit Expense' : 'Add Expense'}
+        title={editingExpense ? (proposingEdit ? 'Propose Edit' : 'Edit Expense') : 'Add Expense'}
       >
         <form onSubmit={handleSubmit} className="space-y-4">
+          {!editingExpense && <ScanReceiptButton onScanned={handleReceiptScanned} />}
+          {editingExpense && proposingEdit && (
+            <p className="text-sm text-yellow-400/80 bg-yellow-500/10 rounded-xl p-3">
+              A reviewer will check your changes before they are applied.
+            </p>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-white/70 mb-2">
               Description <span className="text-red-400">*</span>
@@ -685,18 +793,30 @@ export default function Expenses() {
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-white/70 mb-2">
-                Amount ({currency}) <span className="text-red-400">*</span>
+                Amount <span className="text-red-400">*</span>
               </label>
-              <input
-                type="number"
-                step="0.01"
-                value={formData.amount}
-                onChange={(e) =>
-                  setFormData((prev) => ({ ...prev, amount: e.target.value }))
-                }
-                className="glass-input"
-                placeholder="0.00"
-              />
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={formData.currency}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, currency: e.target.value.toUpperCase() }))
+                  }
+                  className="glass-input w-20 uppercase"
+                  maxLength={3}
+                  title="Currency (ISO 4217 code)"
+                />
+                <input
+                  type="number"
+                  step={amountStep(formData.currency)}
+                  value={formData.amount}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, amount: e.target.value }))
+                  }
+                  className="glass-input flex-1"
+                  placeholder={formatMoney(0, formData.currency)}
+                />
+              </div>
             </div>
             <div>
               <label className="block text-sm font-medium text-white/70 mb-2">
@@ -832,7 +952,7 @@ export default function Expenses() {
               {formData.splitMembers.map((sm, idx) => {
                 const member = members.find(m => m.id === sm.memberId);
                 const isOwner = idx === 0;
-                const totalAmount = parseFloat(formData.amount) || 0;
+                const equalShares = allocateEvenly(toMinor(formData.amount, formData.currency) || 0, formData.splitMembers.length);
                 
                 return (
                   <div key={sm.memberId} className={`flex items-center gap-3 p-2 rounded-lg ${isOwner ? 'bg-blue-500/10 border border-blue-500/20' : 'bg-white/5'}`}>
@@ -843,10 +963,7 @@ export default function Expenses() {
                     
                     {formData.splitType === 'equal' && (
                       <span className="text-sm text-white/70">
-                        {currency} {isOwner 
-                          ? (totalAmount - Math.floor(totalAmount / formData.splitMembers.length * 100) / 100 * (formData.splitMembers.length - 1)).toFixed(2)
-                          : (Math.floor(totalAmount / formData.splitMembers.length * 100) / 100).toFixed(2)
-                        }
+                        {formLabel} {formatMoney(equalShares[idx], formData.currency)}
                       </span>
                     )}
                     
@@ -881,16 +998,16 @@ export default function Expenses() {
                     
                     {formData.splitType === 'amount' && (
                       <div className="flex items-center gap-1">
-                        <span className="text-sm text-white/50">{currency}</span>
+                        <span className="text-sm text-white/50">{formLabel}</span>
                         {isOwner ? (
                           <span className="w-24 px-2 py-1 text-sm bg-blue-500/20 border border-blue-500/30 rounded text-blue-300 text-right">
-                            {getOwnerAmount().toFixed(2)}
+                            {formatMoney(getOwnerAmount(), formData.currency)}
                           </span>
                         ) : (
                           <input
                             type="number"
                             min="0"
-                            step="0.01"
+                            step={amountStep(formData.currency)}
                             value={sm.amount || 0}
                             onChange={(e) => {
                               const newAmount = parseFloat(e.target.value) || 0;
@@ -912,19 +1029,19 @@ export default function Expenses() {
             </div>
 
             {/* Split Summary */}
-            {parseFloat(formData.amount) > 0 && (
+            {toMinor(formData.amount, formData.currency) > 0 && (
               <div className="pt-2 border-t border-white/10">
                 <div className="text-xs space-y-1">
                   {(() => {
                     const amounts = calculateSplitAmounts();
                     const totalSplit = amounts.reduce((sum, a) => sum + a.amount, 0);
-                    const originalTotal = parseFloat(formData.amount) || 0;
-                    const isValid = Math.abs(totalSplit - originalTotal) < 0.01;
+                    const originalTotal = toMinor(formData.amount, formData.currency) || 0;
+                    const isValid = totalSplit === originalTotal;
                     return (
                       <div className="flex justify-between">
                         <span className="text-white/50">Total:</span>
                         <span className={isValid ? 'text-green-400' : 'text-red-400'}>
-                          {currency} {totalSplit.toFixed(2)} {isValid ? '✓' : `/ ${currency} ${originalTotal.toFixed(2)}`}
+                          {formLabel} {formatMoney(totalSplit, formData.currency)} {isValid ? '✓' : `/ ${formLabel} ${formatMoney(originalTotal, formData.currency)}`}
                         </span>
                       </div>
                     );
@@ -948,28 +1065,47 @@ export default function Expenses() {
             />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-white/70 mb-2">
-              Receipt (Optional)
-            </label>
-            <label className="glass-input flex items-center justify-center gap-2 cursor-pointer hover:bg-white/10">
-              <PhotoIcon className="w-5 h-5 text-white/40" />
-              <span className="text-white/60">
-                {formData.receipt ? formData.receipt.name : 'Click to upload receipt'}
-              </span>
+          {editingExpense && (
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">
+                Reason for Change <span className="text-white/40">(Optional)</span>
+              </label>
               <input
-                type="file"
-                accept="image/*,.pdf"
+                type="text"
+                value={formData.reason}
                 onChange={(e) =>
-                  setFormData((prev) => ({
-                    ...prev,
-                    receipt: e.target.files?.[0] || null,
-                  }))
+                  setFormData((prev) => ({ ...prev, reason: e.target.value }))
                 }
-                className="hidden"
+                className="glass-input"
+                placeholder={proposingEdit ? 'Shown to whoever reviews your edit' : "Shown in the expense's history"}
               />
-            </label>
-          </div>
+            </div>
+          )}
+
+          {!(editingExpense && proposingEdit) && (
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">
+                Receipt (Optional)
+              </label>
+              <label className="glass-input flex items-center justify-center gap-2 cursor-pointer hover:bg-white/10">
+                <PhotoIcon className="w-5 h-5 text-white/40" />
+                <span className="text-white/60">
+                  {formData.receipt ? formData.receipt.name : ocrDraft ? 'Scanned receipt attached' : 'Click to upload receipt'}
+                </span>
+                <input
+                  type="file"
+                  accept="image/*,.pdf"
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      receipt: e.target.files?.[0] || null,
+                    }))
+                  }
+                  className="hidden"
+                />
+              </label>
+            </div>
+          )}
 
           <div className="flex gap-3 pt-4">
             <button
@@ -983,7 +1119,7 @@ export default function Expenses() {
               Cancel
             </button>
             <button type="submit" className="glass-button flex-1">
-              {editingExpense ? 'Update' : 'Add'} Expense
+              {editingExpense ? (proposingEdit ? 'Submit Edit' : 'Update Expense') : 'Add Expense'}
             </button>
           </div>
         </form>
@@ -1024,7 +1160,7 @@ export default function Expenses() {
               <div>
                 <p className="text-white font-medium">Admin approval required</p>
                 <p className="text-white/60 text-sm mt-1">
-                  Your delete request will be sent to admin for approval.
+                  Your delete request will be sent for approval.
                 </p>
               </div>
             </div>
@@ -1034,7 +1170,7 @@ export default function Expenses() {
             <div className="p-4 rounded-xl bg-white/5">
               <p className="text-white/60 text-sm">Expense to delete:</p>
               <p className="text-white font-medium">{deletingExpense.description}</p>
-              <p className="text-green-400 font-bold">RM {deletingExpense.amount.toFixed(2)}</p>
+              <p className="text-green-400 font-bold">{amountLabel(deletingExpense)} {formatMoney(deletingExpense.amount, deletingExpense.currency)}</p>
             </div>
           )}
 
@@ -1087,7 +1223,7 @@ export default function Expenses() {
             <div className="text-center p-6 rounded-2xl bg-gradient-to-br from-purple-500/20 to-blue-500/20 border border-white/10">
               <p className="text-white/60 text-sm mb-1">Amount</p>
               <p className="text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-emerald-400">
-                {currency} {viewingExpense.amount.toFixed(2)}
+                {amountLabel(viewingExpense)} {formatMoney(viewingExpense.amount, viewingExpense.currency)}
               </p>
               <p className="text-lg text-white mt-2">{viewingExpense.description}</p>
             </div>
@@ -1178,7 +1314,7 @@ export default function Expenses() {
                     return (
                       <div key={idx} className="flex items-center justify-between p-2 rounded-lg bg-white/5">
                         <span className="text-white">{member?.displayName || 'Unknown'}</span>
-                        <span className="text-green-400 font-medium">{currency} {split.amount.toFixed(2)}</span>
+                        <span className="text-green-400 font-medium">{amountLabel(viewingExpense)} {formatMoney(split.amount, viewingExpense.currency)}</span>
                       </div>
                     );
                   })}
@@ -1213,18 +1349,40 @@ export default function Expenses() {
               </div>
             )}
 
-            <button
-              onClick={() => {
-                setShowViewModal(false);
-                setViewingExpense(null);
-              }}
-              className="glass-button w-full"
-            >
-              Close
-            </button>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setHistoryExpense(viewingExpense)}
+                className="glass-button-secondary flex-1 flex items-center justify-center gap-2"
+              >
+                <ClockIcon className="w-4 h-4" />
+                History
+              </button>
+              <button
+                onClick={() => {
+                  setShowViewModal(false);
+                  setViewingExpense(null);
+                }}
+                className="glass-button flex-1"
+              >
+                Close
+              </button>
+            </div>
           </div>
         )}
       </Modal>
+
+      <HistoryModal
+        entityType="expense"
+        entityId={historyExpense?.id || null}
+        title={historyExpense ? `History: ${historyExpense.description}` : 'History'}
+        onClose={() => setHistoryExpense(null)}
+      />
+
+      <ConfirmDraftModal
+        draft={confirmingDraft}
+        onClose={() => setConfirmingDraft(null)}
+        onConfirmed={() => fetchExpenses()}
+      />
     </div>
   );
 }
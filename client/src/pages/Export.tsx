@@ -6,7 +6,7 @@ import {
   TableCellsIcon,
 } from '@heroicons/react/24/outline';
 import { exportAPI } from '../lib/api';
-import { useAuthStore } from '../stores/authStore';
+import { can, useAuthStore } from '../stores/authStore';
 import toast from 'react-hot-toast';
 
 export default function Export() {
@@ -154,15 +154,15 @@ export default function Export() {
         </div>
       </div>
 
-      {/* Import Section (Admin Only) */}
-      {user?.isAdmin && (
+      {/* Import Section (data.import) */}
+      {can(user, 'data.import') && (
         <div className="glass-card p-6 space-y-4">
           <h2 className="text-lg font-semibold text-white flex items-center gap-2">
             <ArrowUpTrayIcon className="w-5 h-5" />
             Import Data
           </h2>
           <p className="text-white/60 text-sm">
-            Restore data from a backup file (Admin only)
+            Restore data from a backup file
           </p>
 
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
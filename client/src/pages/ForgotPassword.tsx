@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { EnvelopeIcon } from '@heroicons/react/24/outline';
+import { authAPI } from '../lib/api';
+import AuthCard from '../components/AuthCard';
+import toast from 'react-hot-toast';
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email) {
+      toast.error('Please enter your email');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await authAPI.forgotPassword(email);
+      setSentMessage(response.data.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send the reset link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AuthCard title="Forgot Password" subtitle="We'll email you a link to choose a new one.">
+      {sentMessage ? (
+        <div className="text-center space-y-4">
+          <EnvelopeIcon className="w-12 h-12 mx-auto text-purple-400" />
+          <p className="text-white/80">{sentMessage}</p>
+          <p className="text-sm text-white/50">The link works for one hour.</p>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="glass-input"
+              placeholder="Enter the email on your account"
+              autoComplete="email"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="glass-button w-full py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Sending...' : 'Send Reset Link'}
+          </button>
+        </form>
+      )}
+
+      <p className="text-center text-white/60 mt-6">
+        Remembered it?{' '}
+        <Link to="/login" className="text-purple-400 hover:text-purple-300 font-medium">
+          Back to login
+        </Link>
+      </p>
+    </AuthCard>
+  );
+}
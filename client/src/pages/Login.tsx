@@ -1,6 +1,6 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
+import { EyeIcon, EyeSlashIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
 import { authAPI } from '../lib/api';
 import { useAuthStore } from '../stores/authStore';
 import toast from 'react-hot-toast';
@@ -10,9 +10,20 @@ export default function Login() {
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [mailEnabled, setMailEnabled] = useState(false);
+  // Set when the password was right but the account also needs a two-factor code
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
   const navigate = useNavigate();
   const login = useAuthStore((state) => state.login);
 
+  // "Forgot password" only works when the server can send email
+  useEffect(() => {
+    authAPI.getOptions()
+      .then((response) => setMailEnabled(response.data.mailEnabled))
+      .catch(() => {});
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -25,17 +36,50 @@ export default function Login() {
 
     try {
       const response = await authAPI.login({ username, password });
-      const { user, accessToken, refreshToken } = response.data;
-      login(user, accessToken, refreshToken);
-      toast.success(`Welcome back, ${user.displayName}!`);
-      navigate('/');
+      if (response.data.twoFactorRequired) {
+        setChallengeToken(response.data.challengeToken);
+        setCode('');
+        return;
+      }
+      finishLogin(response.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Login failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      toast.error('Please enter a code');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await authAPI.loginTwoFactor(challengeToken!, code);
+      finishLogin(response.data);
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Login failed');
+      // An expired challenge or a locked account means starting over with the password
+      if (['LOGIN_EXPIRED', 'ACCOUNT_LOCKED'].includes(error.response?.data?.code)) {
+        setChallengeToken(null);
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  const finishLogin = (data: any) => {
+    const { user, accessToken, refreshToken, households } = data;
+    login(user, accessToken, refreshToken, households);
+    toast.success(`Welcome back, ${user.displayName}!`);
+    navigate('/');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       {/* Background decoration */}
@@ -52,63 +96,112 @@ export default function Login() {
           <p className="text-white/60 mt-2">Welcome back! Please login to continue.</p>
         </div>
 
-        <form onSubmit={handleSubmit} className="space-y-5">
-          <div>
-            <label className="block text-sm font-medium text-white/70 mb-2">
-              Username or Email
-            </label>
-            <input
-              type="text"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              className="glass-input"
-              placeholder="Enter your username or email"
-              autoComplete="username"
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-white/70 mb-2">
-              Password
-            </label>
-            <div className="relative">
+        {challengeToken ? (
+          <form onSubmit={handleTwoFactorSubmit} className="space-y-5">
+            <div className="flex items-center gap-3 p-4 rounded-xl bg-white/5 border border-white/10">
+              <ShieldCheckIcon className="w-8 h-8 text-purple-400 flex-shrink-0" />
+              <p className="text-sm text-white/70">
+                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">
+                Code
+              </label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="glass-input font-mono tracking-widest text-center"
+                placeholder="123456"
+                autoComplete="one-time-code"
+                autoFocus
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="glass-button w-full py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Verifying...' : 'Verify'}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => setChallengeToken(null)}
+              className="w-full text-center text-white/60 hover:text-white/80 text-sm"
+            >
+              Back to login
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">
+                Username or Email
+              </label>
               <input
-                type={showPassword ? 'text' : 'password'}
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="glass-input pr-12"
-                placeholder="Enter your password"
-                autoComplete="current-password"
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="glass-input"
+                placeholder="Enter your username or email"
+                autoComplete="username"
               />
-              <button
-                type="button"
-                onClick={() => setShowPassword(!showPassword)}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-white/40 hover:text-white/70"
-              >
-                {showPassword ? (
-                  <EyeSlashIcon className="w-5 h-5" />
-                ) : (
-                  <EyeIcon className="w-5 h-5" />
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-white/70">
+                  Password
+                </label>
+                {mailEnabled && (
+                  <Link to="/forgot-password" className="text-sm text-purple-400 hover:text-purple-300">
+                    Forgot password?
+                  </Link>
                 )}
-              </button>
+              </div>
+              <div className="relative">
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="glass-input pr-12"
+                  placeholder="Enter your password"
+                  autoComplete="current-password"
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-white/40 hover:text-white/70"
+                >
+                  {showPassword ? (
+                    <EyeSlashIcon className="w-5 h-5" />
+                  ) : (
+                    <EyeIcon className="w-5 h-5" />
+                  )}
+                </button>
+              </div>
             </div>
-          </div>
 
-          <button
-            type="submit"
-            disabled={loading}
-            className="glass-button w-full py-3 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {loading ? (
-              <span className="flex items-center justify-center gap-2">
-                <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                Logging in...
-              </span>
-            ) : (
-              'Login'
-            )}
-          </button>
-        </form>
+            <button
+              type="submit"
+              disabled={loading}
+              className="glass-button w-full py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? (
+                <span className="flex items-center justify-center gap-2">
+                  <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  Logging in...
+                </span>
+              ) : (
+                'Login'
+              )}
+            </button>
+          </form>
+        )}
 
         <p className="text-center text-white/60 mt-6">
           Don't have an account?{' '}
@@ -6,24 +6,34 @@ import {
   BanknotesIcon,
   TrashIcon,
   KeyIcon,
+  UserPlusIcon,
+  UserMinusIcon,
+  LockOpenIcon,
 } from '@heroicons/react/24/outline';
-import { usersAPI } from '../lib/api';
-import { useAuthStore } from '../stores/authStore';
+import { usersAPI, householdsAPI } from '../lib/api';
+import { formatMoney } from '../lib/money';
+import { can, Permission, Role, selectBaseCurrency, useAuthStore } from '../stores/authStore';
 import LoadingSpinner from '../components/LoadingSpinner';
+import Invitations from '../components/Invitations';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
+import { useLiveUpdates } from '../lib/events';
 
 interface User {
   id: string;
   username: string;
   email: string;
   displayName: string;
-  isAdmin: boolean;
+  role: Role;
+  grants: Permission[];
   bankName: string | null;
   bankAccountNo: string | null;
   bankAccountName: string | null;
   paymentQrImage: string | null;
   avatarUrl: string | null;
+  twoFactorEnabled: boolean;
+  lockedUntil: string | null;  // Set while failed logins keep them out
+  invitedBy: { id: string; displayName: string } | null;
   createdAt: string;
 }
 
@@ -37,22 +47,53 @@ interface UserStats {
   currentUserDebt: number;
 }
 
+// What GET /users/roles returns: each role's permissions and what every permission means
+interface RoleCatalogue {
+  roles: { role: Role; permissions: Permission[] }[];
+  permissions: Record<Permission, string>;
+}
+
+const ROLE_BADGES: Record<Role, string> = {
+  owner: 'badge-info',
+  treasurer: 'badge-success',
+  member: '',
+  viewer: 'badge-warning',
+};
+
 export default function Members() {
   const { user: currentUser } = useAuthStore();
+  const baseCurrency = useAuthStore(selectBaseCurrency);
+  const canManageMembers = can(currentUser, 'members.manage');
+  const canManageRoles = can(currentUser, 'roles.manage');
+  const canUnlock = can(currentUser, 'security.manage');
   const [users, setUsers] = useState<User[]>([]);
   const [stats, setStats] = useState<{ [key: string]: UserStats }>({});
   const [loading, setLoading] = useState(true);
   const [showResetModal, setShowResetModal] = useState(false);
   const [resetTarget, setResetTarget] = useState<{ id: string; name: string } | 'all' | null>(null);
   const [newPassword, setNewPassword] = useState('');
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [newMemberUsername, setNewMemberUsername] = useState('');
+  const [catalogue, setCatalogue] = useState<RoleCatalogue | null>(null);
+  const [roleTarget, setRoleTarget] = useState<User | null>(null);
+  const [roleForm, setRoleForm] = useState<{ role: Role; grants: Permission[]; reason: string }>({
+    role: 'member',
+    grants: [],
+    reason: '',
+  });
 
   useEffect(() => {
     fetchMembers();
   }, []);
 
-  const fetchMembers = async () => {
+  // Refresh quietly when members join, leave or change roles
+  useLiveUpdates(['members'], () => {
+    fetchMembers(true);
+  });
+
+  const fetchMembers = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const response = await usersAPI.getAll();
       setUsers(response.data);
 
@@ -74,34 +115,121 @@ export default function Members() {
     }
   };
 
-  const handleToggleAdmin = async (userId: string, currentIsAdmin: boolean) => {
-    if (!confirm(`Are you sure you want to ${currentIsAdmin ? 'remove admin' : 'grant admin'} privileges?`)) {
-      return;
+  const openRoleModal = async (member: User) => {
+    try {
+      if (!catalogue) {
+        const response = await usersAPI.getRoles();
+        setCatalogue(response.data);
+      }
+      setRoleForm({ role: member.role, grants: member.grants, reason: '' });
+      setRoleTarget(member);
+    } catch (error) {
+      toast.error('Failed to load roles');
     }
+  };
 
+  const toggleGrant = (permission: Permission) => {
+    setRoleForm((form) => ({
+      ...form,
+      grants: form.grants.includes(permission)
+        ? form.grants.filter((grant) => grant !== permission)
+        : [...form.grants, permission],
+    }));
+  };
+
+  // Permissions no other role comes with; granting one is held like making an owner
+  const isOwnerOnly = (permission: Permission) =>
+    !!catalogue && catalogue.roles.every((r) => r.role === 'owner' || !r.permissions.includes(permission));
+
+  const handleSaveRole = async () => {
+    if (!roleTarget || !catalogue) return;
+
+    // Grants the new role already includes would do nothing
+    const included = catalogue.roles.find((r) => r.role === roleForm.role)?.permissions || [];
     try {
-      await usersAPI.setAdmin(userId, !currentIsAdmin);
-      toast.success(`Admin status updated`);
+      // Making someone an owner or granting owner permissions can wait for more approvals (202)
+      const response = await usersAPI.setRole(roleTarget.id, {
+        role: roleForm.role,
+        grants: roleForm.grants.filter((grant) => !included.includes(grant)),
+        reason: roleForm.reason.trim() || undefined,
+      });
+      toast.success(response.status === 202 ? response.data.message : `${roleTarget.displayName}'s role was updated`);
+      setRoleTarget(null);
       fetchMembers();
     } catch (error: any) {
-      toast.error(error.response?.data?.error || 'Failed to update admin status');
+      toast.error(error.response?.data?.error || 'Failed to update role');
     }
   };
 
   const handleDeleteUser = async (userId: string, displayName: string) => {
-    if (!confirm(`Are you sure you want to delete ${displayName}? This action cannot be undone.`)) {
+    if (!confirm(`Are you sure you want to delete ${displayName}? Their account is only deleted if this is the only household they belong to. This action cannot be undone.`)) {
       return;
     }
 
     try {
-      await usersAPI.delete(userId);
-      toast.success(`${displayName} has been deleted`);
+      const response = await usersAPI.delete(userId);
+      toast.success(response.data.message || `${displayName} has been deleted`);
       fetchMembers();
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to delete user');
     }
   };
 
+  const handleAddMember = async () => {
+    if (!newMemberUsername.trim()) {
+      toast.error('Enter a username or email');
+      return;
+    }
+
+    try {
+      const response = await householdsAPI.addMember(newMemberUsername.trim());
+      toast.success(response.data.message);
+      setShowAddModal(false);
+      setNewMemberUsername('');
+      fetchMembers();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to invite member');
+    }
+  };
+
+  const handleRemoveMember = async (userId: string, displayName: string) => {
+    if (!confirm(`Remove ${displayName} from this household? Their account and other households are not affected.`)) {
+      return;
+    }
+
+    try {
+      await householdsAPI.removeMember(userId);
+      toast.success(`${displayName} has been removed from the household`);
+      fetchMembers();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to remove member');
+    }
+  };
+
+  const handleResetTwoFactor = async (userId: string, displayName: string) => {
+    if (!confirm(`Turn off two-factor authentication for ${displayName}? Only do this if they lost their phone and recovery codes.`)) {
+      return;
+    }
+
+    try {
+      const response = await usersAPI.resetTwoFactor(userId);
+      toast.success(response.data.message);
+      fetchMembers();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to reset two-factor authentication');
+    }
+  };
+
+  const handleUnlock = async (userId: string) => {
+    try {
+      const response = await usersAPI.unlock(userId);
+      toast.success(response.data.message);
+      fetchMembers();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to unlock account');
+    }
+  };
+
   const handleResetPassword = async () => {
     if (!newPassword || newPassword.length < 6) {
       toast.error('Password must be at least 6 characters');
@@ -110,8 +238,8 @@ export default function Members() {
 
     try {
       if (resetTarget === 'all') {
-        await usersAPI.resetAllPasswords(newPassword);
-        toast.success('All passwords have been reset');
+        const response = await usersAPI.resetAllPasswords(newPassword);
+        toast.success(response.status === 202 ? response.data.message : 'All passwords have been reset');
       } else if (resetTarget && typeof resetTarget === 'object') {
         await usersAPI.resetPassword(resetTarget.id, newPassword);
         toast.success(`Password reset for ${resetTarget.name}`);
@@ -124,6 +252,19 @@ export default function Members() {
     }
   };
 
+  const handleSendResetLink = async () => {
+    if (!resetTarget || resetTarget === 'all') return;
+
+    try {
+      const response = await usersAPI.sendPasswordReset(resetTarget.id);
+      toast.success(response.data.message);
+      setShowResetModal(false);
+      setResetTarget(null);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send reset link');
+    }
+  };
+
   const openResetModal = (target: { id: string; name: string } | 'all') => {
     setResetTarget(target);
     setNewPassword('');
@@ -142,14 +283,23 @@ export default function Members() {
           <h1 className="text-2xl lg:text-3xl font-bold text-white">Members</h1>
           <p className="text-white/60 mt-1">View all house members and their activity</p>
         </div>
-        {currentUser?.isAdmin && (
-          <button
-            onClick={() => openResetModal('all')}
-            className="flex items-center gap-2 px-4 py-2 bg-amber-500/20 text-amber-400 rounded-xl hover:bg-amber-500/30 transition-colors"
-          >
-            <KeyIcon className="w-5 h-5" />
-            <span className="hidden sm:inline">Reset All Passwords</span>
-          </button>
+        {canManageMembers && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-purple-500/20 text-purple-400 rounded-xl hover:bg-purple-500/30 transition-colors"
+            >
+              <UserPlusIcon className="w-5 h-5" />
+              <span className="hidden sm:inline">Invite Member</span>
+            </button>
+            <button
+              onClick={() => openResetModal('all')}
+              className="flex items-center gap-2 px-4 py-2 bg-amber-500/20 text-amber-400 rounded-xl hover:bg-amber-500/30 transition-colors"
+            >
+              <KeyIcon className="w-5 h-5" />
+              <span className="hidden sm:inline">Reset All Passwords</span>
+            </button>
+          </div>
         )}
       </div>
 
@@ -175,8 +325,14 @@ export default function Members() {
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2">
                   <h3 className="font-semibold text-white truncate">{member.displayName}</h3>
-                  {member.isAdmin && (
-                    <span className="badge badge-info">Admin</span>
+                  {member.role !== 'member' && (
+                    <span className={`badge ${ROLE_BADGES[member.role]} capitalize`}>{member.role}</span>
+                  )}
+                  {member.lockedUntil && (
+                    <span className="badge badge-danger" title={`Until ${format(new Date(member.lockedUntil), 'MMM d, HH:mm')}`}>Locked</span>
+                  )}
+                  {member.grants.length > 0 && (
+                    <span className="badge bg-white/10 text-white/60" title={member.grants.join(', ')}>+{member.grants.length}</span>
                   )}
                 </div>
                 <p className="text-sm text-white/50 truncate">@{member.username}</p>
@@ -212,7 +368,7 @@ export default function Members() {
                           ? 'text-red-400' 
                           : 'text-green-400'
                       }`}>
-                        RM {stats[member.id].userTotalDebt.toFixed(2)}
+                        RM {formatMoney(stats[member.id].userTotalDebt, baseCurrency)}
                         {stats[member.id].userTotalDebt === 0 && (
                           <span className="text-xs ml-2">✓ Settled</span>
                         )}
@@ -229,7 +385,7 @@ export default function Members() {
                           ? 'text-red-400' 
                           : 'text-green-400'
                       }`}>
-                        RM {stats[member.id].debtToCurrentUser.toFixed(2)}
+                        RM {formatMoney(stats[member.id].debtToCurrentUser, baseCurrency)}
                         {stats[member.id].debtToCurrentUser === 0 && (
                           <span className="text-xs ml-1">✓</span>
                         )}
@@ -242,7 +398,7 @@ export default function Members() {
                           ? 'text-red-400' 
                           : 'text-green-400'
                       }`}>
-                        RM {stats[member.id].currentUserDebt.toFixed(2)}
+                        RM {formatMoney(stats[member.id].currentUserDebt, baseCurrency)}
                         {stats[member.id].currentUserDebt === 0 && (
                           <span className="text-xs ml-1">✓</span>
                         )}
@@ -268,51 +424,196 @@ export default function Members() {
             {/* Member Since */}
             <p className="text-xs text-white/40">
               Member since {format(new Date(member.createdAt), 'MMM d, yyyy')}
+              {member.invitedBy && ` · Invited by ${member.invitedBy.displayName}`}
             </p>
 
-            {/* Admin Actions */}
-            {currentUser?.isAdmin && member.id !== currentUser.id && (
+            {/* Member Management */}
+            {(canManageMembers || canManageRoles || canUnlock) && member.id !== currentUser?.id && (
               <div className="space-y-2">
-                <button
-                  onClick={() => handleToggleAdmin(member.id, member.isAdmin)}
-                  className={`w-full flex items-center justify-center gap-2 py-2 rounded-xl text-sm transition-colors ${
-                    member.isAdmin
-                      ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
-                      : 'bg-purple-500/20 text-purple-400 hover:bg-purple-500/30'
-                  }`}
-                >
-                  {member.isAdmin ? (
-                    <>
-                      <ShieldExclamationIcon className="w-4 h-4" />
-                      Remove Admin
-                    </>
-                  ) : (
-                    <>
-                      <ShieldCheckIcon className="w-4 h-4" />
-                      Make Admin
-                    </>
-                  )}
-                </button>
-                <button
-                  onClick={() => openResetModal({ id: member.id, name: member.displayName })}
-                  className="w-full flex items-center justify-center gap-2 py-2 rounded-xl text-sm transition-colors bg-amber-500/10 text-amber-400 hover:bg-amber-500/20 border border-amber-500/20"
-                >
-                  <KeyIcon className="w-4 h-4" />
-                  Reset Password
-                </button>
-                <button
-                  onClick={() => handleDeleteUser(member.id, member.displayName)}
-                  className="w-full flex items-center justify-center gap-2 py-2 rounded-xl text-sm transition-colors bg-red-500/10 text-red-400 hover:bg-red-500/20 border border-red-500/20"
-                >
-                  <TrashIcon className="w-4 h-4" />
-                  Delete User
-                </button>
+                {canUnlock && member.lockedUntil && (
+                  <button
+                    onClick={() => handleUnlock(member.id)}
+                    className="w-full flex items-center justify-center gap-2 py-2 rounded-xl text-sm transition-colors bg-green-500/10 text-green-400 hover:bg-green-500/20 border border-green-500/20"
+                  >
+                    <LockOpenIcon className="w-4 h-4" />
+                    Unlock Account
+                  </button>
+                )}
+                {canManageRoles && (
+                  <button
+                    onClick={() => openRoleModal(member)}
+                    className="w-full flex items-center justify-center gap-2 py-2 rounded-xl text-sm transition-colors bg-purple-500/20 text-purple-400 hover:bg-purple-500/30"
+                  >
+                    <ShieldCheckIcon className="w-4 h-4" />
+                    Change Role
+                  </button>
+                )}
+                {canManageMembers && (
+                  <>
+                    <button
+                      onClick={() => openResetModal({ id: member.id, name: member.displayName })}
+                      className="w-full flex items-center justify-center gap-2 py-2 rounded-xl text-sm transition-colors bg-amber-500/10 text-amber-400 hover:bg-amber-500/20 border border-amber-500/20"
+                    >
+                      <KeyIcon className="w-4 h-4" />
+                      Reset Password
+                    </button>
+                    {member.twoFactorEnabled && (
+                      <button
+                        onClick={() => handleResetTwoFactor(member.id, member.displayName)}
+                        className="w-full flex items-center justify-center gap-2 py-2 rounded-xl text-sm transition-colors bg-amber-500/10 text-amber-400 hover:bg-amber-500/20 border border-amber-500/20"
+                      >
+                        <ShieldExclamationIcon className="w-4 h-4" />
+                        Reset Two-Factor
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRemoveMember(member.id, member.displayName)}
+                      className="w-full flex items-center justify-center gap-2 py-2 rounded-xl text-sm transition-colors bg-white/5 text-white/70 hover:bg-white/10 border border-white/10"
+                    >
+                      <UserMinusIcon className="w-4 h-4" />
+                      Remove from Household
+                    </button>
+                    <button
+                      onClick={() => handleDeleteUser(member.id, member.displayName)}
+                      className="w-full flex items-center justify-center gap-2 py-2 rounded-xl text-sm transition-colors bg-red-500/10 text-red-400 hover:bg-red-500/20 border border-red-500/20"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                      Delete User
+                    </button>
+                  </>
+                )}
               </div>
             )}
           </div>
         ))}
       </div>
 
+      {/* Invitations */}
+      {canManageMembers && <Invitations />}
+
+      {/* Add Member Modal */}
+      {showAddModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="glass-card p-6 max-w-md w-full space-y-4">
+            <h3 className="text-xl font-semibold text-white">Invite Member to Household</h3>
+            <p className="text-white/60 text-sm">
+              The person must already have an account. They join once they accept the invitation from their sidebar.
+              Invite people without an account with an invitation link below.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">
+                Username or Email
+              </label>
+              <input
+                type="text"
+                value={newMemberUsername}
+                onChange={(e) => setNewMemberUsername(e.target.value)}
+                placeholder="e.g. ali or ali@example.com"
+                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/40 focus:outline-none focus:border-purple-500"
+              />
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={() => {
+                  setShowAddModal(false);
+                  setNewMemberUsername('');
+                }}
+                className="flex-1 px-4 py-2 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAddMember}
+                disabled={!newMemberUsername.trim()}
+                className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Send Invitation
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Change Role Modal */}
+      {roleTarget && catalogue && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="glass-card p-6 max-w-lg w-full space-y-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-semibold text-white">Role for {roleTarget.displayName}</h3>
+
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">Role</label>
+              <select
+                value={roleForm.role}
+                onChange={(e) => setRoleForm({ ...roleForm, role: e.target.value as Role })}
+                className="glass-input capitalize"
+              >
+                {catalogue.roles.map(({ role }) => (
+                  <option key={role} value={role}>{role}</option>
+                ))}
+              </select>
+              {((roleForm.role === 'owner' && roleTarget.role !== 'owner') || roleForm.grants.some(isOwnerOnly)) && (
+                <p className="text-xs text-white/40 mt-1">
+                  Making a member an owner, or granting permissions only owners have, can need approvals from other members first.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-white/70 mb-2">Permissions</p>
+              <div className="space-y-2">
+                {(Object.keys(catalogue.permissions) as Permission[]).map((permission) => {
+                  // The role's own permissions are always on; the rest can be granted on top
+                  const included = catalogue.roles.find((r) => r.role === roleForm.role)?.permissions.includes(permission);
+                  return (
+                    <label key={permission} className={`flex items-start gap-3 text-sm ${included ? 'text-white/40' : 'text-white/80 cursor-pointer'}`}>
+                      <input
+                        type="checkbox"
+                        checked={included || roleForm.grants.includes(permission)}
+                        disabled={included}
+                        onChange={() => toggleGrant(permission)}
+                        className="mt-0.5"
+                      />
+                      <span>
+                        {catalogue.permissions[permission]}
+                        <span className="block text-xs font-mono text-white/30">{permission}</span>
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">Reason (optional)</label>
+              <input
+                type="text"
+                value={roleForm.reason}
+                onChange={(e) => setRoleForm({ ...roleForm, reason: e.target.value })}
+                placeholder="Shown in the audit log"
+                className="glass-input"
+              />
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={() => setRoleTarget(null)}
+                className="flex-1 px-4 py-2 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveRole}
+                className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Reset Password Modal */}
       {showResetModal && resetTarget && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
@@ -330,6 +631,19 @@ export default function Members() {
               </p>
             )}
 
+            <p className="text-white/60 text-sm">
+              {resetTarget === 'all' ? 'Everyone' : resetTarget.name} will have to choose a new password after logging in with this one.
+            </p>
+
+            {resetTarget !== 'all' && (
+              <button
+                onClick={handleSendResetLink}
+                className="w-full px-4 py-2 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors text-sm"
+              >
+                Email a reset link instead
+              </button>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-white/70 mb-2">
                 New Password
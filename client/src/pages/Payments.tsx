@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   PlusIcon,
   CheckIcon,
@@ -14,14 +15,22 @@ import {
   EyeIcon,
   DocumentTextIcon,
   ArrowRightIcon,
+  ArrowsRightLeftIcon,
+  ClockIcon,
+  PencilIcon,
+  BellSnoozeIcon,
+  HandThumbUpIcon,
 } from '@heroicons/react/24/outline';
-import { paymentsAPI, usersAPI, deleteRequestsAPI } from '../lib/api';
-import { useAuthStore } from '../stores/authStore';
+import { paymentsAPI, usersAPI, changeRequestsAPI, settlementsAPI, remindersAPI, SettlementStrategy } from '../lib/api';
+import { can, canActOn, useAuthStore, selectBaseCurrency } from '../stores/authStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { amountStep, currencyLabel, formatMoney, toMinor } from '../lib/money';
 import Modal from '../components/Modal';
 import LoadingSpinner from '../components/LoadingSpinner';
+import HistoryModal from '../components/HistoryModal';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
+import { useLiveUpdates } from '../lib/events';
 
 interface User {
   id: string;
@@ -36,6 +45,7 @@ interface User {
 interface Payment {
   id: string;
   amount: number;
+  currency: string;
   description: string | null;
   receiptImage: string;
   date: string;
@@ -55,12 +65,48 @@ interface Balance {
   amount: number;
 }
 
+// What you owe a member, how old it is and where its reminders stand
+interface OwedDebt {
+  creditor: Pick<User, 'id' | 'displayName'>;
+  balance: number;
+  pending: number;
+  oldestDate: string;
+  reminder: { level: number; lastSentAt: string | null; snoozedUntil: string | null } | null;
+}
+
+interface PlanTransfer {
+  from: Pick<User, 'id' | 'displayName'>;
+  to: Pick<User, 'id' | 'displayName'>;
+  amount: number;
+}
+
+interface SettlementPlan {
+  strategy: SettlementStrategy;
+  transfers: PlanTransfer[];
+  transferCount: number;
+  totalAmount: number;
+}
+
+const STRATEGY_OPTIONS: { value: SettlementStrategy; label: string; description: string }[] = [
+  { value: 'minimal', label: 'Fewest transfers', description: 'Settle everyone with the smallest number of payments' },
+  { value: 'pairwise', label: 'Pairwise only', description: 'Only pay people you owe directly, never on behalf of others' },
+  { value: 'capped', label: 'Cap per person', description: 'Nobody pays more than the cap in this round' },
+];
+
 export default function Payments() {
   const { user } = useAuthStore();
-  const { currency, requirePaymentReceipt, allowUserSelfDelete } = useSettingsStore();
+  const baseCurrency = useAuthStore(selectBaseCurrency);
+  const { currency, requirePaymentReceipt, allowUserSelfDelete, allowUserSelfEdit } = useSettingsStore();
+  // Changes to anyone's payments apply directly; members who can't edit directly propose their edits instead
+  const editAny = can(user, 'payment.edit.any');
+  const proposingEdit = !editAny && !allowUserSelfEdit;
+  // Balances and plans are in the base currency; payments show their own currency
+  const amountLabel = (payment: Payment) => currencyLabel(payment.currency, baseCurrency, currency);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [allUsers, setAllUsers] = useState<User[]>([]);
   const [balances, setBalances] = useState<Balance[]>([]);
+  const [owedDebts, setOwedDebts] = useState<Record<string, OwedDebt>>({});
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [showReceiptModal, setShowReceiptModal] = useState(false);
@@ -69,12 +115,29 @@ export default function Payments() {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showViewModal, setShowViewModal] = useState(false);
   const [viewingPayment, setViewingPayment] = useState<Payment | null>(null);
+  const [historyPayment, setHistoryPayment] = useState<Payment | null>(null);
   const [deletingPayment, setDeletingPayment] = useState<Payment | null>(null);
   const [deleteReason, setDeleteReason] = useState('');
+  const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
+  const [editForm, setEditForm] = useState({
+    amount: '',
+    currency: baseCurrency,
+    date: '',
+    description: '',
+    reason: '',
+  });
   const [selectedReceipt, setSelectedReceipt] = useState<string | null>(null);
   const [selectedQrImage, setSelectedQrImage] = useState<string | null>(null);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
-  const [activeTab, setActiveTab] = useState<'all' | 'pending' | 'balances'>('all');
+  // Reminders link straight to the "I Owe" tab
+  const [activeTab, setActiveTab] = useState<'all' | 'pending' | 'balances'>(
+    searchParams.get('tab') === 'owe' ? 'pending' : 'all'
+  );
+  const [showPlanModal, setShowPlanModal] = useState(false);
+  const [planStrategy, setPlanStrategy] = useState<SettlementStrategy>('minimal');
+  const [planCap, setPlanCap] = useState('');
+  const [plan, setPlan] = useState<SettlementPlan | null>(null);
+  const [planLoading, setPlanLoading] = useState(false);
   const [filter, setFilter] = useState({
     search: '',
     status: '' as '' | 'pending' | 'confirmed' | 'rejected',
@@ -87,6 +150,7 @@ export default function Payments() {
     toUserId: '',
     fromUserId: '', // On behalf of
     amount: '',
+    currency: baseCurrency,
     description: '',
     receipt: null as File | null,
   });
@@ -95,17 +159,26 @@ export default function Payments() {
     fetchData();
   }, []);
 
-  const fetchData = async () => {
+  // Payments and balances update as soon as a housemate confirms or records one
+  useLiveUpdates(['payments', 'expenses', 'members'], () => {
+    fetchData(true);
+  });
+
+  const fetchData = async (silent = false) => {
     try {
-      setLoading(true);
-      const [paymentsRes, usersRes, balancesRes] = await Promise.all([
+      if (!silent) setLoading(true);
+      const [paymentsRes, usersRes, balancesRes, remindersRes] = await Promise.all([
         paymentsAPI.getAll(),
         usersAPI.getAll(),
         paymentsAPI.getAllBalances(),
+        remindersAPI.getMine(),
       ]);
       setPayments(paymentsRes.data.payments);
       setAllUsers(usersRes.data);
       setBalances(balancesRes.data);
+      setOwedDebts(Object.fromEntries(
+        (remindersRes.data.debts as OwedDebt[]).map((debt) => [debt.creditor.id, debt])
+      ));
     } catch (error) {
       console.error('Failed to fetch data:', error);
       toast.error('Failed to load payments');
@@ -114,6 +187,28 @@ export default function Payments() {
     }
   };
 
+  const handleSnooze = async (creditorId: string) => {
+    try {
+      const response = await remindersAPI.snooze(creditorId, 7);
+      toast.success(response.data.message);
+      fetchData(true);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to snooze reminders');
+    }
+  };
+
+  const handlePaidOffline = async (creditor: User, debt: OwedDebt) => {
+    const amount = debt.balance - debt.pending;
+    if (!confirm(`Tell ${creditor.displayName} you paid them ${currency} ${formatMoney(amount, baseCurrency)} outside the app? They will be asked to confirm it.`)) return;
+    try {
+      await remindersAPI.paidOffline(creditor.id);
+      toast.success(`${creditor.displayName} will be asked to confirm your payment`);
+      fetchData(true);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to record the payment');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -122,6 +217,12 @@ export default function Payments() {
       return;
     }
 
+    const amount = toMinor(formData.amount, formData.currency);
+    if (!(amount > 0)) {
+      toast.error('Please enter a valid amount');
+      return;
+    }
+
     if (requirePaymentReceipt && !formData.receipt) {
       toast.error('Please attach a receipt as proof of payment');
       return;
@@ -130,7 +231,8 @@ export default function Payments() {
     try {
       const data = new FormData();
       data.append('toUserId', formData.toUserId);
-      data.append('amount', formData.amount);
+      data.append('amount', String(amount));
+      data.append('currency', formData.currency);
       if (formData.fromUserId) data.append('fromUserId', formData.fromUserId);
       if (formData.description) data.append('description', formData.description);
       if (formData.receipt) data.append('receipt', formData.receipt);
@@ -145,6 +247,53 @@ export default function Payments() {
     }
   };
 
+  const fetchPlan = async (strategy: SettlementStrategy, cap: string) => {
+    if (strategy === 'capped' && !(toMinor(cap, baseCurrency) > 0)) {
+      setPlan(null);
+      return;
+    }
+
+    try {
+      setPlanLoading(true);
+      const res = await settlementsAPI.getPlan({
+        strategy,
+        cap: strategy === 'capped' ? toMinor(cap, baseCurrency) : undefined,
+      });
+      setPlan(res.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load settlement plan');
+    } finally {
+      setPlanLoading(false);
+    }
+  };
+
+  const handleOpenPlan = () => {
+    setShowPlanModal(true);
+    fetchPlan(planStrategy, planCap);
+  };
+
+  const handleApplyPlan = async () => {
+    try {
+      const res = await settlementsAPI.applyPlan({
+        strategy: planStrategy,
+        cap: planStrategy === 'capped' ? toMinor(planCap, baseCurrency) : undefined,
+      });
+      const { created, skipped } = res.data;
+      if (created.length > 0) {
+        toast.success(`Created ${created.length} pending payment${created.length === 1 ? '' : 's'}`);
+      } else {
+        toast('No new payments to create');
+      }
+      if (skipped > 0) {
+        toast(`${skipped} transfer${skipped === 1 ? ' already has' : 's already have'} a pending payment`);
+      }
+      setShowPlanModal(false);
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create payments from plan');
+    }
+  };
+
   const handleStatusUpdate = async (id: string, status: 'confirmed' | 'rejected') => {
     try {
       await paymentsAPI.updateStatus(id, status);
@@ -160,6 +309,7 @@ export default function Payments() {
       toUserId: '',
       fromUserId: '',
       amount: '',
+      currency: baseCurrency,
       description: '',
       receipt: null,
     });
@@ -183,12 +333,13 @@ export default function Payments() {
   const handleDelete = async (payment: Payment) => {
     const isOwner = payment.fromUser.id === user?.id;
     
-    if (user?.isAdmin) {
-      // Admin can always delete directly
+    if (editAny) {
+      // Can always delete directly
       if (!confirm('Are you sure you want to delete this payment?')) return;
       try {
-        await paymentsAPI.delete(payment.id);
-        toast.success('Payment deleted successfully');
+        // Valuable payments wait for more approvals (202)
+        const response = await paymentsAPI.delete(payment.id);
+        toast.success(response.status === 202 ? response.data.message : 'Payment moved to the trash');
         fetchData();
       } catch (error: any) {
         toast.error(error.response?.data?.error || 'Failed to delete payment');
@@ -197,8 +348,9 @@ export default function Payments() {
       // Owner can delete directly when setting enabled
       if (!confirm('Are you sure you want to delete this payment?')) return;
       try {
-        await paymentsAPI.delete(payment.id);
-        toast.success('Payment deleted successfully');
+        // Valuable payments wait for more approvals (202)
+        const response = await paymentsAPI.delete(payment.id);
+        toast.success(response.status === 202 ? response.data.message : 'Payment moved to the trash');
         fetchData();
       } catch (error: any) {
         toast.error(error.response?.data?.error || 'Failed to delete payment');
@@ -220,12 +372,12 @@ export default function Payments() {
     if (!deletingPayment) return;
 
     try {
-      await deleteRequestsAPI.create({
+      await changeRequestsAPI.create({
         recordType: 'payment',
         recordId: deletingPayment.id,
         reason: deleteReason || undefined,
       });
-      toast.success('Delete request submitted for admin approval');
+      toast.success('Delete request submitted for approval');
       setShowDeleteModal(false);
       setDeletingPayment(null);
       setDeleteReason('');
@@ -235,7 +387,58 @@ export default function Payments() {
   };
 
   const canDelete = (payment: Payment) =>
-    payment.fromUser.id === user?.id || user?.isAdmin;
+    canActOn(user, 'payment.edit', [payment.fromUser.id, payment.createdBy?.id]);
+
+  const handleEdit = (payment: Payment) => {
+    setEditingPayment(payment);
+    setEditForm({
+      amount: formatMoney(payment.amount, payment.currency),
+      currency: payment.currency,
+      date: format(new Date(payment.date), 'yyyy-MM-dd'),
+      description: payment.description || '',
+      reason: '',
+    });
+  };
+
+  const handleEditSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingPayment) return;
+
+    const amount = toMinor(editForm.amount, editForm.currency);
+    if (!(amount > 0)) {
+      toast.error('Please enter a valid amount');
+      return;
+    }
+
+    // Payments keep the time they were made, so the date is only sent when it was changed
+    const changes = {
+      amount,
+      currency: editForm.currency,
+      description: editForm.description,
+      ...(editForm.date !== format(new Date(editingPayment.date), 'yyyy-MM-dd') && { date: editForm.date }),
+    };
+
+    try {
+      if (proposingEdit) {
+        // Sent for review as a change request
+        await changeRequestsAPI.create({
+          recordType: 'payment',
+          recordId: editingPayment.id,
+          action: 'edit',
+          changes,
+          reason: editForm.reason || undefined,
+        });
+        toast.success('Edit submitted for approval');
+      } else {
+        await paymentsAPI.update(editingPayment.id, { ...changes, reason: editForm.reason || undefined });
+        toast.success('Payment updated successfully');
+        fetchData();
+      }
+      setEditingPayment(null);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save payment');
+    }
+  };
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -257,7 +460,7 @@ export default function Payments() {
         payment.description?.toLowerCase().includes(searchLower) ||
         payment.fromUser.displayName.toLowerCase().includes(searchLower) ||
         payment.toUser.displayName.toLowerCase().includes(searchLower) ||
-        payment.amount.toString().includes(searchLower);
+        formatMoney(payment.amount, payment.currency).includes(searchLower);
       if (!matchesSearch) return false;
     }
 
@@ -291,6 +494,46 @@ export default function Payments() {
     return <LoadingSpinner size="lg" />;
   }
 
+  // How long a debt has been unpaid, its reminders, and the snooze / paid offline responses
+  const renderDebtReminder = (creditor: User) => {
+    const debt = owedDebts[creditor.id];
+    if (!debt) return null;
+    const snoozedUntil = debt.reminder?.snoozedUntil ? new Date(debt.reminder.snoozedUntil) : null;
+
+    return (
+      <div className="mb-4 space-y-2">
+        <p className="text-xs text-white/50">
+          Unpaid since {format(new Date(debt.oldestDate), 'MMM d, yyyy')}
+          {debt.reminder && debt.reminder.level > 0 && ` • reminded ${debt.reminder.level}×`}
+          {snoozedUntil && snoozedUntil > new Date() && ` • snoozed until ${format(snoozedUntil, 'MMM d')}`}
+        </p>
+        {debt.pending > 0 && (
+          <p className="text-xs text-yellow-400">
+            {currency} {formatMoney(debt.pending, baseCurrency)} waiting for {creditor.displayName} to confirm
+          </p>
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleSnooze(creditor.id)}
+            className="flex-1 px-3 py-1.5 rounded-lg bg-white/5 text-white/70 hover:bg-white/10 text-xs flex items-center justify-center gap-1"
+          >
+            <BellSnoozeIcon className="w-4 h-4" />
+            Snooze 7 days
+          </button>
+          {debt.pending < debt.balance && (
+            <button
+              onClick={() => handlePaidOffline(creditor, debt)}
+              className="flex-1 px-3 py-1.5 rounded-lg bg-white/5 text-white/70 hover:bg-white/10 text-xs flex items-center justify-center gap-1"
+            >
+              <HandThumbUpIcon className="w-4 h-4" />
+              I've paid offline
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6 animate-slide-in">
       {/* Header */}
@@ -299,10 +542,18 @@ export default function Payments() {
           <h1 className="text-2xl lg:text-3xl font-bold text-white">Payments</h1>
           <p className="text-white/60 mt-1">Track payments between members</p>
         </div>
-        <button onClick={() => setShowModal(true)} className="glass-button flex items-center gap-2">
-          <PlusIcon className="w-5 h-5" />
-          Record Payment
-        </button>
+        {can(user, 'payment.create') && (
+          <div className="flex gap-2">
+            <button onClick={handleOpenPlan} className="glass-button-secondary flex items-center gap-2">
+              <ArrowsRightLeftIcon className="w-5 h-5" />
+              Settle Up
+            </button>
+            <button onClick={() => setShowModal(true)} className="glass-button flex items-center gap-2">
+              <PlusIcon className="w-5 h-5" />
+              Record Payment
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Tabs */}
@@ -354,8 +605,9 @@ export default function Payments() {
                     </div>
                   </div>
                   <div className="text-2xl font-bold text-red-400 mb-4">
-                    {currency} {balance.amount.toFixed(2)}
+                    {currency} {formatMoney(balance.amount, baseCurrency)}
                   </div>
+                  {renderDebtReminder(balance.user)}
                   <div className="flex gap-2">
                     <button
                       onClick={() => handleShowPaymentInfo(balance.user)}
@@ -370,7 +622,8 @@ export default function Payments() {
                         setFormData({
                           toUserId: balance.user.id,
                           fromUserId: '',
-                          amount: balance.amount.toFixed(2),
+                          amount: formatMoney(balance.amount, baseCurrency),
+                          currency: baseCurrency,
                           description: `Payment to ${balance.user.displayName}`,
                           receipt: null,
                         });
@@ -425,7 +678,7 @@ export default function Payments() {
                     </div>
                   </div>
                   <div className="text-2xl font-bold text-green-400 mb-4">
-                    {currency} {balance.amount.toFixed(2)}
+                    {currency} {formatMoney(balance.amount, baseCurrency)}
                   </div>
                   <button
                     onClick={() => handleShowPaymentInfo(balance.user)}
@@ -569,7 +822,7 @@ export default function Payments() {
                         </div>
                       </td>
                       <td className="table-cell font-semibold text-green-400">
-                        {currency} {payment.amount.toFixed(2)}
+                        {amountLabel(payment)} {formatMoney(payment.amount, payment.currency)}
                       </td>
                       <td className="table-cell">{getStatusBadge(payment.status)}</td>
                       <td className="table-cell">
@@ -594,7 +847,7 @@ export default function Payments() {
                             <EyeIcon className="w-4 h-4" />
                           </button>
                           {payment.status === 'pending' &&
-                            (payment.toUser.id === user?.id || user?.isAdmin) && (
+                            canActOn(user, 'payment.confirm', [payment.toUser.id]) && (
                               <>
                                 <button
                                   onClick={() => handleStatusUpdate(payment.id, 'confirmed')}
@@ -612,17 +865,30 @@ export default function Payments() {
                                 </button>
                               </>
                             )}
+                          {canDelete(payment) && (
+                            <button
+                              onClick={() => handleEdit(payment)}
+                              className={`p-1.5 rounded-lg text-white/60 ${
+                                proposingEdit
+                                  ? 'hover:bg-yellow-500/20 hover:text-yellow-400'
+                                  : 'hover:bg-white/10 hover:text-white'
+                              }`}
+                              title={proposingEdit ? 'Propose an edit' : 'Edit'}
+                            >
+                              <PencilIcon className="w-4 h-4" />
+                            </button>
+                          )}
                           {canDelete(payment) && (
                             <button
                               onClick={() => handleDelete(payment)}
                               className={`p-1.5 rounded-lg text-white/60 ${
-                                user?.isAdmin || allowUserSelfDelete
+                                editAny || allowUserSelfDelete
                                   ? 'hover:bg-red-500/20 hover:text-red-400'
                                   : 'hover:bg-yellow-500/20 hover:text-yellow-400'
                               }`}
-                              title={user?.isAdmin ? 'Delete' : (allowUserSelfDelete ? 'Delete' : 'Request deletion')}
+                              title={editAny ? 'Delete' : (allowUserSelfDelete ? 'Delete' : 'Request deletion')}
                             >
-                              {user?.isAdmin || allowUserSelfDelete ? (
+                              {editAny || allowUserSelfDelete ? (
                                 <TrashIcon className="w-4 h-4" />
                               ) : (
                                 <ExclamationTriangleIcon className="w-4 h-4" />
@@ -731,16 +997,26 @@ export default function Payments() {
 
           <div>
             <label className="block text-sm font-medium text-white/70 mb-2">
-              Amount (RM) <span className="text-red-400">*</span>
+              Amount <span className="text-red-400">*</span>
             </label>
-            <input
-              type="number"
-              step="0.01"
-              value={formData.amount}
-              onChange={(e) => setFormData((prev) => ({ ...prev, amount: e.target.value }))}
-              className="glass-input"
-              placeholder="0.00"
-            />
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={formData.currency}
+                onChange={(e) => setFormData((prev) => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                className="glass-input w-20 uppercase"
+                maxLength={3}
+                title="Currency (ISO 4217 code)"
+              />
+              <input
+                type="number"
+                step={amountStep(formData.currency)}
+                value={formData.amount}
+                onChange={(e) => setFormData((prev) => ({ ...prev, amount: e.target.value }))}
+                className="glass-input flex-1"
+                placeholder={formatMoney(0, formData.currency)}
+              />
+            </div>
           </div>
 
           <div>
@@ -787,6 +1063,102 @@ export default function Payments() {
         </form>
       </Modal>
 
+      {/* Settlement Plan Modal */}
+      <Modal isOpen={showPlanModal} onClose={() => setShowPlanModal(false)} title="Settle Up" size="lg">
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {STRATEGY_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => {
+                  setPlanStrategy(option.value);
+                  fetchPlan(option.value, planCap);
+                }}
+                className={`p-3 rounded-xl text-left transition-all ${
+                  planStrategy === option.value
+                    ? 'bg-purple-500/30 border border-purple-500/50'
+                    : 'bg-white/5 border border-white/10 hover:bg-white/10'
+                }`}
+              >
+                <p className="text-white font-medium text-sm">{option.label}</p>
+                <p className="text-white/50 text-xs mt-1">{option.description}</p>
+              </button>
+            ))}
+          </div>
+
+          {planStrategy === 'capped' && (
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">
+                Cap per person ({currency}) <span className="text-red-400">*</span>
+              </label>
+              <input
+                type="number"
+                step={amountStep(baseCurrency)}
+                min="0"
+                value={planCap}
+                onChange={(e) => setPlanCap(e.target.value)}
+                onBlur={() => fetchPlan(planStrategy, planCap)}
+                className="glass-input"
+                placeholder="0.00"
+              />
+            </div>
+          )}
+
+          {planLoading ? (
+            <LoadingSpinner />
+          ) : plan && plan.transfers.length > 0 ? (
+            <div className="space-y-2">
+              {plan.transfers.map((transfer, index) => (
+                <div
+                  key={index}
+                  className={`flex items-center justify-between p-3 rounded-xl ${
+                    transfer.from.id === user?.id ? 'bg-red-500/10' : transfer.to.id === user?.id ? 'bg-green-500/10' : 'bg-white/5'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-white">
+                    <span>{transfer.from.displayName}</span>
+                    <ArrowRightIcon className="w-4 h-4 text-white/40" />
+                    <span>{transfer.to.displayName}</span>
+                  </div>
+                  <span className="font-bold text-white">
+                    {currency} {formatMoney(transfer.amount, baseCurrency)}
+                  </span>
+                </div>
+              ))}
+              <p className="text-sm text-white/50 pt-2">
+                {plan.transferCount} transfer{plan.transferCount === 1 ? '' : 's'} · {currency} {formatMoney(plan.totalAmount, baseCurrency)} total
+              </p>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-white/40">
+              <CheckIcon className="w-10 h-10 mx-auto mb-2 text-green-400" />
+              <p>{planStrategy === 'capped' && !planCap ? 'Enter a cap to see the plan' : 'Nothing to settle!'}</p>
+            </div>
+          )}
+
+          <p className="text-xs text-white/40">
+            {editAny
+              ? 'Creates a pending payment for every transfer in the plan.'
+              : 'Creates pending payments for the transfers you need to make.'}
+          </p>
+
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={() => setShowPlanModal(false)} className="glass-button-secondary flex-1">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleApplyPlan}
+              disabled={!plan || plan.transfers.length === 0}
+              className="glass-button flex-1 disabled:opacity-50"
+            >
+              Create Pending Payments
+            </button>
+          </div>
+        </div>
+      </Modal>
+
       {/* Receipt Modal */}
       <Modal isOpen={showReceiptModal} onClose={() => setShowReceiptModal(false)} title="Receipt" size="lg">
         {selectedReceipt && (
@@ -866,6 +1238,102 @@ export default function Payments() {
         )}
       </Modal>
 
+      {/* Edit Payment Modal */}
+      <Modal
+        isOpen={!!editingPayment}
+        onClose={() => setEditingPayment(null)}
+        title={proposingEdit ? 'Propose Edit' : 'Edit Payment'}
+      >
+        <form onSubmit={handleEditSubmit} className="space-y-4">
+          {proposingEdit && (
+            <p className="text-sm text-yellow-400/80 bg-yellow-500/10 rounded-xl p-3">
+              A reviewer will check your changes before they are applied.
+            </p>
+          )}
+
+          {editingPayment && (
+            <p className="text-white font-medium">
+              {editingPayment.fromUser.displayName} → {editingPayment.toUser.displayName}
+            </p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">
+              Amount <span className="text-red-400">*</span>
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={editForm.currency}
+                onChange={(e) => setEditForm((prev) => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                className="glass-input w-20 uppercase"
+                maxLength={3}
+                title="Currency (ISO 4217 code)"
+              />
+              <input
+                type="number"
+                step={amountStep(editForm.currency)}
+                value={editForm.amount}
+                onChange={(e) => setEditForm((prev) => ({ ...prev, amount: e.target.value }))}
+                className="glass-input flex-1"
+                placeholder={formatMoney(0, editForm.currency)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">
+              Date
+            </label>
+            <input
+              type="date"
+              value={editForm.date}
+              onChange={(e) => setEditForm((prev) => ({ ...prev, date: e.target.value }))}
+              className="glass-input"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">
+              Description
+            </label>
+            <input
+              type="text"
+              value={editForm.description}
+              onChange={(e) => setEditForm((prev) => ({ ...prev, description: e.target.value }))}
+              className="glass-input"
+              placeholder="What is this payment for?"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">
+              Reason for Change <span className="text-white/40">(Optional)</span>
+            </label>
+            <input
+              type="text"
+              value={editForm.reason}
+              onChange={(e) => setEditForm((prev) => ({ ...prev, reason: e.target.value }))}
+              className="glass-input"
+              placeholder={proposingEdit ? 'Shown to whoever reviews your edit' : "Shown in the payment's history"}
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={() => setEditingPayment(null)}
+              className="glass-button-secondary flex-1"
+            >
+              Cancel
+            </button>
+            <button type="submit" className="glass-button flex-1">
+              {proposingEdit ? 'Submit Edit' : 'Update Payment'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
       {/* Delete Request Modal */}
       <Modal
         isOpen={showDeleteModal}
@@ -883,7 +1351,7 @@ export default function Payments() {
               <div>
                 <p className="text-white font-medium">Admin approval required</p>
                 <p className="text-white/60 text-sm mt-1">
-                  Your delete request will be sent to admin for approval.
+                  Your delete request will be sent for approval.
                 </p>
               </div>
             </div>
@@ -895,7 +1363,7 @@ export default function Payments() {
               <p className="text-white font-medium">
                 {deletingPayment.fromUser.displayName} → {deletingPayment.toUser.displayName}
               </p>
-              <p className="text-green-400 font-bold">{currency} {deletingPayment.amount.toFixed(2)}</p>
+              <p className="text-green-400 font-bold">{amountLabel(deletingPayment)} {formatMoney(deletingPayment.amount, deletingPayment.currency)}</p>
             </div>
           )}
 
@@ -948,7 +1416,7 @@ export default function Payments() {
             <div className="text-center p-6 rounded-2xl bg-gradient-to-br from-green-500/20 to-emerald-500/20 border border-white/10">
               <p className="text-white/60 text-sm mb-1">Amount</p>
               <p className="text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-emerald-400">
-                {currency} {viewingPayment.amount.toFixed(2)}
+                {amountLabel(viewingPayment)} {formatMoney(viewingPayment.amount, viewingPayment.currency)}
               </p>
               {/* Status Badge */}
               <div className="mt-3">
@@ -1049,18 +1517,34 @@ export default function Payments() {
               </div>
             )}
 
-            <button
-              onClick={() => {
-                setShowViewModal(false);
-                setViewingPayment(null);
-              }}
-              className="glass-button w-full"
-            >
-              Close
-            </button>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setHistoryPayment(viewingPayment)}
+                className="glass-button-secondary flex-1 flex items-center justify-center gap-2"
+              >
+                <ClockIcon className="w-4 h-4" />
+                History
+              </button>
+              <button
+                onClick={() => {
+                  setShowViewModal(false);
+                  setViewingPayment(null);
+                }}
+                className="glass-button flex-1"
+              >
+                Close
+              </button>
+            </div>
           </div>
         )}
       </Modal>
+
+      <HistoryModal
+        entityType="payment"
+        entityId={historyPayment?.id || null}
+        title="Payment History"
+        onClose={() => setHistoryPayment(null)}
+      />
     </div>
   );
 }
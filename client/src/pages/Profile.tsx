@@ -4,15 +4,55 @@ import {
   PhotoIcon,
   QrCodeIcon,
   KeyIcon,
+  BellIcon,
+  EnvelopeIcon,
+  ShieldCheckIcon,
+  ComputerDesktopIcon,
 } from '@heroicons/react/24/outline';
-import { usersAPI, authAPI } from '../lib/api';
+import { formatDistanceToNow } from 'date-fns';
+import { usersAPI, authAPI, notificationsAPI, twoFactorAPI, sessionsAPI } from '../lib/api';
 import { useAuthStore } from '../stores/authStore';
+import TwoFactorSetup, { RecoveryCodes } from '../components/TwoFactorSetup';
 import toast from 'react-hot-toast';
 
+interface Preference {
+  type: string;
+  description: string;
+  enabled: boolean;
+}
+
+interface EmailPreferences {
+  available: boolean;
+  email: string | null;
+  preferences: Preference[];
+}
+
+interface Session {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+  requiredBy: { id: string; name: string }[];
+}
+
 export default function Profile() {
-  const { user, updateUser } = useAuthStore();
+  const { user, updateUser, logout } = useAuthStore();
   const [loading, setLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'profile' | 'bank' | 'security'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'bank' | 'security' | 'notifications'>('profile');
+  const [preferences, setPreferences] = useState<Preference[]>([]);
+  const [emailPreferences, setEmailPreferences] = useState<EmailPreferences | null>(null);
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
+  const [twoFactorAction, setTwoFactorAction] = useState<'disable' | 'regenerate' | null>(null);
+  const [twoFactorForm, setTwoFactorForm] = useState({ password: '', code: '' });
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
 
   const [profileData, setProfileData] = useState({
     username: user?.username || '',
@@ -61,6 +101,125 @@ export default function Profile() {
     fetchUser();
   }, []);
 
+  useEffect(() => {
+    if (activeTab !== 'notifications') return;
+    notificationsAPI.getPreferences()
+      .then((response) => setPreferences(response.data))
+      .catch(() => toast.error('Failed to load notification preferences'));
+    notificationsAPI.getEmailPreferences()
+      .then((response) => setEmailPreferences(response.data))
+      .catch(() => toast.error('Failed to load email preferences'));
+  }, [activeTab]);
+
+  const fetchTwoFactor = () =>
+    twoFactorAPI.getStatus()
+      .then((response) => setTwoFactor(response.data))
+      .catch(() => toast.error('Failed to load two-factor status'));
+
+  const fetchSessions = () =>
+    sessionsAPI.getAll()
+      .then((response) => setSessions(response.data))
+      .catch(() => toast.error('Failed to load sessions'));
+
+  useEffect(() => {
+    if (activeTab !== 'security') return;
+    fetchTwoFactor();
+    fetchSessions();
+  }, [activeTab]);
+
+  const handleRevokeSession = async (id: string) => {
+    try {
+      await sessionsAPI.revoke(id);
+      toast.success('Session logged out');
+      fetchSessions();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to log out session');
+    }
+  };
+
+  const handleRevokeAllSessions = async () => {
+    if (!confirm('Log out on every device, including this one?')) return;
+
+    try {
+      await sessionsAPI.revokeAll();
+      logout();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to log out everywhere');
+    }
+  };
+
+  const closeTwoFactorAction = () => {
+    setTwoFactorAction(null);
+    setTwoFactorForm({ password: '', code: '' });
+    setNewRecoveryCodes(null);
+    fetchTwoFactor();
+  };
+
+  const handleTwoFactorEnabled = () => {
+    updateUser({ twoFactorEnabled: true, mustEnableTwoFactor: false });
+    closeTwoFactorAction();
+  };
+
+  const handleDisableTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await twoFactorAPI.disable(twoFactorForm.password, twoFactorForm.code);
+      toast.success(response.data.message);
+      updateUser({ twoFactorEnabled: false });
+      closeTwoFactorAction();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to turn off two-factor authentication');
+    }
+  };
+
+  const handleRegenerateRecoveryCodes = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await twoFactorAPI.regenerateRecoveryCodes(twoFactorForm.code);
+      setNewRecoveryCodes(response.data.recoveryCodes);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create new recovery codes');
+    }
+  };
+
+  const handleTogglePreference = async (type: string, enabled: boolean) => {
+    try {
+      const response = await notificationsAPI.updatePreferences({ [type]: enabled });
+      setPreferences(response.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update notification preferences');
+    }
+  };
+
+  const handleToggleEmailPreference = async (type: string, enabled: boolean) => {
+    try {
+      const response = await notificationsAPI.updateEmailPreferences({ [type]: enabled });
+      setEmailPreferences(response.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update email preferences');
+    }
+  };
+
+  const renderPreferences = (list: Preference[], onToggle: (type: string, enabled: boolean) => void) =>
+    list.map((preference) => (
+      <div key={preference.type} className="flex items-center justify-between gap-4">
+        <span className="text-sm text-white/80">{preference.description}</span>
+        <button
+          type="button"
+          onClick={() => onToggle(preference.type, !preference.enabled)}
+          className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-900 ${
+            preference.enabled ? 'bg-purple-600' : 'bg-white/20'
+          }`}
+        >
+          <span
+            className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+              preference.enabled ? 'translate-x-5' : 'translate-x-0'
+            }`}
+          />
+        </button>
+      </div>
+    ));
+
   const handleProfileUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -76,6 +235,15 @@ export default function Profile() {
     }
   };
 
+  const handleResendVerification = async () => {
+    try {
+      const response = await authAPI.resendVerification();
+      toast.success(response.data.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send verification email');
+    }
+  };
+
   const handleBankUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -111,8 +279,9 @@ export default function Profile() {
         currentPassword: passwordData.currentPassword,
         newPassword: passwordData.newPassword,
       });
-      toast.success('Password updated successfully');
+      toast.success('Password updated. Your other devices have been logged out.');
       setPasswordData({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      fetchSessions();
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to update password');
     } finally {
@@ -188,7 +357,7 @@ export default function Profile() {
 
         {/* Tabs */}
         <div className="flex gap-2 mb-6">
-          {(['profile', 'bank', 'security'] as const).map((tab) => (
+          {(['profile', 'bank', 'security', 'notifications'] as const).map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -245,6 +414,20 @@ export default function Profile() {
                 }
                 className="glass-input"
               />
+              {user?.emailVerified ? (
+                <p className="text-xs text-green-400 mt-1">Verified</p>
+              ) : (
+                <p className="text-xs text-yellow-400 mt-1">
+                  Not verified yet, so no emails are sent to it.{' '}
+                  <button
+                    type="button"
+                    onClick={handleResendVerification}
+                    className="text-purple-400 hover:text-purple-300 underline"
+                  >
+                    Resend verification email
+                  </button>
+                </p>
+              )}
             </div>
             <button
               type="submit"
@@ -405,6 +588,166 @@ export default function Profile() {
             </button>
           </form>
         )}
+
+        {activeTab === 'security' && twoFactor && (
+          <div className="space-y-4 mt-8 pt-6 border-t border-white/10">
+            <div className="flex items-center justify-between gap-4">
+              <p className="flex items-center gap-2 text-white font-medium">
+                <ShieldCheckIcon className="w-5 h-5 text-purple-400" />
+                Two-Factor Authentication
+              </p>
+              <span className={`text-xs px-2 py-1 rounded-full ${
+                twoFactor.enabled ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-white/60'
+              }`}>
+                {twoFactor.enabled ? 'On' : 'Off'}
+              </span>
+            </div>
+
+            {twoFactor.requiredBy.length > 0 && (
+              <p className="text-xs text-white/50">
+                Required for owners and treasurers of {twoFactor.requiredBy.map((household) => household.name).join(', ')}
+              </p>
+            )}
+
+            {newRecoveryCodes ? (
+              <RecoveryCodes codes={newRecoveryCodes} onDone={closeTwoFactorAction} />
+            ) : !twoFactor.enabled ? (
+              <TwoFactorSetup onDone={handleTwoFactorEnabled} />
+            ) : twoFactorAction === 'disable' ? (
+              <form onSubmit={handleDisableTwoFactor} className="space-y-3">
+                <input
+                  type="password"
+                  value={twoFactorForm.password}
+                  onChange={(e) => setTwoFactorForm((prev) => ({ ...prev, password: e.target.value }))}
+                  className="glass-input"
+                  placeholder="Your password"
+                />
+                <input
+                  type="text"
+                  value={twoFactorForm.code}
+                  onChange={(e) => setTwoFactorForm((prev) => ({ ...prev, code: e.target.value }))}
+                  className="glass-input font-mono"
+                  placeholder="Authenticator or recovery code"
+                  autoComplete="one-time-code"
+                />
+                <div className="flex gap-3">
+                  <button type="button" onClick={closeTwoFactorAction} className="glass-button-secondary flex-1">
+                    Cancel
+                  </button>
+                  <button type="submit" className="flex-1 px-4 py-2 bg-red-500 text-white rounded-xl hover:bg-red-600 transition-colors">
+                    Turn Off
+                  </button>
+                </div>
+              </form>
+            ) : twoFactorAction === 'regenerate' ? (
+              <form onSubmit={handleRegenerateRecoveryCodes} className="space-y-3">
+                <p className="text-sm text-white/70">Your old recovery codes will stop working.</p>
+                <input
+                  type="text"
+                  value={twoFactorForm.code}
+                  onChange={(e) => setTwoFactorForm((prev) => ({ ...prev, code: e.target.value }))}
+                  className="glass-input font-mono"
+                  placeholder="Authenticator or recovery code"
+                  autoComplete="one-time-code"
+                />
+                <div className="flex gap-3">
+                  <button type="button" onClick={closeTwoFactorAction} className="glass-button-secondary flex-1">
+                    Cancel
+                  </button>
+                  <button type="submit" className="glass-button flex-1">
+                    Create New Codes
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-sm text-white/70">
+                  Logins ask for a code from your authenticator app. {twoFactor.recoveryCodesLeft} recovery
+                  {twoFactor.recoveryCodesLeft === 1 ? ' code' : ' codes'} left.
+                </p>
+                <div className="flex gap-3">
+                  <button type="button" onClick={() => setTwoFactorAction('regenerate')} className="glass-button-secondary flex-1">
+                    New Recovery Codes
+                  </button>
+                  {twoFactor.requiredBy.length === 0 && (
+                    <button type="button" onClick={() => setTwoFactorAction('disable')} className="glass-button-secondary flex-1">
+                      Turn Off
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'security' && sessions.length > 0 && (
+          <div className="space-y-4 mt-8 pt-6 border-t border-white/10">
+            <div className="flex items-center justify-between gap-4">
+              <p className="flex items-center gap-2 text-white font-medium">
+                <ComputerDesktopIcon className="w-5 h-5 text-purple-400" />
+                Your Sessions
+              </p>
+              <button
+                type="button"
+                onClick={handleRevokeAllSessions}
+                className="text-sm text-red-400 hover:text-red-300"
+              >
+                Log out everywhere
+              </button>
+            </div>
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <div key={session.id} className="flex items-center justify-between gap-4 p-3 rounded-xl bg-white/5 border border-white/10">
+                  <div className="min-w-0">
+                    <p className="text-sm text-white flex items-center gap-2">
+                      {session.device}
+                      {session.current && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-green-500/20 text-green-400">This device</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-white/50 truncate">
+                      {session.ipAddress && `${session.ipAddress} · `}
+                      Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                      {' · '}Signed in {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <button
+                      type="button"
+                      onClick={() => handleRevokeSession(session.id)}
+                      className="glass-button-secondary text-sm px-3 py-1 flex-shrink-0"
+                    >
+                      Log out
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Notifications Tab */}
+        {activeTab === 'notifications' && (
+          <div className="space-y-4">
+            <p className="flex items-center gap-2 text-sm text-white/60">
+              <BellIcon className="w-5 h-5 text-purple-400" />
+              Choose what shows up under the bell
+            </p>
+            {renderPreferences(preferences, handleTogglePreference)}
+
+            {emailPreferences && (
+              <div className="space-y-4 pt-6 mt-2 border-t border-white/10">
+                <p className="flex items-center gap-2 text-sm text-white/60">
+                  <EnvelopeIcon className="w-5 h-5 text-purple-400" />
+                  {emailPreferences.available
+                    ? `Choose what is emailed to ${emailPreferences.email}`
+                    : 'Email is not set up on this server yet, but you can still choose what you would get'}
+                </p>
+                {renderPreferences(emailPreferences.preferences, handleToggleEmailPreference)}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
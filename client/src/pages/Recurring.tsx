@@ -7,26 +7,36 @@ import {
   PlayIcon,
   TrashIcon,
   PencilIcon,
+  ClipboardDocumentListIcon,
+  ClockIcon,
 } from '@heroicons/react/24/outline';
-import { recurringAPI, categoriesAPI, usersAPI } from '../lib/api';
-import { useAuthStore } from '../stores/authStore';
+import { recurringAPI, categoriesAPI, usersAPI, changeRequestsAPI } from '../lib/api';
+import { can, canActOn, useAuthStore, selectBaseCurrency } from '../stores/authStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { allocateEvenly, amountStep, currencyLabel, formatMoney, fromMinor, toMinor } from '../lib/money';
 import Modal from '../components/Modal';
 import LoadingSpinner from '../components/LoadingSpinner';
+import HistoryModal from '../components/HistoryModal';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
+import { useLiveUpdates } from '../lib/events';
 
 interface RecurringExpense {
   id: string;
   description: string;
   amount: number;
+  currency: string;
   frequency: string;
+  interval: number;
+  rrule: string | null;
+  schedule: string;
   startDate: string;
   endDate: string | null;
   totalOccurrences: number | null;
   occurrencesCreated: number;
   nextDueDate: string;
   isActive: boolean;
+  isVariableAmount: boolean;
   splitEqually: boolean;
   splitType: string;
   splitConfig: string | null;
@@ -40,6 +50,84 @@ interface RecurringExpense {
   };
 }
 
+interface RecurringRunItem {
+  recurringExpenseId: string;
+  description: string;
+  dueDate: string;
+  amount: number;
+  currency: string;
+  status: 'created' | 'planned' | 'skipped' | 'failed';
+  error?: string;
+}
+
+interface RecurringRun {
+  id: string;
+  trigger: 'startup' | 'schedule' | 'manual';
+  dryRun: boolean;
+  upTo: string;
+  created: number;
+  skipped: number;
+  failed: number;
+  details: RecurringRunItem[];
+  startedAt: string;
+  triggeredBy: { id: string; displayName: string } | null;
+}
+
+interface SchedulePreview {
+  schedule?: string;
+  occurrences?: string[];
+  error?: string;
+}
+
+type MonthlyPattern = 'date' | 'lastDay' | 'weekdays';
+
+const WEEKDAYS = [
+  { code: 'MO', label: 'Monday' },
+  { code: 'TU', label: 'Tuesday' },
+  { code: 'WE', label: 'Wednesday' },
+  { code: 'TH', label: 'Thursday' },
+  { code: 'FR', label: 'Friday' },
+  { code: 'SA', label: 'Saturday' },
+  { code: 'SU', label: 'Sunday' },
+];
+
+const WEEK_POSITIONS = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' },
+];
+
+// Map a saved RRULE back onto the form's monthly patterns; anything else is edited as a custom rule
+const parseSchedule = (item: RecurringExpense) => {
+  const defaults = {
+    frequency: item.frequency,
+    interval: String(item.interval || 1),
+    monthlyPattern: 'date' as MonthlyPattern,
+    weekPositions: [1] as number[],
+    weekday: 'SA',
+    rrule: '',
+  };
+  if (!item.rrule) return defaults;
+
+  const lastDay = /^FREQ=MONTHLY(?:;INTERVAL=\d+)?;BYMONTHDAY=-1$/.exec(item.rrule);
+  if (lastDay) return { ...defaults, monthlyPattern: 'lastDay' as MonthlyPattern };
+
+  const weekdays = /^FREQ=MONTHLY(?:;INTERVAL=\d+)?;BYDAY=((?:-?\d[A-Z]{2},?)+)$/.exec(item.rrule);
+  const days = weekdays?.[1].split(',').map(d => /^(-?\d)([A-Z]{2})$/.exec(d)!);
+  if (days && days.every(d => d[2] === days[0][2])) {
+    return {
+      ...defaults,
+      monthlyPattern: 'weekdays' as MonthlyPattern,
+      weekPositions: days.map(d => Number(d[1])),
+      weekday: days[0][2],
+    };
+  }
+
+  return { ...defaults, frequency: 'custom', rrule: item.rrule };
+};
+
 interface Category {
   id: string;
   name: string;
@@ -55,7 +143,10 @@ interface User {
 
 export default function Recurring() {
   const { user } = useAuthStore();
-  const { currency } = useSettingsStore();
+  const baseCurrency = useAuthStore(selectBaseCurrency);
+  const { currency, allowUserSelfEdit } = useSettingsStore();
+  // Members who can't edit directly propose their edits instead
+  const proposingEdit = !can(user, 'recurring.edit.any') && !allowUserSelfEdit;
   const [recurring, setRecurring] = useState<RecurringExpense[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [users, setUsers] = useState<User[]>([]);
@@ -63,11 +154,25 @@ export default function Recurring() {
   const [modalOpen, setModalOpen] = useState(false);
   const [processing, setProcessing] = useState(false);
   const [editingRecurring, setEditingRecurring] = useState<RecurringExpense | null>(null);
+  const [changeReason, setChangeReason] = useState('');
+  const [historyRecurring, setHistoryRecurring] = useState<RecurringExpense | null>(null);
+  const [runsOpen, setRunsOpen] = useState(false);
+  const [runs, setRuns] = useState<RecurringRun[]>([]);
+  const [processUpTo, setProcessUpTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [preview, setPreview] = useState<RecurringRunItem[] | null>(null);
+  const [schedulePreview, setSchedulePreview] = useState<SchedulePreview | null>(null);
 
   const [formData, setFormData] = useState({
     description: '',
     amount: '',
+    currency: baseCurrency,
+    isVariableAmount: false,
     frequency: 'monthly',
+    interval: '1',
+    monthlyPattern: 'date' as MonthlyPattern,
+    weekPositions: [1] as number[],
+    weekday: 'SA',
+    rrule: '',
     startDate: format(new Date(), 'yyyy-MM-dd'),
     endDate: '',
     totalOccurrences: '',
@@ -83,6 +188,44 @@ export default function Recurring() {
     fetchData();
   }, []);
 
+  // Refresh when someone else changes a recurring expense
+  useLiveUpdates(['recurring', 'categories'], () => {
+    fetchData();
+  });
+
+  // Show the next few dates of the schedule while it is being edited
+  useEffect(() => {
+    if (!modalOpen || !formData.startDate) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await recurringAPI.preview({
+          ...buildSchedule(),
+          startDate: formData.startDate,
+          endDate: formData.endDate,
+          totalOccurrences: formData.totalOccurrences,
+          count: '5',
+        });
+        setSchedulePreview(response.data);
+      } catch (error: any) {
+        setSchedulePreview({ error: error.response?.data?.error || 'Invalid schedule' });
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [
+    modalOpen,
+    formData.frequency,
+    formData.interval,
+    formData.monthlyPattern,
+    formData.weekPositions,
+    formData.weekday,
+    formData.rrule,
+    formData.startDate,
+    formData.endDate,
+    formData.totalOccurrences,
+  ]);
+
   // Initialize split members when users are loaded
   useEffect(() => {
     if (users.length > 0 && formData.splitMembers.length === 0 && !editingRecurring) {
@@ -121,9 +264,39 @@ export default function Recurring() {
     }
   };
 
-  // Smart rounding for split amounts - owner (first member) gets the remainder
+  const formLabel = currencyLabel(formData.currency, baseCurrency, currency);
+
+  // Schedule fields for the API: a custom RRULE, a monthly pattern expressed as an RRULE,
+  // or just a frequency with an interval
+  const buildSchedule = (): Record<string, string> => {
+    if (formData.frequency === 'custom') {
+      return { rrule: formData.rrule };
+    }
+
+    const interval = formData.interval || '1';
+    if (formData.frequency === 'monthly' && formData.monthlyPattern !== 'date') {
+      const intervalPart = interval === '1' ? '' : `;INTERVAL=${interval}`;
+      const byPart = formData.monthlyPattern === 'lastDay'
+        ? 'BYMONTHDAY=-1'
+        : `BYDAY=${[...formData.weekPositions].sort((a, b) => (a < 0 ? 6 : a) - (b < 0 ? 6 : b)).map(p => `${p}${formData.weekday}`).join(',')}`;
+      return { rrule: `FREQ=MONTHLY${intervalPart};${byPart}` };
+    }
+
+    return { frequency: formData.frequency, interval, rrule: '' };
+  };
+
+  const toggleWeekPosition = (position: number) => {
+    const positions = formData.weekPositions.includes(position)
+      ? formData.weekPositions.filter(p => p !== position)
+      : [...formData.weekPositions, position];
+    if (positions.length > 0) {
+      setFormData({ ...formData, weekPositions: positions });
+    }
+  };
+
+  // Split amounts in minor units - owner (first member) gets the remainder
   const calculateSplitAmounts = () => {
-    const totalAmount = parseFloat(formData.amount) || 0;
+    const totalAmount = toMinor(formData.amount, formData.currency) || 0;
     const splitMembers = formData.splitMembers;
     
     if (splitMembers.length === 0) return [];
@@ -131,25 +304,22 @@ export default function Recurring() {
     let amounts: { memberId: string; amount: number }[] = [];
     
     if (formData.splitType === 'equal') {
-      const perPerson = totalAmount / splitMembers.length;
-      const roundedPerPerson = Math.floor(perPerson * 100) / 100;
-      const totalOthers = roundedPerPerson * (splitMembers.length - 1);
-      const ownerAmount = Math.round((totalAmount - totalOthers) * 100) / 100;
+      const shares = allocateEvenly(totalAmount, splitMembers.length);
       
       amounts = splitMembers.map((m, index) => ({
         memberId: m.memberId,
-        amount: index === 0 ? ownerAmount : roundedPerPerson
+        amount: shares[index]
       }));
     } else if (formData.splitType === 'percentage') {
       let totalOthersAmount = 0;
       const othersAmounts = splitMembers.slice(1).map((m) => {
         const percentage = m.percentage || 0;
-        const amount = Math.round((totalAmount * percentage / 100) * 100) / 100;
+        const amount = Math.round(totalAmount * percentage / 100);
         totalOthersAmount += amount;
         return { memberId: m.memberId, amount };
       });
       
-      const ownerAmount = Math.round((totalAmount - totalOthersAmount) * 100) / 100;
+      const ownerAmount = totalAmount - totalOthersAmount;
       amounts = [
         { memberId: splitMembers[0].memberId, amount: ownerAmount },
         ...othersAmounts
@@ -157,12 +327,12 @@ export default function Recurring() {
     } else if (formData.splitType === 'amount') {
       let totalOthersAmount = 0;
       const othersAmounts = splitMembers.slice(1).map(m => {
-        const amount = m.amount || 0;
+        const amount = toMinor(m.amount || 0, formData.currency) || 0;
         totalOthersAmount += amount;
         return { memberId: m.memberId, amount };
       });
       
-      const ownerAmount = Math.round((totalAmount - totalOthersAmount) * 100) / 100;
+      const ownerAmount = totalAmount - totalOthersAmount;
       amounts = [
         { memberId: splitMembers[0].memberId, amount: Math.max(0, ownerAmount) },
         ...othersAmounts
@@ -178,24 +348,34 @@ export default function Recurring() {
     return Math.max(0, 100 - othersPercentage);
   };
 
-  // Get owner's amount based on others' amounts
+  // Get owner's amount (minor units) based on others' amounts
   const getOwnerAmount = () => {
-    const totalAmount = parseFloat(formData.amount) || 0;
-    const othersAmount = formData.splitMembers.slice(1).reduce((sum, m) => sum + (m.amount || 0), 0);
+    const totalAmount = toMinor(formData.amount, formData.currency) || 0;
+    const othersAmount = formData.splitMembers.slice(1).reduce((sum, m) => sum + (toMinor(m.amount || 0, formData.currency) || 0), 0);
     return Math.max(0, totalAmount - othersAmount);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (formData.frequency === 'custom' && !formData.rrule.trim()) {
+      toast.error('Enter an RRULE or choose a frequency');
+      return;
+    }
     
     try {
-      // Always use custom split config
-      const splitConfig = formData.splitMembers;
+      // Always use custom split config (split amounts are stored in minor units)
+      const splitConfig = formData.splitMembers.map((m) => ({
+        ...m,
+        amount: toMinor(m.amount || 0, formData.currency) || 0,
+      }));
       
       const payload = {
         description: formData.description,
-        amount: parseFloat(formData.amount),
-        frequency: formData.frequency,
+        amount: formData.isVariableAmount && !formData.amount ? 0 : toMinor(formData.amount, formData.currency),
+        currency: formData.currency,
+        isVariableAmount: formData.isVariableAmount,
+        ...buildSchedule(),
         startDate: formData.startDate,
         endDate: formData.endDate || null,
         totalOccurrences: formData.totalOccurrences || null,
@@ -207,8 +387,17 @@ export default function Recurring() {
         splitConfig,
       };
       
-      if (editingRecurring) {
-        await recurringAPI.update(editingRecurring.id, payload);
+      if (editingRecurring && proposingEdit) {
+        await changeRequestsAPI.create({
+          recordType: 'recurring',
+          recordId: editingRecurring.id,
+          action: 'edit',
+          changes: payload,
+          reason: changeReason || undefined,
+        });
+        toast.success('Edit submitted for approval');
+      } else if (editingRecurring) {
+        await recurringAPI.update(editingRecurring.id, { ...payload, reason: changeReason || undefined });
         toast.success('Recurring expense updated');
       } else {
         await recurringAPI.create(payload);
@@ -235,7 +424,10 @@ export default function Recurring() {
     let splitMembers: { memberId: string; percentage?: number; amount?: number }[] = [];
     if (item.splitConfig) {
       try {
-        splitMembers = JSON.parse(item.splitConfig);
+        splitMembers = JSON.parse(item.splitConfig).map((m: { memberId: string; percentage?: number; amount?: number }) => ({
+          ...m,
+          amount: fromMinor(m.amount || 0, item.currency),
+        }));
       } catch {
         // Default to all users if config is invalid
         splitMembers = sortedUsers.map((u) => ({
@@ -255,8 +447,10 @@ export default function Recurring() {
     setEditingRecurring(item);
     setFormData({
       description: item.description,
-      amount: item.amount.toString(),
-      frequency: item.frequency,
+      amount: formatMoney(item.amount, item.currency),
+      currency: item.currency,
+      isVariableAmount: item.isVariableAmount,
+      ...parseSchedule(item),
       startDate: format(new Date(item.startDate), 'yyyy-MM-dd'),
       endDate: item.endDate ? format(new Date(item.endDate), 'yyyy-MM-dd') : '',
       totalOccurrences: item.totalOccurrences?.toString() || '',
@@ -316,8 +510,53 @@ export default function Recurring() {
     }
   };
 
+  const fetchRuns = async () => {
+    try {
+      const response = await recurringAPI.getRuns();
+      setRuns(response.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load run log');
+    }
+  };
+
+  const openRuns = () => {
+    setPreview(null);
+    setRunsOpen(true);
+    fetchRuns();
+  };
+
+  // Process (or preview) everything due up to the chosen date
+  const handleProcessUpTo = async (dryRun: boolean) => {
+    setProcessing(true);
+    try {
+      const response = await recurringAPI.process({ dryRun, upTo: processUpTo });
+      if (dryRun) {
+        setPreview(response.data.items);
+      } else {
+        setPreview(null);
+        toast.success(response.data.message);
+        fetchData();
+      }
+      fetchRuns();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to process');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const getRunItemColor = (status: RecurringRunItem['status']) => {
+    switch (status) {
+      case 'created': return 'text-green-400';
+      case 'planned': return 'text-blue-400';
+      case 'skipped': return 'text-yellow-400';
+      case 'failed': return 'text-red-400';
+    }
+  };
+
   const resetForm = () => {
     setEditingRecurring(null);
+    setChangeReason('');
     
     // Sort users with current user first
     const sortedUsers = [...users].sort((a, b) => {
@@ -329,7 +568,14 @@ export default function Recurring() {
     setFormData({
       description: '',
       amount: '',
+      currency: baseCurrency,
+      isVariableAmount: false,
       frequency: 'monthly',
+      interval: '1',
+      monthlyPattern: 'date',
+      weekPositions: [1],
+      weekday: 'SA',
+      rrule: '',
       startDate: format(new Date(), 'yyyy-MM-dd'),
       endDate: '',
       totalOccurrences: '',
@@ -345,16 +591,6 @@ export default function Recurring() {
     });
   };
 
-  const getFrequencyLabel = (freq: string) => {
-    switch (freq) {
-      case 'daily': return 'Daily';
-      case 'weekly': return 'Weekly';
-      case 'monthly': return 'Monthly';
-      case 'yearly': return 'Yearly';
-      default: return freq;
-    }
-  };
-
   const getFrequencyColor = (freq: string) => {
     switch (freq) {
       case 'daily': return 'bg-red-500/20 text-red-400';
@@ -376,24 +612,37 @@ export default function Recurring() {
           <p className="text-white/60 mt-1">Manage automatic recurring expenses like rent and installments</p>
         </div>
         <div className="flex gap-2">
-          <button
-            onClick={handleProcess}
-            disabled={processing}
-            className="glass-button-secondary flex items-center gap-2"
-          >
-            <ArrowPathIcon className={`w-5 h-5 ${processing ? 'animate-spin' : ''}`} />
-            Process Due
-          </button>
-          <button
-            onClick={() => {
-              resetForm();
-              setModalOpen(true);
-            }}
-            className="glass-button flex items-center gap-2"
-          >
-            <PlusIcon className="w-5 h-5" />
-            Add Recurring
-          </button>
+          {can(user, 'reports.read') && (
+            <button
+              onClick={openRuns}
+              className="glass-button-secondary flex items-center gap-2"
+            >
+              <ClipboardDocumentListIcon className="w-5 h-5" />
+              Run Log
+            </button>
+          )}
+          {can(user, 'expense.create') && (
+            <button
+              onClick={handleProcess}
+              disabled={processing}
+              className="glass-button-secondary flex items-center gap-2"
+            >
+              <ArrowPathIcon className={`w-5 h-5 ${processing ? 'animate-spin' : ''}`} />
+              Process Due
+            </button>
+          )}
+          {can(user, 'recurring.create') && (
+            <button
+              onClick={() => {
+                resetForm();
+                setModalOpen(true);
+              }}
+              className="glass-button flex items-center gap-2"
+            >
+              <PlusIcon className="w-5 h-5" />
+              Add Recurring
+            </button>
+          )}
         </div>
       </div>
 
@@ -410,7 +659,7 @@ export default function Recurring() {
         ) : (
           recurring.map((item) => {
             const category = categories.find(c => c.id === item.categoryId);
-            const canEdit = item.user.id === user?.id || user?.isAdmin;
+            const canEdit = canActOn(user, 'recurring.edit', [item.user.id]);
             return (
               <div
                 key={item.id}
@@ -424,12 +673,19 @@ export default function Recurring() {
                     <div>
                       <h3 className="font-semibold text-white">{item.description}</h3>
                       <p className="text-2xl font-bold text-white mt-1">
-                        {currency} {item.amount.toFixed(2)}
+                        {item.isVariableAmount && item.amount === 0
+                          ? 'Varies'
+                          : `${item.isVariableAmount ? '~' : ''}${currencyLabel(item.currency, baseCurrency, currency)} ${formatMoney(item.amount, item.currency)}`}
                       </p>
                       <div className="flex flex-wrap items-center gap-2 mt-2">
                         <span className={`px-2 py-1 rounded-lg text-xs font-medium ${getFrequencyColor(item.frequency)}`}>
-                          {getFrequencyLabel(item.frequency)}
+                          {item.schedule}
                         </span>
+                        {item.isVariableAmount && (
+                          <span className="px-2 py-1 rounded-lg text-xs bg-yellow-500/20 text-yellow-400">
+                            Variable amount
+                          </span>
+                        )}
                         {item.splitConfig && (
                           <span className="px-2 py-1 rounded-lg text-xs bg-blue-500/20 text-blue-400">
                             {item.splitType === 'equal' ? 'Split Equal' : item.splitType === 'percentage' ? 'Split %' : 'Split Amount'}
@@ -486,7 +742,14 @@ export default function Recurring() {
                           <PlayIcon className="w-4 h-4" />
                         </button>
                       )}
-                      {user?.isAdmin && (
+                      <button
+                        onClick={() => setHistoryRecurring(item)}
+                        className="p-2 rounded-lg bg-white/10 text-white/70 hover:bg-white/20 transition-colors"
+                        title="History"
+                      >
+                        <ClockIcon className="w-4 h-4" />
+                      </button>
+                      {can(user, 'recurring.edit.any') && (
                         <button
                           onClick={() => handleDelete(item.id)}
                           className="p-2 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-colors"
@@ -511,9 +774,15 @@ export default function Recurring() {
           setModalOpen(false);
           resetForm();
         }}
-        title={editingRecurring ? 'Edit Recurring Expense' : 'Add Recurring Expense'}
+        title={editingRecurring ? (proposingEdit ? 'Propose Edit' : 'Edit Recurring Expense') : 'Add Recurring Expense'}
       >
         <form onSubmit={handleSubmit} className="space-y-4">
+          {editingRecurring && proposingEdit && (
+            <p className="text-sm text-yellow-400/80 bg-yellow-500/10 rounded-xl p-3">
+              A reviewer will check your changes before they are applied.
+            </p>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-white/70 mb-2">
               Description <span className="text-red-400">*</span>
@@ -528,21 +797,51 @@ export default function Recurring() {
             />
           </div>
 
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.isVariableAmount}
+              onChange={(e) => setFormData({ ...formData, isVariableAmount: e.target.checked })}
+              className="mt-1 w-4 h-4 rounded"
+            />
+            <span>
+              <span className="text-sm font-medium text-white">Variable amount</span>
+              <span className="block text-xs text-white/50">
+                For bills like water and electricity. Each due date creates a draft that the payer
+                completes with the actual amount and the bill.
+              </span>
+            </span>
+          </label>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-white/70 mb-2">
-                Amount ({currency}) <span className="text-red-400">*</span>
+                {formData.isVariableAmount ? (
+                  <>Estimated Amount <span className="text-white/40">(optional)</span></>
+                ) : (
+                  <>Amount <span className="text-red-400">*</span></>
+                )}
               </label>
-              <input
-                type="number"
-                required
-                step="0.01"
-                min="0"
-                value={formData.amount}
-                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                className="glass-input"
-                placeholder="0.00"
-              />
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+                  className="glass-input w-20 uppercase"
+                  maxLength={3}
+                  title="Currency (ISO 4217 code)"
+                />
+                <input
+                  type="number"
+                  required={!formData.isVariableAmount}
+                  step={amountStep(formData.currency)}
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  className="glass-input flex-1"
+                  placeholder={formatMoney(0, formData.currency)}
+                />
+              </div>
             </div>
             <div>
               <label className="block text-sm font-medium text-white/70 mb-2">
@@ -584,20 +883,104 @@ export default function Recurring() {
                   <option value="weekly">Weekly</option>
                   <option value="monthly">Monthly</option>
                   <option value="yearly">Yearly</option>
+                  <option value="custom">Custom (RRULE)</option>
                 </select>
               </div>
+              {formData.frequency !== 'custom' && (
+                <div>
+                  <label className="block text-sm font-medium text-white/70 mb-2">
+                    Repeat Every
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min="1"
+                      max="999"
+                      value={formData.interval}
+                      onChange={(e) => setFormData({ ...formData, interval: e.target.value })}
+                      className="glass-input w-24"
+                    />
+                    <span className="text-white/60 text-sm">
+                      {{ daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)', yearly: 'year(s)' }[formData.frequency]}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {formData.frequency === 'custom' && (
               <div>
                 <label className="block text-sm font-medium text-white/70 mb-2">
-                  Start Date <span className="text-red-400">*</span>
+                  RRULE
                 </label>
                 <input
-                  type="date"
-                  required
-                  value={formData.startDate}
-                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
-                  className="glass-input"
+                  type="text"
+                  value={formData.rrule}
+                  onChange={(e) => setFormData({ ...formData, rrule: e.target.value.toUpperCase() })}
+                  className="glass-input font-mono"
+                  placeholder="FREQ=MONTHLY;BYDAY=1SA,3SA"
                 />
+                <p className="text-xs text-white/40 mt-1">
+                  Supports FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYMONTH, COUNT and UNTIL
+                </p>
               </div>
+            )}
+
+            {formData.frequency === 'monthly' && (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-white/70">
+                  Day of Month
+                </label>
+                <select
+                  value={formData.monthlyPattern}
+                  onChange={(e) => setFormData({ ...formData, monthlyPattern: e.target.value as MonthlyPattern })}
+                  className="glass-select"
+                >
+                  <option value="date">Same date as the start date</option>
+                  <option value="lastDay">Last day of the month</option>
+                  <option value="weekdays">Specific weekdays</option>
+                </select>
+                {formData.monthlyPattern === 'weekdays' && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    {WEEK_POSITIONS.map((position) => (
+                      <button
+                        key={position.value}
+                        type="button"
+                        onClick={() => toggleWeekPosition(position.value)}
+                        className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                          formData.weekPositions.includes(position.value)
+                            ? 'bg-purple-500/30 text-purple-300'
+                            : 'bg-white/5 text-white/60 hover:bg-white/10'
+                        }`}
+                      >
+                        {position.label}
+                      </button>
+                    ))}
+                    <select
+                      value={formData.weekday}
+                      onChange={(e) => setFormData({ ...formData, weekday: e.target.value })}
+                      className="glass-select w-auto"
+                    >
+                      {WEEKDAYS.map((day) => (
+                        <option key={day.code} value={day.code}>{day.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">
+                Start Date <span className="text-red-400">*</span>
+              </label>
+              <input
+                type="date"
+                required
+                value={formData.startDate}
+                onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                className="glass-input"
+              />
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -626,6 +1009,28 @@ export default function Recurring() {
                 />
               </div>
             </div>
+
+            {schedulePreview && (
+              <div className="text-sm">
+                {schedulePreview.error ? (
+                  <p className="text-red-400">{schedulePreview.error}</p>
+                ) : (
+                  <>
+                    <p className="text-white/70">{schedulePreview.schedule}</p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {schedulePreview.occurrences?.length === 0 && (
+                        <span className="text-white/40">No dates match this schedule</span>
+                      )}
+                      {schedulePreview.occurrences?.map((date) => (
+                        <span key={date} className="px-2 py-0.5 rounded-lg text-xs bg-white/10 text-white/70">
+                          {format(new Date(date), 'EEE, MMM d, yyyy')}
+                        </span>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
           </div>
 
           <div>
@@ -695,7 +1100,7 @@ export default function Recurring() {
               {formData.splitMembers.map((sm, idx) => {
                 const member = users.find(m => m.id === sm.memberId);
                 const isOwner = idx === 0;
-                const totalAmount = parseFloat(formData.amount) || 0;
+                const equalShares = allocateEvenly(toMinor(formData.amount, formData.currency) || 0, formData.splitMembers.length);
                 
                 return (
                   <div key={sm.memberId} className={`flex items-center gap-3 p-2 rounded-lg ${isOwner ? 'bg-purple-500/10 border border-purple-500/20' : 'bg-white/5'}`}>
@@ -706,10 +1111,7 @@ export default function Recurring() {
                     
                     {formData.splitType === 'equal' && (
                       <span className="text-sm text-white/70">
-                        {currency} {isOwner 
-                          ? (totalAmount - Math.floor(totalAmount / formData.splitMembers.length * 100) / 100 * (formData.splitMembers.length - 1)).toFixed(2)
-                          : (Math.floor(totalAmount / formData.splitMembers.length * 100) / 100).toFixed(2)
-                        }
+                        {formLabel} {formatMoney(equalShares[idx], formData.currency)}
                       </span>
                     )}
                     
@@ -744,16 +1146,16 @@ export default function Recurring() {
                     
                     {formData.splitType === 'amount' && (
                       <div className="flex items-center gap-1">
-                        <span className="text-sm text-white/50">{currency}</span>
+                        <span className="text-sm text-white/50">{formLabel}</span>
                         {isOwner ? (
                           <span className="w-24 px-2 py-1 text-sm bg-purple-500/20 border border-purple-500/30 rounded text-purple-300 text-right">
-                            {getOwnerAmount().toFixed(2)}
+                            {formatMoney(getOwnerAmount(), formData.currency)}
                           </span>
                         ) : (
                           <input
                             type="number"
                             min="0"
-                            step="0.01"
+                            step={amountStep(formData.currency)}
                             value={sm.amount || 0}
                             onChange={(e) => {
                               const newAmount = parseFloat(e.target.value) || 0;
@@ -775,19 +1177,19 @@ export default function Recurring() {
             </div>
 
             {/* Split Summary */}
-            {parseFloat(formData.amount) > 0 && (
+            {toMinor(formData.amount, formData.currency) > 0 && (
               <div className="pt-2 border-t border-white/10">
                 <div className="text-xs space-y-1">
                   {(() => {
                     const amounts = calculateSplitAmounts();
                     const totalSplit = amounts.reduce((sum, a) => sum + a.amount, 0);
-                    const originalTotal = parseFloat(formData.amount) || 0;
-                    const isValid = Math.abs(totalSplit - originalTotal) < 0.01;
+                    const originalTotal = toMinor(formData.amount, formData.currency) || 0;
+                    const isValid = totalSplit === originalTotal;
                     return (
                       <div className="flex justify-between">
                         <span className="text-white/50">Total:</span>
                         <span className={isValid ? 'text-green-400' : 'text-red-400'}>
-                          {currency} {totalSplit.toFixed(2)} {isValid ? '✓' : `/ ${currency} ${originalTotal.toFixed(2)}`}
+                          {formLabel} {formatMoney(totalSplit, formData.currency)} {isValid ? '✓' : `/ ${formLabel} ${formatMoney(originalTotal, formData.currency)}`}
                         </span>
                       </div>
                     );
@@ -810,6 +1212,21 @@ export default function Recurring() {
             />
           </div>
 
+          {editingRecurring && (
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">
+                Reason for Change <span className="text-white/40">(Optional)</span>
+              </label>
+              <input
+                type="text"
+                value={changeReason}
+                onChange={(e) => setChangeReason(e.target.value)}
+                className="glass-input"
+                placeholder={proposingEdit ? 'Shown to whoever reviews your edit' : 'Shown in the history'}
+              />
+            </div>
+          )}
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
@@ -822,11 +1239,128 @@ export default function Recurring() {
               Cancel
             </button>
             <button type="submit" className="flex-1 glass-button">
-              {editingRecurring ? 'Update' : 'Create'} Recurring
+              {editingRecurring ? (proposingEdit ? 'Submit Edit' : 'Update Recurring') : 'Create Recurring'}
             </button>
           </div>
         </form>
       </Modal>
+
+      {/* Run Log Modal (reports.read) */}
+      <Modal
+        isOpen={runsOpen}
+        onClose={() => setRunsOpen(false)}
+        title="Recurring Run Log"
+        size="lg"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-white/60">
+            Due recurring expenses are generated automatically when the server starts and on a
+            schedule after that. Each occurrence is only ever created once.
+          </p>
+
+          <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-white/70 mb-2">
+                Process up to
+              </label>
+              <input
+                type="date"
+                value={processUpTo}
+                onChange={(e) => {
+                  setProcessUpTo(e.target.value);
+                  setPreview(null);
+                }}
+                className="glass-input"
+              />
+            </div>
+            <button
+              onClick={() => handleProcessUpTo(true)}
+              disabled={processing || !processUpTo}
+              className="glass-button-secondary"
+            >
+              Preview
+            </button>
+            <button
+              onClick={() => handleProcessUpTo(false)}
+              disabled={processing || !processUpTo}
+              className="glass-button"
+            >
+              Process
+            </button>
+          </div>
+
+          {preview && (
+            <div className="p-3 rounded-xl bg-blue-500/10 border border-blue-500/20">
+              <p className="text-sm font-medium text-blue-300 mb-2">
+                {preview.length === 0
+                  ? 'Nothing is due up to this date'
+                  : `${preview.length} expenses would be created`}
+              </p>
+              {preview.map((item, idx) => (
+                <div key={idx} className="flex justify-between text-sm text-white/70">
+                  <span>{format(new Date(item.dueDate), 'MMM d, yyyy')} · {item.description}</span>
+                  <span>{currencyLabel(item.currency, baseCurrency, currency)} {formatMoney(item.amount, item.currency)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {runs.length === 0 ? (
+              <p className="text-center text-white/50 py-4">No runs yet</p>
+            ) : (
+              runs.map((run) => (
+                <div key={run.id} className="p-3 rounded-xl bg-white/5">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-white">
+                        {format(new Date(run.startedAt), 'MMM d, yyyy HH:mm')}
+                      </span>
+                      <span className="px-2 py-0.5 rounded-lg text-xs bg-white/10 text-white/70 capitalize">
+                        {run.trigger}
+                      </span>
+                      {run.dryRun && (
+                        <span className="px-2 py-0.5 rounded-lg text-xs bg-blue-500/20 text-blue-400">
+                          Dry run
+                        </span>
+                      )}
+                    </div>
+                    <span className="text-xs text-white/50">
+                      up to {format(new Date(run.upTo), 'MMM d, yyyy')}
+                      {run.triggeredBy && ` · by ${run.triggeredBy.displayName}`}
+                    </span>
+                  </div>
+                  <p className="text-xs text-white/60 mt-1">
+                    {run.dryRun
+                      ? `${run.details.length} planned`
+                      : `${run.created} created · ${run.skipped} skipped · ${run.failed} failed`}
+                  </p>
+                  {run.details.length > 0 && (
+                    <div className="mt-2 space-y-1">
+                      {run.details.map((item, idx) => (
+                        <div key={idx} className="flex justify-between text-xs">
+                          <span className="text-white/70">
+                            {format(new Date(item.dueDate), 'MMM d, yyyy')} · {item.description}
+                            {item.error && <span className="text-red-400"> ({item.error})</span>}
+                          </span>
+                          <span className={`capitalize ${getRunItemColor(item.status)}`}>{item.status}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </Modal>
+
+      <HistoryModal
+        entityType="recurring"
+        entityId={historyRecurring?.id || null}
+        title={historyRecurring ? `History: ${historyRecurring.description}` : 'History'}
+        onClose={() => setHistoryRecurring(null)}
+      />
     </div>
   );
 }
@@ -1,24 +1,49 @@
-import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
-import { EyeIcon, EyeSlashIcon, KeyIcon } from '@heroicons/react/24/outline';
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { EnvelopeOpenIcon, EyeIcon, EyeSlashIcon, KeyIcon } from '@heroicons/react/24/outline';
 import { authAPI } from '../lib/api';
-import { useAuthStore } from '../stores/authStore';
+import { Role, useAuthStore } from '../stores/authStore';
 import toast from 'react-hot-toast';
 
+interface InvitationPreview {
+  household: string;
+  role: Role;
+  email: string | null;
+  invitedBy: string;
+}
+
 export default function Register() {
+  const [searchParams] = useSearchParams();
+  const inviteCode = searchParams.get('invite') || '';
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
   const [formData, setFormData] = useState({
     username: '',
     email: '',
     displayName: '',
     password: '',
     confirmPassword: '',
-    invitationKey: '',
+    invitationCode: inviteCode,
   });
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
   const login = useAuthStore((state) => state.login);
 
+  // Opened from an invitation link: show what it's for and fill in its email
+  useEffect(() => {
+    if (!inviteCode) return;
+    authAPI.previewInvitation(inviteCode)
+      .then((response) => {
+        setInvitation(response.data);
+        if (response.data.email) {
+          setFormData((prev) => ({ ...prev, email: response.data.email }));
+        }
+      })
+      .catch((error: any) => {
+        toast.error(error.response?.data?.error || 'This invitation is invalid or has expired');
+      });
+  }, [inviteCode]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData((prev) => ({
       ...prev,
@@ -29,7 +54,7 @@ export default function Register() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.username || !formData.email || !formData.password || !formData.invitationKey) {
+    if (!formData.username || !formData.email || !formData.password) {
       toast.error('Please fill in all required fields');
       return;
     }
@@ -52,11 +77,12 @@ export default function Register() {
         email: formData.email,
         password: formData.password,
         displayName: formData.displayName || formData.username,
-        invitationKey: formData.invitationKey,
+        invitationCode: formData.invitationCode,
       });
-      const { user, accessToken, refreshToken } = response.data;
-      login(user, accessToken, refreshToken);
+      const { user, accessToken, refreshToken, households, verificationSent } = response.data;
+      login(user, accessToken, refreshToken, households);
       toast.success(`Welcome, ${user.displayName}!`);
+      if (verificationSent) toast.success(`Check ${user.email} to verify your address`);
       navigate('/');
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Registration failed');
@@ -81,6 +107,16 @@ export default function Register() {
           <p className="text-white/60 mt-2">Join your housemates today</p>
         </div>
 
+        {invitation && (
+          <div className="flex items-start gap-3 p-4 mb-6 rounded-xl bg-purple-500/10 border border-purple-500/30">
+            <EnvelopeOpenIcon className="w-5 h-5 text-purple-300 shrink-0 mt-0.5" />
+            <p className="text-sm text-white/80">
+              {invitation.invitedBy} invited you to join <span className="font-medium text-white">{invitation.household}</span>
+              {invitation.role === 'owner' ? ' as an owner' : invitation.role !== 'member' ? ` as a ${invitation.role}` : ''}.
+            </p>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-white/70 mb-2">
@@ -106,10 +142,16 @@ export default function Register() {
               name="email"
               value={formData.email}
               onChange={handleChange}
-              className="glass-input"
+              className="glass-input disabled:opacity-60"
               placeholder="your@email.com"
               autoComplete="email"
+              disabled={!!invitation?.email}
             />
+            {invitation?.email && (
+              <p className="text-xs text-white/40 mt-1">
+                This invitation is for this address only
+              </p>
+            )}
           </div>
 
           <div>
@@ -169,23 +211,25 @@ export default function Register() {
             />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-white/70 mb-2">
-              <KeyIcon className="w-4 h-4 inline mr-1" />
-              Invitation Key <span className="text-red-400">*</span>
-            </label>
-            <input
-              type="text"
-              name="invitationKey"
-              value={formData.invitationKey}
-              onChange={handleChange}
-              className="glass-input"
-              placeholder="Enter your invitation key"
-            />
-            <p className="text-xs text-white/40 mt-1">
-              Get this from your house admin
-            </p>
-          </div>
+          {!invitation && (
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">
+                <KeyIcon className="w-4 h-4 inline mr-1" />
+                Invitation Code
+              </label>
+              <input
+                type="text"
+                name="invitationCode"
+                value={formData.invitationCode}
+                onChange={handleChange}
+                className="glass-input font-mono"
+                placeholder="From your invitation link"
+              />
+              <p className="text-xs text-white/40 mt-1">
+                Ask a household owner for an invitation. Only the very first account can be created without one.
+              </p>
+            </div>
+          )}
 
           <button
             type="submit"
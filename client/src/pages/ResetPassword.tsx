@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { authAPI } from '../lib/api';
+import AuthCard from '../components/AuthCard';
+import toast from 'react-hot-toast';
+
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  // The emailed link carries the token; without APP_URL the email has a code to paste instead
+  const linkToken = searchParams.get('token');
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const token = linkToken || code.trim();
+    if (!token) {
+      toast.error('Please enter the code from the email');
+      return;
+    }
+    if (newPassword.length < 6) {
+      toast.error('Password must be at least 6 characters');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await authAPI.resetPassword(token, newPassword);
+      toast.success(response.data.message);
+      navigate('/login');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AuthCard title="Choose a New Password" subtitle="You'll be signed out everywhere else.">
+      <form onSubmit={handleSubmit} className="space-y-5">
+        {!linkToken && (
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Code from the email</label>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="glass-input font-mono"
+              autoComplete="one-time-code"
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">New Password</label>
+          <input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className="glass-input"
+            autoComplete="new-password"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">Confirm New Password</label>
+          <input
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="glass-input"
+            autoComplete="new-password"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="glass-button w-full py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Saving...' : 'Set Password'}
+        </button>
+      </form>
+
+      <p className="text-center text-white/60 mt-6">
+        Link expired?{' '}
+        <Link to="/forgot-password" className="text-purple-400 hover:text-purple-300 font-medium">
+          Send a new one
+        </Link>
+      </p>
+    </AuthCard>
+  );
+}
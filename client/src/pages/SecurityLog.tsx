@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { FunnelIcon, ShieldExclamationIcon } from '@heroicons/react/24/outline';
+import { securityAPI, usersAPI } from '../lib/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+
+interface Member {
+  id: string;
+  displayName: string;
+}
+
+interface SecurityEvent {
+  id: string;
+  type: string;
+  identifier: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  device: string;
+  details: { failures?: number; minutes?: number; limit?: string; per?: 'ip' | 'account' };
+  createdAt: string;
+  user: Member | null;
+  actor: Member | null;
+}
+
+const EVENT_TYPES: Record<string, { label: string; badge: string }> = {
+  'login-failed': { label: 'Wrong password', badge: 'badge-warning' },
+  'two-factor-failed': { label: 'Wrong two-factor code', badge: 'badge-warning' },
+  'account-locked': { label: 'Account locked', badge: 'badge-danger' },
+  'login-blocked': { label: 'Login while locked', badge: 'badge-danger' },
+  'account-unlocked': { label: 'Account unlocked', badge: 'badge-success' },
+  'rate-limited': { label: 'Too many requests', badge: 'badge-danger' },
+  'refresh-token-reused': { label: 'Refresh token reused', badge: 'badge-danger' },
+};
+
+// What an event adds to its type, e.g. "5th failure in a row, locked for 1 minute"
+const describeDetails = (event: SecurityEvent) => {
+  const { failures, minutes, limit, per } = event.details;
+  const parts: string[] = [];
+  if (failures) parts.push(`${failures} ${failures === 1 ? 'failure' : 'failures'} in a row`);
+  if (minutes) parts.push(`locked for ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`);
+  if (limit) parts.push(`${limit} limit per ${per === 'account' ? 'account' : 'address'}`);
+  if (event.actor) parts.push(`by ${event.actor.displayName}`);
+  return parts.join(', ');
+};
+
+// Failed logins, lockouts and rate limiting (security.manage)
+export default function SecurityLog() {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState({
+    type: '',
+    userId: '',
+    startDate: '',
+    endDate: '',
+  });
+  const [pagination, setPagination] = useState({ page: 1, pages: 1, total: 0 });
+
+  useEffect(() => {
+    usersAPI.getAll().then(response => setMembers(response.data)).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    fetchEvents(1);
+  }, [filter]);
+
+  const fetchEvents = async (page: number) => {
+    try {
+      const params: Record<string, string | number> = { page, limit: 50 };
+      Object.entries(filter).forEach(([key, value]) => {
+        if (value) params[key] = value;
+      });
+
+      const response = await securityAPI.getEvents(params);
+      setEvents(response.data.events);
+      setPagination(response.data.pagination);
+    } catch (error) {
+      toast.error('Failed to fetch security log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (key: keyof typeof filter, value: string) =>
+    setFilter(prev => ({ ...prev, [key]: value }));
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="space-y-6 animate-slide-in">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl lg:text-3xl font-bold text-white">Security Log</h1>
+        <p className="text-white/60 mt-1">Failed logins, locked accounts and blocked requests</p>
+      </div>
+
+      {/* Filters */}
+      <div className="glass-card p-4">
+        <div className="flex items-center gap-2 text-white/60 text-sm mb-3">
+          <FunnelIcon className="w-4 h-4" />
+          <span>Filters</span>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          <select
+            value={filter.type}
+            onChange={(e) => updateFilter('type', e.target.value)}
+            className="glass-select"
+          >
+            <option value="">All events</option>
+            {Object.entries(EVENT_TYPES).map(([type, { label }]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={filter.userId}
+            onChange={(e) => updateFilter('userId', e.target.value)}
+            className="glass-select"
+          >
+            <option value="">Any account</option>
+            {members.map(member => (
+              <option key={member.id} value={member.id}>{member.displayName}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filter.startDate}
+            onChange={(e) => updateFilter('startDate', e.target.value)}
+            className="glass-input"
+            title="From"
+          />
+          <input
+            type="date"
+            value={filter.endDate}
+            onChange={(e) => updateFilter('endDate', e.target.value)}
+            className="glass-input"
+            title="To"
+          />
+        </div>
+      </div>
+
+      {/* Events */}
+      {events.length === 0 ? (
+        <div className="glass-card p-12 text-center">
+          <ShieldExclamationIcon className="w-12 h-12 text-white/30 mx-auto mb-4" />
+          <p className="text-white/60">No security events match these filters</p>
+        </div>
+      ) : (
+        <div className="glass-card divide-y divide-white/10">
+          {events.map(event => {
+            const type = EVENT_TYPES[event.type] || { label: event.type, badge: 'badge-info' };
+            const details = describeDetails(event);
+            return (
+              <div key={event.id} className="p-4 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className={`badge ${type.badge}`}>{type.label}</span>
+                    <span className="text-white font-medium truncate">
+                      {event.user
+                        ? event.user.displayName
+                        : event.identifier
+                          ? `"${event.identifier}" (no such account)`
+                          : 'Any account'}
+                    </span>
+                  </div>
+                  {details && <p className="text-sm text-white/60">{details}</p>}
+                  <p className="text-xs text-white/40 truncate">
+                    {event.ipAddress || 'Unknown address'}
+                    {` · ${event.device}`}
+                  </p>
+                </div>
+                <span className="text-xs text-white/50 shrink-0">
+                  {format(new Date(event.createdAt), 'MMM d, yyyy HH:mm')}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {pagination.pages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-white/50">{pagination.total} events</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => fetchEvents(pagination.page - 1)}
+              disabled={pagination.page <= 1}
+              className="glass-button-secondary disabled:opacity-40"
+            >
+              Previous
+            </button>
+            <span className="px-3 py-2 text-white/70 text-sm">
+              {pagination.page} / {pagination.pages}
+            </span>
+            <button
+              onClick={() => fetchEvents(pagination.page + 1)}
+              disabled={pagination.page >= pagination.pages}
+              className="glass-button-secondary disabled:opacity-40"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
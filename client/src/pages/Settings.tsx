@@ -1,11 +1,13 @@
 import { useState, useEffect } from 'react';
-import { Cog6ToothIcon, CurrencyDollarIcon, BeakerIcon, BoltIcon, TrashIcon, PencilIcon, CheckCircleIcon, DocumentIcon } from '@heroicons/react/24/outline';
-import { settingsAPI } from '../lib/api';
-import { useAuthStore } from '../stores/authStore';
+import { Cog6ToothIcon, HomeModernIcon, CurrencyDollarIcon, BeakerIcon, BoltIcon, TrashIcon, PencilIcon, CheckCircleIcon, DocumentIcon, GlobeAltIcon, ArrowUpTrayIcon, ArchiveBoxIcon, ShieldCheckIcon, BellAlertIcon } from '@heroicons/react/24/outline';
+import { settingsAPI, householdsAPI, exchangeRatesAPI } from '../lib/api';
+import { can, useAuthStore } from '../stores/authStore';
 import { useSettingsStore } from '../stores/settingsStore';
 import LoadingSpinner from '../components/LoadingSpinner';
 import toast from 'react-hot-toast';
 import { Navigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { amountStep, formatMoney, toMinor } from '../lib/money';
 
 interface Settings {
   currency: string;
@@ -15,10 +17,42 @@ interface Settings {
   allowUserSelfEdit: string;
   autoAcceptPayments: string;
   requirePaymentReceipt: string;
+  trashRetentionDays: string;
+  approvalDelete: string;
+  approvalDeleteAmount: string;
+  approvalResetAllPasswords: string;
+  approvalPromoteAdmin: string;
+  approvalDeleteUser: string;
+  reminderAfterDays: string;
+  reminderRepeatDays: string;
+  requireAdminTwoFactor: string;
+}
+
+// Approvals a sensitive action can require: a number of reviewers, or a share of all members
+const APPROVAL_OPTIONS = [
+  { value: '1', label: 'Any one reviewer' },
+  { value: '2', label: '2 reviewers' },
+  { value: '3', label: '3 reviewers' },
+  { value: 'majority', label: 'Majority of members' },
+  { value: 'all', label: 'All members' },
+];
+
+const APPROVAL_RULES = [
+  { key: 'approvalDelete', label: 'Deleting valuable expenses or payments' },
+  { key: 'approvalResetAllPasswords', label: 'Resetting all passwords' },
+  { key: 'approvalPromoteAdmin', label: 'Making a member an owner or granting owner permissions' },
+  { key: 'approvalDeleteUser', label: 'Deleting a member' },
+] as const;
+
+interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate: number;
+  effectiveDate: string;
 }
 
 export default function Settings() {
-  const { user } = useAuthStore();
+  const { user, households, setHouseholds } = useAuthStore();
   const refreshGlobalSettings = useSettingsStore((state) => state.fetchSettings);
   const [settings, setSettings] = useState<Settings>({
     currency: 'RM',
@@ -28,7 +62,22 @@ export default function Settings() {
     allowUserSelfEdit: 'false',
     autoAcceptPayments: 'true',
     requirePaymentReceipt: 'true',
+    trashRetentionDays: '30',
+    approvalDelete: '2',
+    approvalDeleteAmount: '20000',
+    approvalResetAllPasswords: '2',
+    approvalPromoteAdmin: '2',
+    approvalDeleteUser: 'majority',
+    reminderAfterDays: '7',
+    reminderRepeatDays: '7',
+    requireAdminTwoFactor: 'false',
   });
+  const [approvalAmount, setApprovalAmount] = useState('200.00');
+  const [householdName, setHouseholdName] = useState('');
+  const [baseCurrency, setBaseCurrency] = useState('MYR');
+  const [savedBaseCurrency, setSavedBaseCurrency] = useState('MYR');
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [newRate, setNewRate] = useState({ currency: '', rate: '', effectiveDate: format(new Date(), 'yyyy-MM-dd') });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -39,12 +88,21 @@ export default function Settings() {
   const fetchSettings = async () => {
     try {
       setLoading(true);
-      const response = await settingsAPI.getAll();
+      const [response, householdResponse, ratesResponse] = await Promise.all([
+        settingsAPI.getAll(),
+        householdsAPI.getCurrent(),
+        exchangeRatesAPI.getAll(),
+      ]);
       // Merge with defaults to ensure all settings are present
       setSettings(prev => ({
         ...prev,
         ...response.data,
       }));
+      setApprovalAmount(formatMoney(Number(response.data.approvalDeleteAmount ?? 20000), householdResponse.data.baseCurrency));
+      setHouseholdName(householdResponse.data.name);
+      setBaseCurrency(householdResponse.data.baseCurrency);
+      setSavedBaseCurrency(householdResponse.data.baseCurrency);
+      setRates(ratesResponse.data.rates);
     } catch (error) {
       console.error('Failed to fetch settings:', error);
       toast.error('Failed to load settings');
@@ -56,10 +114,29 @@ export default function Settings() {
   const handleSave = async () => {
     try {
       setSaving(true);
-      await settingsAPI.update(settings as unknown as Record<string, string>);
+      const response = await settingsAPI.update(settings as unknown as Record<string, string>);
+      // Changed approval rules wait for approval; everything else is saved now
+      const rulesHeld = response.status === 202;
+      if (rulesHeld) {
+        const saved = response.data.settings;
+        setSettings(prev => ({ ...prev, ...saved }));
+        setApprovalAmount(formatMoney(Number(saved.approvalDeleteAmount), savedBaseCurrency));
+      }
+      if (householdName.trim()) {
+        const householdResponse = await householdsAPI.updateCurrent({
+          name: householdName.trim(),
+          // Only send the base currency when it changed - the server refuses changes once it's in use
+          baseCurrency: baseCurrency !== savedBaseCurrency ? baseCurrency : undefined,
+        });
+        const { id, name, baseCurrency: updatedBaseCurrency } = householdResponse.data;
+        setSavedBaseCurrency(updatedBaseCurrency);
+        setHouseholds(households.map((h) =>
+          h.id === id ? { ...h, name, baseCurrency: updatedBaseCurrency } : h
+        ));
+      }
       // Refresh global settings store so changes apply immediately across the app
       await refreshGlobalSettings();
-      toast.success('Settings saved successfully');
+      toast.success(rulesHeld ? `Settings saved. ${response.data.message}` : 'Settings saved successfully');
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to save settings');
     } finally {
@@ -67,8 +144,62 @@ export default function Settings() {
     }
   };
 
-  // Only admins can access this page
-  if (!user?.isAdmin) {
+  const fetchRates = async () => {
+    try {
+      const response = await exchangeRatesAPI.getAll();
+      setRates(response.data.rates);
+    } catch (error) {
+      console.error('Failed to fetch exchange rates:', error);
+    }
+  };
+
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await exchangeRatesAPI.create({
+        currency: newRate.currency,
+        rate: parseFloat(newRate.rate),
+        effectiveDate: newRate.effectiveDate,
+      });
+      toast.success('Exchange rate saved');
+      setNewRate((prev) => ({ ...prev, currency: '', rate: '' }));
+      fetchRates();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save exchange rate');
+    }
+  };
+
+  const handleDeleteRate = async (id: string) => {
+    if (!confirm('Delete this exchange rate?')) return;
+    try {
+      await exchangeRatesAPI.delete(id);
+      toast.success('Exchange rate deleted');
+      fetchRates();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete exchange rate');
+    }
+  };
+
+  const handleImportRates = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const response = await exchangeRatesAPI.importCSV(await file.text());
+      const { imported, errors } = response.data;
+      toast.success(`Imported ${imported} exchange rate${imported === 1 ? '' : 's'}`);
+      if (errors.length > 0) {
+        toast.error(`${errors.length} row${errors.length === 1 ? '' : 's'} skipped: ${errors[0]}`);
+      }
+      fetchRates();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to import exchange rates');
+    }
+  };
+
+  // Only members allowed to change settings can access this page
+  if (!can(user, 'settings.write')) {
     return <Navigate to="/dashboard" replace />;
   }
 
@@ -84,7 +215,7 @@ export default function Settings() {
           <Cog6ToothIcon className="w-8 h-8 text-purple-400" />
           Settings
         </h1>
-        <p className="text-white/60 mt-1">Configure application settings (Admin only)</p>
+        <p className="text-white/60 mt-1">Configure household settings</p>
       </div>
 
       {/* Settings Form */}
@@ -92,6 +223,44 @@ export default function Settings() {
         <h2 className="text-lg font-semibold text-white mb-6">General Settings</h2>
 
         <div className="space-y-6">
+          {/* Household Name */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-white/70 mb-2">
+              <HomeModernIcon className="w-4 h-4" />
+              Household Name
+            </label>
+            <input
+              type="text"
+              value={householdName}
+              onChange={(e) => setHouseholdName(e.target.value)}
+              className="glass-input"
+              placeholder="e.g., Taman Melati Flat"
+            />
+            <p className="text-xs text-white/40 mt-1">
+              Settings on this page apply only to this household
+            </p>
+          </div>
+
+          {/* Base Currency */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-white/70 mb-2">
+              <GlobeAltIcon className="w-4 h-4" />
+              Base Currency
+            </label>
+            <input
+              type="text"
+              value={baseCurrency}
+              onChange={(e) => setBaseCurrency(e.target.value.toUpperCase())}
+              className="glass-input uppercase"
+              maxLength={3}
+              placeholder="e.g., MYR, SGD, USD"
+            />
+            <p className="text-xs text-white/40 mt-1">
+              ISO 4217 code that balances and reports are converted to. It can only be changed before
+              any exchange rates or records in other currencies exist.
+            </p>
+          </div>
+
           {/* Currency */}
           <div>
             <label className="flex items-center gap-2 text-sm font-medium text-white/70 mb-2">
@@ -106,7 +275,7 @@ export default function Settings() {
               placeholder="e.g., RM, $, €"
             />
             <p className="text-xs text-white/40 mt-1">
-              This will be displayed before all amounts throughout the app
+              Displayed before amounts in the base currency (other currencies show their code)
             </p>
           </div>
 
@@ -160,7 +329,7 @@ export default function Settings() {
                   Allow Users to Delete Own Records
                 </label>
                 <p className="text-xs text-white/40 mt-1">
-                  When enabled, users can delete their own expenses and payments without admin approval
+                  When enabled, users can delete their own expenses and payments without approval
                 </p>
               </div>
             </div>
@@ -191,7 +360,7 @@ export default function Settings() {
                   Allow Users to Edit Own Records
                 </label>
                 <p className="text-xs text-white/40 mt-1">
-                  When enabled, users can edit their own expenses and payments without admin approval
+                  When enabled, users can edit their own expenses and payments without approval
                 </p>
               </div>
             </div>
@@ -274,6 +443,146 @@ export default function Settings() {
               />
             </button>
           </div>
+
+          {/* Trash Retention */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-white/70 mb-2">
+              <ArchiveBoxIcon className="w-4 h-4 text-red-400" />
+              Keep Deleted Records For (days)
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={settings.trashRetentionDays}
+              onChange={(e) => setSettings({ ...settings, trashRetentionDays: e.target.value })}
+              className="glass-input"
+            />
+            <p className="text-xs text-white/40 mt-1">
+              Deleted expenses, payments and categories can be restored from the Trash until they are purged after this many days (0 keeps them until emptied)
+            </p>
+          </div>
+
+          {/* Approval Rules */}
+          <div className="pt-6 border-t border-white/10 space-y-4">
+            <div>
+              <h3 className="flex items-center gap-2 text-sm font-medium text-white/70">
+                <ShieldCheckIcon className="w-4 h-4 text-orange-400" />
+                Approval Rules
+              </h3>
+              <p className="text-xs text-white/40 mt-1">
+                Sensitive actions wait on the Actions page until enough people approve them. Members who can review change requests count toward numbered rules, every member except viewers toward majority and all. Changing a rule needs the approvals of the strictest rule being changed.
+              </p>
+            </div>
+            {APPROVAL_RULES.map(rule => (
+              <div key={rule.key} className="flex items-center justify-between gap-4">
+                <span className="text-sm text-white/70">{rule.label}</span>
+                <select
+                  value={settings[rule.key]}
+                  onChange={(e) => setSettings({ ...settings, [rule.key]: e.target.value })}
+                  className="glass-select w-48"
+                >
+                  {!APPROVAL_OPTIONS.some(o => o.value === settings[rule.key]) && (
+                    <option value={settings[rule.key]}>{settings[rule.key]} reviewers</option>
+                  )}
+                  {APPROVAL_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div>
+              <label className="block text-sm text-white/70 mb-2">
+                Deletes need these approvals from ({settings.currency})
+              </label>
+              <input
+                type="number"
+                min="0"
+                step={amountStep(savedBaseCurrency)}
+                value={approvalAmount}
+                onChange={(e) => {
+                  setApprovalAmount(e.target.value);
+                  const amount = toMinor(e.target.value, savedBaseCurrency);
+                  if (!isNaN(amount) && amount >= 0) {
+                    setSettings({ ...settings, approvalDeleteAmount: String(amount) });
+                  }
+                }}
+                className="glass-input"
+              />
+              <p className="text-xs text-white/40 mt-1">
+                Cheaper records only need one reviewer. Amounts in other currencies are converted to the base currency first.
+              </p>
+            </div>
+          </div>
+
+          {/* Payment Reminders */}
+          <div className="pt-6 border-t border-white/10 space-y-4">
+            <div>
+              <h3 className="flex items-center gap-2 text-sm font-medium text-white/70">
+                <BellAlertIcon className="w-4 h-4 text-yellow-400" />
+                Payment Reminders
+              </h3>
+              <p className="text-xs text-white/40 mt-1">
+                Members who owe money are reminded in the app and by email until they settle up. They can snooze reminders or say they paid offline.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-white/70 mb-2">First reminder after (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={settings.reminderAfterDays}
+                  onChange={(e) => setSettings({ ...settings, reminderAfterDays: e.target.value })}
+                  className="glass-input"
+                />
+                <p className="text-xs text-white/40 mt-1">Counted from when the split was recorded (0 turns reminders off)</p>
+              </div>
+              <div>
+                <label className="block text-sm text-white/70 mb-2">Then remind every (days)</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={settings.reminderRepeatDays}
+                  onChange={(e) => setSettings({ ...settings, reminderRepeatDays: e.target.value })}
+                  className="glass-input"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Require Two-Factor for Owners and Treasurers */}
+          <div className="pt-6 border-t border-white/10 flex items-center justify-between">
+            <div className="flex items-start gap-3">
+              <ShieldCheckIcon className="w-5 h-5 text-purple-400 mt-0.5" />
+              <div>
+                <label className="text-sm font-medium text-white">
+                  Require Two-Factor for Owners and Treasurers
+                </label>
+                <p className="text-xs text-white/40 mt-1">
+                  Owners and treasurers must turn on two-factor authentication before they can use this household. Turn it on for yourself first.
+                </p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setSettings({
+                ...settings,
+                requireAdminTwoFactor: settings.requireAdminTwoFactor === 'true' ? 'false' : 'true'
+              })}
+              className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-900 ${
+                settings.requireAdminTwoFactor === 'true' ? 'bg-purple-600' : 'bg-white/20'
+              }`}
+            >
+              <span
+                className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                  settings.requireAdminTwoFactor === 'true' ? 'translate-x-5' : 'translate-x-0'
+                }`}
+              />
+            </button>
+          </div>
         </div>
 
         {/* Save Button */}
@@ -295,11 +604,87 @@ export default function Settings() {
         </div>
       </div>
 
+      {/* Exchange Rates */}
+      <div className="glass-card p-6 max-w-2xl">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <GlobeAltIcon className="w-5 h-5 text-purple-400" />
+            Exchange Rates
+          </h2>
+          <label className="glass-button-secondary flex items-center gap-2 cursor-pointer text-sm">
+            <ArrowUpTrayIcon className="w-4 h-4" />
+            Import CSV
+            <input type="file" accept=".csv,text/csv" onChange={handleImportRates} className="hidden" />
+          </label>
+        </div>
+        <p className="text-xs text-white/40 mb-6">
+          1 unit of a currency = rate × {savedBaseCurrency}. Each record uses the latest rate on or before its date.
+          CSV columns: currency,rate,date (YYYY-MM-DD).
+        </p>
+
+        <form onSubmit={handleAddRate} className="grid grid-cols-1 sm:grid-cols-4 gap-3 mb-6">
+          <input
+            type="text"
+            value={newRate.currency}
+            onChange={(e) => setNewRate({ ...newRate, currency: e.target.value.toUpperCase() })}
+            className="glass-input uppercase"
+            maxLength={3}
+            placeholder="USD"
+            required
+          />
+          <input
+            type="number"
+            step="any"
+            min="0"
+            value={newRate.rate}
+            onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+            className="glass-input"
+            placeholder="Rate"
+            required
+          />
+          <input
+            type="date"
+            value={newRate.effectiveDate}
+            onChange={(e) => setNewRate({ ...newRate, effectiveDate: e.target.value })}
+            className="glass-input"
+            required
+          />
+          <button type="submit" className="btn-primary">
+            Save Rate
+          </button>
+        </form>
+
+        {rates.length > 0 ? (
+          <div className="space-y-2">
+            {rates.map((rate) => (
+              <div key={rate.id} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+                <div className="text-sm">
+                  <span className="text-white font-medium">1 {rate.currency}</span>
+                  <span className="text-white/60"> = {rate.rate} {savedBaseCurrency}</span>
+                  <span className="text-white/40 ml-3">from {format(new Date(rate.effectiveDate), 'dd MMM yyyy')}</span>
+                </div>
+                <button
+                  onClick={() => handleDeleteRate(rate.id)}
+                  className="p-1.5 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
+                  title="Delete rate"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-white/50 text-center py-4">
+            No exchange rates yet. Everything is recorded in {savedBaseCurrency}.
+          </p>
+        )}
+      </div>
+
       {/* Info Card */}
       <div className="glass-card p-6 max-w-2xl bg-blue-500/10 border-blue-500/20">
         <h3 className="text-sm font-semibold text-blue-400 mb-2">ℹ️ About Settings</h3>
         <ul className="text-sm text-white/60 space-y-1">
-          <li>• Only administrators can modify these settings</li>
+          <li>• Only members allowed to change settings can modify these settings</li>
           <li>• Currency symbol will be applied to all monetary displays</li>
           <li>• Usage units are shown when adding Water or Electricity expenses</li>
           <li>• Changes take effect immediately after saving</li>
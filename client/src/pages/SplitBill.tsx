@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   PlusIcon,
   TrashIcon,
@@ -7,13 +8,19 @@ import {
   UsersIcon,
   PhotoIcon,
   XMarkIcon,
+  EyeIcon,
+  PencilIcon,
 } from '@heroicons/react/24/outline';
-import { splitBillsAPI, usersAPI, categoriesAPI } from '../lib/api';
-import { useAuthStore } from '../stores/authStore';
+import { splitBillsAPI, usersAPI, categoriesAPI, changeRequestsAPI } from '../lib/api';
+import { can, canActOn, useAuthStore, selectBaseCurrency } from '../stores/authStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { amountStep, currencyLabel, formatMoney, fromMinor, toMinor } from '../lib/money';
 import Modal from '../components/Modal';
 import LoadingSpinner from '../components/LoadingSpinner';
+import ScanReceiptButton, { OcrDraft } from '../components/ScanReceiptButton';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
+import { useLiveUpdates } from '../lib/events';
 
 interface User {
   id: string;
@@ -37,6 +44,56 @@ interface CalculatedItem {
   user?: User;
 }
 
+// An item in the itemized form; shared when more than one member is picked
+interface ItemForm {
+  description: string;
+  amount: string;
+  quantity: string;
+  shares: { userId: string; weight: string }[];
+  weighted: boolean;  // Split by the share weights instead of equally
+}
+
+const isItemComplete = (item: ItemForm) =>
+  !!item.description && !!item.amount && item.shares.length > 0;
+
+const toItemPayload = (item: ItemForm, currency: string) => ({
+  description: item.description,
+  amount: toMinor(item.amount, currency),
+  quantity: parseInt(item.quantity) || 1,
+  shares: item.shares.map((share) => ({
+    userId: share.userId,
+    weight: item.weighted ? parseFloat(share.weight) || 1 : 1,
+  })),
+});
+
+interface SavedBill {
+  id: string;
+  title: string;
+  totalAmount: number;
+  currency: string;
+  taxAmount: number;
+  taxPercent: number | null;
+  serviceCharge: number;
+  servicePercent: number | null;
+  date: string;
+  receiptImage: string | null;
+  notes: string | null;
+  categoryId: string | null;
+  expense: { id: string; userId: string; isLocked: boolean; user: User } | null;
+  _count?: { items: number };
+}
+
+interface SavedBillDetail extends SavedBill {
+  items: {
+    id: string;
+    description: string;
+    amount: number;
+    quantity: number;
+    shares: { id: string; userId: string; weight: number; user: User }[];
+  }[];
+  expense: (SavedBill['expense'] & { splits: { id: string; userId: string; amount: number; user: User }[] }) | null;
+}
+
 export default function SplitBill() {
   const [users, setUsers] = useState<User[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
@@ -49,6 +106,7 @@ export default function SplitBill() {
     taxAmount: number;
     serviceCharge: number;
     total: number;
+    receiptTotal: number | null;
     userBreakdown: CalculatedItem[];
   } | null>(null);
 
@@ -66,7 +124,8 @@ export default function SplitBill() {
     servicePercent: '',
     date: format(new Date(), 'yyyy-MM-dd'),
     notes: '',
-    items: [] as { description: string; amount: string; quantity: string; userId: string }[],
+    currency: '',      // A saved bill's currency; new bills are in the base currency
+    items: [] as ItemForm[],
   });
 
   // Quick split form
@@ -94,13 +153,43 @@ export default function SplitBill() {
   const receiptInputRef = useRef<HTMLInputElement>(null);
   const quickReceiptInputRef = useRef<HTMLInputElement>(null);
 
+  // Saved itemised bills
+  const [savedBills, setSavedBills] = useState<SavedBill[]>([]);
+  const [viewingBill, setViewingBill] = useState<SavedBillDetail | null>(null);
+  const [editingBillId, setEditingBillId] = useState<string | null>(null);
+  const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
+  const [editReason, setEditReason] = useState('');
+  const [ocrDraft, setOcrDraft] = useState<OcrDraft | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+
   // Get current user
   const { user: currentUser } = useAuthStore();
+  const baseCurrency = useAuthStore(selectBaseCurrency);
+  const { currency, allowUserSelfEdit } = useSettingsStore();
+  const formCurrency = formData.currency || baseCurrency;
+  const formLabel = currencyLabel(formCurrency, baseCurrency, currency);
+  // A bill is edited as its expense: members who can't edit directly propose their edits instead
+  const proposingEdit = !can(currentUser, 'expense.edit.any') && !allowUserSelfEdit;
 
   useEffect(() => {
     fetchData();
+    fetchBills();
   }, []);
 
+  // Saved bills list follows bills saved by housemates
+  useLiveUpdates(['splitBills'], () => {
+    fetchBills();
+  });
+
+  // Opened from an expense's Edit button (?bill=<id>)
+  useEffect(() => {
+    const billId = searchParams.get('bill');
+    if (billId && !loading) {
+      setSearchParams({}, { replace: true });
+      handleEditBill(billId);
+    }
+  }, [searchParams, loading]);
+
   // Set default paidByUserId to current user when users are loaded
   useEffect(() => {
     if (currentUser && users.length > 0) {
@@ -130,10 +219,72 @@ export default function SplitBill() {
     }
   };
 
+  const fetchBills = async () => {
+    try {
+      const response = await splitBillsAPI.getAll();
+      setSavedBills(response.data.splitBills);
+    } catch (error) {
+      console.error('Failed to fetch split bills:', error);
+    }
+  };
+
+  const canEditBill = (bill: SavedBill) =>
+    !!bill.expense && !bill.expense.isLocked &&
+    canActOn(currentUser, 'expense.edit', [bill.expense.userId]);
+
+  const handleViewBill = async (id: string) => {
+    try {
+      const response = await splitBillsAPI.getById(id);
+      setViewingBill(response.data);
+    } catch (error) {
+      toast.error('Failed to load split bill');
+    }
+  };
+
+  // Load a saved bill into the itemized form
+  const handleEditBill = async (id: string) => {
+    try {
+      const response = await splitBillsAPI.getById(id);
+      const bill: SavedBillDetail = response.data;
+
+      setFormData({
+        title: bill.title,
+        categoryId: bill.categoryId || '',
+        paidByUserId: bill.expense?.userId || currentUser?.id || '',
+        taxAmount: bill.taxPercent ? '' : bill.taxAmount ? String(fromMinor(bill.taxAmount, bill.currency)) : '',
+        taxPercent: bill.taxPercent ? String(bill.taxPercent) : '',
+        serviceCharge: bill.servicePercent ? '' : bill.serviceCharge ? String(fromMinor(bill.serviceCharge, bill.currency)) : '',
+        servicePercent: bill.servicePercent ? String(bill.servicePercent) : '',
+        date: format(new Date(bill.date), 'yyyy-MM-dd'),
+        notes: bill.notes || '',
+        currency: bill.currency,
+        items: bill.items.map((item) => ({
+          description: item.description,
+          amount: String(fromMinor(item.amount, bill.currency)),
+          quantity: String(item.quantity),
+          shares: item.shares.map((share) => ({ userId: share.userId, weight: String(share.weight) })),
+          weighted: item.shares.some((share) => share.weight !== 1),
+        })),
+      });
+      setTaxMode(bill.taxPercent ? 'percent' : 'amount');
+      setServiceMode(bill.servicePercent ? 'percent' : 'amount');
+      setReceiptFile(null);
+      setReceiptPreview(bill.receiptImage);
+      setCalculatedResult(null);
+      setEditingBillId(bill.id);
+      setEditingExpenseId(bill.expense?.id || null);
+      setEditReason('');
+      setViewingBill(null);
+      setShowModal(true);
+    } catch (error) {
+      toast.error('Failed to load split bill');
+    }
+  };
+
   const handleAddItem = () => {
     setFormData((prev) => ({
       ...prev,
-      items: [...prev.items, { description: '', amount: '', quantity: '1', userId: '' }],
+      items: [...prev.items, { description: '', amount: '', quantity: '1', shares: [], weighted: false }],
     }));
   };
 
@@ -144,7 +295,7 @@ export default function SplitBill() {
     }));
   };
 
-  const handleItemChange = (index: number, field: string, value: string) => {
+  const handleItemChange = (index: number, field: string, value: string | boolean) => {
     setFormData((prev) => ({
       ...prev,
       items: prev.items.map((item, i) =>
@@ -153,15 +304,43 @@ export default function SplitBill() {
     }));
   };
 
+  // Add or remove a member from an item's shares
+  const toggleItemShare = (index: number, userId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      items: prev.items.map((item, i) => {
+        if (i !== index) return item;
+        const shares = item.shares.some((s) => s.userId === userId)
+          ? item.shares.filter((s) => s.userId !== userId)
+          : [...item.shares, { userId, weight: '1' }];
+        return { ...item, shares };
+      }),
+    }));
+  };
+
+  const handleShareWeightChange = (index: number, userId: string, weight: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      items: prev.items.map((item, i) =>
+        i === index
+          ? { ...item, shares: item.shares.map((s) => (s.userId === userId ? { ...s, weight } : s)) }
+          : item
+      ),
+    }));
+  };
+
   const handleCalculate = async () => {
     if (formData.items.length === 0) {
       toast.error('Add at least one item');
       return;
     }
 
-    const validItems = formData.items.filter(
-      (item) => item.description && item.amount && item.userId
-    );
+    if (formData.items.some((item) => item.description && item.amount && item.shares.length === 0)) {
+      toast.error('Assign every item to at least one member');
+      return;
+    }
+
+    const validItems = formData.items.filter(isItemComplete);
 
     if (validItems.length === 0) {
       toast.error('Fill in all item details');
@@ -170,26 +349,22 @@ export default function SplitBill() {
 
     try {
       const payload: any = {
-        items: validItems.map((item) => ({
-          description: item.description,
-          amount: parseFloat(item.amount),
-          quantity: parseInt(item.quantity) || 1,
-          userId: item.userId,
-        })),
+        items: validItems.map((item) => toItemPayload(item, formCurrency)),
+        ocrDraftId: ocrDraft?.id,
       };
 
       // Add tax based on mode
       if (taxMode === 'percent' && formData.taxPercent) {
         payload.taxPercent = parseFloat(formData.taxPercent);
       } else if (formData.taxAmount) {
-        payload.taxAmount = parseFloat(formData.taxAmount);
+        payload.taxAmount = toMinor(formData.taxAmount, formCurrency);
       }
 
       // Add service based on mode
       if (serviceMode === 'percent' && formData.servicePercent) {
         payload.servicePercent = parseFloat(formData.servicePercent);
       } else if (formData.serviceCharge) {
-        payload.serviceCharge = parseFloat(formData.serviceCharge);
+        payload.serviceCharge = toMinor(formData.serviceCharge, formCurrency);
       }
 
       const response = await splitBillsAPI.calculate(payload);
@@ -206,50 +381,69 @@ export default function SplitBill() {
       return;
     }
 
-    try {
-      const validItems = formData.items.filter(
-        (item) => item.description && item.amount && item.userId
-      );
-
-      // Generate itemized notes from items
-      const itemizedNotes = validItems.map((item) => {
-        const user = users.find(u => u.id === item.userId);
-        const qty = parseInt(item.quantity) || 1;
-        const total = parseFloat(item.amount) * qty;
-        return `• ${item.description} x${qty} @ ${parseFloat(item.amount).toFixed(2)} = ${total.toFixed(2)} (${user?.displayName || 'Unknown'})`;
-      }).join('\n');
-
-      const finalNotes = formData.notes 
-        ? `${formData.notes}\n\n--- Items ---\n${itemizedNotes}`
-        : `--- Items ---\n${itemizedNotes}`;
+    const validItems = formData.items.filter(isItemComplete);
+
+    // Without self-editing, a member's bill edit is sent for review as a change request on its expense
+    if (editingBillId && editingExpenseId && proposingEdit) {
+      const taxByPercent = taxMode === 'percent' && !!formData.taxPercent;
+      const serviceByPercent = serviceMode === 'percent' && !!formData.servicePercent;
+      try {
+        await changeRequestsAPI.create({
+          recordType: 'expense',
+          recordId: editingExpenseId,
+          action: 'edit',
+          changes: {
+            description: formData.title,
+            date: formData.date,
+            categoryId: formData.categoryId,
+            userId: formData.paidByUserId || undefined,
+            notes: formData.notes || null,
+            items: validItems.map((item) => toItemPayload(item, formCurrency)),
+            taxPercent: taxByPercent ? formData.taxPercent : null,
+            taxAmount: !taxByPercent && formData.taxAmount ? toMinor(formData.taxAmount, formCurrency) : 0,
+            servicePercent: serviceByPercent ? formData.servicePercent : null,
+            serviceCharge: !serviceByPercent && formData.serviceCharge ? toMinor(formData.serviceCharge, formCurrency) : 0,
+          },
+          reason: editReason || undefined,
+        });
+        toast.success('Edit submitted for approval');
+        setShowModal(false);
+        setShowCalculation(false);
+        resetForm();
+      } catch (error: any) {
+        toast.error(error.response?.data?.error || 'Failed to submit edit');
+      }
+      return;
+    }
 
+    try {
       // Build FormData for file upload support
       const formDataPayload = new FormData();
       formDataPayload.append('title', formData.title);
       formDataPayload.append('date', formData.date);
-      formDataPayload.append('items', JSON.stringify(validItems.map((item) => ({
-        description: item.description,
-        amount: parseFloat(item.amount),
-        quantity: parseInt(item.quantity) || 1,
-        userId: item.userId,
-      }))));
-      formDataPayload.append('notes', finalNotes);
+      formDataPayload.append('items', JSON.stringify(validItems.map((item) => toItemPayload(item, formCurrency))));
+      formDataPayload.append('notes', formData.notes);
+      if (ocrDraft && !editingBillId) formDataPayload.append('ocrDraftId', ocrDraft.id);
 
       if (formData.categoryId) formDataPayload.append('categoryId', formData.categoryId);
       if (formData.paidByUserId) formDataPayload.append('paidByUserId', formData.paidByUserId);
 
-      // Add tax based on mode
+      // Add tax based on mode (both are always sent so an edit can clear them)
       if (taxMode === 'percent' && formData.taxPercent) {
         formDataPayload.append('taxPercent', formData.taxPercent);
-      } else if (formData.taxAmount) {
-        formDataPayload.append('taxAmount', formData.taxAmount);
+        formDataPayload.append('taxAmount', '0');
+      } else {
+        formDataPayload.append('taxPercent', '');
+        formDataPayload.append('taxAmount', String(formData.taxAmount ? toMinor(formData.taxAmount, formCurrency) : 0));
       }
 
       // Add service based on mode
       if (serviceMode === 'percent' && formData.servicePercent) {
         formDataPayload.append('servicePercent', formData.servicePercent);
-      } else if (formData.serviceCharge) {
-        formDataPayload.append('serviceCharge', formData.serviceCharge);
+        formDataPayload.append('serviceCharge', '0');
+      } else {
+        formDataPayload.append('servicePercent', '');
+        formDataPayload.append('serviceCharge', String(formData.serviceCharge ? toMinor(formData.serviceCharge, formCurrency) : 0));
       }
 
       // Add receipt if present
@@ -257,13 +451,20 @@ export default function SplitBill() {
         formDataPayload.append('receipt', receiptFile);
       }
 
-      await splitBillsAPI.createExpenses(formDataPayload);
-      toast.success('Expenses created successfully!');
+      if (editingBillId) {
+        if (editReason) formDataPayload.append('reason', editReason);
+        await splitBillsAPI.update(editingBillId, formDataPayload);
+        toast.success('Split bill updated');
+      } else {
+        await splitBillsAPI.createExpenses(formDataPayload);
+        toast.success('Expenses created successfully!');
+      }
       setShowModal(false);
       setShowCalculation(false);
       resetForm();
+      fetchBills();
     } catch (error: any) {
-      toast.error(error.response?.data?.error || 'Failed to create expenses');
+      toast.error(error.response?.data?.error || (editingBillId ? 'Failed to update split bill' : 'Failed to create expenses'));
     }
   };
 
@@ -273,11 +474,17 @@ export default function SplitBill() {
       return;
     }
 
+    const totalAmount = toMinor(quickSplitData.totalAmount, baseCurrency);
+    if (!(totalAmount > 0)) {
+      toast.error('Please enter a valid total amount');
+      return;
+    }
+
     try {
       // Build FormData for file upload support
       const formDataPayload = new FormData();
       formDataPayload.append('description', quickSplitData.description);
-      formDataPayload.append('totalAmount', quickSplitData.totalAmount);
+      formDataPayload.append('totalAmount', String(totalAmount));
       formDataPayload.append('date', quickSplitData.date);
       formDataPayload.append('userIds', JSON.stringify(quickSplitData.userIds));
 
@@ -289,14 +496,14 @@ export default function SplitBill() {
       if (quickTaxMode === 'percent' && quickSplitData.taxPercent) {
         formDataPayload.append('taxPercent', quickSplitData.taxPercent);
       } else if (quickSplitData.taxAmount) {
-        formDataPayload.append('taxAmount', quickSplitData.taxAmount);
+        formDataPayload.append('taxAmount', String(toMinor(quickSplitData.taxAmount, baseCurrency)));
       }
 
       // Add service based on mode
       if (quickServiceMode === 'percent' && quickSplitData.servicePercent) {
         formDataPayload.append('servicePercent', quickSplitData.servicePercent);
       } else if (quickSplitData.serviceCharge) {
-        formDataPayload.append('serviceCharge', quickSplitData.serviceCharge);
+        formDataPayload.append('serviceCharge', String(toMinor(quickSplitData.serviceCharge, baseCurrency)));
       }
 
       // Add receipt if present
@@ -333,6 +540,7 @@ export default function SplitBill() {
       servicePercent: '',
       date: format(new Date(), 'yyyy-MM-dd'),
       notes: '',
+      currency: '',
       items: [],
     });
     setCalculatedResult(null);
@@ -340,6 +548,35 @@ export default function SplitBill() {
     setServiceMode('amount');
     setReceiptFile(null);
     setReceiptPreview(null);
+    setEditingBillId(null);
+    setEditingExpenseId(null);
+    setEditReason('');
+    setOcrDraft(null);
+  };
+
+  // Pre-fill the bill from what OCR read. Items still need to be assigned to members.
+  const handleReceiptScanned = (draft: OcrDraft) => {
+    setOcrDraft(draft);
+    setFormData((prev) => ({
+      ...prev,
+      title: draft.merchant || prev.title,
+      date: draft.date ? format(new Date(draft.date), 'yyyy-MM-dd') : prev.date,
+      taxAmount: draft.taxAmount ? String(fromMinor(draft.taxAmount, baseCurrency)) : prev.taxAmount,
+      serviceCharge: draft.serviceCharge ? String(fromMinor(draft.serviceCharge, baseCurrency)) : prev.serviceCharge,
+      items: draft.items.length > 0
+        ? draft.items.map((item) => ({
+            description: item.description,
+            amount: String(fromMinor(item.amount, baseCurrency)),
+            quantity: String(item.quantity),
+            shares: [],
+            weighted: false,
+          }))
+        : prev.items,
+    }));
+    if (draft.taxAmount) setTaxMode('amount');
+    if (draft.serviceCharge) setServiceMode('amount');
+    setReceiptFile(null);
+    setReceiptPreview(draft.receiptImage.toLowerCase().endsWith('.pdf') ? null : draft.receiptImage);
   };
 
   const resetQuickSplitForm = () => {
@@ -437,13 +674,60 @@ export default function SplitBill() {
             <div className="flex-1">
               <h3 className="font-semibold text-white mb-1 group-hover:text-blue-300 transition-colors">Itemized Split</h3>
               <p className="text-sm text-white/60">
-                Add individual items and assign them to members. Tax and service charges are proportionally split. Perfect for restaurant bills.
+                Add individual items and assign them to members, or share a dish between several. Tax and service charges are proportionally split. Perfect for restaurant bills.
               </p>
             </div>
           </div>
         </button>
       </div>
 
+      {/* Saved Bills */}
+      <div className="glass-card p-6">
+        <h2 className="text-lg font-semibold text-white mb-4">Saved Bills</h2>
+        {savedBills.length === 0 ? (
+          <p className="text-white/50 text-sm">Itemized bills you create are saved here.</p>
+        ) : (
+          <div className="space-y-2">
+            {savedBills.map((bill) => (
+              <div
+                key={bill.id}
+                className="flex items-center justify-between gap-4 p-3 rounded-xl bg-white/5"
+              >
+                <div className="min-w-0">
+                  <p className="text-white font-medium truncate">{bill.title}</p>
+                  <p className="text-xs text-white/50">
+                    {format(new Date(bill.date), 'MMM d, yyyy')}
+                    {bill._count && ` · ${bill._count.items} items`}
+                    {bill.expense && ` · paid by ${bill.expense.user.displayName}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="font-semibold text-green-400">
+                    {currencyLabel(bill.currency, baseCurrency, currency)} {formatMoney(bill.totalAmount, bill.currency)}
+                  </span>
+                  <button
+                    onClick={() => handleViewBill(bill.id)}
+                    className="p-1.5 rounded-lg text-white/60 hover:bg-purple-500/20 hover:text-purple-400"
+                    title="View details"
+                  >
+                    <EyeIcon className="w-4 h-4" />
+                  </button>
+                  {canEditBill(bill) && (
+                    <button
+                      onClick={() => handleEditBill(bill.id)}
+                      className="p-1.5 rounded-lg text-white/60 hover:bg-white/10 hover:text-white"
+                      title="Edit"
+                    >
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Quick Split Modal */}
       <Modal
         isOpen={showQuickSplitModal}
@@ -474,7 +758,7 @@ export default function SplitBill() {
               </label>
               <input
                 type="number"
-                step="0.01"
+                step={amountStep(baseCurrency)}
                 value={quickSplitData.totalAmount}
                 onChange={(e) => setQuickSplitData((prev) => ({ ...prev, totalAmount: e.target.value }))}
                 className="glass-input"
@@ -552,7 +836,7 @@ export default function SplitBill() {
             </div>
             <input
               type="number"
-              step="0.01"
+              step={quickTaxMode === 'amount' ? amountStep(baseCurrency) : '0.01'}
               value={quickTaxMode === 'amount' ? quickSplitData.taxAmount : quickSplitData.taxPercent}
               onChange={(e) => setQuickSplitData((prev) => ({
                 ...prev,
@@ -590,7 +874,7 @@ export default function SplitBill() {
             </div>
             <input
               type="number"
-              step="0.01"
+              step={quickServiceMode === 'amount' ? amountStep(baseCurrency) : '0.01'}
               value={quickServiceMode === 'amount' ? quickSplitData.serviceCharge : quickSplitData.servicePercent}
               onChange={(e) => setQuickSplitData((prev) => ({
                 ...prev,
@@ -629,7 +913,7 @@ export default function SplitBill() {
             </div>
             {quickSplitData.userIds.length > 0 && quickSplitData.totalAmount && (
               <p className="text-sm text-white/50 mt-2">
-                Each person pays: RM {(parseFloat(quickSplitData.totalAmount) / quickSplitData.userIds.length).toFixed(2)}
+                Each person pays: {currency} {formatMoney(Math.floor((toMinor(quickSplitData.totalAmount, baseCurrency) || 0) / quickSplitData.userIds.length), baseCurrency)}
               </p>
             )}
           </div>
@@ -712,10 +996,12 @@ export default function SplitBill() {
           setShowModal(false);
           resetForm();
         }}
-        title="Itemized Split Bill"
+        title={editingBillId ? (proposingEdit ? 'Propose Bill Edit' : 'Edit Split Bill') : 'Itemized Split Bill'}
         size="lg"
       >
         <div className="space-y-4">
+          {!editingBillId && <ScanReceiptButton onScanned={handleReceiptScanned} />}
+
           <div>
             <label className="block text-sm font-medium text-white/70 mb-2">
               Title <span className="text-red-400">*</span>
@@ -801,7 +1087,7 @@ export default function SplitBill() {
               </div>
               <input
                 type="number"
-                step="0.01"
+                step={taxMode === 'amount' ? amountStep(formCurrency) : '0.01'}
                 value={taxMode === 'amount' ? formData.taxAmount : formData.taxPercent}
                 onChange={(e) => setFormData((prev) => ({
                   ...prev,
@@ -839,7 +1125,7 @@ export default function SplitBill() {
               </div>
               <input
                 type="number"
-                step="0.01"
+                step={serviceMode === 'amount' ? amountStep(formCurrency) : '0.01'}
                 value={serviceMode === 'amount' ? formData.serviceCharge : formData.servicePercent}
                 onChange={(e) => setFormData((prev) => ({
                   ...prev,
@@ -885,10 +1171,10 @@ export default function SplitBill() {
                     className="glass-input text-sm"
                     placeholder="Item description"
                   />
-                  <div className="grid grid-cols-3 gap-2">
+                  <div className="grid grid-cols-2 gap-2">
                     <input
                       type="number"
-                      step="0.01"
+                      step={amountStep(formCurrency)}
                       value={item.amount}
                       onChange={(e) => handleItemChange(index, 'amount', e.target.value)}
                       className="glass-input text-sm"
@@ -902,19 +1188,70 @@ export default function SplitBill() {
                       placeholder="Qty"
                       min="1"
                     />
-                    <select
-                      value={item.userId}
-                      onChange={(e) => handleItemChange(index, 'userId', e.target.value)}
-                      className="glass-select text-sm"
-                    >
-                      <option value="">Who?</option>
-                      {users.map((u) => (
-                        <option key={u.id} value={u.id}>
+                  </div>
+
+                  {/* Who the item is for - pick several to share it */}
+                  <div className="flex flex-wrap gap-1.5">
+                    {users.map((u) => {
+                      const selected = item.shares.some((s) => s.userId === u.id);
+                      return (
+                        <button
+                          key={u.id}
+                          type="button"
+                          onClick={() => toggleItemShare(index, u.id)}
+                          className={`px-2.5 py-1 text-xs rounded-lg ${
+                            selected ? 'bg-purple-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'
+                          }`}
+                        >
                           {u.displayName}
-                        </option>
-                      ))}
-                    </select>
+                        </button>
+                      );
+                    })}
                   </div>
+
+                  {item.shares.length > 1 && (
+                    <div className="space-y-2">
+                      <div className="flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() => handleItemChange(index, 'weighted', false)}
+                          className={`px-2 py-1 text-xs rounded-lg ${
+                            !item.weighted ? 'bg-purple-500 text-white' : 'bg-white/5 text-white/60'
+                          }`}
+                        >
+                          Split equally
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleItemChange(index, 'weighted', true)}
+                          className={`px-2 py-1 text-xs rounded-lg ${
+                            item.weighted ? 'bg-purple-500 text-white' : 'bg-white/5 text-white/60'
+                          }`}
+                        >
+                          By shares
+                        </button>
+                      </div>
+                      {item.weighted && (
+                        <div className="grid grid-cols-2 gap-2">
+                          {item.shares.map((share) => (
+                            <label key={share.userId} className="flex items-center gap-2 text-xs text-white/70">
+                              <span className="flex-1 truncate">
+                                {users.find((u) => u.id === share.userId)?.displayName}
+                              </span>
+                              <input
+                                type="number"
+                                step="0.5"
+                                min="0.5"
+                                value={share.weight}
+                                onChange={(e) => handleShareWeightChange(index, share.userId, e.target.value)}
+                                className="glass-input text-sm w-20"
+                              />
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
 
@@ -938,42 +1275,59 @@ export default function SplitBill() {
             />
           </div>
 
+          {editingBillId && (
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">
+                Reason for Change <span className="text-white/40">(Optional)</span>
+              </label>
+              <input
+                type="text"
+                value={editReason}
+                onChange={(e) => setEditReason(e.target.value)}
+                className="glass-input"
+                placeholder={proposingEdit ? 'Shown to whoever reviews your edit' : "Shown in the expense's history"}
+              />
+            </div>
+          )}
+
           {/* Receipt Upload */}
-          <div>
-            <label className="block text-sm font-medium text-white/70 mb-2">Receipt Image</label>
-            <input
-              type="file"
-              ref={receiptInputRef}
-              accept="image/*"
-              onChange={(e) => handleReceiptChange(e, false)}
-              className="hidden"
-            />
-            {receiptPreview ? (
-              <div className="relative">
-                <img
-                  src={receiptPreview}
-                  alt="Receipt preview"
-                  className="w-full h-40 object-cover rounded-xl"
-                />
+          {!(editingBillId && proposingEdit) && (
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">Receipt Image</label>
+              <input
+                type="file"
+                ref={receiptInputRef}
+                accept="image/*"
+                onChange={(e) => handleReceiptChange(e, false)}
+                className="hidden"
+              />
+              {receiptPreview ? (
+                <div className="relative">
+                  <img
+                    src={receiptPreview}
+                    alt="Receipt preview"
+                    className="w-full h-40 object-cover rounded-xl"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeReceipt(false)}
+                    className="absolute top-2 right-2 p-1 bg-red-500 rounded-full hover:bg-red-600"
+                  >
+                    <XMarkIcon className="w-4 h-4 text-white" />
+                  </button>
+                </div>
+              ) : (
                 <button
                   type="button"
-                  onClick={() => removeReceipt(false)}
-                  className="absolute top-2 right-2 p-1 bg-red-500 rounded-full hover:bg-red-600"
+                  onClick={() => receiptInputRef.current?.click()}
+                  className="w-full p-4 border-2 border-dashed border-white/20 rounded-xl hover:border-white/40 transition-colors"
                 >
-                  <XMarkIcon className="w-4 h-4 text-white" />
+                  <PhotoIcon className="w-8 h-8 mx-auto text-white/40" />
+                  <p className="text-sm text-white/40 mt-2">Click to upload receipt</p>
                 </button>
-              </div>
-            ) : (
-              <button
-                type="button"
-                onClick={() => receiptInputRef.current?.click()}
-                className="w-full p-4 border-2 border-dashed border-white/20 rounded-xl hover:border-white/40 transition-colors"
-              >
-                <PhotoIcon className="w-8 h-8 mx-auto text-white/40" />
-                <p className="text-sm text-white/40 mt-2">Click to upload receipt</p>
-              </button>
-            )}
-          </div>
+              )}
+            </div>
+          )}
 
           <div className="flex gap-3 pt-4">
             <button
@@ -1009,22 +1363,28 @@ export default function SplitBill() {
             <div className="glass-card p-4 space-y-2">
               <div className="flex justify-between text-sm">
                 <span className="text-white/60">Subtotal</span>
-                <span className="text-white">RM {calculatedResult.subtotal.toFixed(2)}</span>
+                <span className="text-white">{formLabel} {formatMoney(calculatedResult.subtotal, formCurrency)}</span>
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-white/60">Tax</span>
-                <span className="text-white">RM {calculatedResult.taxAmount.toFixed(2)}</span>
+                <span className="text-white">{formLabel} {formatMoney(calculatedResult.taxAmount, formCurrency)}</span>
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-white/60">Service Charge</span>
-                <span className="text-white">RM {calculatedResult.serviceCharge.toFixed(2)}</span>
+                <span className="text-white">{formLabel} {formatMoney(calculatedResult.serviceCharge, formCurrency)}</span>
               </div>
               <div className="flex justify-between font-semibold pt-2 border-t border-white/10">
                 <span className="text-white">Total</span>
-                <span className="text-green-400">RM {calculatedResult.total.toFixed(2)}</span>
+                <span className="text-green-400">{formLabel} {formatMoney(calculatedResult.total, formCurrency)}</span>
               </div>
             </div>
 
+            {calculatedResult.receiptTotal != null && calculatedResult.receiptTotal !== calculatedResult.total && (
+              <div className="p-3 rounded-xl bg-yellow-500/10 border border-yellow-500/20 text-sm text-yellow-400">
+                The scanned receipt's total is {formLabel} {formatMoney(calculatedResult.receiptTotal, formCurrency)}. Check the items, tax and service charge.
+              </div>
+            )}
+
             <div className="space-y-3">
               <h4 className="text-sm font-medium text-white/70">Per Person</h4>
               {calculatedResult.userBreakdown.map((item) => (
@@ -1039,13 +1399,13 @@ export default function SplitBill() {
                     <div>
                       <p className="text-white">{item.user?.displayName}</p>
                       <p className="text-xs text-white/50">
-                        Subtotal: RM {item.subtotal.toFixed(2)} + Tax: RM{' '}
-                        {item.tax.toFixed(2)} + Svc: RM {item.service.toFixed(2)}
+                        Subtotal: {formLabel} {formatMoney(item.subtotal, formCurrency)} + Tax: {formLabel}{' '}
+                        {formatMoney(item.tax, formCurrency)} + Svc: {formLabel} {formatMoney(item.service, formCurrency)}
                       </p>
                     </div>
                   </div>
                   <span className="font-bold text-green-400">
-                    RM {item.total.toFixed(2)}
+                    {formLabel} {formatMoney(item.total, formCurrency)}
                   </span>
                 </div>
               ))}
@@ -1054,7 +1414,11 @@ export default function SplitBill() {
             <div className="p-4 rounded-xl bg-green-500/10 border border-green-500/20">
               <p className="text-sm text-green-400">
                 <CheckCircleIcon className="w-4 h-4 inline mr-1" />
-                This will create a single expense with splits for each person.
+                {editingBillId
+                  ? proposingEdit
+                    ? 'A reviewer will check your changes before the bill and its expense are updated.'
+                    : 'This will update the bill and recalculate the splits of its expense.'
+                  : 'This will create a single expense with splits for each person.'}
               </p>
             </div>
 
@@ -1066,12 +1430,105 @@ export default function SplitBill() {
                 Back
               </button>
               <button onClick={handleCreateExpenses} className="glass-button flex-1">
-                Create Expenses
+                {editingBillId ? (proposingEdit ? 'Submit Edit' : 'Save Changes') : 'Create Expenses'}
               </button>
             </div>
           </div>
         )}
       </Modal>
+
+      {/* Saved Bill Detail Modal */}
+      <Modal
+        isOpen={!!viewingBill}
+        onClose={() => setViewingBill(null)}
+        title={viewingBill?.title || 'Split Bill'}
+        size="lg"
+      >
+        {viewingBill && (() => {
+          const label = currencyLabel(viewingBill.currency, baseCurrency, currency);
+          const subtotal = viewingBill.totalAmount - viewingBill.taxAmount - viewingBill.serviceCharge;
+          return (
+            <div className="space-y-4">
+              <p className="text-sm text-white/60">
+                {format(new Date(viewingBill.date), 'MMM d, yyyy')}
+                {viewingBill.expense && ` · paid by ${viewingBill.expense.user.displayName}`}
+              </p>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-white/70">Items</h4>
+                {viewingBill.items.map((item) => (
+                  <div key={item.id} className="flex items-center justify-between p-3 rounded-xl bg-white/5 text-sm">
+                    <div>
+                      <p className="text-white">{item.description}</p>
+                      <p className="text-xs text-white/50">
+                        {item.shares.length > 1 && item.shares.some((share) => share.weight !== item.shares[0].weight)
+                          ? item.shares.map((share) => `${share.user.displayName} (${share.weight})`).join(', ')
+                          : item.shares.map((share) => share.user.displayName).join(', ')}
+                        {' · '}{item.quantity} × {label} {formatMoney(item.amount, viewingBill.currency)}
+                      </p>
+                    </div>
+                    <span className="text-white">{label} {formatMoney(item.amount * item.quantity, viewingBill.currency)}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="glass-card p-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-white/60">Subtotal</span>
+                  <span className="text-white">{label} {formatMoney(subtotal, viewingBill.currency)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-white/60">Tax{viewingBill.taxPercent ? ` (${viewingBill.taxPercent}%)` : ''}</span>
+                  <span className="text-white">{label} {formatMoney(viewingBill.taxAmount, viewingBill.currency)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-white/60">Service Charge{viewingBill.servicePercent ? ` (${viewingBill.servicePercent}%)` : ''}</span>
+                  <span className="text-white">{label} {formatMoney(viewingBill.serviceCharge, viewingBill.currency)}</span>
+                </div>
+                <div className="flex justify-between font-semibold pt-2 border-t border-white/10">
+                  <span className="text-white">Total</span>
+                  <span className="text-green-400">{label} {formatMoney(viewingBill.totalAmount, viewingBill.currency)}</span>
+                </div>
+              </div>
+
+              {viewingBill.expense && viewingBill.expense.splits.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-white/70">Per Person</h4>
+                  {viewingBill.expense.splits.map((split) => (
+                    <div key={split.id} className="flex justify-between p-3 rounded-xl bg-white/5 text-sm">
+                      <span className="text-white">{split.user.displayName}</span>
+                      <span className="font-semibold text-green-400">{label} {formatMoney(split.amount, viewingBill.currency)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {viewingBill.notes && (
+                <p className="text-sm text-white/60 whitespace-pre-wrap">{viewingBill.notes}</p>
+              )}
+
+              {viewingBill.receiptImage && (
+                <img src={viewingBill.receiptImage} alt="Receipt" className="w-full rounded-xl" />
+              )}
+
+              <div className="flex gap-3 pt-2">
+                <button onClick={() => setViewingBill(null)} className="glass-button-secondary flex-1">
+                  Close
+                </button>
+                {canEditBill(viewingBill) && (
+                  <button
+                    onClick={() => handleEditBill(viewingBill.id)}
+                    className="glass-button flex-1 flex items-center justify-center gap-2"
+                  >
+                    <PencilIcon className="w-5 h-5" />
+                    Edit
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })()}
+      </Modal>
     </div>
   );
 }
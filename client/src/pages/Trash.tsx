@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import {
+  ArrowUturnLeftIcon,
+  TrashIcon,
+  ArchiveBoxIcon,
+} from '@heroicons/react/24/outline';
+import { trashAPI, TrashType } from '../lib/api';
+import { useAuthStore, selectBaseCurrency } from '../stores/authStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { currencyLabel, formatMoney } from '../lib/money';
+import LoadingSpinner from '../components/LoadingSpinner';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { useLiveUpdates } from '../lib/events';
+
+interface TrashedRecord {
+  id: string;
+  deletedAt: string;
+  purgeAt: string | null;
+}
+
+interface TrashedExpense extends TrashedRecord {
+  description: string;
+  amount: number;
+  currency: string;
+  date: string;
+  user: { displayName: string };
+  category: { name: string; icon: string | null } | null;
+}
+
+interface TrashedPayment extends TrashedRecord {
+  description: string | null;
+  amount: number;
+  currency: string;
+  date: string;
+  fromUser: { displayName: string };
+  toUser: { displayName: string };
+}
+
+interface TrashedCategory extends TrashedRecord {
+  name: string;
+  icon: string | null;
+}
+
+interface TrashContents {
+  retentionDays: number;
+  expenses: TrashedExpense[];
+  payments: TrashedPayment[];
+  categories: TrashedCategory[];
+}
+
+const TABS: { type: TrashType; label: string }[] = [
+  { type: 'expense', label: 'Expenses' },
+  { type: 'payment', label: 'Payments' },
+  { type: 'category', label: 'Categories' },
+];
+
+export default function Trash() {
+  const baseCurrency = useAuthStore(selectBaseCurrency);
+  const { currency } = useSettingsStore();
+  const [trash, setTrash] = useState<TrashContents>({ retentionDays: 0, expenses: [], payments: [], categories: [] });
+  const [loading, setLoading] = useState(true);
+  const [tab, setTab] = useState<TrashType>('expense');
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  // Refresh when records are deleted, restored or purged
+  useLiveUpdates(['trash'], () => {
+    fetchTrash();
+  });
+
+  const fetchTrash = async () => {
+    try {
+      const response = await trashAPI.getAll();
+      setTrash(response.data);
+    } catch (error) {
+      toast.error('Failed to fetch trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (type: TrashType, id: string) => {
+    try {
+      await trashAPI.restore(type, id);
+      toast.success('Record restored');
+      fetchTrash();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to restore');
+    }
+  };
+
+  const handlePurge = async (type: TrashType, id: string) => {
+    if (!confirm('Delete this record permanently? This cannot be undone.')) return;
+    try {
+      await trashAPI.purge(type, id);
+      toast.success('Record permanently deleted');
+      fetchTrash();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete');
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm('Permanently delete everything in the trash? This cannot be undone.')) return;
+    try {
+      await trashAPI.empty();
+      toast.success('Trash emptied');
+      fetchTrash();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to empty trash');
+    }
+  };
+
+  const counts: Record<TrashType, number> = {
+    expense: trash.expenses.length,
+    payment: trash.payments.length,
+    category: trash.categories.length,
+  };
+  const total = counts.expense + counts.payment + counts.category;
+
+  const renderRow = (type: TrashType, record: TrashedRecord, title: string, subtitle: string, amount?: string) => (
+    <div key={record.id} className="glass-card p-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <p className="font-medium text-white">{title}</p>
+          {amount && <p className="text-lg font-bold text-purple-400">{amount}</p>}
+          <p className="text-xs text-white/50">{subtitle}</p>
+          <p className="text-xs text-white/40 mt-1">
+            Deleted {format(new Date(record.deletedAt), 'MMM d, yyyy h:mm a')}
+            {' • '}
+            {record.purgeAt
+              ? `purged on ${format(new Date(record.purgeAt), 'MMM d, yyyy')}`
+              : 'kept until the trash is emptied'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleRestore(type, record.id)}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-green-500/20 text-green-400 hover:bg-green-500/30 transition-colors"
+          >
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+            Restore
+          </button>
+          <button
+            onClick={() => handlePurge(type, record.id)}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-colors"
+          >
+            <TrashIcon className="w-4 h-4" />
+            Delete Forever
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  const rows =
+    tab === 'expense'
+      ? trash.expenses.map((e) =>
+          renderRow(
+            'expense',
+            e,
+            e.description,
+            `${e.category ? `${e.category.icon || ''} ${e.category.name} • ` : ''}by ${e.user.displayName} • ${format(new Date(e.date), 'MMM d, yyyy')}`,
+            `${currencyLabel(e.currency, baseCurrency, currency)} ${formatMoney(e.amount, e.currency)}`
+          )
+        )
+      : tab === 'payment'
+        ? trash.payments.map((p) =>
+            renderRow(
+              'payment',
+              p,
+              `${p.fromUser.displayName} → ${p.toUser.displayName}`,
+              `${p.description ? `${p.description} • ` : ''}${format(new Date(p.date), 'MMM d, yyyy')}`,
+              `${currencyLabel(p.currency, baseCurrency, currency)} ${formatMoney(p.amount, p.currency)}`
+            )
+          )
+        : trash.categories.map((c) => renderRow('category', c, `${c.icon || ''} ${c.name}`, 'Category'));
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="space-y-6 animate-slide-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-white">Trash</h1>
+          <p className="text-white/60 mt-1">
+            {trash.retentionDays > 0
+              ? `Deleted records are kept for ${trash.retentionDays} days before they are purged`
+              : 'Deleted records are kept until the trash is emptied'}
+          </p>
+        </div>
+        {total > 0 && (
+          <button
+            onClick={handleEmpty}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-colors"
+          >
+            <TrashIcon className="w-4 h-4" />
+            Empty Trash
+          </button>
+        )}
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2">
+        {TABS.map(({ type, label }) => (
+          <button
+            key={type}
+            onClick={() => setTab(type)}
+            className={`px-4 py-2 rounded-xl text-sm font-medium transition-all ${
+              tab === type
+                ? 'bg-purple-500 text-white'
+                : 'bg-white/5 text-white/70 hover:bg-white/10'
+            }`}
+          >
+            {label} ({counts[type]})
+          </button>
+        ))}
+      </div>
+
+      {/* Records */}
+      <div className="space-y-4">
+        {rows.length === 0 ? (
+          <div className="glass-card p-12 text-center">
+            <ArchiveBoxIcon className="w-12 h-12 text-white/30 mx-auto mb-4" />
+            <p className="text-white/60">Nothing here</p>
+          </div>
+        ) : (
+          rows
+        )}
+      </div>
+    </div>
+  );
+}
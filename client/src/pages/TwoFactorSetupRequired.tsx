@@ -0,0 +1,28 @@
+import { authAPI } from '../lib/api';
+import { useAuthStore } from '../stores/authStore';
+import AuthCard from '../components/AuthCard';
+import TwoFactorSetup from '../components/TwoFactorSetup';
+
+// Shown instead of the app to owners and treasurers of a household that requires two-factor authentication
+export default function TwoFactorSetupRequired() {
+  const { refreshToken, updateUser, logout } = useAuthStore();
+
+  const handleLogout = async () => {
+    try {
+      if (refreshToken) await authAPI.logout(refreshToken);
+    } catch (error) {
+      // Log out locally even if the server call fails
+    }
+    logout();
+  };
+
+  return (
+    <AuthCard title="Turn On Two-Factor Authentication" subtitle="Your household requires owners and treasurers to use two-factor authentication.">
+      <TwoFactorSetup onDone={() => updateUser({ twoFactorEnabled: true, mustEnableTwoFactor: false })} />
+
+      <button onClick={handleLogout} className="w-full text-center text-white/60 hover:text-white/80 mt-6 text-sm">
+        Log out
+      </button>
+    </AuthCard>
+  );
+}
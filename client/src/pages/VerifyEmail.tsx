@@ -0,0 +1,48 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { authAPI } from '../lib/api';
+import { useAuthStore } from '../stores/authStore';
+import AuthCard from '../components/AuthCard';
+
+export default function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const updateUser = useAuthStore((state) => state.updateUser);
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+  // Tokens are single-use, so don't send it twice (React runs effects twice in development)
+  const sent = useRef(false);
+
+  useEffect(() => {
+    if (sent.current) return;
+    sent.current = true;
+
+    authAPI.verifyEmail(searchParams.get('token') || '')
+      .then((response) => {
+        setResult({ ok: true, message: response.data.message });
+        if (isAuthenticated) updateUser({ emailVerified: true });
+      })
+      .catch((error) => setResult({ ok: false, message: error.response?.data?.error || 'Failed to verify email' }));
+  }, []);
+
+  return (
+    <AuthCard title="Email Verification" subtitle="Confirming your email address">
+      <div className="text-center space-y-4">
+        {!result ? (
+          <div className="w-8 h-8 mx-auto border-2 border-white/30 border-t-white rounded-full animate-spin" />
+        ) : result.ok ? (
+          <CheckCircleIcon className="w-12 h-12 mx-auto text-green-400" />
+        ) : (
+          <ExclamationTriangleIcon className="w-12 h-12 mx-auto text-red-400" />
+        )}
+        {result && <p className="text-white/80">{result.message}</p>}
+        {result && !result.ok && (
+          <p className="text-sm text-white/50">You can send a new link from your profile.</p>
+        )}
+        <Link to={isAuthenticated ? '/' : '/login'} className="glass-button inline-block px-6 py-2">
+          {isAuthenticated ? 'Go to Dashboard' : 'Go to Login'}
+        </Link>
+      </div>
+    </AuthCard>
+  );
+}
@@ -1,17 +1,42 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
+export type Role = 'owner' | 'treasurer' | 'member' | 'viewer';
+
+// Mirrors the server's permission keys (server/src/lib/permissions.ts)
+export type Permission =
+  | 'expense.create' | 'expense.edit.own' | 'expense.edit.any'
+  | 'payment.create' | 'payment.edit.own' | 'payment.edit.any'
+  | 'payment.confirm.own' | 'payment.confirm.any'
+  | 'recurring.create' | 'recurring.edit.own' | 'recurring.edit.any'
+  | 'changeRequest.review' | 'category.write' | 'exchangeRate.write' | 'trash.manage'
+  | 'data.import' | 'audit.read' | 'reports.read' | 'statements.send'
+  | 'members.manage' | 'roles.manage' | 'security.manage' | 'settings.write';
+
 interface User {
   id: string;
   username: string;
   email: string;
   displayName: string;
-  isAdmin: boolean;
+  role?: Role;                   // In the active household
+  permissions?: Permission[];    // In the active household
   avatarUrl?: string;
   bankName?: string;
   bankAccountNo?: string;
   bankAccountName?: string;
   paymentQrImage?: string;
+  emailVerified?: boolean;
+  mustChangePassword?: boolean;  // Set after an admin reset; everything else waits until it is changed
+  twoFactorEnabled?: boolean;
+  mustEnableTwoFactor?: boolean; // An owner or treasurer of a household that requires two-factor, who hasn't turned it on
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  baseCurrency?: string;
+  role: Role;
+  permissions: Permission[];
 }
 
 interface AuthState {
@@ -19,13 +44,39 @@ interface AuthState {
   accessToken: string | null;
   refreshToken: string | null;
   isAuthenticated: boolean;
+  households: Household[];
+  activeHouseholdId: string | null;
   setUser: (user: User) => void;
   setTokens: (accessToken: string, refreshToken: string) => void;
-  login: (user: User, accessToken: string, refreshToken: string) => void;
+  login: (user: User, accessToken: string, refreshToken: string, households?: Household[]) => void;
   logout: () => void;
   updateUser: (data: Partial<User>) => void;
+  setHouseholds: (households: Household[]) => void;
+  setActiveHousehold: (householdId: string) => void;
 }
 
+// Roles are per household, so take the role and permissions from the active membership
+const withHouseholdRole = (user: User | null, households: Household[], householdId: string | null) => {
+  const active = households.find((h) => h.id === householdId);
+  return user && active ? { ...user, role: active.role, permissions: active.permissions || [] } : user;
+};
+
+// Whether the user may do something in the active household
+export const can = (user: User | null, permission: Permission) =>
+  !!user?.permissions?.includes(permission);
+
+// Whether the user may act on a record: anyone's with the .any permission, with the
+// .own one only when they are among its owners (payer, recorder or creator)
+export const canActOn = (
+  user: User | null,
+  permission: 'expense.edit' | 'payment.edit' | 'payment.confirm' | 'recurring.edit',
+  ownerIds: (string | null | undefined)[]
+) => can(user, `${permission}.any`) || (can(user, `${permission}.own`) && !!user && ownerIds.includes(user.id));
+
+// Base currency of the active household - balances and reports are converted to it
+export const selectBaseCurrency = (state: AuthState) =>
+  state.households.find((h) => h.id === state.activeHouseholdId)?.baseCurrency || 'MYR';
+
 export const useAuthStore = create<AuthState>()(
   persist(
     (set) => ({
@@ -33,19 +84,25 @@ export const useAuthStore = create<AuthState>()(
       accessToken: null,
       refreshToken: null,
       isAuthenticated: false,
+      households: [],
+      activeHouseholdId: null,
 
       setUser: (user) => set({ user }),
 
       setTokens: (accessToken, refreshToken) =>
         set({ accessToken, refreshToken }),
 
-      login: (user, accessToken, refreshToken) =>
+      login: (user, accessToken, refreshToken, households = []) => {
+        const activeHouseholdId = households[0]?.id || null;
         set({
-          user,
+          user: withHouseholdRole(user, households, activeHouseholdId),
           accessToken,
           refreshToken,
           isAuthenticated: true,
-        }),
+          households,
+          activeHouseholdId,
+        });
+      },
 
       logout: () =>
         set({
@@ -53,12 +110,33 @@ export const useAuthStore = create<AuthState>()(
           accessToken: null,
           refreshToken: null,
           isAuthenticated: false,
+          households: [],
+          activeHouseholdId: null,
         }),
 
       updateUser: (data) =>
         set((state) => ({
           user: state.user ? { ...state.user, ...data } : null,
         })),
+
+      setHouseholds: (households) =>
+        set((state) => {
+          // Keep the current selection if it still exists, otherwise fall back to the first
+          const activeHouseholdId = households.some((h) => h.id === state.activeHouseholdId)
+            ? state.activeHouseholdId
+            : households[0]?.id || null;
+          return {
+            households,
+            activeHouseholdId,
+            user: withHouseholdRole(state.user, households, activeHouseholdId),
+          };
+        }),
+
+      setActiveHousehold: (householdId) =>
+        set((state) => ({
+          activeHouseholdId: householdId,
+          user: withHouseholdRole(state.user, state.households, householdId),
+        })),
     }),
     {
       name: 'house-finance-auth',
@@ -67,6 +145,8 @@ export const useAuthStore = create<AuthState>()(
         accessToken: state.accessToken,
         refreshToken: state.refreshToken,
         isAuthenticated: state.isAuthenticated,
+        households: state.households,
+        activeHouseholdId: state.activeHouseholdId,
       }),
     }
   )
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { settingsAPI } from '../lib/api';
+import { subscribeToChanges } from '../lib/events';
 
 interface SettingsState {
   currency: string;
@@ -46,3 +47,8 @@ export const useSettingsStore = create<SettingsState>((set) => ({
     }
   },
 }));
+
+// Pick up settings changed by an admin elsewhere
+subscribeToChanges(['settings'], () => {
+  useSettingsStore.getState().fetchSettings();
+});
@@ -0,0 +1,204 @@
+-- CreateTable
+CREATE TABLE "Household" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "HouseholdMember" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "joinedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "householdId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "HouseholdMember_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "HouseholdMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Backfill: existing single-house data moves into a default household,
+-- and every active user becomes a member (admins keep their admin role)
+INSERT INTO "Household" ("id", "name", "createdAt", "updatedAt") VALUES ('default-household', 'My House', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP);
+INSERT INTO "HouseholdMember" ("id", "role", "joinedAt", "householdId", "userId")
+SELECT lower(hex(randomblob(16))), CASE WHEN "isAdmin" THEN 'admin' ELSE 'member' END, "createdAt", 'default-household', "id" FROM "User" WHERE "isDeleted" = false;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Category" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "icon" TEXT,
+    "color" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "deletedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "Category_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Category" ("color", "createdAt", "deletedAt", "householdId", "icon", "id", "isDefault", "isDeleted", "name", "updatedAt") SELECT "color", "createdAt", "deletedAt", 'default-household', "icon", "id", "isDefault", "isDeleted", "name", "updatedAt" FROM "Category";
+DROP TABLE "Category";
+ALTER TABLE "new_Category" RENAME TO "Category";
+CREATE INDEX "Category_isDeleted_idx" ON "Category"("isDeleted");
+CREATE UNIQUE INDEX "Category_householdId_name_key" ON "Category"("householdId", "name");
+CREATE TABLE "new_Expense" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "description" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'MYR',
+    "usage" REAL,
+    "date" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "receiptImage" TEXT,
+    "notes" TEXT,
+    "isLocked" BOOLEAN NOT NULL DEFAULT false,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "deletedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "categoryId" TEXT,
+    "recurringExpenseId" TEXT,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "Expense_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Expense_recurringExpenseId_fkey" FOREIGN KEY ("recurringExpenseId") REFERENCES "RecurringExpense" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Expense_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Expense_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Expense_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Expense" ("amount", "categoryId", "createdAt", "createdById", "currency", "date", "deletedAt", "description", "householdId", "id", "isDeleted", "isLocked", "notes", "receiptImage", "recurringExpenseId", "updatedAt", "usage", "userId") SELECT "amount", "categoryId", "createdAt", "createdById", "currency", "date", "deletedAt", "description", 'default-household', "id", "isDeleted", "isLocked", "notes", "receiptImage", "recurringExpenseId", "updatedAt", "usage", "userId" FROM "Expense";
+DROP TABLE "Expense";
+ALTER TABLE "new_Expense" RENAME TO "Expense";
+CREATE INDEX "Expense_householdId_date_idx" ON "Expense"("householdId", "date");
+CREATE INDEX "Expense_userId_date_idx" ON "Expense"("userId", "date");
+CREATE INDEX "Expense_categoryId_idx" ON "Expense"("categoryId");
+CREATE INDEX "Expense_isDeleted_idx" ON "Expense"("isDeleted");
+CREATE TABLE "new_Payment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'MYR',
+    "description" TEXT,
+    "receiptImage" TEXT,
+    "date" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "isLocked" BOOLEAN NOT NULL DEFAULT false,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "deletedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "Payment_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Payment_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Payment_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Payment_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Payment" ("amount", "createdAt", "createdById", "currency", "date", "deletedAt", "description", "fromUserId", "householdId", "id", "isDeleted", "isLocked", "receiptImage", "status", "toUserId", "updatedAt") SELECT "amount", "createdAt", "createdById", "currency", "date", "deletedAt", "description", "fromUserId", 'default-household', "id", "isDeleted", "isLocked", "receiptImage", "status", "toUserId", "updatedAt" FROM "Payment";
+DROP TABLE "Payment";
+ALTER TABLE "new_Payment" RENAME TO "Payment";
+CREATE INDEX "Payment_householdId_idx" ON "Payment"("householdId");
+CREATE INDEX "Payment_fromUserId_idx" ON "Payment"("fromUserId");
+CREATE INDEX "Payment_toUserId_idx" ON "Payment"("toUserId");
+CREATE INDEX "Payment_status_idx" ON "Payment"("status");
+CREATE INDEX "Payment_isDeleted_idx" ON "Payment"("isDeleted");
+CREATE TABLE "new_Settings" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "Settings_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Settings" ("createdAt", "householdId", "id", "key", "updatedAt", "value") SELECT "createdAt", 'default-household', "id", "key", "updatedAt", "value" FROM "Settings";
+DROP TABLE "Settings";
+ALTER TABLE "new_Settings" RENAME TO "Settings";
+CREATE UNIQUE INDEX "Settings_householdId_key_key" ON "Settings"("householdId", "key");
+CREATE TABLE "new_RecurringExpense" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "description" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'MYR',
+    "frequency" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME,
+    "totalOccurrences" INTEGER,
+    "occurrencesCreated" INTEGER NOT NULL DEFAULT 0,
+    "nextDueDate" DATETIME NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "splitEqually" BOOLEAN NOT NULL DEFAULT true,
+    "splitType" TEXT NOT NULL DEFAULT 'equal',
+    "splitConfig" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "RecurringExpense_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RecurringExpense_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_RecurringExpense" ("amount", "categoryId", "createdAt", "currency", "description", "endDate", "frequency", "householdId", "id", "isActive", "nextDueDate", "notes", "occurrencesCreated", "splitConfig", "splitEqually", "splitType", "startDate", "totalOccurrences", "updatedAt", "userId") SELECT "amount", "categoryId", "createdAt", "currency", "description", "endDate", "frequency", 'default-household', "id", "isActive", "nextDueDate", "notes", "occurrencesCreated", "splitConfig", "splitEqually", "splitType", "startDate", "totalOccurrences", "updatedAt", "userId" FROM "RecurringExpense";
+DROP TABLE "RecurringExpense";
+ALTER TABLE "new_RecurringExpense" RENAME TO "RecurringExpense";
+CREATE INDEX "RecurringExpense_householdId_idx" ON "RecurringExpense"("householdId");
+CREATE INDEX "RecurringExpense_nextDueDate_idx" ON "RecurringExpense"("nextDueDate");
+CREATE INDEX "RecurringExpense_isActive_idx" ON "RecurringExpense"("isActive");
+CREATE INDEX "RecurringExpense_userId_idx" ON "RecurringExpense"("userId");
+CREATE TABLE "new_DeleteRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "recordType" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "reason" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "approvedById" TEXT,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "DeleteRequest_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DeleteRequest_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "DeleteRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_DeleteRequest" ("approvedById", "createdAt", "householdId", "id", "reason", "recordId", "recordType", "requestedById", "status", "updatedAt") SELECT "approvedById", "createdAt", 'default-household', "id", "reason", "recordId", "recordType", "requestedById", "status", "updatedAt" FROM "DeleteRequest";
+DROP TABLE "DeleteRequest";
+ALTER TABLE "new_DeleteRequest" RENAME TO "DeleteRequest";
+CREATE INDEX "DeleteRequest_householdId_status_idx" ON "DeleteRequest"("householdId", "status");
+CREATE INDEX "DeleteRequest_status_idx" ON "DeleteRequest"("status");
+CREATE INDEX "DeleteRequest_recordType_recordId_idx" ON "DeleteRequest"("recordType", "recordId");
+CREATE TABLE "new_SplitBill" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "totalAmount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'MYR',
+    "taxAmount" REAL NOT NULL DEFAULT 0,
+    "taxPercent" REAL,
+    "serviceCharge" REAL NOT NULL DEFAULT 0,
+    "servicePercent" REAL,
+    "date" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "receiptImage" TEXT,
+    "notes" TEXT,
+    "categoryId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "SplitBill_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_SplitBill" ("categoryId", "createdAt", "currency", "date", "householdId", "id", "notes", "receiptImage", "serviceCharge", "servicePercent", "taxAmount", "taxPercent", "title", "totalAmount", "updatedAt") SELECT "categoryId", "createdAt", "currency", "date", 'default-household', "id", "notes", "receiptImage", "serviceCharge", "servicePercent", "taxAmount", "taxPercent", "title", "totalAmount", "updatedAt" FROM "SplitBill";
+DROP TABLE "SplitBill";
+ALTER TABLE "new_SplitBill" RENAME TO "SplitBill";
+CREATE INDEX "SplitBill_householdId_idx" ON "SplitBill"("householdId");
+CREATE INDEX "SplitBill_date_idx" ON "SplitBill"("date");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "HouseholdMember_userId_idx" ON "HouseholdMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HouseholdMember_householdId_userId_key" ON "HouseholdMember"("householdId", "userId");
@@ -0,0 +1,190 @@
+-- Money moves from REAL major units to INTEGER minor units (e.g. 12.50 -> 1250).
+-- All existing data is assumed to use a currency with two decimal places.
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Expense" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "description" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'MYR',
+    "usage" REAL,
+    "date" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "receiptImage" TEXT,
+    "notes" TEXT,
+    "isLocked" BOOLEAN NOT NULL DEFAULT false,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "deletedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "categoryId" TEXT,
+    "recurringExpenseId" TEXT,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "Expense_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Expense_recurringExpenseId_fkey" FOREIGN KEY ("recurringExpenseId") REFERENCES "RecurringExpense" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Expense_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Expense_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Expense_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Expense" ("amount", "categoryId", "createdAt", "createdById", "currency", "date", "deletedAt", "description", "householdId", "id", "isDeleted", "isLocked", "notes", "receiptImage", "recurringExpenseId", "updatedAt", "usage", "userId") SELECT CAST(ROUND("amount" * 100) AS INTEGER), "categoryId", "createdAt", "createdById", "currency", "date", "deletedAt", "description", "householdId", "id", "isDeleted", "isLocked", "notes", "receiptImage", "recurringExpenseId", "updatedAt", "usage", "userId" FROM "Expense";
+DROP TABLE "Expense";
+ALTER TABLE "new_Expense" RENAME TO "Expense";
+CREATE INDEX "Expense_householdId_date_idx" ON "Expense"("householdId", "date");
+CREATE INDEX "Expense_userId_date_idx" ON "Expense"("userId", "date");
+CREATE INDEX "Expense_categoryId_idx" ON "Expense"("categoryId");
+CREATE INDEX "Expense_isDeleted_idx" ON "Expense"("isDeleted");
+CREATE TABLE "new_Payment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'MYR',
+    "description" TEXT,
+    "receiptImage" TEXT,
+    "date" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "isLocked" BOOLEAN NOT NULL DEFAULT false,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "deletedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "Payment_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Payment_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Payment_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Payment_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Payment" ("amount", "createdAt", "createdById", "currency", "date", "deletedAt", "description", "fromUserId", "householdId", "id", "isDeleted", "isLocked", "receiptImage", "status", "toUserId", "updatedAt") SELECT CAST(ROUND("amount" * 100) AS INTEGER), "createdAt", "createdById", "currency", "date", "deletedAt", "description", "fromUserId", "householdId", "id", "isDeleted", "isLocked", "receiptImage", "status", "toUserId", "updatedAt" FROM "Payment";
+DROP TABLE "Payment";
+ALTER TABLE "new_Payment" RENAME TO "Payment";
+CREATE INDEX "Payment_householdId_idx" ON "Payment"("householdId");
+CREATE INDEX "Payment_fromUserId_idx" ON "Payment"("fromUserId");
+CREATE INDEX "Payment_toUserId_idx" ON "Payment"("toUserId");
+CREATE INDEX "Payment_status_idx" ON "Payment"("status");
+CREATE INDEX "Payment_isDeleted_idx" ON "Payment"("isDeleted");
+CREATE TABLE "new_RecurringExpense" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "description" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'MYR',
+    "frequency" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME,
+    "totalOccurrences" INTEGER,
+    "occurrencesCreated" INTEGER NOT NULL DEFAULT 0,
+    "nextDueDate" DATETIME NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "splitEqually" BOOLEAN NOT NULL DEFAULT true,
+    "splitType" TEXT NOT NULL DEFAULT 'equal',
+    "splitConfig" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "RecurringExpense_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RecurringExpense_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_RecurringExpense" ("amount", "categoryId", "createdAt", "currency", "description", "endDate", "frequency", "householdId", "id", "isActive", "nextDueDate", "notes", "occurrencesCreated", "splitConfig", "splitEqually", "splitType", "startDate", "totalOccurrences", "updatedAt", "userId") SELECT CAST(ROUND("amount" * 100) AS INTEGER), "categoryId", "createdAt", "currency", "description", "endDate", "frequency", "householdId", "id", "isActive", "nextDueDate", "notes", "occurrencesCreated", "splitConfig", "splitEqually", "splitType", "startDate", "totalOccurrences", "updatedAt", "userId" FROM "RecurringExpense";
+DROP TABLE "RecurringExpense";
+ALTER TABLE "new_RecurringExpense" RENAME TO "RecurringExpense";
+CREATE INDEX "RecurringExpense_householdId_idx" ON "RecurringExpense"("householdId");
+CREATE INDEX "RecurringExpense_nextDueDate_idx" ON "RecurringExpense"("nextDueDate");
+CREATE INDEX "RecurringExpense_isActive_idx" ON "RecurringExpense"("isActive");
+CREATE INDEX "RecurringExpense_userId_idx" ON "RecurringExpense"("userId");
+CREATE TABLE "new_SplitBill" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "totalAmount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'MYR',
+    "taxAmount" INTEGER NOT NULL DEFAULT 0,
+    "taxPercent" REAL,
+    "serviceCharge" INTEGER NOT NULL DEFAULT 0,
+    "servicePercent" REAL,
+    "date" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "receiptImage" TEXT,
+    "notes" TEXT,
+    "categoryId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "SplitBill_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_SplitBill" ("categoryId", "createdAt", "currency", "date", "householdId", "id", "notes", "receiptImage", "serviceCharge", "servicePercent", "taxAmount", "taxPercent", "title", "totalAmount", "updatedAt") SELECT "categoryId", "createdAt", "currency", "date", "householdId", "id", "notes", "receiptImage", CAST(ROUND("serviceCharge" * 100) AS INTEGER), "servicePercent", CAST(ROUND("taxAmount" * 100) AS INTEGER), "taxPercent", "title", CAST(ROUND("totalAmount" * 100) AS INTEGER), "updatedAt" FROM "SplitBill";
+DROP TABLE "SplitBill";
+ALTER TABLE "new_SplitBill" RENAME TO "SplitBill";
+CREATE INDEX "SplitBill_householdId_idx" ON "SplitBill"("householdId");
+CREATE INDEX "SplitBill_date_idx" ON "SplitBill"("date");
+CREATE TABLE "new_ExpenseSplit" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "expenseId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ExpenseSplit_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "Expense" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ExpenseSplit_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_ExpenseSplit" ("amount", "createdAt", "expenseId", "id", "userId") SELECT CAST(ROUND("amount" * 100) AS INTEGER), "createdAt", "expenseId", "id", "userId" FROM "ExpenseSplit";
+DROP TABLE "ExpenseSplit";
+ALTER TABLE "new_ExpenseSplit" RENAME TO "ExpenseSplit";
+CREATE INDEX "ExpenseSplit_userId_idx" ON "ExpenseSplit"("userId");
+CREATE INDEX "ExpenseSplit_expenseId_idx" ON "ExpenseSplit"("expenseId");
+CREATE TABLE "new_SplitBillItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "description" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "splitBillId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "SplitBillItem_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "SplitBillItem_splitBillId_fkey" FOREIGN KEY ("splitBillId") REFERENCES "SplitBill" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_SplitBillItem" ("amount", "createdAt", "description", "id", "quantity", "splitBillId", "updatedAt", "userId") SELECT CAST(ROUND("amount" * 100) AS INTEGER), "createdAt", "description", "id", "quantity", "splitBillId", "updatedAt", "userId" FROM "SplitBillItem";
+DROP TABLE "SplitBillItem";
+ALTER TABLE "new_SplitBillItem" RENAME TO "SplitBillItem";
+CREATE INDEX "SplitBillItem_splitBillId_idx" ON "SplitBillItem"("splitBillId");
+CREATE INDEX "SplitBillItem_userId_idx" ON "SplitBillItem"("userId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- Splits were rounded one by one, so they can drift a few cents from their expense.
+-- Where the difference is only rounding (at most one cent per split), give it to the
+-- payer's own split, or else the first split, so every split expense sums exactly.
+CREATE TEMP TABLE "_SplitDrift" AS
+SELECT e."id" AS "expenseId", e."userId" AS "payerId", e."amount" - SUM(s."amount") AS "drift"
+FROM "Expense" e JOIN "ExpenseSplit" s ON s."expenseId" = e."id"
+GROUP BY e."id"
+HAVING "drift" <> 0 AND ABS("drift") <= COUNT(s."id");
+CREATE TEMP TABLE "_SplitFix" AS
+SELECT "splitId", "drift" FROM (
+    SELECT s."id" AS "splitId", d."drift" AS "drift", ROW_NUMBER() OVER (
+        PARTITION BY s."expenseId"
+        ORDER BY CASE WHEN s."userId" = d."payerId" THEN 0 ELSE 1 END, s."createdAt", s."id"
+    ) AS "rank"
+    FROM "ExpenseSplit" s JOIN "_SplitDrift" d ON d."expenseId" = s."expenseId"
+) WHERE "rank" = 1;
+UPDATE "ExpenseSplit" SET "amount" = "amount" + (
+    SELECT f."drift" FROM "_SplitFix" f WHERE f."splitId" = "ExpenseSplit"."id"
+)
+WHERE "id" IN (SELECT "splitId" FROM "_SplitFix");
+DROP TABLE "_SplitFix";
+DROP TABLE "_SplitDrift";
+
+-- Fixed split amounts stored in recurring split configs become minor units too
+UPDATE "RecurringExpense" SET "splitConfig" = (
+    SELECT json_group_array(
+        CASE WHEN json_type(c."value", '$.amount') IN ('integer', 'real')
+            THEN json_set(c."value", '$.amount', CAST(ROUND(json_extract(c."value", '$.amount') * 100) AS INTEGER))
+            ELSE json(c."value")
+        END
+    )
+    FROM json_each("RecurringExpense"."splitConfig") c
+)
+WHERE "splitConfig" IS NOT NULL AND json_valid("splitConfig") AND json_type("splitConfig") = 'array';
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Household" ADD COLUMN "baseCurrency" TEXT NOT NULL DEFAULT 'MYR';
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "currency" TEXT NOT NULL,
+    "rate" REAL NOT NULL,
+    "effectiveDate" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "ExchangeRate_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_householdId_currency_effectiveDate_key" ON "ExchangeRate"("householdId", "currency", "effectiveDate");
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_householdId_currency_idx" ON "ExchangeRate"("householdId", "currency");
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN "recurringDueDate" DATETIME;
+
+-- Backfill the occurrence for previously generated expenses. Where the same occurrence
+-- was generated more than once, only the first copy is tagged so the unique index holds.
+UPDATE "Expense" SET "recurringDueDate" = "date"
+WHERE "id" IN (
+    SELECT "id" FROM (
+        SELECT "id", ROW_NUMBER() OVER (
+            PARTITION BY "recurringExpenseId", "date" ORDER BY "createdAt", "id"
+        ) AS "rn"
+        FROM "Expense"
+        WHERE "recurringExpenseId" IS NOT NULL
+    ) WHERE "rn" = 1
+);
+
+-- CreateTable
+CREATE TABLE "RecurringRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "trigger" TEXT NOT NULL,
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "upTo" DATETIME NOT NULL,
+    "created" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "details" TEXT,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME,
+    "triggeredById" TEXT,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "RecurringRun_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RecurringRun_triggeredById_fkey" FOREIGN KEY ("triggeredById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Expense_recurringExpenseId_recurringDueDate_key" ON "Expense"("recurringExpenseId", "recurringDueDate");
+
+-- CreateIndex
+CREATE INDEX "RecurringRun_householdId_startedAt_idx" ON "RecurringRun"("householdId", "startedAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "RecurringExpense" ADD COLUMN "interval" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "RecurringExpense" ADD COLUMN "rrule" TEXT;
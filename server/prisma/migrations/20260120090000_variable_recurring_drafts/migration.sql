@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN "isDraft" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "RecurringExpense" ADD COLUMN "isVariableAmount" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Expense_householdId_isDraft_idx" ON "Expense"("householdId", "isDraft");
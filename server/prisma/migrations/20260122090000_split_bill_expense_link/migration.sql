@@ -0,0 +1,32 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SplitBill" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "totalAmount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'MYR',
+    "taxAmount" INTEGER NOT NULL DEFAULT 0,
+    "taxPercent" REAL,
+    "serviceCharge" INTEGER NOT NULL DEFAULT 0,
+    "servicePercent" REAL,
+    "subtotalOverride" INTEGER,
+    "date" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "receiptImage" TEXT,
+    "notes" TEXT,
+    "categoryId" TEXT,
+    "expenseId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "SplitBill_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SplitBill_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "Expense" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_SplitBill" ("categoryId", "createdAt", "currency", "date", "householdId", "id", "notes", "receiptImage", "serviceCharge", "servicePercent", "taxAmount", "taxPercent", "title", "totalAmount", "updatedAt") SELECT "categoryId", "createdAt", "currency", "date", "householdId", "id", "notes", "receiptImage", "serviceCharge", "servicePercent", "taxAmount", "taxPercent", "title", "totalAmount", "updatedAt" FROM "SplitBill";
+DROP TABLE "SplitBill";
+ALTER TABLE "new_SplitBill" RENAME TO "SplitBill";
+CREATE UNIQUE INDEX "SplitBill_expenseId_key" ON "SplitBill"("expenseId");
+CREATE INDEX "SplitBill_householdId_idx" ON "SplitBill"("householdId");
+CREATE INDEX "SplitBill_date_idx" ON "SplitBill"("date");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "SplitBillItemShare" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "weight" REAL NOT NULL DEFAULT 1,
+    "itemId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "SplitBillItemShare_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "SplitBillItem" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SplitBillItemShare_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- Each existing item becomes a single full share for the member it was assigned to
+INSERT INTO "SplitBillItemShare" ("id", "weight", "itemId", "userId")
+SELECT lower(hex(randomblob(16))), 1, "id", "userId" FROM "SplitBillItem";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SplitBillItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "description" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "splitBillId" TEXT NOT NULL,
+    CONSTRAINT "SplitBillItem_splitBillId_fkey" FOREIGN KEY ("splitBillId") REFERENCES "SplitBill" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_SplitBillItem" ("amount", "createdAt", "description", "id", "quantity", "splitBillId", "updatedAt") SELECT "amount", "createdAt", "description", "id", "quantity", "splitBillId", "updatedAt" FROM "SplitBillItem";
+DROP TABLE "SplitBillItem";
+ALTER TABLE "new_SplitBillItem" RENAME TO "SplitBillItem";
+CREATE INDEX "SplitBillItem_splitBillId_idx" ON "SplitBillItem"("splitBillId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "SplitBillItemShare_userId_idx" ON "SplitBillItemShare"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SplitBillItemShare_itemId_userId_key" ON "SplitBillItemShare"("itemId", "userId");
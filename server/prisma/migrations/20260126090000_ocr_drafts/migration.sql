@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "OcrDraft" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "receiptImage" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "text" TEXT,
+    "confidence" REAL,
+    "merchant" TEXT,
+    "date" DATETIME,
+    "total" INTEGER,
+    "taxAmount" INTEGER,
+    "serviceCharge" INTEGER,
+    "items" TEXT,
+    "error" TEXT,
+    "usedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "OcrDraft_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "OcrDraft_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "OcrDraft_householdId_createdAt_idx" ON "OcrDraft"("householdId", "createdAt");
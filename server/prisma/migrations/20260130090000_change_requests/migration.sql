@@ -0,0 +1,36 @@
+-- Delete requests become change requests, which can also propose edits
+CREATE TABLE "ChangeRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "recordType" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "action" TEXT NOT NULL DEFAULT 'delete',
+    "changes" TEXT,
+    "diff" TEXT,
+    "reason" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reviewComment" TEXT,
+    "reviewedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "reviewedById" TEXT,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "ChangeRequest_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ChangeRequest_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ChangeRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- Existing delete requests keep their status and reviewer
+INSERT INTO "ChangeRequest" ("id", "recordType", "recordId", "action", "reason", "status", "reviewedAt", "createdAt", "updatedAt", "requestedById", "reviewedById", "householdId")
+SELECT "id", "recordType", "recordId", 'delete', "reason", "status", CASE WHEN "status" = 'pending' THEN NULL ELSE "updatedAt" END, "createdAt", "updatedAt", "requestedById", "approvedById", "householdId" FROM "DeleteRequest";
+
+DROP TABLE "DeleteRequest";
+
+-- CreateIndex
+CREATE INDEX "ChangeRequest_householdId_status_idx" ON "ChangeRequest"("householdId", "status");
+
+-- CreateIndex
+CREATE INDEX "ChangeRequest_status_idx" ON "ChangeRequest"("status");
+
+-- CreateIndex
+CREATE INDEX "ChangeRequest_recordType_recordId_idx" ON "ChangeRequest"("recordType", "recordId");
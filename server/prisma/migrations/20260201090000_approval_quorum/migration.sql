@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "ChangeRequest" ADD COLUMN "quorum" TEXT NOT NULL DEFAULT '1';
+
+-- CreateTable
+CREATE TABLE "ChangeRequestVote" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "approve" BOOLEAN NOT NULL,
+    "comment" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "requestId" TEXT NOT NULL,
+    "voterId" TEXT NOT NULL,
+    CONSTRAINT "ChangeRequestVote_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "ChangeRequest" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ChangeRequestVote_voterId_fkey" FOREIGN KEY ("voterId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChangeRequestVote_requestId_voterId_key" ON "ChangeRequestVote"("requestId", "voterId");
+
+-- CreateIndex
+CREATE INDEX "ChangeRequestVote_voterId_idx" ON "ChangeRequestVote"("voterId");
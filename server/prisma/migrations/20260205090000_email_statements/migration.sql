@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "NotificationPreference" ADD COLUMN "email" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "StatementDelivery" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "month" TEXT NOT NULL,
+    "sentAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    CONSTRAINT "StatementDelivery_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "StatementDelivery_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatementDelivery_householdId_userId_month_key" ON "StatementDelivery"("householdId", "userId", "month");
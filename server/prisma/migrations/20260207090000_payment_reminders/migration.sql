@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "PaymentReminder" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "level" INTEGER NOT NULL DEFAULT 0,
+    "lastSentAt" DATETIME,
+    "snoozedUntil" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "debtorId" TEXT NOT NULL,
+    "creditorId" TEXT NOT NULL,
+    CONSTRAINT "PaymentReminder_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PaymentReminder_debtorId_fkey" FOREIGN KEY ("debtorId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PaymentReminder_creditorId_fkey" FOREIGN KEY ("creditorId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentReminder_householdId_debtorId_creditorId_key" ON "PaymentReminder"("householdId", "debtorId", "creditorId");
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "Invitation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tokenHash" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "email" TEXT,
+    "inviteeId" TEXT,
+    "maxUses" INTEGER NOT NULL DEFAULT 1,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" DATETIME NOT NULL,
+    "revokedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "householdId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    CONSTRAINT "Invitation_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Invitation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Invitation_inviteeId_fkey" FOREIGN KEY ("inviteeId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "InvitationUse" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "invitationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "InvitationUse_invitationId_fkey" FOREIGN KEY ("invitationId") REFERENCES "Invitation" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "InvitationUse_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invitation_tokenHash_key" ON "Invitation"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "Invitation_householdId_idx" ON "Invitation"("householdId");
+
+-- CreateIndex
+CREATE INDEX "Invitation_inviteeId_idx" ON "Invitation"("inviteeId");
+
+-- CreateIndex
+CREATE INDEX "InvitationUse_invitationId_idx" ON "InvitationUse"("invitationId");
+
+-- CreateIndex
+CREATE INDEX "InvitationUse_userId_idx" ON "InvitationUse"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvitationUse_invitationId_userId_key" ON "InvitationUse"("invitationId", "userId");
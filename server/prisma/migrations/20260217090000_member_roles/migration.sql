@@ -0,0 +1,6 @@
+-- Members get extra permissions on top of their role
+ALTER TABLE "HouseholdMember" ADD COLUMN "grants" TEXT NOT NULL DEFAULT '[]';
+
+-- Admins become owners, who keep every permission admins had
+UPDATE "HouseholdMember" SET "role" = 'owner' WHERE "role" = 'admin';
+UPDATE "Invitation" SET "role" = 'owner' WHERE "role" = 'admin';
@@ -6,6 +6,9 @@ import { PrismaClient } from '@prisma/client';
 
 // Import routes
 import authRoutes from './routes/auth';
+import twoFactorRoutes from './routes/twoFactor';
+import sessionRoutes from './routes/sessions';
+import invitationRoutes from './routes/invitations';
 import userRoutes from './routes/users';
 import expenseRoutes from './routes/expenses';
 import categoryRoutes from './routes/categories';
@@ -14,8 +17,21 @@ import splitBillRoutes from './routes/splitBills';
 import dashboardRoutes from './routes/dashboard';
 import exportRoutes from './routes/export';
 import recurringRoutes from './routes/recurring';
-import deleteRequestRoutes from './routes/deleteRequests';
+import changeRequestRoutes from './routes/changeRequests';
 import settingsRoutes from './routes/settings';
+import householdRoutes from './routes/households';
+import settlementRoutes from './routes/settlements';
+import exchangeRateRoutes from './routes/exchangeRates';
+import ocrRoutes from './routes/ocr';
+import auditRoutes from './routes/audit';
+import trashRoutes from './routes/trash';
+import notificationRoutes from './routes/notifications';
+import eventRoutes from './routes/events';
+import statementRoutes from './routes/statements';
+import reminderRoutes from './routes/reminders';
+import securityRoutes from './routes/security';
+import { broadcastChanges } from './lib/events';
+import { startScheduler } from './lib/scheduler';
 
 dotenv.config();
 
@@ -23,6 +39,10 @@ const app = express();
 const prisma = new PrismaClient();
 const PORT = process.env.PORT || 3001;
 
+// Behind the nginx reverse proxy on the same machine, take client IPs (shown in the
+// session list) from X-Forwarded-For; direct connections can't spoof it
+app.set('trust proxy', 'loopback');
+
 // Middleware
 app.use(cors({
   origin: process.env.NODE_ENV === 'production' 
@@ -36,18 +56,33 @@ app.use(express.urlencoded({ extended: true }));
 // Serve uploaded files
 app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
 
-// API Routes
+// API Routes. broadcastChanges tells connected clients which data a successful
+// write may have changed so they can refetch it.
 app.use('/api/auth', authRoutes);
-app.use('/api/users', userRoutes);
-app.use('/api/expenses', expenseRoutes);
-app.use('/api/categories', categoryRoutes);
-app.use('/api/payments', paymentRoutes);
-app.use('/api/split-bills', splitBillRoutes);
+app.use('/api/auth/two-factor', twoFactorRoutes);
+app.use('/api/auth/sessions', sessionRoutes);
+app.use('/api/invitations', broadcastChanges('members'), invitationRoutes);
+app.use('/api/users', broadcastChanges('members', 'changeRequests'), userRoutes);
+app.use('/api/expenses', broadcastChanges('expenses', 'changeRequests'), expenseRoutes);
+app.use('/api/categories', broadcastChanges('categories'), categoryRoutes);
+app.use('/api/payments', broadcastChanges('payments', 'changeRequests'), paymentRoutes);
+app.use('/api/split-bills', broadcastChanges('splitBills', 'expenses'), splitBillRoutes);
 app.use('/api/dashboard', dashboardRoutes);
-app.use('/api/export', exportRoutes);
-app.use('/api/recurring', recurringRoutes);
-app.use('/api/delete-requests', deleteRequestRoutes);
-app.use('/api/settings', settingsRoutes);
+app.use('/api/export', broadcastChanges('expenses', 'payments', 'categories'), exportRoutes);
+app.use('/api/recurring', broadcastChanges('recurring', 'expenses'), recurringRoutes);
+app.use('/api/change-requests', broadcastChanges('changeRequests', 'expenses', 'payments', 'recurring', 'members'), changeRequestRoutes);
+app.use('/api/settings', broadcastChanges('settings'), settingsRoutes);
+app.use('/api/households', broadcastChanges('members', 'settings'), householdRoutes);
+app.use('/api/settlements', broadcastChanges('payments'), settlementRoutes);
+app.use('/api/exchange-rates', broadcastChanges('exchangeRates'), exchangeRateRoutes);
+app.use('/api/ocr', ocrRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/trash', broadcastChanges('trash', 'expenses', 'payments', 'categories'), trashRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/statements', statementRoutes);
+app.use('/api/reminders', broadcastChanges('payments'), reminderRoutes);
+app.use('/api/security-events', securityRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -82,9 +117,13 @@ process.on('SIGINT', async () => {
   process.exit(0);
 });
 
-app.listen(PORT, () => {
-  console.log(`🏠 Rumah Money Mate Server running on port ${PORT}`);
-  console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
-});
+// Only serve when run directly, so tests can import modules without starting the server
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(`🏠 Rumah Money Mate Server running on port ${PORT}`);
+    console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
+    startScheduler();
+  });
+}
 
 export { prisma };
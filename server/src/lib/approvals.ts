@@ -0,0 +1,453 @@
+import { ChangeRequest, Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../index';
+import { diffSnapshots, recordAudit } from './audit';
+import { getHouseholdConverter } from './currency';
+import { applyEdit, EditableType, findEditable, notifyEdit, prepareEdit } from './edits';
+import { checkMemberDeletable, deleteMemberAccount, resetHouseholdPasswords, setMemberRole } from './households';
+import { moveToTrash } from './trash';
+import { notify } from './notifications';
+import { isPermission, isRole, parseGrants, permissionsFor } from './permissions';
+
+// Sensitive actions wait in a change request until enough members approve them.
+// A rule is a number of reviewers ('1' is the old single-admin approval), or
+// 'majority' / 'all' of the household's active members.
+export type ApprovalAction = 'delete' | 'edit' | 'reset-all-passwords' | 'promote-admin' | 'delete-user' | 'approval-rules';
+
+export const APPROVAL_DEFAULTS: Record<string, string> = {
+  approvalDelete: '2',               // Approvals for deleting an expense or payment worth at least approvalDeleteAmount
+  approvalDeleteAmount: '20000',     // Value (base currency, minor units) from which a delete needs approvalDelete
+  approvalResetAllPasswords: '2',    // Approvals for resetting every member's password
+  approvalPromoteAdmin: '2',         // Approvals for making a member an owner or granting owner permissions
+  approvalDeleteUser: 'majority',    // Approvals for deleting a member
+};
+
+export const APPROVAL_RULE_KEYS = Object.keys(APPROVAL_DEFAULTS);
+
+export const APPROVAL_RULE_PATTERN = /^([1-9]\d*|majority|all)$/;
+
+const RULE_SETTINGS: Partial<Record<ApprovalAction, string>> = {
+  delete: 'approvalDelete',
+  'reset-all-passwords': 'approvalResetAllPasswords',
+  'promote-admin': 'approvalPromoteAdmin',
+  'delete-user': 'approvalDeleteUser',
+};
+
+const getSetting = async (householdId: string, key: string) => {
+  const setting = await prisma.settings.findUnique({
+    where: { householdId_key: { householdId, key } }
+  });
+  return setting?.value ?? APPROVAL_DEFAULTS[key];
+};
+
+// The rule an action falls under. Edits and deletes below the amount only need one reviewer.
+export const getApprovalRule = async (householdId: string, action: ApprovalAction, value = 0) => {
+  const key = RULE_SETTINGS[action];
+  if (!key) return '1';
+
+  if (action === 'delete') {
+    const threshold = Number(await getSetting(householdId, 'approvalDeleteAmount'));
+    if (value < threshold) return '1';
+  }
+
+  const rule = await getSetting(householdId, key);
+  return APPROVAL_RULE_PATTERN.test(rule) ? rule : '1';
+};
+
+// What an expense or payment is worth in the household's base currency
+export const recordValue = async (
+  householdId: string,
+  record: { amount: number; currency: string; date: Date }
+) => {
+  const converter = await getHouseholdConverter(householdId);
+  return converter.toBase(record.amount, record.currency, record.date);
+};
+
+export interface Voter {
+  userId: string;
+  role: string;
+  canReview: boolean;  // Has changeRequest.review
+}
+
+// Active members of a household with their role
+export const getVoters = async (householdId: string): Promise<Voter[]> => {
+  const members = await prisma.householdMember.findMany({
+    where: { householdId, user: { isDeleted: false } },
+    select: { userId: true, role: true, grants: true }
+  });
+  return members.map(m => ({
+    userId: m.userId,
+    role: m.role,
+    canReview: permissionsFor(m.role, m.grants).includes('changeRequest.review')
+  }));
+};
+
+type VotableRequest = Pick<ChangeRequest, 'quorum' | 'recordType' | 'recordId' | 'requestedById'>;
+
+// Who may vote on a request. A numbered rule is decided by reviewers (owners and
+// treasurers, or members granted changeRequest.review), majority and all by every
+// member except viewers. Nobody votes on their own account, and a member who isn't a
+// reviewer cannot approve their own request.
+export const eligibleVoters = (request: VotableRequest, voters: Voter[]) =>
+  voters.filter(v =>
+    (/^\d+$/.test(request.quorum) ? v.canReview : v.role !== 'viewer') &&
+    !(request.recordType === 'user' && v.userId === request.recordId) &&
+    !(v.userId === request.requestedById && !v.canReview)
+  );
+
+// Approvals needed under a rule when this many members can vote. A numbered rule
+// is never lowered to the reviewers there are: the request waits until enough can vote.
+export const requiredApprovals = (rule: string, eligible: number) => {
+  if (rule === 'all') return Math.max(eligible, 1);
+  if (rule === 'majority') return Math.floor(eligible / 2) + 1;
+  return Math.max(1, Number(rule) || 1);
+};
+
+export interface Tally {
+  approvals: number;
+  rejections: number;
+  required: number;
+  eligible: string[];
+  outcome: 'approved' | 'rejected' | 'pending';
+}
+
+// Count the votes of members who are still eligible. A request is rejected once
+// it can no longer reach its quorum; with a single-approver rule any rejection decides.
+export const tallyVotes = (
+  request: VotableRequest,
+  voters: Voter[],
+  votes: { voterId: string; approve: boolean }[]
+): Tally => {
+  const eligible = eligibleVoters(request, voters).map(v => v.userId);
+  const counted = votes.filter(v => eligible.includes(v.voterId));
+  const approvals = counted.filter(v => v.approve).length;
+  const rejections = counted.length - approvals;
+  const required = requiredApprovals(request.quorum, eligible.length);
+
+  let outcome: Tally['outcome'] = 'pending';
+  if (approvals >= required) {
+    outcome = 'approved';
+  } else if (rejections > 0 && (required === 1 || eligible.length - rejections < required)) {
+    outcome = 'rejected';
+  }
+
+  return { approvals, rejections, required, eligible, outcome };
+};
+
+interface HoldInput {
+  action: ApprovalAction;
+  recordType: string;
+  recordId: string;
+  value?: number;
+  changes?: Record<string, unknown> | null;
+  reason?: string | null;
+  quorum?: string;  // Rule to hold the action under instead of the action's own
+}
+
+const parseChanges = (value: string | null) => (value ? JSON.parse(value) : {});
+
+// What a request asks for, e.g. "delete an expense"
+export const describeRequest = (request: Pick<ChangeRequest, 'action' | 'recordType' | 'changes'>) => {
+  if (request.action === 'reset-all-passwords') return 'reset every password';
+  if (request.action === 'approval-rules') return 'change the approval rules';
+  if (request.action === 'promote-admin') {
+    const { role } = parseChanges(request.changes);
+    return !role || role === 'owner' ? 'make a member an owner' : 'give a member owner permissions';
+  }
+  if (request.action === 'delete-user') return 'delete a member';
+  const record = request.recordType === 'recurring' ? 'recurring expense' : request.recordType;
+  return `${request.action} ${record === 'expense' ? 'an' : 'a'} ${record}`;
+};
+
+// Let the members who can vote on a new request know it is waiting for them
+export const announceRequest = async (request: ChangeRequest) => {
+  const [voters, requester] = await Promise.all([
+    getVoters(request.householdId),
+    prisma.user.findUnique({ where: { id: request.requestedById }, select: { displayName: true } })
+  ]);
+
+  await notify(request.householdId, eligibleVoters(request, voters).map(v => v.userId), {
+    type: 'change-request',
+    title: 'Change request to review',
+    message: `${requester?.displayName || 'A member'} asked to ${describeRequest(request)}`,
+    link: '/actions',
+    entityType: 'changeRequest',
+    entityId: request.id
+  }, request.requestedById);
+};
+
+// Check whether an action someone is allowed to take also needs other members'
+// approval. Returns null when it can go ahead now, otherwise the change request it
+// is waiting in. An eligible requester's own approval is counted straight away.
+export const holdForApproval = async (
+  householdId: string,
+  requesterId: string,
+  input: HoldInput
+) => {
+  const quorum = input.quorum ?? await getApprovalRule(householdId, input.action, input.value);
+  if (quorum === '1') return null;
+
+  const target = { quorum, recordType: input.recordType, recordId: input.recordId, requestedById: requesterId };
+  const voters = await getVoters(householdId);
+  const ownVote = eligibleVoters(target, voters).some(v => v.userId === requesterId);
+  const tally = tallyVotes(target, voters, ownVote ? [{ voterId: requesterId, approve: true }] : []);
+  if (tally.outcome === 'approved') return null;
+
+  const existing = await prisma.changeRequest.findFirst({
+    where: { householdId, recordType: input.recordType, recordId: input.recordId, status: 'pending' }
+  });
+  if (existing) {
+    return { error: 'A change request is already pending for this record' };
+  }
+
+  const request = await prisma.changeRequest.create({
+    data: {
+      recordType: input.recordType,
+      recordId: input.recordId,
+      action: input.action,
+      changes: input.changes ? JSON.stringify(input.changes) : null,
+      reason: input.reason || null,
+      quorum,
+      requestedById: requesterId,
+      householdId,
+      votes: ownVote ? { create: { voterId: requesterId, approve: true } } : undefined
+    }
+  });
+  await announceRequest(request);
+
+  return { request, required: tally.required, approvals: tally.approvals };
+};
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// The household's approval rules, with defaults for the ones never saved
+const loadApprovalRules = async (householdId: string, db: Db = prisma) => {
+  const saved = await db.settings.findMany({ where: { householdId, key: { in: APPROVAL_RULE_KEYS } } });
+  const rules: Record<string, string> = { ...APPROVAL_DEFAULTS };
+  for (const setting of saved) {
+    rules[setting.key] = setting.value;
+  }
+  return rules;
+};
+
+// Changing approval rules needs the approvals of the strictest rule being changed
+// (the amount from which deletes need approval falls under the delete rule), so a
+// rule can't be loosened with fewer approvals than it asks for.
+export const getRulesChangeQuorum = async (householdId: string, requesterId: string, keys: string[]) => {
+  const [voters, rules] = await Promise.all([getVoters(householdId), loadApprovalRules(householdId)]);
+  const needed = (rule: string) => requiredApprovals(rule, eligibleVoters(
+    { quorum: rule, recordType: 'settings', recordId: householdId, requestedById: requesterId },
+    voters
+  ).length);
+
+  let strictest = '1';
+  for (const key of keys) {
+    const rule = rules[key === 'approvalDeleteAmount' ? 'approvalDelete' : key];
+    if (APPROVAL_RULE_PATTERN.test(rule) && needed(rule) > needed(strictest)) strictest = rule;
+  }
+  return strictest;
+};
+
+// Save changed approval rules with an entry in the settings' history
+export const saveApprovalRules = async (
+  tx: Prisma.TransactionClient,
+  householdId: string,
+  changes: Record<string, string>,
+  actorId: string,
+  reason?: string | null
+) => {
+  const before = await loadApprovalRules(householdId, tx);
+  for (const [key, value] of Object.entries(changes)) {
+    await tx.settings.upsert({
+      where: { householdId_key: { householdId, key } },
+      update: { value },
+      create: { householdId, key, value }
+    });
+  }
+
+  await recordAudit({
+    householdId,
+    actorId,
+    entityType: 'settings',
+    entityId: householdId,
+    entityLabel: 'Household settings',
+    action: 'update',
+    before,
+    after: { ...before, ...changes },
+    reason
+  }, tx);
+};
+
+// Message for an action that is now waiting for approvals
+export const heldMessage = (what: string, held: { required: number; approvals: number }) =>
+  `${what} needs ${held.required} approvals (${held.approvals} so far). It will be carried out once they are given.`;
+
+interface Execution {
+  execute: (tx: Prisma.TransactionClient, actorId: string) => Promise<unknown>;
+  notify?: (executed: unknown, actorId: string) => Promise<void>;  // Sent once the transaction has committed
+  diff?: Record<string, { from: unknown; to: unknown }>;
+}
+
+
+// Check that an approved request can still be carried out against the household
+// as it is now, and prepare it. Returns { error } with the reason when it can't.
+export const prepareExecution = async (request: ChangeRequest): Promise<Execution | { error: string }> => {
+  const { householdId, recordId, reason } = request;
+
+  if (request.action === 'edit') {
+    const type = request.recordType as EditableType;
+    const record = await findEditable(type, householdId, recordId);
+    if (!record) return { error: 'The record has been deleted' };
+    if (record.isLocked) return { error: 'This record is locked and cannot be changed' };
+
+    const edit = await prepareEdit(type, householdId, record, parseChanges(request.changes));
+    if ('error' in edit) return edit;
+
+    return {
+      execute: (tx, actorId) => applyEdit(tx, type, householdId, record, edit, actorId, reason),
+      notify: (executed, actorId) => notifyEdit(type, householdId, executed, edit, actorId),
+      diff: diffSnapshots(edit.before, edit.after)
+    };
+  }
+
+  if (request.action === 'delete') {
+    const type = request.recordType as 'expense' | 'payment';
+    const record = await findEditable(type, householdId, recordId);
+    if (record?.isLocked) return { error: 'This record is locked and cannot be deleted' };
+
+    // A record that is already gone is skipped
+    return { execute: (tx, actorId) => moveToTrash(tx, householdId, type, recordId, actorId, reason) };
+  }
+
+  if (request.action === 'reset-all-passwords') {
+    const { passwordHash } = parseChanges(request.changes);
+    if (!passwordHash) return { error: 'The new password is missing' };
+
+    return { execute: (tx, actorId) => resetHouseholdPasswords(tx, householdId, passwordHash, actorId, reason) };
+  }
+
+  if (request.action === 'promote-admin') {
+    const member = await prisma.householdMember.findUnique({
+      where: { householdId_userId: { householdId, userId: recordId } }
+    });
+    if (!member) return { error: 'The user is no longer a member' };
+
+    // Requests to make an owner carry no changes; grants of owner permissions name the role and grants
+    const { role, grants } = parseChanges(request.changes);
+    const access = {
+      role: isRole(role) ? role : 'owner' as const,
+      grants: Array.isArray(grants) ? grants.filter(isPermission) : undefined
+    };
+    return {
+      execute: (tx, actorId) => setMemberRole(tx, householdId, recordId, access, actorId, reason),
+      diff: diffSnapshots(
+        { role: member.role, grants: parseGrants(member.grants) },
+        { role: access.role, grants: access.grants ?? parseGrants(member.grants) }
+      )
+    };
+  }
+
+  if (request.action === 'approval-rules') {
+    const changes: Record<string, string> = parseChanges(request.changes);
+    const before = await loadApprovalRules(householdId);
+
+    return {
+      execute: (tx, actorId) => saveApprovalRules(tx, householdId, changes, actorId, reason),
+      diff: diffSnapshots(before, { ...before, ...changes })
+    };
+  }
+
+  if (request.action === 'delete-user') {
+    const check = await checkMemberDeletable(householdId, recordId);
+    if ('error' in check) return { error: check.error! };
+
+    return { execute: (tx, actorId) => deleteMemberAccount(tx, householdId, check.user!, actorId, reason) };
+  }
+
+  return { error: 'Unknown action' };
+};
+
+// Thrown inside a vote's transaction when another vote or a cancellation got there first
+const VOTE_CONFLICT = 'vote-conflict';
+
+// Record a member's vote. When it decides the request, an approved action is
+// carried out in the same transaction as the vote and the new status. Votes are
+// counted against the request as it was read: if another vote or a cancellation
+// landed in between, nothing is saved and the member is asked to look again.
+export const castVote = async (request: ChangeRequest, voterId: string, approve: boolean, comment?: string | null) => {
+  const [voters, votes] = await Promise.all([
+    getVoters(request.householdId),
+    prisma.changeRequestVote.findMany({ where: { requestId: request.id } })
+  ]);
+
+  if (!eligibleVoters(request, voters).some(v => v.userId === voterId)) {
+    return { error: 'You cannot vote on this request', status: 403 };
+  }
+  if (votes.some(v => v.voterId === voterId)) {
+    return { error: 'You have already voted on this request', status: 400 };
+  }
+
+  const tally = tallyVotes(request, voters, [...votes, { voterId, approve }]);
+
+  let execution: Execution | null = null;
+  if (tally.outcome === 'approved') {
+    const prepared = await prepareExecution(request);
+    if ('error' in prepared) {
+      return { error: `This request can no longer be carried out: ${prepared.error}. Reject it instead.`, status: 400 };
+    }
+    execution = prepared;
+  }
+
+  let updated: ChangeRequest;
+  let executed: unknown;
+  try {
+    updated = await prisma.$transaction(async (tx) => {
+      const voteCount = await tx.changeRequestVote.count({ where: { requestId: request.id } });
+      if (voteCount !== votes.length) throw new Error(VOTE_CONFLICT);
+
+      await tx.changeRequestVote.create({
+        data: { requestId: request.id, voterId, approve, comment: comment || null }
+      });
+
+      // Only a request that is still pending can be voted on or decided, and only once
+      const claimed = await tx.changeRequest.updateMany({
+        where: { id: request.id, status: 'pending' },
+        data: tally.outcome === 'pending' ? { updatedAt: new Date() } : {
+          status: tally.outcome,
+          reviewedById: voterId,
+          reviewedAt: new Date(),
+          reviewComment: comment || null,
+          ...(execution?.diff ? { diff: JSON.stringify(execution.diff) } : {})
+        }
+      });
+      if (claimed.count === 0) throw new Error(VOTE_CONFLICT);
+
+      if (execution) {
+        executed = await execution.execute(tx, voterId);
+      }
+
+      return tx.changeRequest.findUniqueOrThrow({ where: { id: request.id } });
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === VOTE_CONFLICT) {
+      return { error: 'This request changed while you were voting. Check it again before voting.', status: 409 };
+    }
+    throw error;
+  }
+
+  if (execution?.notify) {
+    await execution.notify(executed, voterId);
+  }
+
+  if (tally.outcome !== 'pending') {
+    await notify(request.householdId, [request.requestedById], {
+      type: 'change-request-decided',
+      title: `Change request ${tally.outcome}`,
+      message: `Your request to ${describeRequest(request)} was ${tally.outcome}${comment ? `: ${comment}` : ''}`,
+      link: '/actions',
+      entityType: 'changeRequest',
+      entityId: request.id
+    }, voterId);
+  }
+
+  return { request: updated, tally };
+};
@@ -0,0 +1,110 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../index';
+
+export type AuditEntity =
+  | 'expense'
+  | 'payment'
+  | 'recurring'
+  | 'category'
+  | 'settings'
+  | 'exchangeRate'
+  | 'household'
+  | 'user'
+  | 'invitation'
+  | 'changeRequest';
+
+export const AUDIT_ENTITIES: AuditEntity[] = [
+  'expense', 'payment', 'recurring', 'category', 'settings', 'exchangeRate', 'household', 'user', 'invitation',
+  'changeRequest'
+];
+
+export type Snapshot = Record<string, unknown>;
+
+interface AuditEntry {
+  householdId: string;
+  actorId: string | null;   // null when the server made the change
+  entityType: AuditEntity;
+  entityId: string;
+  entityLabel?: string | null;
+  action: string;
+  before?: Snapshot | null;
+  after?: Snapshot | null;
+  reason?: string | null;
+}
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Dates are kept as ISO strings so snapshots compare and serialise the same way
+const normalize = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalize);
+  return value === undefined ? null : value;
+};
+
+// Pick the audited fields of a record
+export const snapshot = (record: Record<string, any>, fields: readonly string[]): Snapshot =>
+  Object.fromEntries(fields.map(field => [field, normalize(record[field])]));
+
+const EXPENSE_FIELDS = [
+  'description', 'amount', 'currency', 'usage', 'date', 'categoryId', 'userId', 'notes', 'receiptImage', 'isDraft'
+] as const;
+
+export const PAYMENT_FIELDS = [
+  'amount', 'currency', 'description', 'status', 'fromUserId', 'toUserId', 'receiptImage', 'date'
+] as const;
+
+export const RECURRING_FIELDS = [
+  'description', 'amount', 'currency', 'isVariableAmount', 'frequency', 'interval', 'rrule', 'startDate', 'endDate',
+  'totalOccurrences', 'nextDueDate', 'isActive', 'categoryId', 'userId', 'splitEqually', 'splitType', 'splitConfig', 'notes'
+] as const;
+
+export const CATEGORY_FIELDS = ['name', 'icon', 'color'] as const;
+
+export const EXCHANGE_RATE_FIELDS = ['currency', 'rate', 'effectiveDate'] as const;
+
+// An expense with its splits (sorted so re-created splits with the same amounts don't show as changed)
+export const expenseSnapshot = (expense: Record<string, any> & { splits?: { userId: string; amount: number }[] }): Snapshot => ({
+  ...snapshot(expense, EXPENSE_FIELDS),
+  splits: (expense.splits || [])
+    .map(s => ({ userId: s.userId, amount: s.amount }))
+    .sort((a, b) => a.userId.localeCompare(b.userId))
+});
+
+// Field-by-field differences between two snapshots: { field: { from, to } }.
+// A created record has no "before" and a deleted one no "after".
+export const diffSnapshots = (before: Snapshot | null | undefined, after: Snapshot | null | undefined) => {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  fields.forEach(field => {
+    const from = before ? normalize(before[field]) : null;
+    const to = after ? normalize(after[field]) : null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  });
+
+  return changes;
+};
+
+// Append an entry to the audit log. Pass the transaction client when the change
+// itself runs in a transaction, so the entry is only kept if the change is.
+// Updates that changed nothing are not logged.
+export const recordAudit = async (entry: AuditEntry, db: Db = prisma) => {
+  const changes = diffSnapshots(entry.before, entry.after);
+  if (entry.action === 'update' && Object.keys(changes).length === 0) return null;
+
+  return db.auditLog.create({
+    data: {
+      householdId: entry.householdId,
+      actorId: entry.actorId,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      entityLabel: entry.entityLabel || null,
+      action: entry.action,
+      changes: Object.keys(changes).length > 0 ? JSON.stringify(changes) : null,
+      currency: (entry.after?.currency ?? entry.before?.currency ?? null) as string | null,
+      reason: entry.reason || null
+    }
+  });
+};
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { addHours } from 'date-fns';
+import { prisma } from '../index';
+import { appUrl, isMailEnabled, sendMail } from './mail';
+
+// Tokens emailed to users to reset a forgotten password or verify their address.
+// Each is random, expires, and works once; issuing a new one cancels older ones.
+
+export type AuthTokenType = 'password-reset' | 'email-verification';
+
+const TOKEN_LIFETIME_HOURS: Record<AuthTokenType, number> = {
+  'password-reset': 1,
+  'email-verification': 48,
+};
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Create a token for a user, cancelling any unused ones of the same type
+export const issueAuthToken = async (userId: string, type: AuthTokenType, email?: string) => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await prisma.$transaction([
+    prisma.authToken.deleteMany({ where: { userId, type, usedAt: null } }),
+    prisma.authToken.create({
+      data: {
+        userId,
+        type,
+        email,
+        tokenHash: hashToken(token),
+        expiresAt: addHours(new Date(), TOKEN_LIFETIME_HOURS[type])
+      }
+    })
+  ]);
+
+  return token;
+};
+
+// Use up a token. Marking it used only succeeds while it is unused and unexpired,
+// so two requests racing with the same token can't both get through.
+export const consumeAuthToken = async (token: unknown, type: AuthTokenType) => {
+  if (typeof token !== 'string' || !token) {
+    return { error: 'Invalid or expired link' };
+  }
+
+  const tokenHash = hashToken(token);
+  const now = new Date();
+  const claimed = await prisma.authToken.updateMany({
+    where: { tokenHash, type, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now }
+  });
+  if (claimed.count === 0) {
+    return { error: 'Invalid or expired link' };
+  }
+
+  const record = await prisma.authToken.findUniqueOrThrow({
+    where: { tokenHash },
+    include: { user: { select: { id: true, email: true, displayName: true, isDeleted: true } } }
+  });
+  if (record.user.isDeleted) {
+    return { error: 'Invalid or expired link' };
+  }
+
+  return { user: record.user, email: record.email };
+};
+
+// Link to a client page carrying a token, or just the token when APP_URL isn't set
+const tokenLink = (path: string, token: string) =>
+  appUrl(`${path}?token=${token}`) || `Your code: ${token}`;
+
+// Email a password reset link. Returns whether it was sent.
+export const sendPasswordResetEmail = async (user: { id: string; email: string; displayName: string }) => {
+  if (!isMailEnabled()) return false;
+  const token = await issueAuthToken(user.id, 'password-reset');
+
+  return sendMail({
+    to: user.email,
+    subject: 'Reset your Rumah Money Mate password',
+    text: [
+      `Hi ${user.displayName},`,
+      '',
+      `Someone asked to reset your password. Use this link within ${TOKEN_LIFETIME_HOURS['password-reset']} hour to choose a new one:`,
+      '',
+      tokenLink('/reset-password', token),
+      '',
+      'If this wasn\'t you, you can ignore this email; your password stays the same.'
+    ].join('\n')
+  });
+};
+
+// Email a link that verifies the user's current address. Returns whether it was sent.
+export const sendVerificationEmail = async (user: { id: string; email: string; displayName: string }) => {
+  if (!isMailEnabled()) return false;
+  const token = await issueAuthToken(user.id, 'email-verification', user.email);
+
+  return sendMail({
+    to: user.email,
+    subject: 'Verify your email for Rumah Money Mate',
+    text: [
+      `Hi ${user.displayName},`,
+      '',
+      `Please confirm this is your email address so we can send you notifications and statements. The link works for ${TOKEN_LIFETIME_HOURS['email-verification']} hours:`,
+      '',
+      tokenLink('/verify-email', token)
+    ].join('\n')
+  });
+};
+
+// Delete tokens that can no longer be used
+export const purgeUsedAuthTokens = () =>
+  prisma.authToken.deleteMany({
+    where: { OR: [{ usedAt: { not: null } }, { expiresAt: { lt: new Date() } }] }
+  });
@@ -0,0 +1,140 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { allocate, minorUnitsPerMajor } from './money';
+
+// Records keep their original amount and currency. Balances and reports convert
+// to the household's base currency with the rate in effect on the record's date.
+// A rate is in major units (1 USD = 4.5 MYR), so converting minor units also scales
+// by the difference in decimals between the two currencies (e.g. JPY has none, KWD three).
+
+export const DEFAULT_BASE_CURRENCY = 'MYR';
+
+// ISO 4217 codes known to the runtime (Node 18+); older runtimes only get a format check
+const supportedValuesOf = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+const KNOWN_CURRENCIES = supportedValuesOf ? new Set(supportedValuesOf('currency')) : null;
+
+// Normalize a currency code from user input ("usd" -> "USD"), or null if it isn't ISO 4217
+export const normalizeCurrency = (value: unknown): string | null => {
+  const code = String(value ?? '').trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) return null;
+  return !KNOWN_CURRENCIES || KNOWN_CURRENCIES.has(code) ? code : null;
+};
+
+export interface RateEntry {
+  currency: string;
+  rate: number;
+  effectiveDate: Date;
+}
+
+interface Convertible {
+  amount: number;
+  currency: string;
+  date: Date;
+}
+
+// Build a converter for a base currency and its rate table
+export const buildConverter = (baseCurrency: string, rates: RateEntry[]) => {
+  const byCurrency = new Map<string, RateEntry[]>();
+  for (const rate of [...rates].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime())) {
+    const list = byCurrency.get(rate.currency) || [];
+    list.push(rate);
+    byCurrency.set(rate.currency, list);
+  }
+
+  // The latest rate on or before the date. Dates before the first rate use the first rate;
+  // a currency with no rates at all is left unconverted (entry is refused in that case).
+  const rateOn = (currency: string, date: Date) => {
+    if (currency === baseCurrency) return 1;
+    const list = byCurrency.get(currency);
+    if (!list || list.length === 0) return 1;
+
+    let found = list[0];
+    for (const entry of list) {
+      if (entry.effectiveDate.getTime() > date.getTime()) break;
+      found = entry;
+    }
+    return found.rate;
+  };
+
+  const toBase = (amount: number, currency: string, date: Date) => {
+    if (currency === baseCurrency) return amount;
+    const scale = minorUnitsPerMajor(baseCurrency) / minorUnitsPerMajor(currency);
+    return Math.round(amount * rateOn(currency, date) * scale);
+  };
+
+  // Sum records in the base currency
+  const sum = (records: Convertible[]) =>
+    records.reduce((total, r) => total + toBase(r.amount, r.currency, r.date), 0);
+
+  // Convert an expense and its splits together, so the splits still add up exactly
+  const convertExpense = <T extends Convertible & { splits: { userId: string; amount: number }[] }>(expense: T) => {
+    const amount = toBase(expense.amount, expense.currency, expense.date);
+    const splitTotal = expense.splits.reduce((total, s) => total + s.amount, 0);
+    const convertedSplitTotal = splitTotal === expense.amount
+      ? amount
+      : toBase(splitTotal, expense.currency, expense.date);
+    const splitAmounts = allocate(convertedSplitTotal, expense.splits.map(s => s.amount));
+
+    return {
+      ...expense,
+      amount,
+      splits: expense.splits.map((s, idx) => ({ ...s, amount: splitAmounts[idx] }))
+    };
+  };
+
+  return { baseCurrency, rateOn, toBase, sum, convertExpense };
+};
+
+export type CurrencyConverter = ReturnType<typeof buildConverter>;
+
+// Load a household's base currency and exchange rates
+export const getHouseholdConverter = async (
+  householdId: string,
+  client: Prisma.TransactionClient = prisma
+) => {
+  const [household, rates] = await Promise.all([
+    client.household.findUnique({ where: { id: householdId }, select: { baseCurrency: true } }),
+    client.exchangeRate.findMany({
+      where: { householdId },
+      select: { currency: true, rate: true, effectiveDate: true }
+    })
+  ]);
+
+  return buildConverter(household?.baseCurrency || DEFAULT_BASE_CURRENCY, rates);
+};
+
+// Validate the currency of a new or edited record. Anything other than the base
+// currency needs a rate on or before the record's date so it can be converted.
+export const resolveRecordCurrency = async (
+  householdId: string,
+  value: unknown,
+  date: Date
+): Promise<{ currency: string } | { error: string }> => {
+  const household = await prisma.household.findUnique({
+    where: { id: householdId },
+    select: { baseCurrency: true }
+  });
+  const baseCurrency = household?.baseCurrency || DEFAULT_BASE_CURRENCY;
+
+  if (value === undefined || value === null || value === '') {
+    return { currency: baseCurrency };
+  }
+
+  const currency = normalizeCurrency(value);
+  if (!currency) {
+    return { error: 'Currency must be a valid ISO 4217 code (e.g. MYR, USD)' };
+  }
+  if (currency === baseCurrency) {
+    return { currency };
+  }
+
+  const rate = await prisma.exchangeRate.findFirst({
+    where: { householdId, currency, effectiveDate: { lte: date } },
+    select: { id: true }
+  });
+  if (!rate) {
+    return { error: `No ${currency} exchange rate on or before ${date.toISOString().split('T')[0]}. Ask an admin to add one.` };
+  }
+
+  return { currency };
+};
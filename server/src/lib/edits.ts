@@ -0,0 +1,577 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { areHouseholdMembers, isHouseholdCategory } from './households';
+import { parseMinor, splitsError } from './money';
+import { resolveRecordCurrency } from './currency';
+import { expenseSnapshot, PAYMENT_FIELDS, RECURRING_FIELDS, recordAudit, snapshot, Snapshot } from './audit';
+import { firstOccurrence, nextOccurrence, resolveSchedule } from './recurrence';
+import { AuthRequest } from '../middleware/auth';
+import { describeAmount, notify } from './notifications';
+import { BILL_FIELDS, billSnapshot, BillValues, createItemsData, prepareBillEdit } from './splitBills';
+
+// Edits to expenses, payments and recurring expenses are checked and saved here, both
+// when a record is edited directly and when an admin approves a proposed edit.
+// An itemised split bill is edited as its expense, with its items and charges.
+
+export type EditableType = 'expense' | 'payment' | 'recurring';
+
+export const EDITABLE_TYPES: EditableType[] = ['expense', 'payment', 'recurring'];
+
+// Fields that can be changed on each type of record
+export const EDIT_FIELDS: Record<EditableType, string[]> = {
+  expense: ['description', 'amount', 'currency', 'date', 'categoryId', 'notes', 'userId', 'usage', 'splits', ...BILL_FIELDS],
+  payment: ['amount', 'currency', 'description', 'date', 'fromUserId', 'toUserId'],
+  recurring: [
+    'description', 'amount', 'currency', 'isVariableAmount', 'frequency', 'interval', 'rrule', 'startDate', 'endDate',
+    'totalOccurrences', 'categoryId', 'notes', 'isActive', 'splitEqually', 'splitType', 'splitConfig', 'userId'
+  ]
+};
+
+type Input = Record<string, any>;
+type Split = { memberId: string; amount: number };
+
+// A checked edit: the values to save, and the record before and after saving them
+export interface PreparedEdit {
+  data: Record<string, any>;
+  splits?: Split[];
+  bill?: { values: BillValues; totalAmount: number };   // A split bill's recalculated items and charges
+  before: Snapshot;
+  after: Snapshot;
+}
+
+type PrepareResult = { error: string } | PreparedEdit;
+
+// Fields left undefined are not changed
+const definedOnly = (data: Record<string, any>) =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+// Whether members may edit their own records without an admin's approval
+export const isSelfEditAllowed = async (householdId: string) => {
+  const setting = await prisma.settings.findUnique({
+    where: { householdId_key: { householdId, key: 'allowUserSelfEdit' } }
+  });
+  return setting?.value === 'true';
+};
+
+// An expense as it is loaded for editing, with its split bill if it has one
+export const EDITABLE_EXPENSE_INCLUDE = {
+  splits: true,
+  splitBill: { include: { items: { include: { shares: true }, orderBy: { createdAt: 'asc' as const } } } }
+};
+
+type EditableExpense = Prisma.ExpenseGetPayload<{ include: typeof EDITABLE_EXPENSE_INCLUDE }>;
+type EditablePayment = Prisma.PaymentGetPayload<{}>;
+type EditableRecurring = Prisma.RecurringExpenseGetPayload<{}>;
+
+// Payment fields the receiver confirmed, so changing one needs them to confirm again
+const PAYMENT_CONFIRMED_FIELDS = ['amount', 'currency', 'fromUserId', 'toUserId'] as const;
+
+export const prepareExpenseEdit = async (
+  householdId: string,
+  expense: EditableExpense,
+  input: Input,
+  receiptImage?: string
+): Promise<PrepareResult> => {
+  const { description, amount, currency, date, categoryId, notes, userId, usage, splits } = input;
+
+  // An itemised bill's amount and splits come from its items
+  if (expense.splitBill && (amount !== undefined || splits !== undefined)) {
+    return { error: 'This expense comes from an itemised split bill - edit the bill to change its amount or splits' };
+  }
+  const editsBill = BILL_FIELDS.some(field => input[field] !== undefined);
+  if (editsBill && !expense.splitBill) {
+    return { error: 'Only an itemised split bill has items and charges to edit' };
+  }
+
+  const data: Record<string, any> = {};
+
+  if (description !== undefined) data.description = description;
+  if (amount !== undefined) {
+    const parsedAmount = parseMinor(amount);
+    if (parsedAmount === null || parsedAmount <= 0) {
+      return { error: 'Amount must be a positive whole number of minor units' };
+    }
+    data.amount = parsedAmount;
+  }
+  if (usage !== undefined) data.usage = usage ? parseFloat(usage) : null;
+  if (date !== undefined) {
+    data.date = new Date(date);
+    if (isNaN(data.date.getTime())) {
+      return { error: 'Invalid date' };
+    }
+  }
+  if (categoryId !== undefined) {
+    if (!(await isHouseholdCategory(householdId, categoryId))) {
+      return { error: 'Category not found' };
+    }
+    data.categoryId = categoryId || null;
+  }
+  if (notes !== undefined) data.notes = notes;
+  if (userId !== undefined) data.userId = userId;
+
+  // Re-check the currency when it or the date changes (the rate depends on both)
+  if (currency !== undefined || date !== undefined) {
+    const resolved = await resolveRecordCurrency(
+      householdId,
+      currency !== undefined ? currency : expense.currency,
+      data.date || expense.date
+    );
+    if ('error' in resolved) {
+      return { error: resolved.error };
+    }
+    data.currency = resolved.currency;
+  }
+
+  if (receiptImage) data.receiptImage = receiptImage;
+
+  let parsedSplits: Split[] = [];
+  let bill: PreparedEdit['bill'];
+  if (expense.splitBill && editsBill) {
+    // The bill's total and everyone's share are recalculated from its items
+    const prepared = prepareBillEdit(expense.splitBill, input);
+    if ('error' in prepared) {
+      return { error: prepared.error };
+    }
+    bill = { values: prepared.values, totalAmount: prepared.calculated.total };
+    data.amount = prepared.calculated.total;
+    parsedSplits = prepared.calculated.splits.map(s => ({ memberId: s.userId, amount: s.amount }));
+  } else if (splits !== undefined) {
+    try {
+      parsedSplits = typeof splits === 'string' ? JSON.parse(splits) : splits;
+    } catch (e) {
+      console.error('Failed to parse splits:', e);
+    }
+  }
+  const replacesSplits = splits !== undefined || bill !== undefined;
+
+  // Splits have to add up to the amount, so changing the amount means sending new splits
+  const newAmount = data.amount ?? expense.amount;
+  if (!replacesSplits && newAmount !== expense.amount && expense.splits.length > 0) {
+    return { error: 'Send the splits again when changing the amount' };
+  }
+  const splitError = splitsError(newAmount, parsedSplits.map(s => s.amount));
+  if (splitError) {
+    return { error: splitError };
+  }
+
+  const involvedUserIds = [userId, ...parsedSplits.map(s => s.memberId)].filter(Boolean);
+  if (!(await areHouseholdMembers(householdId, involvedUserIds))) {
+    return { error: 'All users must be members of this household' };
+  }
+
+  return {
+    data,
+    splits: replacesSplits ? parsedSplits : undefined,
+    bill,
+    before: {
+      ...expenseSnapshot(expense),
+      ...(bill && billSnapshot(expense.splitBill!))
+    },
+    after: {
+      ...expenseSnapshot({
+        ...expense,
+        ...data,
+        splits: replacesSplits
+          ? parsedSplits.map(s => ({ userId: s.memberId, amount: Number(s.amount) }))
+          : expense.splits
+      }),
+      ...(bill && billSnapshot(bill.values))
+    }
+  };
+};
+
+export const applyExpenseEdit = async (
+  tx: Prisma.TransactionClient,
+  householdId: string,
+  expense: EditableExpense,
+  edit: PreparedEdit,
+  actorId: string,
+  reason?: string | null
+) => {
+  if (edit.splits !== undefined) {
+    // Delete existing splits and create new ones
+    await tx.expenseSplit.deleteMany({
+      where: { expenseId: expense.id }
+    });
+  }
+
+  const updated = await tx.expense.update({
+    where: { id: expense.id },
+    data: {
+      ...edit.data,
+      // Recreate splits if provided
+      splits: edit.splits && edit.splits.length > 0 ? {
+        create: edit.splits.map(s => ({
+          userId: s.memberId,
+          amount: Number(s.amount)
+        }))
+      } : undefined
+    },
+    include: {
+      user: {
+        select: { id: true, username: true, displayName: true, avatarUrl: true }
+      },
+      createdBy: {
+        select: { id: true, username: true, displayName: true }
+      },
+      category: {
+        select: { id: true, name: true, icon: true, color: true }
+      },
+      splits: true
+    }
+  });
+
+  // A split bill follows its expense, and is recalculated when its items or charges change
+  let savedBill = null;
+  if (expense.splitBill) {
+    if (edit.bill) {
+      await tx.splitBillItem.deleteMany({ where: { splitBillId: expense.splitBill.id } });
+    }
+    const bill = edit.bill;
+    savedBill = await tx.splitBill.update({
+      where: { id: expense.splitBill.id },
+      data: {
+        title: updated.description,
+        currency: updated.currency,
+        date: updated.date,
+        categoryId: updated.categoryId,
+        receiptImage: updated.receiptImage,
+        ...(edit.data.notes !== undefined && { notes: edit.data.notes || null }),
+        ...(bill && {
+          totalAmount: bill.totalAmount,
+          taxAmount: bill.values.taxAmount,
+          taxPercent: bill.values.taxPercent,
+          serviceCharge: bill.values.serviceCharge,
+          servicePercent: bill.values.servicePercent,
+          subtotalOverride: bill.values.subtotalOverride,
+          items: { create: createItemsData(bill.values.items) }
+        })
+      },
+      include: { items: { include: { shares: true } } }
+    });
+  }
+
+  await recordAudit({
+    householdId,
+    actorId,
+    entityType: 'expense',
+    entityId: expense.id,
+    entityLabel: updated.description,
+    action: 'update',
+    before: edit.before,
+    after: {
+      ...expenseSnapshot(updated),
+      ...(edit.bill && savedBill && billSnapshot(savedBill))
+    },
+    reason
+  }, tx);
+
+  return updated;
+};
+
+export const preparePaymentEdit = async (
+  householdId: string,
+  payment: EditablePayment,
+  input: Input
+): Promise<PrepareResult> => {
+  const { amount, currency, description, date, fromUserId, toUserId } = input;
+
+  const data: Record<string, any> = {};
+
+  if (description !== undefined) data.description = description || null;
+  if (amount !== undefined) {
+    const parsedAmount = parseMinor(amount);
+    if (parsedAmount === null || parsedAmount <= 0) {
+      return { error: 'Amount must be a positive whole number of minor units' };
+    }
+    data.amount = parsedAmount;
+  }
+  if (date !== undefined) {
+    data.date = new Date(date);
+    if (isNaN(data.date.getTime())) {
+      return { error: 'Invalid date' };
+    }
+  }
+  if (fromUserId) data.fromUserId = fromUserId;
+  if (toUserId) data.toUserId = toUserId;
+
+  if (fromUserId || toUserId) {
+    const from = data.fromUserId || payment.fromUserId;
+    const to = data.toUserId || payment.toUserId;
+    if (from === to) {
+      return { error: 'Cannot make payment to yourself' };
+    }
+    if (!(await areHouseholdMembers(householdId, [from, to]))) {
+      return { error: 'Both users must be members of this household' };
+    }
+  }
+
+  if (currency !== undefined || date !== undefined) {
+    const resolved = await resolveRecordCurrency(
+      householdId,
+      currency !== undefined ? currency : payment.currency,
+      data.date || payment.date
+    );
+    if ('error' in resolved) {
+      return { error: resolved.error };
+    }
+    data.currency = resolved.currency;
+  }
+
+  // A confirmed payment that now says something else about who paid whom, or how
+  // much, goes back to its receiver to confirm
+  const reconfirm = PAYMENT_CONFIRMED_FIELDS.some(field => field in data && data[field] !== payment[field]);
+  if (payment.status === 'confirmed' && reconfirm) {
+    data.status = 'pending';
+  }
+
+  return {
+    data,
+    before: snapshot(payment, PAYMENT_FIELDS),
+    after: snapshot({ ...payment, ...data }, PAYMENT_FIELDS)
+  };
+};
+
+type EditedPayment = Awaited<ReturnType<typeof applyPaymentEdit>>;
+
+// Ask the receiver to confirm a payment again once an edit has put it back to pending
+export const notifyPaymentEdit = async (
+  householdId: string,
+  payment: EditedPayment,
+  edit: PreparedEdit,
+  actorId: string
+) => {
+  if (edit.data.status !== 'pending') return;
+
+  await notify(householdId, [payment.toUserId], {
+    type: 'payment-pending',
+    title: 'Payment to confirm',
+    message: `${payment.fromUser.displayName}'s payment to you was changed to ${describeAmount(payment.amount, payment.currency)}. Please confirm you received it.`,
+    link: '/payments',
+    entityType: 'payment',
+    entityId: payment.id,
+    email: true
+  }, actorId);
+};
+
+export const applyPaymentEdit = async (
+  tx: Prisma.TransactionClient,
+  householdId: string,
+  payment: EditablePayment,
+  edit: PreparedEdit,
+  actorId: string,
+  reason?: string | null
+) => {
+  const updated = await tx.payment.update({
+    where: { id: payment.id },
+    data: edit.data,
+    include: {
+      fromUser: {
+        select: { id: true, username: true, displayName: true, avatarUrl: true }
+      },
+      toUser: {
+        select: { id: true, username: true, displayName: true, avatarUrl: true }
+      },
+      createdBy: {
+        select: { id: true, username: true, displayName: true }
+      }
+    }
+  });
+
+  await recordAudit({
+    householdId,
+    actorId,
+    entityType: 'payment',
+    entityId: payment.id,
+    entityLabel: updated.description || 'Payment',
+    action: 'update',
+    before: edit.before,
+    after: snapshot(updated, PAYMENT_FIELDS),
+    reason
+  }, tx);
+
+  return updated;
+};
+
+export const prepareRecurringEdit = async (
+  householdId: string,
+  existing: EditableRecurring,
+  input: Input
+): Promise<PrepareResult> => {
+  const { description, amount, currency, isVariableAmount, frequency, interval, rrule, startDate, endDate, totalOccurrences, categoryId, notes, isActive, splitEqually, splitType, splitConfig, userId } = input;
+
+  if (userId && !(await areHouseholdMembers(householdId, [userId]))) {
+    return { error: 'User must be a member of this household' };
+  }
+  if (!(await isHouseholdCategory(householdId, categoryId))) {
+    return { error: 'Category not found' };
+  }
+
+  const variable = isVariableAmount !== undefined ? isVariableAmount === true : existing.isVariableAmount;
+  const parsedAmount = amount !== undefined && amount !== '' ? parseMinor(amount) : undefined;
+  if (parsedAmount === null || (parsedAmount !== undefined && (parsedAmount < 0 || (!variable && parsedAmount === 0)))) {
+    return { error: 'Amount must be a positive whole number of minor units' };
+  }
+  if (!variable && parsedAmount === undefined && existing.amount === 0) {
+    return { error: 'Enter the amount for a fixed-amount recurring expense' };
+  }
+
+  const scheduleChanged = frequency !== undefined || interval !== undefined || rrule !== undefined;
+  const schedule = resolveSchedule({
+    frequency: frequency ?? existing.frequency,
+    interval: interval ?? existing.interval,
+    rrule: rrule !== undefined ? rrule : existing.rrule
+  });
+  if ('error' in schedule) {
+    return { error: schedule.error };
+  }
+
+  // If startDate changed, the schedule restarts from it. If only the rule changed,
+  // continue from the first new occurrence on or after the current due date.
+  let newNextDueDate: Date | null = existing.nextDueDate;
+  const newStartDate = startDate ? new Date(startDate) : existing.startDate;
+  if (isNaN(newStartDate.getTime())) {
+    return { error: 'Invalid start date' };
+  }
+  if (newStartDate.getTime() !== existing.startDate.getTime()) {
+    newNextDueDate = firstOccurrence(schedule.rule, newStartDate);
+  } else if (scheduleChanged) {
+    newNextDueDate = nextOccurrence(schedule.rule, newStartDate, new Date(existing.nextDueDate.getTime() - 1));
+  }
+  if (!newNextDueDate) {
+    return { error: 'This schedule has no further dates' };
+  }
+
+  let newCurrency: string | undefined;
+  if (currency !== undefined || startDate) {
+    const resolved = await resolveRecordCurrency(
+      householdId,
+      currency !== undefined ? currency : existing.currency,
+      newNextDueDate
+    );
+    if ('error' in resolved) {
+      return { error: resolved.error };
+    }
+    newCurrency = resolved.currency;
+  }
+
+  const data = definedOnly({
+    description,
+    amount: parsedAmount,
+    currency: newCurrency,
+    isVariableAmount: isVariableAmount !== undefined ? variable : undefined,
+    frequency: scheduleChanged ? schedule.frequency : undefined,
+    interval: scheduleChanged ? schedule.interval : undefined,
+    rrule: scheduleChanged ? schedule.rrule : undefined,
+    startDate: startDate ? newStartDate : undefined,
+    nextDueDate: newNextDueDate,
+    endDate: endDate ? new Date(endDate) : endDate === '' ? null : undefined,
+    totalOccurrences: totalOccurrences ? parseInt(totalOccurrences) : totalOccurrences === '' ? null : undefined,
+    categoryId: categoryId || categoryId === '' ? (categoryId || null) : undefined,
+    notes,
+    isActive: isActive !== undefined ? isActive : undefined,
+    splitEqually: splitEqually !== undefined ? splitEqually : undefined,
+    splitType: splitType || undefined,
+    splitConfig: splitConfig !== undefined ? (splitConfig ? JSON.stringify(splitConfig) : null) : undefined,
+    userId: userId || undefined
+  });
+
+  return {
+    data,
+    before: snapshot(existing, RECURRING_FIELDS),
+    after: snapshot({ ...existing, ...data }, RECURRING_FIELDS)
+  };
+};
+
+export const applyRecurringEdit = async (
+  tx: Prisma.TransactionClient,
+  householdId: string,
+  existing: EditableRecurring,
+  edit: PreparedEdit,
+  actorId: string,
+  reason?: string | null
+) => {
+  const updated = await tx.recurringExpense.update({
+    where: { id: existing.id },
+    data: edit.data,
+    include: {
+      user: {
+        select: { id: true, username: true, displayName: true }
+      }
+    }
+  });
+
+  await recordAudit({
+    householdId,
+    actorId,
+    entityType: 'recurring',
+    entityId: existing.id,
+    entityLabel: updated.description,
+    action: 'update',
+    before: edit.before,
+    after: snapshot(updated, RECURRING_FIELDS),
+    reason
+  }, tx);
+
+  return updated;
+};
+
+// The same steps for a record of any editable type, as used by change requests
+
+// An editable record of the household (null when it is missing or in the trash)
+export const findEditable = async (type: EditableType, householdId: string, id: string): Promise<any> => {
+  if (type === 'expense') {
+    return prisma.expense.findFirst({
+      where: { id, householdId, isDeleted: false },
+      include: EDITABLE_EXPENSE_INCLUDE
+    });
+  }
+  if (type === 'payment') {
+    return prisma.payment.findFirst({ where: { id, householdId, isDeleted: false } });
+  }
+  return prisma.recurringExpense.findFirst({ where: { id, householdId } });
+};
+
+// Who owns a record: whoever paid and whoever recorded it for them
+export const editableOwners = (type: EditableType, record: any): (string | null)[] => {
+  if (type === 'expense') return [record.userId, record.createdById];
+  if (type === 'payment') return [record.fromUserId, record.createdById];
+  return [record.userId];
+};
+
+// Owner lookup for authorize() on routes with the record's id in the path
+export const editableOwnersOf = (type: EditableType) => async (req: AuthRequest) => {
+  const record = await findEditable(type, req.user!.householdId, req.params.id);
+  return record ? editableOwners(type, record) : null;
+};
+
+export const prepareEdit = (type: EditableType, householdId: string, record: any, input: Input) => {
+  if (type === 'expense') return prepareExpenseEdit(householdId, record, input);
+  if (type === 'payment') return preparePaymentEdit(householdId, record, input);
+  return prepareRecurringEdit(householdId, record, input);
+};
+
+export const applyEdit = (
+  tx: Prisma.TransactionClient,
+  type: EditableType,
+  householdId: string,
+  record: any,
+  edit: PreparedEdit,
+  actorId: string,
+  reason?: string | null
+): Promise<unknown> => {
+  if (type === 'expense') return applyExpenseEdit(tx, householdId, record, edit, actorId, reason);
+  if (type === 'payment') return applyPaymentEdit(tx, householdId, record, edit, actorId, reason);
+  return applyRecurringEdit(tx, householdId, record, edit, actorId, reason);
+};
+
+// Notifications for an edit, sent once the transaction that applied it has committed
+export const notifyEdit = async (
+  type: EditableType,
+  householdId: string,
+  applied: unknown,
+  edit: PreparedEdit,
+  actorId: string
+) => {
+  if (type === 'payment') await notifyPaymentEdit(householdId, applied as EditedPayment, edit, actorId);
+};
@@ -0,0 +1,110 @@
+import { NextFunction, Response } from 'express';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { AuthRequest } from '../middleware/auth';
+
+// Live updates: clients keep a Server-Sent Events stream open per household and
+// refetch whatever a change event names. Events only say what changed, never the
+// data itself, so nothing leaks past the permission checks of the normal endpoints.
+export type EventTopic =
+  | 'expenses'
+  | 'payments'
+  | 'recurring'
+  | 'splitBills'
+  | 'categories'
+  | 'changeRequests'
+  | 'settings'
+  | 'exchangeRates'
+  | 'members'
+  | 'trash'
+  | 'notifications';
+
+export interface ChangeEvent {
+  topics: EventTopic[];
+  actorId: string | null;
+  at: string;
+}
+
+// EventSource can't send headers, so a stream is opened with a ticket in its URL
+// rather than the access token. A ticket only opens streams, for one household and
+// session, and expires quickly; it is signed with the refresh secret like a login
+// challenge, so it can never pass as an access token.
+const STREAM_TICKET_EXPIRES_IN: SignOptions['expiresIn'] = '30s';
+
+export interface StreamTicket {
+  userId: string;
+  sessionId: string;
+  householdId: string;
+}
+
+export const createStreamTicket = (ticket: StreamTicket) =>
+  jwt.sign({ id: ticket.userId, sid: ticket.sessionId, householdId: ticket.householdId, purpose: 'event-stream' },
+    process.env.JWT_REFRESH_SECRET!, { expiresIn: STREAM_TICKET_EXPIRES_IN });
+
+// What a stream ticket was issued for, or null if it is invalid or expired
+export const readStreamTicket = (value: unknown): StreamTicket | null => {
+  if (typeof value !== 'string') return null;
+  try {
+    const decoded = jwt.verify(value, process.env.JWT_REFRESH_SECRET!) as {
+      id: string;
+      sid: string;
+      householdId: string;
+      purpose?: string;
+    };
+    if (decoded.purpose !== 'event-stream') return null;
+    return { userId: decoded.id, sessionId: decoded.sid, householdId: decoded.householdId };
+  } catch (error) {
+    return null;
+  }
+};
+
+interface Subscriber {
+  userId: string;
+  res: Response;
+}
+
+const subscribers = new Map<string, Set<Subscriber>>();
+
+// Keep a client's stream open until it disconnects
+export const subscribe = (householdId: string, userId: string, res: Response) => {
+  const subscriber = { userId, res };
+  if (!subscribers.has(householdId)) subscribers.set(householdId, new Set());
+  subscribers.get(householdId)!.add(subscriber);
+
+  return () => {
+    const household = subscribers.get(householdId);
+    household?.delete(subscriber);
+    if (household?.size === 0) subscribers.delete(householdId);
+  };
+};
+
+// Send a change event to everyone connected to a household, or only to the given users
+export const publish = (
+  householdId: string,
+  topics: EventTopic[],
+  options: { actorId?: string | null; userIds?: string[] } = {}
+) => {
+  const household = subscribers.get(householdId);
+  if (!household || topics.length === 0) return;
+
+  const event: ChangeEvent = { topics, actorId: options.actorId || null, at: new Date().toISOString() };
+  const message = `event: change\ndata: ${JSON.stringify(event)}\n\n`;
+
+  for (const subscriber of household) {
+    if (options.userIds && !options.userIds.includes(subscriber.userId)) continue;
+    subscriber.res.write(message);
+  }
+};
+
+// Publish the given topics once a successful write to these routes has been sent.
+// Waiting for the response means the change is committed before clients refetch.
+export const broadcastChanges = (...topics: EventTopic[]) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (req.method !== 'GET') {
+      res.on('finish', () => {
+        if (res.statusCode < 300 && req.user?.householdId) {
+          publish(req.user.householdId, topics, { actorId: req.user.id });
+        }
+      });
+    }
+    next();
+  };
@@ -0,0 +1,284 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { getHouseholdLedger } from './ledger';
+import { recordAudit } from './audit';
+import { revokeAllSessions } from './sessions';
+import { Permission, Role, parseGrants, permissionsFor } from './permissions';
+
+// Categories every new household starts with
+export const DEFAULT_CATEGORIES = [
+  { name: 'Water', icon: '💧', color: '#06B6D4', isDefault: true },
+  { name: 'Electricity', icon: '⚡', color: '#EAB308', isDefault: true },
+];
+
+// Create a household with its default categories and the creator as owner
+export const createHousehold = async (name: string, ownerId: string) => {
+  return prisma.$transaction(async (tx) => {
+    const household = await tx.household.create({
+      data: {
+        name,
+        members: { create: { userId: ownerId, role: 'owner' } }
+      }
+    });
+
+    await tx.category.createMany({
+      data: DEFAULT_CATEGORIES.map(c => ({ ...c, householdId: household.id }))
+    });
+
+    return household;
+  });
+};
+
+// Households a user belongs to, in the order they joined
+export const getUserHouseholds = async (userId: string) => {
+  const memberships = await prisma.householdMember.findMany({
+    where: { userId },
+    include: { household: { select: { id: true, name: true, baseCurrency: true } } },
+    orderBy: { joinedAt: 'asc' }
+  });
+
+  return memberships.map(m => ({
+    id: m.household.id,
+    name: m.household.name,
+    baseCurrency: m.household.baseCurrency,
+    role: m.role,
+    permissions: permissionsFor(m.role, m.grants)
+  }));
+};
+
+// Check that every given user is a member of the household
+export const areHouseholdMembers = async (
+  householdId: string,
+  userIds: string[],
+  client: Prisma.TransactionClient = prisma
+) => {
+  const unique = [...new Set(userIds.filter(Boolean))];
+  if (unique.length === 0) return true;
+
+  const count = await client.householdMember.count({
+    where: { householdId, userId: { in: unique } }
+  });
+  return count === unique.length;
+};
+
+// Whether a household manages a member's account: it is the only household they
+// belong to. Someone who also belongs to another household keeps their password,
+// two-factor and account to themselves, so no single household can take them over.
+export const managesAccount = async (
+  householdId: string,
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+) => {
+  const elsewhere = await client.householdMember.count({
+    where: { userId, householdId: { not: householdId } }
+  });
+  return elsewhere === 0;
+};
+
+// Check that a member can be deleted: they exist, are not deleted already and
+// have nothing left to settle in this household
+export const checkMemberDeletable = async (householdId: string, userId: string) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, householdMembers: { some: { householdId } } }
+  });
+
+  if (!user) {
+    return { error: 'User not found' };
+  }
+
+  if (user.isDeleted) {
+    return { error: 'User is already deleted' };
+  }
+
+  // Block deletion while there's any outstanding balance (either way)
+  const ledger = await getHouseholdLedger(householdId);
+  if (!ledger.isSettled(userId)) {
+    return { error: 'Cannot delete user with outstanding balances. All debts must be settled first.' };
+  }
+
+  // Check for pending payments
+  const pendingPayments = await prisma.payment.count({
+    where: {
+      householdId,
+      isDeleted: false,
+      OR: [
+        { fromUserId: userId, status: 'pending' },
+        { toUserId: userId, status: 'pending' }
+      ]
+    }
+  });
+
+  if (pendingPayments > 0) {
+    return { error: 'Cannot delete user with pending payments. Please confirm or reject all pending payments first.' };
+  }
+
+  return { user };
+};
+
+// Remove a member from a household and lock the records they are part of there.
+// Their account is only deleted as well when this was the last household they
+// belonged to; their memberships and records elsewhere are left alone.
+export const deleteMemberAccount = async (
+  tx: Prisma.TransactionClient,
+  householdId: string,
+  user: { id: string; displayName: string },
+  actorId: string,
+  reason?: string | null
+) => {
+  const userId = user.id;
+
+  // Lock the household's expenses they paid or have a split in
+  await tx.expense.updateMany({
+    where: { householdId, OR: [{ userId }, { splits: { some: { userId } } }] },
+    data: { isLocked: true }
+  });
+
+  // Lock the household's payments involving this user
+  await tx.payment.updateMany({
+    where: { householdId, OR: [{ fromUserId: userId }, { toUserId: userId }] },
+    data: { isLocked: true }
+  });
+
+  // Their requests here can't be carried out any more; decided ones stay as history
+  await tx.changeRequest.updateMany({
+    where: { householdId, requestedById: userId, status: 'pending' },
+    data: { status: 'cancelled' }
+  });
+
+  // Delete their recurring expenses here (since they're for future, no need to keep)
+  await tx.recurringExpense.deleteMany({ where: { householdId, userId } });
+
+  // Split bill items are kept - saved bills are the breakdown of their (now locked) expenses
+
+  const deleteAccount = await managesAccount(householdId, userId, tx);
+
+  await tx.householdMember.delete({
+    where: { householdId_userId: { householdId, userId } }
+  });
+
+  if (deleteAccount) {
+    // Sign them out everywhere
+    await revokeAllSessions(userId, tx);
+
+    // Soft delete the user - mark as deleted but keep the record
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        isDeleted: true,
+        deletedAt: new Date(),
+        // Scramble credentials so they can't log in
+        password: 'DELETED',
+        email: `deleted_${userId}@deleted.local`,
+        username: `deleted_${userId}`
+      }
+    });
+  }
+
+  await recordAudit({
+    householdId,
+    actorId,
+    entityType: 'user',
+    entityId: userId,
+    entityLabel: user.displayName,
+    action: deleteAccount ? 'delete' : 'remove-member',
+    reason
+  }, tx);
+
+  return { accountDeleted: deleteAccount };
+};
+
+// Set the password of every active member whose account the household manages (see
+// managesAccount) to the given hash and sign them out. Members who also belong to
+// another household are left alone.
+export const resetHouseholdPasswords = async (
+  tx: Prisma.TransactionClient,
+  householdId: string,
+  passwordHash: string,
+  actorId: string,
+  reason?: string | null
+) => {
+  const users = await tx.user.findMany({
+    where: {
+      isDeleted: false,
+      householdMembers: { some: { householdId }, every: { householdId } }
+    },
+    select: { id: true, displayName: true }
+  });
+  const userIds = users.map(u => u.id);
+
+  // The shared password is known to whoever set it, so everyone picks their own at next login
+  const result = await tx.user.updateMany({
+    where: { id: { in: userIds } },
+    data: { password: passwordHash, mustChangePassword: true }
+  });
+
+  // End their sessions (force everyone to re-login)
+  await revokeAllSessions(userIds, tx);
+
+  for (const user of users) {
+    await recordAudit({
+      householdId,
+      actorId,
+      entityType: 'user',
+      entityId: user.id,
+      entityLabel: user.displayName,
+      action: 'reset-password',
+      reason: reason || 'Reset of all passwords'
+    }, tx);
+  }
+
+  return result.count;
+};
+
+// Change a member's role in a household, and their extra permissions when given
+export const setMemberRole = async (
+  tx: Prisma.TransactionClient,
+  householdId: string,
+  userId: string,
+  access: { role: Role; grants?: Permission[] },
+  actorId: string,
+  reason?: string | null
+) => {
+  const member = await tx.householdMember.findUnique({
+    where: { householdId_userId: { householdId, userId } }
+  });
+  if (!member) return null;
+
+  // Roles are given per household
+  const updated = await tx.householdMember.update({
+    where: { id: member.id },
+    data: {
+      role: access.role,
+      ...(access.grants ? { grants: JSON.stringify(access.grants) } : {})
+    },
+    include: { user: { select: { id: true, username: true, displayName: true } } }
+  });
+
+  await recordAudit({
+    householdId,
+    actorId,
+    entityType: 'user',
+    entityId: updated.userId,
+    entityLabel: updated.user.displayName,
+    action: 'update',
+    before: { role: member.role, grants: parseGrants(member.grants) },
+    after: { role: updated.role, grants: parseGrants(updated.grants) },
+    reason
+  }, tx);
+
+  return updated;
+};
+
+// Check that a category belongs to the household and isn't deleted (no category is fine too)
+export const isHouseholdCategory = async (
+  householdId: string,
+  categoryId: unknown,
+  client: Prisma.TransactionClient = prisma
+) => {
+  if (!categoryId) return true;
+
+  const count = await client.category.count({
+    where: { id: String(categoryId), householdId, isDeleted: false }
+  });
+  return count > 0;
+};
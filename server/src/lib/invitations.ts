@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import { addDays } from 'date-fns';
+import { Invitation, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { hashToken } from './authTokens';
+import { appUrl, isMailEnabled, sendMail } from './mail';
+import { recordAudit } from './audit';
+import { holdForApproval } from './approvals';
+import { setMemberRole } from './households';
+import { Role } from './permissions';
+
+// Invitations replace the old shared registration keys. Each one belongs to a household,
+// carries the role the new member gets, and can be limited to one email address. The code
+// in the link is shown once when it is created; only its hash is stored. Nobody joins a
+// household without using an invitation themselves: someone who already has an account
+// gets one addressed to that account, which they accept or decline after logging in.
+
+export const INVITATION_LIMITS = {
+  maxUses: 50,
+  expiresInDays: 30,
+  defaultExpiresInDays: 7,
+};
+
+export type InvitationStatus = 'active' | 'used' | 'expired' | 'revoked';
+
+export const invitationStatus = (
+  invitation: Pick<Invitation, 'revokedAt' | 'expiresAt' | 'useCount' | 'maxUses'>,
+  now = new Date()
+): InvitationStatus => {
+  if (invitation.revokedAt) return 'revoked';
+  if (invitation.useCount >= invitation.maxUses) return 'used';
+  if (invitation.expiresAt <= now) return 'expired';
+  return 'active';
+};
+
+// Link to the registration page with the code filled in, or null when APP_URL isn't set
+export const invitationLink = (code: string) => appUrl(`/register?invite=${encodeURIComponent(code)}`);
+
+interface InvitationInput {
+  role: Role;
+  email: string | null;
+  inviteeId?: string | null;
+  maxUses: number;
+  expiresInDays: number;
+}
+
+// Create an invitation. Returns it with its code, which can't be recovered later.
+export const createInvitation = async (householdId: string, createdById: string, input: InvitationInput) => {
+  const code = crypto.randomBytes(18).toString('base64url');
+
+  const invitation = await prisma.invitation.create({
+    data: {
+      tokenHash: hashToken(code),
+      role: input.role,
+      email: input.email,
+      inviteeId: input.inviteeId ?? null,
+      maxUses: input.maxUses,
+      expiresAt: addDays(new Date(), input.expiresInDays),
+      householdId,
+      createdById
+    }
+  });
+
+  return { invitation, code };
+};
+
+const sameEmail = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Look up an invitation someone wants to register or join with. Returns { error } when the
+// code is unknown or can no longer be used, or the email or account doesn't match its
+// restriction. userId is the account joining with it, left out for a new registration.
+export const checkInvitation = async (code: unknown, email?: string, userId?: string) => {
+  if (typeof code !== 'string' || !code.trim()) {
+    return { error: 'An invitation is required to register' };
+  }
+
+  const invitation = await prisma.invitation.findUnique({
+    where: { tokenHash: hashToken(code.trim()) },
+    include: {
+      household: { select: { id: true, name: true } },
+      createdBy: { select: { id: true, displayName: true } }
+    }
+  });
+
+  if (!invitation || invitationStatus(invitation) !== 'active') {
+    return { error: 'This invitation is invalid or has expired' };
+  }
+  if (email !== undefined && invitation.email && !sameEmail(invitation.email, email)) {
+    return { error: 'This invitation is for a different email address' };
+  }
+  if (invitation.inviteeId && invitation.inviteeId !== userId) {
+    return { error: 'This invitation is for a different account' };
+  }
+
+  return { invitation };
+};
+
+// Use up one of an invitation's uses for a new account. Only succeeds while the count
+// is what it was when the invitation was checked, so two registrations racing for
+// the last use can't both get it.
+export const claimInvitation = async (
+  tx: Prisma.TransactionClient,
+  invitation: Pick<Invitation, 'id' | 'useCount'>,
+  userId: string
+) => {
+  const now = new Date();
+  const claimed = await tx.invitation.updateMany({
+    where: {
+      id: invitation.id,
+      useCount: invitation.useCount,
+      revokedAt: null,
+      expiresAt: { gt: now }
+    },
+    data: { useCount: { increment: 1 } }
+  });
+  if (claimed.count === 0) return false;
+
+  await tx.invitationUse.create({ data: { invitationId: invitation.id, userId } });
+  return true;
+};
+
+type JoiningInvitation = Pick<Invitation, 'id' | 'useCount' | 'role' | 'householdId' | 'createdById'>;
+
+// Use up one of an invitation's uses and add the user to its household. An owner
+// invitation is a promotion by the inviter, so they join as a member first (see
+// promoteInvitedOwner). Returns false when the invitation was used up in the meantime.
+export const joinWithInvitation = async (
+  tx: Prisma.TransactionClient,
+  invitation: JoiningInvitation,
+  user: { id: string; displayName: string },
+  reason: string
+) => {
+  if (!(await claimInvitation(tx, invitation, user.id))) return false;
+
+  const role = invitation.role === 'owner' ? 'member' : invitation.role;
+  await tx.householdMember.create({
+    data: { householdId: invitation.householdId, userId: user.id, role }
+  });
+
+  await recordAudit({
+    householdId: invitation.householdId,
+    actorId: invitation.createdById,
+    entityType: 'user',
+    entityId: user.id,
+    entityLabel: user.displayName,
+    action: 'add-member',
+    after: { role },
+    reason
+  }, tx);
+
+  return true;
+};
+
+// Make someone who joined with an owner invitation an owner, once the approvals
+// making a member an owner needs are given. When the request can't be made they
+// stay a member, and the audit log says why.
+export const promoteInvitedOwner = async (invitation: JoiningInvitation, userId: string) => {
+  if (invitation.role !== 'owner') return;
+
+  const reason = 'Invited as an owner';
+  const held = await holdForApproval(invitation.householdId, invitation.createdById, {
+    action: 'promote-admin',
+    recordType: 'user',
+    recordId: userId,
+    reason
+  });
+  if (!held) {
+    await prisma.$transaction((tx) =>
+      setMemberRole(tx, invitation.householdId, userId, { role: 'owner' }, invitation.createdById, reason)
+    );
+  } else if ('error' in held) {
+    await recordAudit({
+      householdId: invitation.householdId,
+      actorId: invitation.createdById,
+      entityType: 'invitation',
+      entityId: invitation.id,
+      entityLabel: 'owner invitation',
+      action: 'promote-skipped',
+      after: { userId, role: 'member' },
+      reason: `Not made an owner: ${held.error}`
+    });
+  }
+};
+
+// Email the link to the address an invitation is for, or tell an existing account
+// it has an invitation waiting. Returns whether it was sent.
+export const sendInvitationEmail = async (
+  invitation: Pick<Invitation, 'email' | 'role' | 'expiresAt' | 'inviteeId'>,
+  code: string,
+  details: { householdName: string; inviterName: string }
+) => {
+  if (!invitation.email || !isMailEnabled()) return false;
+
+  const role = invitation.role === 'owner' ? 'an owner' : `a ${invitation.role}`;
+  const howToJoin = invitation.inviteeId
+    ? [`Log in before ${invitation.expiresAt.toDateString()} to accept or decline it.`, '', appUrl('/') || '']
+    : [`Create your account with this link before ${invitation.expiresAt.toDateString()}:`, '', invitationLink(code) || `Your invitation code: ${code}`];
+
+  return sendMail({
+    to: invitation.email,
+    subject: `${details.inviterName} invited you to ${details.householdName} on Rumah Money Mate`,
+    text: [
+      'Hi,',
+      '',
+      `${details.inviterName} invited you to join ${details.householdName} as ${role}.`,
+      ...howToJoin
+    ].join('\n')
+  });
+};
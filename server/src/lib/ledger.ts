@@ -0,0 +1,187 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { CurrencyConverter, getHouseholdConverter } from './currency';
+
+export interface LedgerExpense {
+  userId: string;
+  amount: number;
+  splits: { userId: string; amount: number }[];
+}
+
+export interface LedgerPayment {
+  fromUserId: string;
+  toUserId: string;
+  amount: number;
+}
+
+export interface PairBalance {
+  expenseOwed: number;    // What the first user owes the second from expense splits
+  expenseOwing: number;   // What the second user owes the first from expense splits
+  paid: number;           // Confirmed payments from the first user to the second
+  received: number;       // Confirmed payments from the second user to the first
+  balance: number;        // Net: positive = first user owes second, negative = second owes first
+}
+
+export interface UserTotals {
+  spent: number;          // Total of expenses this user paid for
+  share: number;          // This user's own share of all expenses
+  paymentsMade: number;
+  paymentsReceived: number;
+  net: number;            // Positive = owed money by others, negative = owes others
+}
+
+const emptyTotals = (): UserTotals => ({
+  spent: 0,
+  share: 0,
+  paymentsMade: 0,
+  paymentsReceived: 0,
+  net: 0
+});
+
+// Build the ledger for a set of expenses (with splits) and confirmed payments in a single pass.
+// All amounts are integer minor units, so balances are exact and "settled" means exactly zero.
+// A split on someone else's expense means the split user owes the payer that amount;
+// whatever part of an expense is not split out to others is the payer's own share.
+export const buildLedger = (expenses: LedgerExpense[], payments: LedgerPayment[]) => {
+  // owes[a][b] = gross amount a owes b from splits, paid[a][b] = confirmed payments a -> b
+  const owes = new Map<string, Map<string, number>>();
+  const paid = new Map<string, Map<string, number>>();
+  const totals = new Map<string, UserTotals>();
+
+  const add = (table: Map<string, Map<string, number>>, from: string, to: string, amount: number) => {
+    let row = table.get(from);
+    if (!row) {
+      row = new Map();
+      table.set(from, row);
+    }
+    row.set(to, (row.get(to) || 0) + amount);
+  };
+
+  const totalsFor = (userId: string) => {
+    let t = totals.get(userId);
+    if (!t) {
+      t = emptyTotals();
+      totals.set(userId, t);
+    }
+    return t;
+  };
+
+  for (const expense of expenses) {
+    const payer = totalsFor(expense.userId);
+    payer.spent += expense.amount;
+
+    let splitToOthers = 0;
+    for (const split of expense.splits) {
+      if (split.userId === expense.userId) continue;
+      add(owes, split.userId, expense.userId, split.amount);
+      totalsFor(split.userId).share += split.amount;
+      splitToOthers += split.amount;
+    }
+    payer.share += expense.amount - splitToOthers;
+  }
+
+  for (const payment of payments) {
+    if (payment.fromUserId === payment.toUserId) continue;
+    add(paid, payment.fromUserId, payment.toUserId, payment.amount);
+    totalsFor(payment.fromUserId).paymentsMade += payment.amount;
+    totalsFor(payment.toUserId).paymentsReceived += payment.amount;
+  }
+
+  for (const t of totals.values()) {
+    t.net = t.spent - t.share + t.paymentsMade - t.paymentsReceived;
+  }
+
+  const get = (table: Map<string, Map<string, number>>, from: string, to: string) =>
+    table.get(from)?.get(to) || 0;
+
+  // Balance between two users from the first user's point of view
+  const between = (userId: string, otherUserId: string): PairBalance => {
+    const expenseOwed = get(owes, userId, otherUserId);
+    const expenseOwing = get(owes, otherUserId, userId);
+    const paidToOther = get(paid, userId, otherUserId);
+    const receivedFromOther = get(paid, otherUserId, userId);
+
+    return {
+      expenseOwed,
+      expenseOwing,
+      paid: paidToOther,
+      received: receivedFromOther,
+      balance: expenseOwed - expenseOwing - paidToOther + receivedFromOther
+    };
+  };
+
+  // Everyone this user has ever had a split or payment with
+  const counterparties = (userId: string) => {
+    const ids = new Set<string>();
+    for (const table of [owes, paid]) {
+      for (const id of table.get(userId)?.keys() || []) ids.add(id);
+      for (const [from, row] of table) {
+        if (row.has(userId)) ids.add(from);
+      }
+    }
+    ids.delete(userId);
+    return [...ids];
+  };
+
+  const totalsOf = (userId: string): UserTotals => totals.get(userId) || emptyTotals();
+
+  // Sum of positive pairwise balances, i.e. everything this user still owes others
+  const totalDebt = (userId: string) =>
+    counterparties(userId).reduce((sum, otherId) => {
+      const { balance } = between(userId, otherId);
+      return balance > 0 ? sum + balance : sum;
+    }, 0);
+
+  // True when the user has no outstanding balance with anyone
+  const isSettled = (userId: string) =>
+    counterparties(userId).every(otherId => between(userId, otherId).balance === 0);
+
+  return { between, counterparties, totals: totalsOf, totalDebt, isSettled };
+};
+
+export type Ledger = ReturnType<typeof buildLedger>;
+
+type Dated<T> = T & { currency: string; date: Date };
+
+// Build the ledger from records in their own currencies, converting each to the
+// base currency with the rate on its date first
+export const buildConvertedLedger = (
+  expenses: Dated<LedgerExpense>[],
+  payments: Dated<LedgerPayment>[],
+  converter: CurrencyConverter
+) =>
+  buildLedger(
+    expenses.map(converter.convertExpense),
+    payments.map(p => ({ ...p, amount: converter.toBase(p.amount, p.currency, p.date) }))
+  );
+
+// Load a household's expenses and confirmed payments and build its ledger,
+// with every amount converted to the household's base currency.
+// With `before`, only records dated before it count (the ledger as it stood then).
+export const getHouseholdLedger = async (
+  householdId: string,
+  client: Prisma.TransactionClient = prisma,
+  before?: Date
+) => {
+  const dated = before ? { date: { lt: before } } : {};
+
+  const [expenses, payments, converter] = await Promise.all([
+    client.expense.findMany({
+      where: { householdId, isDeleted: false, isDraft: false, ...dated },
+      select: {
+        userId: true,
+        amount: true,
+        currency: true,
+        date: true,
+        splits: { select: { userId: true, amount: true } }
+      }
+    }),
+    client.payment.findMany({
+      where: { householdId, status: 'confirmed', isDeleted: false, ...dated },
+      select: { fromUserId: true, toUserId: true, amount: true, currency: true, date: true }
+    }),
+    getHouseholdConverter(householdId, client)
+  ]);
+
+  return buildConvertedLedger(expenses, payments, converter);
+};
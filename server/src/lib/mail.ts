@@ -0,0 +1,117 @@
+import nodemailer from 'nodemailer';
+
+// Outbound mail. Anything that sends email goes through sendMail, which hands the
+// message to whichever provider is configured:
+//   MAIL_PROVIDER=smtp     send through SMTP_HOST (the default when SMTP_HOST is set)
+//   MAIL_PROVIDER=console  write messages to the server log instead of sending them
+//   MAIL_PROVIDER=none     don't send email (the default without SMTP_HOST)
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailProvider {
+  name: string;
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
+
+const DEFAULT_FROM = 'Rumah Money Mate <no-reply@localhost>';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;    // TLS from the start (port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  pass?: string;
+}
+
+// Send through an SMTP server. A local catcher such as MailHog (port 1025) needs no login.
+export const createSmtpProvider = (options: SmtpOptions): MailProvider => {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass || '' } : undefined
+  });
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transport.sendMail(message);
+    }
+  };
+};
+
+// Log messages instead of sending them, for development without a mail server
+export const consoleProvider: MailProvider = {
+  name: 'console',
+  send: async (message) => {
+    console.log(`✉️ Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+};
+
+const providerFromEnv = (): MailProvider | null => {
+  const kind = process.env.MAIL_PROVIDER || (process.env.SMTP_HOST ? 'smtp' : 'none');
+
+  switch (kind) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) {
+        console.warn('MAIL_PROVIDER is smtp but SMTP_HOST is not set; email is disabled');
+        return null;
+      }
+      const port = Number(process.env.SMTP_PORT) || 587;
+      return createSmtpProvider({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined
+      });
+    }
+    case 'console':
+      return consoleProvider;
+    case 'none':
+      return null;
+    default:
+      console.warn(`Unknown MAIL_PROVIDER "${kind}"; email is disabled`);
+      return null;
+  }
+};
+
+// Read from the environment on first use, after dotenv has loaded it
+let provider: MailProvider | null | undefined;
+
+export const getMailProvider = () => {
+  if (provider === undefined) provider = providerFromEnv();
+  return provider;
+};
+
+// Replace the configured provider (null turns email off)
+export const setMailProvider = (next: MailProvider | null) => {
+  provider = next;
+};
+
+export const isMailEnabled = () => getMailProvider() !== null;
+
+// Full URL of a client path for links in emails, when APP_URL is set
+export const appUrl = (path: string) => {
+  const base = process.env.APP_URL?.replace(/\/+$/, '');
+  return base ? `${base}${path}` : null;
+};
+
+// Send a message. Returns whether it was handed to the provider; failures are logged
+// rather than thrown so an email never breaks the action it is about.
+export const sendMail = async (message: MailMessage) => {
+  const current = getMailProvider();
+  if (!current) return false;
+
+  try {
+    await current.send({ from: process.env.MAIL_FROM || DEFAULT_FROM, ...message });
+    return true;
+  } catch (error) {
+    console.error('Send mail error:', error);
+    return false;
+  }
+};
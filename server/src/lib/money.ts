@@ -0,0 +1,104 @@
+// All money is stored and exchanged as integer minor units (e.g. sen/cents),
+// so sums and splits are exact and never need rounding after the fact.
+// Each amount is in the minor units of its own currency.
+
+// ISO 4217 minor unit exponents (digits after the decimal point) for the currencies
+// that don't use hundredths, e.g. JPY 1200 is ¥1,200 and KWD 1250 is 1.250 dinars
+const MINOR_DIGITS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4
+};
+
+// Digits after the decimal point for a currency (2 unless it's listed above)
+export const minorDigits = (currency: string): number => MINOR_DIGITS[currency.toUpperCase()] ?? 2;
+
+// Minor units in one major unit of a currency (100 for MYR, 1 for JPY, 1000 for KWD)
+export const minorUnitsPerMajor = (currency: string): number => 10 ** minorDigits(currency);
+
+// Parse an amount in minor units from a request body/query value.
+// Returns null unless the value is a whole number.
+export const parseMinor = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isSafeInteger(parsed) ? parsed : null;
+};
+
+// Convert a decimal major-unit value ("12.50") to minor units of a currency without float drift.
+// Used where humans type amounts (CSV files, legacy backups). Returns null if not a number.
+export const toMinor = (value: unknown, currency: string): number | null => {
+  const match = /^\s*(-?)(\d*)(?:\.(\d*))?\s*$/.exec(String(value ?? ''));
+  if (!match || (!match[2] && !match[3])) return null;
+
+  const [, sign, whole, fraction = ''] = match;
+  const places = minorDigits(currency);
+  const digits = fraction.padEnd(places + 1, '0');
+  let minor = parseInt(whole || '0', 10) * minorUnitsPerMajor(currency) + parseInt(digits.slice(0, places) || '0', 10);
+  // Round half away from zero on the first decimal the currency doesn't have
+  if (parseInt(digits[places], 10) >= 5) minor += 1;
+
+  return sign ? -minor : minor;
+};
+
+// Format minor units of a currency as a plain decimal string (MYR 1250 -> "12.50", JPY 1250 -> "1250")
+export const formatMinor = (amount: number, currency: string): string => {
+  const sign = amount < 0 ? '-' : '';
+  const abs = Math.abs(amount);
+  const places = minorDigits(currency);
+  if (places === 0) return `${sign}${abs}`;
+
+  const whole = Math.floor(abs / minorUnitsPerMajor(currency));
+  const fraction = String(abs % minorUnitsPerMajor(currency)).padStart(places, '0');
+  return `${sign}${whole}.${fraction}`;
+};
+
+// Check the splits of a total: every part a non-negative whole number of minor units,
+// together adding up to the total exactly. Returns what is wrong, or null when they're fine.
+export const splitsError = (total: number, amounts: unknown[]): string | null => {
+  const parsed = amounts.map(parseMinor);
+  if (parsed.some(amount => amount === null || amount < 0)) {
+    return 'Split amounts must be non-negative whole numbers of minor units';
+  }
+  if (parsed.length > 0 && parsed.reduce((sum: number, amount) => sum + amount!, 0) !== total) {
+    return 'Split amounts must add up to the amount';
+  }
+  return null;
+};
+
+// Split a total across weights using the largest remainder method.
+// Every part is a whole number of minor units and the parts always sum to the total.
+// Leftover units go to the largest fractional remainders; ties go to the earlier entry,
+// so the same input always gives the same result.
+export const allocate = (total: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  if (weights.length === 0) return [];
+  if (weightSum <= 0) return allocateEvenly(total, weights.length);
+
+  const sign = total < 0 ? -1 : 1;
+  const abs = Math.abs(total);
+
+  const exact = weights.map(w => (abs * Math.max(0, w)) / weightSum);
+  const parts = exact.map(Math.floor);
+  let leftover = abs - parts.reduce((sum, p) => sum + p, 0);
+
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0; i = (i + 1) % order.length, leftover--) {
+    parts[order[i].index] += 1;
+  }
+
+  return parts.map(p => p * sign);
+};
+
+// Split a total evenly between count people (earlier entries absorb the remainder)
+export const allocateEvenly = (total: number, count: number): number[] =>
+  count > 0 ? allocate(total, new Array(count).fill(1)) : [];
+
+// A percentage of an amount, rounded half away from zero to whole minor units
+export const percentOf = (amount: number, percent: number): number => {
+  const value = (amount * percent) / 100;
+  return Math.sign(value) * Math.round(Math.abs(value));
+};
@@ -0,0 +1,153 @@
+import { prisma } from '../index';
+import { formatMinor } from './money';
+import { publish } from './events';
+import { appUrl, isMailEnabled, sendMail } from './mail';
+
+// What a member can be notified about, with the description shown in their preferences
+export const NOTIFICATION_TYPES = {
+  'payment-pending': 'A payment to you is waiting for your confirmation',
+  'payment-received': 'Someone recorded a payment to you',
+  'payment-recorded': 'Someone recorded a payment on your behalf',
+  'payment-status': 'A payment you made was confirmed or rejected',
+  'payment-reminder': 'A reminder about money you still owe',
+  'expense-split': 'You were included in the split of a new expense',
+  'recurring-generated': 'A recurring bill was generated with your share',
+  'change-request': 'A change request is waiting for your review',
+  'change-request-decided': 'A change request you made was approved or rejected',
+} as const;
+
+export type NotificationType = keyof typeof NOTIFICATION_TYPES;
+
+// What a member can be emailed about. Members can turn each one off; the monthly
+// statement is email only.
+export const EMAIL_TYPES = {
+  'payment-pending': 'A payment to you is waiting for your confirmation',
+  'payment-status': 'A payment you made was confirmed',
+  'payment-reminder': 'A reminder about money you still owe',
+  'recurring-generated': 'A recurring bill was generated with your share',
+  'monthly-statement': 'A monthly statement of your splits, payments and balance',
+} as const;
+
+export type EmailType = keyof typeof EMAIL_TYPES;
+
+// Members of a list who haven't turned email off for a type
+export const emailRecipients = async (userIds: string[], type: EmailType) => {
+  const muted = await prisma.notificationPreference.findMany({
+    where: { userId: { in: userIds }, type, email: false },
+    select: { userId: true }
+  });
+  const mutedIds = new Set(muted.map(m => m.userId));
+
+  // Only verified addresses get email, so nothing is sent to a mistyped one
+  return prisma.user.findMany({
+    where: { id: { in: userIds.filter(id => !mutedIds.has(id)) }, isDeleted: false, emailVerifiedAt: { not: null } },
+    select: { id: true, email: true, displayName: true }
+  });
+};
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string | ((userId: string) => string);  // A function gives each recipient their own message
+  link?: string;
+  entityType?: string;
+  entityId?: string;
+  email?: boolean;  // Also email it (the type must be one of EMAIL_TYPES)
+}
+
+// Email a notification to whoever hasn't turned email off for its type. Sending
+// happens in the background so a slow mail server doesn't hold up the request.
+const emailNotification = async (userIds: string[], input: NotificationInput) => {
+  if (!isMailEnabled() || !(input.type in EMAIL_TYPES)) return;
+
+  const users = await emailRecipients(userIds, input.type as EmailType);
+  const link = input.link ? appUrl(input.link) : null;
+
+  for (const user of users) {
+    const message = typeof input.message === 'function' ? input.message(user.id) : input.message;
+    void sendMail({
+      to: user.email,
+      subject: input.title,
+      text: `Hi ${user.displayName},\n\n${message}${link ? `\n\n${link}` : ''}\n\nYou can turn these emails off in your profile.`
+    });
+  }
+};
+
+// Amount with its currency code, e.g. "MYR 12.50"
+export const describeAmount = (amount: number, currency: string) => `${currency} ${formatMinor(amount, currency)}`;
+
+// Notify members of a household, leaving out whoever caused it and anyone who has
+// turned the type off. Failures are logged rather than thrown so a notification
+// never breaks the action it is about.
+export const notify = async (
+  householdId: string,
+  userIds: string[],
+  input: NotificationInput,
+  actorId?: string | null
+) => {
+  try {
+    const recipients = [...new Set(userIds)].filter(id => id && id !== actorId);
+    if (recipients.length === 0) return;
+
+    const muted = await prisma.notificationPreference.findMany({
+      where: { userId: { in: recipients }, type: input.type, enabled: false },
+      select: { userId: true }
+    });
+    const mutedIds = new Set(muted.map(m => m.userId));
+
+    const data = recipients
+      .filter(userId => !mutedIds.has(userId))
+      .map(userId => ({
+        type: input.type,
+        title: input.title,
+        message: typeof input.message === 'function' ? input.message(userId) : input.message,
+        link: input.link || null,
+        entityType: input.entityType || null,
+        entityId: input.entityId || null,
+        userId,
+        householdId
+      }));
+
+    if (data.length > 0) {
+      await prisma.notification.createMany({ data });
+      publish(householdId, ['notifications'], { userIds: data.map(n => n.userId) });
+    }
+
+    // Email preferences are separate from the bell, so muting one doesn't mute the other
+    if (input.email) {
+      await emailNotification(recipients, input);
+    }
+  } catch (error) {
+    console.error('Notify error:', error);
+  }
+};
+
+// Tell the members an expense was split between what their share is. A draft's
+// amount isn't known yet, so it only says the bill is waiting for it.
+export const notifyExpenseShares = (
+  householdId: string,
+  expense: {
+    id: string;
+    description: string;
+    currency: string;
+    userId: string;
+    isDraft?: boolean;
+    splits: { userId: string; amount: number }[];
+  },
+  type: 'expense-split' | 'recurring-generated',
+  actorId?: string | null
+) => {
+  const shares = new Map(expense.splits.map(s => [s.userId, s.amount]));
+
+  return notify(householdId, expense.splits.map(s => s.userId).filter(id => id !== expense.userId), {
+    type,
+    title: type === 'recurring-generated' ? 'Recurring bill generated' : 'New shared expense',
+    message: (userId) => expense.isDraft
+      ? `${expense.description} is waiting for its amount before your share is known`
+      : `${expense.description}: your share is ${describeAmount(shares.get(userId) || 0, expense.currency)}`,
+    link: '/expenses',
+    entityType: 'expense',
+    entityId: expense.id,
+    email: type === 'recurring-generated'
+  }, actorId);
+};
@@ -0,0 +1,207 @@
+import path from 'path';
+import fs from 'fs/promises';
+import pdfParse from 'pdf-parse';
+import { createWorker, Worker } from 'tesseract.js';
+import { prisma } from '../index';
+import { minorDigits, toMinor } from './money';
+
+// Receipt OCR runs entirely on this machine: the Tesseract engine ships with
+// tesseract.js and the English model with @tesseract.js-data/eng, so nothing
+// is downloaded at runtime. PDFs are read from their text layer.
+
+export interface ReceiptItem {
+  description: string;
+  amount: number;     // Unit price in minor units
+  quantity: number;
+}
+
+export interface ParsedReceipt {
+  merchant: string | null;
+  date: Date | null;
+  total: number | null;
+  taxAmount: number | null;
+  serviceCharge: number | null;
+  items: ReceiptItem[];
+}
+
+const LANG_PATH = path.join(path.dirname(require.resolve('@tesseract.js-data/eng/package.json')), '4.0.0');
+
+// One worker is started on first use and reused; it runs jobs one at a time
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = () => {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', 1, {
+      langPath: LANG_PATH,
+      gzip: true,
+      cacheMethod: 'none'
+    }).catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+// Extract the text of an image or PDF receipt
+export const recognizeReceipt = async (filePath: string, mimeType: string) => {
+  if (mimeType === 'application/pdf') {
+    const { text } = await pdfParse(await fs.readFile(filePath));
+    if (!text.trim()) {
+      throw new Error('This PDF has no text layer - upload a photo of the receipt instead');
+    }
+    return { text, confidence: null };
+  }
+
+  const worker = await getWorker();
+  const { data } = await worker.recognize(filePath);
+  return { text: data.text, confidence: data.confidence };
+};
+
+// Amounts on a receipt line: 1,234.50 / 12.50 / RM12.50, with as many decimals as the
+// receipt's currency has (none for JPY, so 1,200 / 1200)
+const amountPattern = (currency: string) => {
+  const places = minorDigits(currency);
+  const fraction = places > 0 ? `\\.\\d{${places}}` : '';
+  return new RegExp(`-?(?:RM\\s?)?\\d{1,3}(?:,\\d{3})*${fraction}\\b|-?(?:RM\\s?)?\\d+${fraction}\\b`, 'gi');
+};
+
+const lineAmounts = (line: string, currency: string) =>
+  (line.match(amountPattern(currency)) || [])
+    .map(match => toMinor(match.replace(/RM\s?/i, '').replace(/,/g, ''), currency))
+    .filter((amount): amount is number => amount !== null);
+
+const lastAmount = (line: string, currency: string) => {
+  const amounts = lineAmounts(line, currency);
+  return amounts.length > 0 ? amounts[amounts.length - 1] : null;
+};
+
+const SUBTOTAL = /sub\s*-?\s*total/i;
+const TOTAL = /\b(grand\s*total|total|amount\s*due|net\s*amount|jumlah)\b/i;
+const SERVICE = /service\s*charge|\bsvc\b|\bs\/c\b|caj\s*perkhidmatan/i;
+const TAX = /\b(sst|gst|tax|cukai)\b/i;
+// Words that mark a line as something other than an item
+const NOT_ITEM = /\b(total|sst|gst|tax|cukai|service|svc|rounding|round|cash|change|tendered|card|visa|master|debit|credit|balance|paid|payment|qty|price|amount)\b/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const buildDate = (year: number, month: number, day: number) => {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+};
+
+// Receipts here are day-first (31/01/2026); ISO dates are also recognised
+const findDate = (text: string): Date | null => {
+  const iso = /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/.exec(text);
+  if (iso) {
+    const date = buildDate(+iso[1], +iso[2], +iso[3]);
+    if (date) return date;
+  }
+
+  const dayFirst = /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})\b/.exec(text);
+  if (dayFirst) {
+    const date = buildDate(+dayFirst[3], +dayFirst[2], +dayFirst[1]);
+    if (date) return date;
+  }
+
+  const named = /\b(\d{1,2})[\s-]*(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*[\s-,]*(\d{2,4})\b/i.exec(text);
+  if (named) {
+    return buildDate(+named[3], MONTHS.indexOf(named[2].toLowerCase()) + 1, +named[1]);
+  }
+
+  return null;
+};
+
+// Read one item line: "2 x Nasi Lemak 12.00", "Nasi Lemak 2 @ 6.00 12.00" or "Teh Tarik 3.50"
+const parseItemLine = (line: string, currency: string): ReceiptItem | null => {
+  const amounts = lineAmounts(line, currency);
+  if (amounts.length === 0 || !/[a-z]{2,}/i.test(line)) return null;
+
+  const lineTotal = amounts[amounts.length - 1];
+  if (lineTotal <= 0) return null;
+
+  const description = line
+    .replace(amountPattern(currency), '')
+    .replace(/^\s*\d+\s*[x@]\s*/i, '')
+    .replace(/\s+\d+\s*[x@]\s*$/i, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+  if (!description) return null;
+
+  const quantityMatch = /^\s*(\d+)\s*[x@]\s/i.exec(line) || /\s(\d+)\s*[x@]\s*(?:RM\s?)?\d/i.exec(line);
+  const quantity = quantityMatch ? parseInt(quantityMatch[1], 10) : 1;
+
+  // Keep the quantity only when the line total divides evenly into unit prices
+  if (quantity > 1 && lineTotal % quantity === 0) {
+    return { description, amount: lineTotal / quantity, quantity };
+  }
+  return { description, amount: lineTotal, quantity: 1 };
+};
+
+// Pick merchant, date, totals and line items out of recognised receipt text.
+// OCR output is noisy, so every field is a best guess for the user to confirm.
+// Amounts are read in the minor units of the given currency.
+export const parseReceiptText = (text: string, currency: string): ParsedReceipt => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+  const merchant = lines.find(line =>
+    (line.match(/[a-z]/gi) || []).length >= 3 && !/receipt|invoice|resit/i.test(line)
+  ) || null;
+
+  let total: number | null = null;
+  let subtotal: number | null = null;
+  let taxAmount: number | null = null;
+  let serviceCharge: number | null = null;
+  let itemsEnd = lines.length;
+
+  for (const [index, line] of lines.entries()) {
+    const amount = lastAmount(line, currency);
+    if (amount === null) continue;
+
+    // Items stop at the first summary line (an SST registration number in the header has no amount)
+    const isSummary = SUBTOTAL.test(line) || TOTAL.test(line) || SERVICE.test(line) || TAX.test(line);
+    if (isSummary && index < itemsEnd) itemsEnd = index;
+
+    if (SUBTOTAL.test(line)) {
+      subtotal = amount;
+    } else if (SERVICE.test(line)) {
+      serviceCharge = amount;
+    } else if (TAX.test(line) && !TOTAL.test(line)) {
+      taxAmount = amount;
+    } else if (TOTAL.test(line) && (total === null || /grand/i.test(line))) {
+      total = amount;
+    }
+  }
+
+  const items = lines
+    .slice(0, itemsEnd)
+    .filter(line => line !== merchant && !NOT_ITEM.test(line) && !findDate(line))
+    .map(line => parseItemLine(line, currency))
+    .filter((item): item is ReceiptItem => item !== null);
+
+  // Without a total line, fall back to what the parts add up to
+  if (total === null && subtotal !== null) {
+    total = subtotal + (taxAmount || 0) + (serviceCharge || 0);
+  }
+
+  return { merchant, date: findDate(text), total, taxAmount, serviceCharge, items };
+};
+
+// Run OCR on an uploaded receipt in the given currency and parse the result
+export const readReceipt = async (filePath: string, mimeType: string, currency: string) => {
+  const { text, confidence } = await recognizeReceipt(filePath, mimeType);
+  return { text, confidence, ...parseReceiptText(text, currency) };
+};
+
+// An OCR draft of the active household that hasn't been confirmed into a record yet
+export const loadOcrDraft = async (householdId: string, id: string) => {
+  const draft = await prisma.ocrDraft.findFirst({ where: { id, householdId } });
+  if (!draft) {
+    return { error: 'OCR draft not found' };
+  }
+  if (draft.usedAt) {
+    return { error: 'This OCR draft has already been used' };
+  }
+  return { draft };
+};
@@ -0,0 +1,103 @@
+// What members of a household may do. Each member has one built-in role, which comes
+// with a set of permissions, and can be granted extra permissions on top of it.
+// Permissions ending in .own cover records the member owns (paid for, recorded or
+// created); the matching .any permission covers everyone's.
+
+export const ROLES = ['owner', 'treasurer', 'member', 'viewer'] as const;
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = {
+  'expense.create': 'Add expenses, split bills and receipt scans',
+  'expense.edit.own': 'Change and delete their own expenses',
+  'expense.edit.any': "Change and delete anyone's expenses",
+  'payment.create': 'Record payments and apply settlement plans',
+  'payment.edit.own': 'Change and delete their own payments',
+  'payment.edit.any': "Change and delete anyone's payments, and settle up for everyone",
+  'payment.confirm.own': 'Confirm or reject payments made to them',
+  'payment.confirm.any': 'Confirm or reject any payment',
+  'recurring.create': 'Set up recurring expenses',
+  'recurring.edit.own': 'Change, pause and resume their own recurring expenses',
+  'recurring.edit.any': "Change, pause, resume and delete anyone's recurring expenses, and process ahead",
+  'changeRequest.review': 'Review change requests and approve actions decided by a number of approvals',
+  'category.write': 'Manage categories',
+  'exchangeRate.write': 'Manage exchange rates',
+  'trash.manage': 'Restore and permanently delete records in the trash',
+  'data.import': 'Import expenses and payments',
+  'audit.read': 'Read the full audit log',
+  'reports.read': 'See household-wide reports: debt ageing and recurring runs',
+  'statements.send': 'Send monthly statements and due payment reminders now',
+  'members.manage': 'Invite, add and remove members, reset their passwords and two-factor, and delete accounts',
+  'roles.manage': "Change members' roles and permissions",
+  'security.manage': "Review the security log and unlock members' accounts",
+  'settings.write': "Change the household's settings, name and base currency",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+// Permissions that come in .own and .any variants, e.g. 'expense.edit'
+export type OwnablePermission = {
+  [P in Permission]: P extends `${infer Base}.own` ? Base : never
+}[Permission];
+
+const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  'expense.create', 'expense.edit.own',
+  'payment.create', 'payment.edit.own', 'payment.confirm.own',
+  'recurring.create', 'recurring.edit.own',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  treasurer: [
+    ...MEMBER_PERMISSIONS,
+    'expense.edit.any', 'payment.edit.any', 'payment.confirm.any', 'recurring.edit.any',
+    'changeRequest.review', 'category.write', 'exchangeRate.write', 'trash.manage',
+    'data.import', 'audit.read', 'reports.read', 'statements.send',
+  ],
+  member: MEMBER_PERMISSIONS,
+  viewer: [],
+};
+
+// Roles a household's two-factor requirement applies to (requireAdminTwoFactor)
+export const ADMIN_ROLES: Role[] = ['owner', 'treasurer'];
+
+// Permissions only owners have. Granting one gives a member control over the household's
+// members, roles, settings or security, so it needs the approvals for making an owner.
+export const OWNER_PERMISSIONS: Permission[] = ['members.manage', 'roles.manage', 'security.manage', 'settings.write'];
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === 'string' && value in PERMISSIONS;
+
+// Extra permissions as stored on a membership (a JSON array); unknown entries are dropped
+export const parseGrants = (value: string | null | undefined): Permission[] => {
+  try {
+    const grants = JSON.parse(value || '[]');
+    return Array.isArray(grants) ? grants.filter(isPermission) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+// Everything a member with this role and these grants may do
+export const permissionsFor = (role: string, grants: string | Permission[] = []): Permission[] => {
+  const extra = typeof grants === 'string' ? parseGrants(grants) : grants;
+  const base = isRole(role) ? ROLE_PERMISSIONS[role] : [];
+  return ALL_PERMISSIONS.filter(permission => base.includes(permission) || extra.includes(permission));
+};
+
+interface Actor {
+  id: string;
+  permissions: Permission[];
+}
+
+export const hasPermission = (user: Actor | undefined, permission: Permission) =>
+  !!user?.permissions.includes(permission);
+
+// Whether a member may act on a record: with the .any permission on every record, with
+// the .own one only on records whose owners include them
+export const canActOn = (user: Actor | undefined, permission: OwnablePermission, ownerIds: (string | null)[]) =>
+  hasPermission(user, `${permission}.any` as Permission) ||
+  (hasPermission(user, `${permission}.own` as Permission) && ownerIds.includes(user!.id));
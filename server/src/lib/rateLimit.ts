@@ -0,0 +1,82 @@
+import { Request } from 'express';
+
+// Request counters for rate limiting the authentication endpoints. The default store
+// keeps them in memory, which suits the single server process this app runs as and
+// forgets them on restart. Anything implementing RateLimitStore (for example a table
+// in the SQLite database, to share counts between processes) can replace it with
+// setRateLimitStore.
+
+export interface RateLimitHit {
+  count: number;  // Hits in the current window, including this one
+  resetAt: Date;  // When the window ends
+}
+
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+// Finished windows are dropped once this many keys are held, so the map can't grow without bound
+const MEMORY_STORE_PRUNE_SIZE = 10000;
+
+export const createMemoryStore = (): RateLimitStore => {
+  const windows = new Map<string, RateLimitHit>();
+
+  const prune = (now: number) => {
+    for (const [key, window] of windows) {
+      if (window.resetAt.getTime() <= now) windows.delete(key);
+    }
+  };
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      let window = windows.get(key);
+
+      if (!window || window.resetAt.getTime() <= now) {
+        if (windows.size >= MEMORY_STORE_PRUNE_SIZE) prune(now);
+        window = { count: 0, resetAt: new Date(now + windowMs) };
+        windows.set(key, window);
+      }
+
+      window.count += 1;
+      return { ...window };
+    },
+
+    async reset(key) {
+      windows.delete(key);
+    }
+  };
+};
+
+let store = createMemoryStore();
+
+export const getRateLimitStore = () => store;
+
+export const setRateLimitStore = (next: RateLimitStore) => {
+  store = next;
+};
+
+export interface RateLimitRule {
+  name: string;             // Names the counter and shows in the security log
+  per: 'ip' | 'account';    // Count per client address, or per username / email tried
+  windowMinutes: number;
+  max: number;              // Requests allowed per window
+}
+
+export const RATE_LIMITS: Record<string, RateLimitRule> = {
+  loginPerIp: { name: 'login', per: 'ip', windowMinutes: 15, max: 20 },
+  loginPerAccount: { name: 'login', per: 'account', windowMinutes: 15, max: 10 },
+  twoFactorPerIp: { name: 'two-factor', per: 'ip', windowMinutes: 15, max: 20 },
+  registerPerIp: { name: 'register', per: 'ip', windowMinutes: 60, max: 10 },
+  refreshPerIp: { name: 'refresh', per: 'ip', windowMinutes: 15, max: 120 },
+  forgotPasswordPerIp: { name: 'forgot-password', per: 'ip', windowMinutes: 60, max: 10 },
+};
+
+// What a rule counts a request against, or null when it doesn't apply (no username sent)
+export const rateLimitKey = (rule: RateLimitRule, req: Request) => {
+  if (rule.per === 'ip') return req.ip || 'unknown';
+
+  const account = req.body?.username;
+  return typeof account === 'string' && account.trim() ? account.trim().toLowerCase() : null;
+};
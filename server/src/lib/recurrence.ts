@@ -0,0 +1,350 @@
+// Recurrence rules for recurring expenses: a frequency with an interval, optionally
+// refined by an RFC 5545 RRULE subset (BYDAY with nth weekday, BYMONTHDAY with negative
+// days counting from the month end, BYMONTH, COUNT and UNTIL).
+//
+// Occurrences are always counted from the start date rather than from the previous
+// occurrence, so month-end dates don't drift (31 Jan -> 28 Feb -> 31 Mar). Dates are
+// calendar days in UTC, the same way they are stored.
+
+export const FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly'] as const;
+export type Frequency = typeof FREQUENCIES[number];
+
+export interface WeekdayRule {
+  weekday: number;   // 0 = Sunday ... 6 = Saturday
+  nth?: number;      // 1..5 or -1..-5 (last) within the month; only for monthly/yearly
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];  // 1..31, or -1..-31 counting back from the month end
+  byMonth?: number[];     // 1..12
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const RRULE_FREQS: Record<string, Frequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly'
+};
+const MAX_INTERVAL = 999;
+const ALL_MONTHS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+// Stop looking after this many periods in a row without a matching day (e.g. 30 February)
+const MAX_EMPTY_PERIODS = 1000;
+
+const utcDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+// Days of one month that match the rule, as UTC day timestamps in ascending order.
+// Without BYDAY/BYMONTHDAY it is the start date's day, clamped to the month's last day.
+const monthDays = (year: number, month: number, rule: RecurrenceRule, anchorDate: number) => {
+  const dim = daysInMonth(year, month);
+
+  if (!rule.byDay && !rule.byMonthDay) {
+    return [Date.UTC(year, month, Math.min(anchorDate, dim))];
+  }
+
+  let dates: Set<number> | null = null;
+
+  if (rule.byMonthDay) {
+    dates = new Set(
+      rule.byMonthDay
+        .map(d => (d > 0 ? d : dim + d + 1))
+        .filter(d => d >= 1 && d <= dim)
+    );
+  }
+
+  if (rule.byDay) {
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    const matching = new Set<number>();
+    for (const { weekday, nth } of rule.byDay) {
+      const all: number[] = [];
+      for (let d = 1 + ((weekday - firstWeekday + 7) % 7); d <= dim; d += 7) all.push(d);
+      if (nth === undefined) {
+        all.forEach(d => matching.add(d));
+      } else {
+        const d = nth > 0 ? all[nth - 1] : all[all.length + nth];
+        if (d !== undefined) matching.add(d);
+      }
+    }
+    dates = dates ? new Set([...dates].filter(d => matching.has(d))) : matching;
+  }
+
+  return [...dates!].sort((a, b) => a - b).map(d => Date.UTC(year, month, d));
+};
+
+// Candidate days in the k-th period (day, week, month or year) after the start
+const periodDays = (rule: RecurrenceRule, startDay: number, k: number): number[] => {
+  const start = new Date(startDay);
+  const step = k * rule.interval;
+  const inMonths = (day: number) => !rule.byMonth || rule.byMonth.includes(new Date(day).getUTCMonth() + 1);
+
+  switch (rule.freq) {
+    case 'daily': {
+      const day = startDay + step * DAY_MS;
+      const date = new Date(day);
+      const dim = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+      const matches =
+        (!rule.byDay || rule.byDay.some(d => d.weekday === date.getUTCDay())) &&
+        (!rule.byMonthDay || rule.byMonthDay.some(d => (d > 0 ? d : dim + d + 1) === date.getUTCDate())) &&
+        inMonths(day);
+      return matches ? [day] : [];
+    }
+    case 'weekly': {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const weekStart = startDay - ((start.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+      const weekdays = rule.byDay ? rule.byDay.map(d => d.weekday) : [start.getUTCDay()];
+      return [...new Set(weekdays)]
+        .map(w => weekStart + ((w + 6) % 7) * DAY_MS)
+        .sort((a, b) => a - b)
+        .filter(inMonths);
+    }
+    case 'monthly': {
+      const monthIndex = start.getUTCMonth() + step;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      return inMonths(Date.UTC(year, month, 1)) ? monthDays(year, month, rule, start.getUTCDate()) : [];
+    }
+    case 'yearly': {
+      // BYDAY or BYMONTHDAY without BYMONTH matches in every month of the year (RFC 5545)
+      const year = start.getUTCFullYear() + step;
+      const months = rule.byMonth
+        ? [...rule.byMonth].sort((a, b) => a - b)
+        : rule.byDay || rule.byMonthDay ? ALL_MONTHS : [start.getUTCMonth() + 1];
+      return months.flatMap(m => monthDays(year, m - 1, rule, start.getUTCDate()));
+    }
+  }
+};
+
+// Whether a date falls on a later calendar day than the end date. The end date's own
+// day is included whatever its time, like the start date's.
+export const isPastEnd = (date: Date, endDate: Date) => utcDay(date) > utcDay(endDate);
+
+// Occurrences on or after the start date, in order. `after` skips everything up to and
+// including that moment; `until` stops after that day; `limit` caps how many are returned.
+export const listOccurrences = (
+  rule: RecurrenceRule,
+  startDate: Date,
+  options: { after?: Date; until?: Date | null; limit: number }
+): Date[] => {
+  const { after, until, limit } = options;
+  const startDay = utcDay(startDate);
+  const timeOfDay = startDate.getTime() - startDay;
+  const results: Date[] = [];
+
+  let emptyPeriods = 0;
+  for (let k = 0; results.length < limit && emptyPeriods < MAX_EMPTY_PERIODS; k++) {
+    const days = periodDays(rule, startDay, k).filter(d => d >= startDay);
+    emptyPeriods = days.length === 0 ? emptyPeriods + 1 : 0;
+
+    for (const day of days) {
+      const time = day + timeOfDay;
+      if (until && day > utcDay(until)) return results;
+      if (after && time <= after.getTime()) continue;
+      results.push(new Date(time));
+      if (results.length >= limit) break;
+    }
+  }
+
+  return results;
+};
+
+// First occurrence on or after the start date, or null if the rule never matches
+export const firstOccurrence = (rule: RecurrenceRule, startDate: Date) =>
+  listOccurrences(rule, startDate, { limit: 1 })[0] || null;
+
+// First occurrence after the given date, or null if there are no more
+export const nextOccurrence = (rule: RecurrenceRule, startDate: Date, after: Date) =>
+  listOccurrences(rule, startDate, { after, limit: 1 })[0] || null;
+
+// Parse an RRULE (with or without the "RRULE:" prefix). COUNT and UNTIL are returned
+// separately because they are stored as the recurring expense's occurrence limit and end date.
+export const parseRRule = (
+  input: string
+): { error: string } | { rule: RecurrenceRule; count?: number; until?: Date } => {
+  const parts = input.trim().replace(/^RRULE:/i, '').split(';').filter(p => p.trim());
+  const values = new Map<string, string>();
+
+  for (const part of parts) {
+    const [key, value] = part.split('=').map(s => s.trim().toUpperCase());
+    if (!key || !value) return { error: `Invalid RRULE part: ${part}` };
+    if (values.has(key)) return { error: `RRULE part ${key} is repeated` };
+    values.set(key, value);
+  }
+
+  const freq = RRULE_FREQS[values.get('FREQ') || ''];
+  if (!freq) {
+    return { error: 'RRULE needs FREQ=DAILY, WEEKLY, MONTHLY or YEARLY' };
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+  let count: number | undefined;
+  let until: Date | undefined;
+
+  for (const [key, value] of values) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'WKST':
+        if (value !== 'MO') return { error: 'Only WKST=MO is supported' };
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+          return { error: `INTERVAL must be a whole number from 1 to ${MAX_INTERVAL}` };
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        const days: WeekdayRule[] = [];
+        for (const item of value.split(',')) {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(item.trim());
+          if (!match) return { error: `Invalid BYDAY value: ${item}` };
+          const weekday = WEEKDAY_CODES.indexOf(match[2]);
+          if (match[1] === undefined) {
+            days.push({ weekday });
+            continue;
+          }
+          const nth = Number(match[1]);
+          if (nth === 0 || Math.abs(nth) > 5) return { error: `Invalid BYDAY position: ${item}` };
+          days.push({ weekday, nth });
+        }
+        rule.byDay = days;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = value.split(',').map(Number);
+        if (days.some(d => !Number.isInteger(d) || d === 0 || Math.abs(d) > 31)) {
+          return { error: 'BYMONTHDAY values must be 1 to 31 or -1 to -31' };
+        }
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYMONTH': {
+        const months = value.split(',').map(Number);
+        if (months.some(m => !Number.isInteger(m) || m < 1 || m > 12)) {
+          return { error: 'BYMONTH values must be 1 to 12' };
+        }
+        rule.byMonth = months;
+        break;
+      }
+      case 'COUNT':
+        count = Number(value);
+        if (!Number.isInteger(count) || count < 1) return { error: 'COUNT must be a positive whole number' };
+        break;
+      case 'UNTIL': {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+        until = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : undefined;
+        if (!until || isNaN(until.getTime())) return { error: 'UNTIL must be a date like 20261231' };
+        break;
+      }
+      default:
+        return { error: `Unsupported RRULE part: ${key}` };
+    }
+  }
+
+  if (rule.byDay?.some(d => d.nth !== undefined)) {
+    if (rule.freq === 'daily' || rule.freq === 'weekly') {
+      return { error: 'Numbered BYDAY values (e.g. 1SA) need FREQ=MONTHLY or YEARLY' };
+    }
+    if (rule.freq === 'yearly' && !rule.byMonth) {
+      return { error: 'Numbered BYDAY values with FREQ=YEARLY need BYMONTH' };
+    }
+  }
+  if (rule.byMonthDay && rule.freq === 'weekly') {
+    return { error: 'BYMONTHDAY cannot be used with FREQ=WEEKLY' };
+  }
+
+  return { rule, count, until };
+};
+
+// Serialize a rule back to RRULE form (without COUNT/UNTIL)
+export const formatRRule = (rule: RecurrenceRule) => {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.nth ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  return parts.join(';');
+};
+
+// Human readable description, e.g. "Every 2 months" or "Monthly on the 1st and 3rd Saturday"
+export const describeRule = (rule: RecurrenceRule) => {
+  const units = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' };
+  const simple = { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly', yearly: 'Yearly' };
+  const join = (items: string[]) =>
+    items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+
+  let label = rule.interval === 1 ? simple[rule.freq] : `Every ${rule.interval} ${units[rule.freq]}s`;
+
+  if (rule.byMonthDay) {
+    label += ` on the ${join(rule.byMonthDay.map(d =>
+      d === -1 ? 'last day' : d < 0 ? `${ordinal(-d)} last day` : ordinal(d)
+    ))}`;
+  }
+  if (rule.byDay) {
+    label += ` on ${rule.byDay.some(d => d.nth !== undefined) ? 'the ' : ''}${join(rule.byDay.map(d => {
+      const name = WEEKDAY_NAMES[d.weekday];
+      if (d.nth === undefined) return name;
+      if (d.nth === -1) return `last ${name}`;
+      return d.nth > 0 ? `${ordinal(d.nth)} ${name}` : `${ordinal(-d.nth)} last ${name}`;
+    }))}`;
+  }
+  if (rule.byMonth) {
+    label += ` in ${join(rule.byMonth.map(m => MONTH_NAMES[m - 1]))}`;
+  }
+
+  return label;
+};
+
+// The rule of a stored recurring expense. Records from before rules existed only have a frequency.
+export const ruleFor = (recurring: { frequency: string; interval: number; rrule: string | null }): RecurrenceRule => {
+  if (recurring.rrule) {
+    const parsed = parseRRule(recurring.rrule);
+    if ('rule' in parsed) return parsed.rule;
+  }
+  const freq = (FREQUENCIES as readonly string[]).includes(recurring.frequency)
+    ? recurring.frequency as Frequency
+    : 'monthly';
+  return { freq, interval: recurring.interval || 1 };
+};
+
+// Validate the schedule fields of a create/update/preview request. Either an RRULE,
+// or a frequency with an optional interval.
+export const resolveSchedule = (input: { frequency?: unknown; interval?: unknown; rrule?: unknown }):
+  { error: string } |
+  { rule: RecurrenceRule; frequency: Frequency; interval: number; rrule: string | null; count?: number; until?: Date } => {
+  if (input.rrule) {
+    const parsed = parseRRule(String(input.rrule));
+    if ('error' in parsed) return parsed;
+    const { rule, count, until } = parsed;
+    const plain = !rule.byDay && !rule.byMonthDay && !rule.byMonth;
+    return { rule, frequency: rule.freq, interval: rule.interval, rrule: plain ? null : formatRRule(rule), count, until };
+  }
+
+  const frequency = String(input.frequency || 'monthly') as Frequency;
+  if (!FREQUENCIES.includes(frequency)) {
+    return { error: 'Frequency must be daily, weekly, monthly or yearly' };
+  }
+
+  const interval = input.interval === undefined || input.interval === '' ? 1 : Number(input.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+    return { error: `Interval must be a whole number from 1 to ${MAX_INTERVAL}` };
+  }
+
+  return { rule: { freq: frequency, interval }, frequency, interval, rrule: null };
+};
@@ -0,0 +1,255 @@
+import { Prisma, RecurringExpense } from '@prisma/client';
+import { prisma } from '../index';
+import { allocate, allocateEvenly } from './money';
+import { expenseSnapshot, recordAudit } from './audit';
+import { notifyExpenseShares } from './notifications';
+import { publish } from './events';
+import { isPastEnd, nextOccurrence, ruleFor } from './recurrence';
+import { isAfter } from 'date-fns';
+
+export type RecurringTrigger = 'startup' | 'schedule' | 'manual';
+
+export interface RecurringRunItem {
+  recurringExpenseId: string;
+  description: string;
+  dueDate: Date;
+  amount: number;
+  currency: string;
+  status: 'created' | 'planned' | 'skipped' | 'failed';
+  expenseId?: string;
+  error?: string;
+}
+
+interface ProcessOptions {
+  upTo: Date;
+  dryRun?: boolean;
+  trigger: RecurringTrigger;
+  triggeredById?: string;
+}
+
+// Calculate the splits of one occurrence based on the recurring expense's configuration
+export const buildRecurringSplits = (recurring: RecurringExpense, activeUserIds: string[]) => {
+  let splitsData: { userId: string; amount: number }[] = [];
+
+  if (recurring.splitEqually) {
+    // Split equally among all active users (owner first, so they absorb any remainder)
+    const ordered = [
+      ...activeUserIds.filter(id => id === recurring.userId),
+      ...activeUserIds.filter(id => id !== recurring.userId)
+    ];
+    const amounts = allocateEvenly(recurring.amount, ordered.length);
+    splitsData = ordered.map((userId, idx) => ({ userId, amount: amounts[idx] }));
+  } else if (recurring.splitConfig) {
+    // Use custom split configuration
+    const config = JSON.parse(recurring.splitConfig) as Array<{ memberId: string; percentage?: number; amount?: number }>;
+    const splitType = recurring.splitType || 'equal';
+
+    if (splitType === 'percentage') {
+      // Calculate based on percentage
+      const amounts = allocate(recurring.amount, config.map(c => c.percentage || 0));
+      splitsData = config.map((c, idx) => ({ userId: c.memberId, amount: amounts[idx] }));
+    } else if (splitType === 'amount') {
+      // Calculate based on fixed amounts
+      let totalOthersAmount = 0;
+      const othersAmounts = config.slice(1).map((c) => {
+        totalOthersAmount += c.amount || 0;
+        return { userId: c.memberId, amount: c.amount || 0 };
+      });
+
+      // Owner gets remainder
+      const ownerAmount = recurring.amount - totalOthersAmount;
+      splitsData = [
+        { userId: config[0]?.memberId || recurring.userId, amount: Math.max(0, ownerAmount) },
+        ...othersAmounts
+      ];
+    } else {
+      // Equal split among selected members (first member absorbs any remainder)
+      const amounts = allocateEvenly(recurring.amount, config.length);
+      splitsData = config.map((c, idx) => ({ userId: c.memberId, amount: amounts[idx] }));
+    }
+  }
+
+  return splitsData;
+};
+
+// True once a recurring expense has no occurrence left on or after the given due date
+// (a null due date means the rule has no more occurrences)
+const isFinished = (recurring: RecurringExpense, dueDate: Date | null, occurrencesCreated: number) =>
+  dueDate === null ||
+  (recurring.totalOccurrences !== null && occurrencesCreated >= recurring.totalOccurrences) ||
+  (recurring.endDate !== null && isPastEnd(dueDate, recurring.endDate));
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Generate every occurrence of a household's recurring expenses that is due on or
+// before `upTo`, catching up on any that were missed. Each occurrence is created at
+// most once: the expense carries its due date and (recurringExpenseId, recurringDueDate)
+// is unique, so concurrent runs skip what another run already generated.
+// A dry run reports what would be created without writing anything but the run log.
+export const processHouseholdRecurring = async (householdId: string, options: ProcessOptions) => {
+  const { upTo, dryRun = false, trigger, triggeredById } = options;
+  const startedAt = new Date();
+
+  const [dueRecurring, activeUsers] = await Promise.all([
+    prisma.recurringExpense.findMany({
+      where: { householdId, isActive: true, nextDueDate: { lte: upTo } },
+      orderBy: { nextDueDate: 'asc' }
+    }),
+    prisma.user.findMany({
+      where: { isDeleted: false, householdMembers: { some: { householdId } } },
+      select: { id: true }
+    })
+  ]);
+  const activeUserIds = activeUsers.map(u => u.id);
+
+  const items: RecurringRunItem[] = [];
+
+  for (const recurring of dueRecurring) {
+    const rule = ruleFor(recurring);
+    let dueDate: Date | null = recurring.nextDueDate;
+    let occurrencesCreated = recurring.occurrencesCreated;
+
+    while (dueDate && !isAfter(dueDate, upTo) && !isFinished(recurring, dueDate, occurrencesCreated)) {
+      const item: RecurringRunItem = {
+        recurringExpenseId: recurring.id,
+        description: recurring.description,
+        dueDate,
+        amount: recurring.amount,
+        currency: recurring.currency,
+        status: 'planned'
+      };
+      items.push(item);
+
+      const currentDueDate: Date = dueDate;
+      const nextDueDate = nextOccurrence(rule, recurring.startDate, currentDueDate);
+
+      if (dryRun) {
+        dueDate = nextDueDate;
+        occurrencesCreated++;
+        continue;
+      }
+
+      try {
+        // Create the expense and advance the schedule together
+        const expense = await prisma.$transaction(async (tx) => {
+          const created = await tx.expense.create({
+            data: {
+              description: recurring.description,
+              amount: recurring.amount,
+              currency: recurring.currency,
+              date: currentDueDate,
+              categoryId: recurring.categoryId,
+              userId: recurring.userId,
+              recurringExpenseId: recurring.id,
+              recurringDueDate: currentDueDate,
+              isDraft: recurring.isVariableAmount,
+              householdId,
+              notes: `Auto-generated from recurring: ${recurring.description}`,
+              splits: {
+                create: buildRecurringSplits(recurring, activeUserIds)
+              }
+            },
+            include: { splits: true }
+          });
+
+          await recordAudit({
+            householdId,
+            actorId: triggeredById || null,
+            entityType: 'expense',
+            entityId: created.id,
+            entityLabel: created.description,
+            action: 'create',
+            after: expenseSnapshot(created),
+            reason: 'Generated from recurring expense'
+          }, tx);
+
+          await tx.recurringExpense.update({
+            where: { id: recurring.id },
+            data: {
+              nextDueDate: nextDueDate || currentDueDate,
+              occurrencesCreated: { increment: 1 }
+            }
+          });
+
+          return created;
+        });
+
+        await notifyExpenseShares(householdId, expense, 'recurring-generated', triggeredById);
+
+        item.status = 'created';
+        item.expenseId = expense.id;
+        dueDate = nextDueDate;
+        occurrencesCreated++;
+      } catch (error) {
+        if (!isUniqueViolation(error)) {
+          console.error('Process recurring occurrence error:', error);
+          item.status = 'failed';
+          item.error = error instanceof Error ? error.message : String(error);
+          break;
+        }
+
+        // Another run already generated this occurrence. Move the schedule past it
+        // if that run hasn't, then carry on from wherever the schedule now is.
+        item.status = 'skipped';
+        await prisma.recurringExpense.updateMany({
+          where: { id: recurring.id, nextDueDate: currentDueDate },
+          data: nextDueDate ? { nextDueDate } : { isActive: false }
+        });
+        const current = await prisma.recurringExpense.findUnique({ where: { id: recurring.id } });
+        if (!current || !current.isActive) break;
+        dueDate = current.nextDueDate;
+        occurrencesCreated = current.occurrencesCreated;
+      }
+    }
+
+    if (!dryRun && isFinished(recurring, dueDate, occurrencesCreated)) {
+      await prisma.recurringExpense.update({
+        where: { id: recurring.id },
+        data: { isActive: false }
+      });
+    }
+  }
+
+  const count = (status: RecurringRunItem['status']) => items.filter(i => i.status === status).length;
+
+  if (count('created') > 0) {
+    publish(householdId, ['expenses', 'recurring'], { actorId: triggeredById || null });
+  }
+
+  const run = await prisma.recurringRun.create({
+    data: {
+      trigger,
+      dryRun,
+      upTo,
+      created: count('created'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      details: items.length > 0 ? JSON.stringify(items) : null,
+      startedAt,
+      finishedAt: new Date(),
+      triggeredById: triggeredById || null,
+      householdId
+    }
+  });
+
+  return { run, items };
+};
+
+// Process every household that has something due. Households with nothing due
+// are left out so the run log only shows runs that did something.
+export const processAllRecurring = async (trigger: RecurringTrigger, upTo: Date = new Date()) => {
+  const due = await prisma.recurringExpense.findMany({
+    where: { isActive: true, nextDueDate: { lte: upTo } },
+    select: { householdId: true },
+    distinct: ['householdId']
+  });
+
+  let created = 0;
+  for (const { householdId } of due) {
+    const { run } = await processHouseholdRecurring(householdId, { upTo, trigger });
+    created += run.created;
+  }
+
+  return { households: due.length, created };
+};
@@ -0,0 +1,256 @@
+import { Prisma } from '@prisma/client';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { prisma } from '../index';
+import { getHouseholdConverter } from './currency';
+import { describeAmount, notify } from './notifications';
+
+// Payment reminders: once a member has owed another for a while they are reminded,
+// then reminded again on a schedule until the debt is settled. Debtors can snooze
+// reminders, or say they paid offline, which records a pending payment for the
+// creditor to confirm. What is owed is aged oldest-first: payments and anything
+// owed back pay off the oldest splits first, so what remains is the newest debt.
+
+export const REMINDER_DEFAULTS: Record<string, string> = {
+  reminderAfterDays: '7',   // Days after a split is created before the first reminder (0 = no reminders)
+  reminderRepeatDays: '7',  // Days between reminders after that
+};
+
+export const MAX_SNOOZE_DAYS = 30;
+
+const getSetting = async (householdId: string, key: string) => {
+  const setting = await prisma.settings.findUnique({
+    where: { householdId_key: { householdId, key } }
+  });
+  const days = parseInt(setting?.value ?? REMINDER_DEFAULTS[key], 10);
+  return Number.isInteger(days) && days >= 0 ? days : parseInt(REMINDER_DEFAULTS[key], 10);
+};
+
+export const getReminderSchedule = async (householdId: string) => ({
+  afterDays: await getSetting(householdId, 'reminderAfterDays'),
+  repeatDays: Math.max(1, await getSetting(householdId, 'reminderRepeatDays'))
+});
+
+// The unpaid part of something that made a member owe another
+export interface OutstandingItem {
+  date: Date;        // Expense (or payment) date, used for ageing
+  createdAt: Date;   // When it was recorded, used to time reminders
+  amount: number;
+}
+
+export interface OutstandingDebt {
+  debtorId: string;
+  creditorId: string;
+  balance: number;   // Base currency minor units, always positive
+  items: OutstandingItem[];
+}
+
+const pairKey = (debtorId: string, creditorId: string) => `${debtorId}:${creditorId}`;
+
+// Everything still owed between members of a household, in its base currency.
+// Balances match the ledger; the items say how old each part of a balance is.
+export const outstandingDebts = async (householdId: string): Promise<OutstandingDebt[]> => {
+  const [expenses, payments, converter] = await Promise.all([
+    prisma.expense.findMany({
+      where: { householdId, isDeleted: false, isDraft: false },
+      select: {
+        userId: true,
+        amount: true,
+        currency: true,
+        date: true,
+        splits: { select: { userId: true, amount: true, createdAt: true } }
+      }
+    }),
+    prisma.payment.findMany({
+      where: { householdId, status: 'confirmed', isDeleted: false },
+      select: { fromUserId: true, toUserId: true, amount: true, currency: true, date: true, createdAt: true }
+    }),
+    getHouseholdConverter(householdId)
+  ]);
+
+  // debits: what made the debtor owe the creditor; credits: what pays it off
+  const debits = new Map<string, OutstandingItem[]>();
+  const credits = new Map<string, number>();
+
+  const addDebit = (debtorId: string, creditorId: string, item: OutstandingItem) => {
+    const key = pairKey(debtorId, creditorId);
+    if (!debits.has(key)) debits.set(key, []);
+    debits.get(key)!.push(item);
+  };
+  const addCredit = (debtorId: string, creditorId: string, amount: number) => {
+    const key = pairKey(debtorId, creditorId);
+    credits.set(key, (credits.get(key) || 0) + amount);
+  };
+
+  for (const expense of expenses.map(converter.convertExpense)) {
+    for (const split of expense.splits) {
+      if (split.userId === expense.userId || split.amount <= 0) continue;
+      addDebit(split.userId, expense.userId, { date: expense.date, createdAt: split.createdAt, amount: split.amount });
+      addCredit(expense.userId, split.userId, split.amount);
+    }
+  }
+
+  for (const payment of payments) {
+    if (payment.fromUserId === payment.toUserId) continue;
+    const amount = converter.toBase(payment.amount, payment.currency, payment.date);
+    addCredit(payment.fromUserId, payment.toUserId, amount);
+    addDebit(payment.toUserId, payment.fromUserId, { date: payment.date, createdAt: payment.createdAt, amount });
+  }
+
+  const debts: OutstandingDebt[] = [];
+  for (const [key, pairDebits] of debits) {
+    const [debtorId, creditorId] = key.split(':');
+    let credit = credits.get(key) || 0;
+
+    const items: OutstandingItem[] = [];
+    for (const item of pairDebits.sort((a, b) => a.date.getTime() - b.date.getTime())) {
+      const paid = Math.min(credit, item.amount);
+      credit -= paid;
+      if (item.amount > paid) items.push({ ...item, amount: item.amount - paid });
+    }
+
+    const balance = items.reduce((sum, item) => sum + item.amount, 0);
+    if (balance > 0) debts.push({ debtorId, creditorId, balance, items });
+  }
+
+  return debts;
+};
+
+export const AGEING_BUCKETS = [
+  { key: 'current', label: '0–30 days', maxDays: 30 },
+  { key: 'days31to60', label: '31–60 days', maxDays: 60 },
+  { key: 'over60', label: '60+ days', maxDays: Infinity },
+] as const;
+
+export type AgeingBucket = typeof AGEING_BUCKETS[number]['key'];
+
+// Split a debt into ageing buckets by how long ago each unpaid part was dated
+export const ageDebt = (debt: OutstandingDebt, asOf: Date = new Date()) => {
+  const buckets: Record<AgeingBucket, number> = { current: 0, days31to60: 0, over60: 0 };
+  for (const item of debt.items) {
+    const age = differenceInCalendarDays(asOf, item.date);
+    const bucket = AGEING_BUCKETS.find(b => age <= b.maxDays)!;
+    buckets[bucket.key] += item.amount;
+  }
+  return buckets;
+};
+
+// The oldest unpaid part of a debt
+export const oldestItem = (debt: OutstandingDebt) =>
+  debt.items.reduce((oldest, item) => item.date < oldest.date ? item : oldest, debt.items[0]);
+
+// Pending payments from each debtor to each creditor, in the base currency. A debt
+// covered by pending payments (e.g. one the debtor says they paid offline) isn't chased.
+export const pendingPayments = async (householdId: string) => {
+  const [payments, converter] = await Promise.all([
+    prisma.payment.findMany({
+      where: { householdId, status: 'pending', isDeleted: false },
+      select: { fromUserId: true, toUserId: true, amount: true, currency: true, date: true }
+    }),
+    getHouseholdConverter(householdId)
+  ]);
+
+  const pending = new Map<string, number>();
+  for (const payment of payments) {
+    const key = pairKey(payment.fromUserId, payment.toUserId);
+    pending.set(key, (pending.get(key) || 0) + converter.toBase(payment.amount, payment.currency, payment.date));
+  }
+
+  return (debtorId: string, creditorId: string) => pending.get(pairKey(debtorId, creditorId)) || 0;
+};
+
+const reminderTitle = (level: number) =>
+  level === 1 ? 'Payment reminder' : level === 2 ? 'Second payment reminder' : `Overdue balance: reminder ${level}`;
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Send whatever reminders are due in a household and forget the reminder state of
+// debts that have been settled. The first reminder is due `afterDays` after the oldest
+// unpaid part of a debt was recorded, and then every `repeatDays`, unless the debtor
+// snoozed it or a pending payment covers it. Each send claims the reminder's current
+// level first, so overlapping runs send it once.
+export const processHouseholdReminders = async (householdId: string, now: Date = new Date()) => {
+  const [{ afterDays, repeatDays }, debts, reminders, pendingFor, members, household] = await Promise.all([
+    getReminderSchedule(householdId),
+    outstandingDebts(householdId),
+    prisma.paymentReminder.findMany({ where: { householdId } }),
+    pendingPayments(householdId),
+    prisma.householdMember.findMany({
+      where: { householdId, user: { isDeleted: false } },
+      select: { user: { select: { id: true, displayName: true } } }
+    }),
+    prisma.household.findUnique({ where: { id: householdId }, select: { baseCurrency: true } })
+  ]);
+
+  const owing = new Set(debts.map(d => pairKey(d.debtorId, d.creditorId)));
+  const settled = reminders.filter(r => !owing.has(pairKey(r.debtorId, r.creditorId)));
+  if (settled.length > 0) {
+    await prisma.paymentReminder.deleteMany({ where: { id: { in: settled.map(r => r.id) } } });
+  }
+
+  let sent = 0;
+  if (afterDays === 0 || !household) return { sent };
+
+  const names = new Map(members.map(m => [m.user.id, m.user.displayName]));
+  const existing = new Map(reminders.map(r => [pairKey(r.debtorId, r.creditorId), r]));
+
+  for (const debt of debts) {
+    if (!names.has(debt.debtorId) || !names.has(debt.creditorId)) continue;
+    if (pendingFor(debt.debtorId, debt.creditorId) >= debt.balance) continue;
+
+    const firstRecorded = debt.items.reduce((first, item) => item.createdAt < first ? item.createdAt : first, debt.items[0].createdAt);
+    if (addDays(firstRecorded, afterDays) > now) continue;
+
+    const reminder = existing.get(pairKey(debt.debtorId, debt.creditorId));
+    if (reminder?.snoozedUntil && reminder.snoozedUntil > now) continue;
+    if (reminder?.lastSentAt && addDays(reminder.lastSentAt, repeatDays) > now) continue;
+
+    const level = (reminder?.level || 0) + 1;
+    let reminderId: string;
+    try {
+      if (reminder) {
+        const claimed = await prisma.paymentReminder.updateMany({
+          where: { id: reminder.id, level: reminder.level },
+          data: { level, lastSentAt: now, snoozedUntil: null }
+        });
+        if (claimed.count === 0) continue;
+        reminderId = reminder.id;
+      } else {
+        const created = await prisma.paymentReminder.create({
+          data: { householdId, debtorId: debt.debtorId, creditorId: debt.creditorId, level, lastSentAt: now }
+        });
+        reminderId = created.id;
+      }
+    } catch (error) {
+      if (isUniqueViolation(error)) continue;
+      throw error;
+    }
+
+    const oldest = oldestItem(debt);
+    await notify(householdId, [debt.debtorId], {
+      type: 'payment-reminder',
+      title: reminderTitle(level),
+      message: `You owe ${names.get(debt.creditorId)} ${describeAmount(debt.balance, household.baseCurrency)}, ` +
+        `unpaid since ${format(oldest.date, 'd MMM yyyy')}. Pay it, snooze this reminder or let us know you paid offline.`,
+      link: '/payments?tab=owe',
+      entityType: 'reminder',
+      entityId: reminderId,
+      email: true
+    });
+    sent++;
+  }
+
+  return { sent };
+};
+
+// Send due reminders in every household
+export const processAllReminders = async (now: Date = new Date()) => {
+  const households = await prisma.household.findMany({ select: { id: true } });
+
+  let sent = 0;
+  for (const { id } of households) {
+    sent += (await processHouseholdReminders(id, now)).sent;
+  }
+
+  return sent;
+};
@@ -0,0 +1,114 @@
+import { processAllRecurring, RecurringTrigger } from './recurring';
+import { purgeExpiredTrash } from './trash';
+import { previousMonth, sendStatements } from './statements';
+import { isMailEnabled } from './mail';
+import { processAllReminders } from './reminders';
+import { purgeUsedAuthTokens } from './authTokens';
+import { purgeExpiredSessions } from './sessions';
+import { purgeOldSecurityEvents } from './security';
+
+// Minutes between background passes; 0 turns the interval off (startup catch-up still runs)
+const DEFAULT_RECURRING_INTERVAL_MINUTES = 60;
+
+// Trash past its retention period (and spent reset / verification tokens, expired
+// sessions and old security events) is purged at startup and then twice a day
+const TRASH_PURGE_INTERVAL_HOURS = 12;
+
+// Last month's statements go out at the first check after the month ends;
+// later checks skip members who already got theirs
+const STATEMENT_CHECK_INTERVAL_HOURS = 6;
+
+// Payment reminders are checked every few hours; each household's schedule decides who is due
+const REMINDER_CHECK_INTERVAL_HOURS = 4;
+
+let recurringInProgress = false;
+
+// One pass over all households. Passes never overlap within this process;
+// overlap with other processes or manual runs is handled by the unique occurrence key.
+const runRecurring = async (trigger: RecurringTrigger) => {
+  if (recurringInProgress) return;
+  recurringInProgress = true;
+
+  try {
+    const { households, created } = await processAllRecurring(trigger);
+    if (created > 0) {
+      console.log(`🔁 Generated ${created} recurring expenses across ${households} households`);
+    }
+  } catch (error) {
+    console.error('Recurring scheduler error:', error);
+  } finally {
+    recurringInProgress = false;
+  }
+};
+
+const runTrashPurge = async () => {
+  try {
+    const purged = await purgeExpiredTrash();
+    if (purged > 0) {
+      console.log(`🗑️ Purged ${purged} records from the trash`);
+    }
+  } catch (error) {
+    console.error('Trash purge error:', error);
+  }
+
+  try {
+    await purgeUsedAuthTokens();
+    await purgeExpiredSessions();
+    await purgeOldSecurityEvents();
+  } catch (error) {
+    console.error('Auth token purge error:', error);
+  }
+};
+
+const runStatements = async () => {
+  try {
+    const { sent, failed } = await sendStatements(previousMonth());
+    if (sent > 0 || failed > 0) {
+      console.log(`✉️ Sent ${sent} monthly statements${failed > 0 ? ` (${failed} failed)` : ''}`);
+    }
+  } catch (error) {
+    console.error('Monthly statements error:', error);
+  }
+};
+
+const runReminders = async () => {
+  try {
+    const sent = await processAllReminders();
+    if (sent > 0) {
+      console.log(`⏰ Sent ${sent} payment reminders`);
+    }
+  } catch (error) {
+    console.error('Payment reminders error:', error);
+  }
+};
+
+// Catch up on missed recurring expenses now, then keep processing on an interval.
+// Expired trash is purged, payment reminders sent and monthly statements emailed on
+// their own intervals.
+export const startScheduler = () => {
+  const parsed = Number(process.env.RECURRING_INTERVAL_MINUTES);
+  const minutes = process.env.RECURRING_INTERVAL_MINUTES !== undefined && Number.isFinite(parsed)
+    ? parsed
+    : DEFAULT_RECURRING_INTERVAL_MINUTES;
+
+  void runRecurring('startup');
+
+  if (minutes > 0) {
+    const timer = setInterval(() => void runRecurring('schedule'), minutes * 60 * 1000);
+    timer.unref();
+  }
+
+  void runTrashPurge();
+  const purgeTimer = setInterval(() => void runTrashPurge(), TRASH_PURGE_INTERVAL_HOURS * 60 * 60 * 1000);
+  purgeTimer.unref();
+
+  void runReminders();
+  const reminderTimer = setInterval(() => void runReminders(), REMINDER_CHECK_INTERVAL_HOURS * 60 * 60 * 1000);
+  reminderTimer.unref();
+
+  if (isMailEnabled()) {
+    void runStatements();
+    const statementTimer = setInterval(() => void runStatements(), STATEMENT_CHECK_INTERVAL_HOURS * 60 * 60 * 1000);
+    statementTimer.unref();
+  }
+};
@@ -0,0 +1,110 @@
+import { Request } from 'express';
+import { addMinutes, differenceInSeconds, subDays, subHours } from 'date-fns';
+import { User } from '@prisma/client';
+import { prisma } from '../index';
+import { clientDetails } from './sessions';
+
+// Account lockout after failed logins, and the security log that records it along with
+// rate limiting and other suspicious authentication activity.
+
+export type SecurityEventType =
+  | 'login-failed'
+  | 'two-factor-failed'
+  | 'account-locked'
+  | 'login-blocked'
+  | 'account-unlocked'
+  | 'rate-limited'
+  | 'refresh-token-reused';
+
+export const SECURITY_EVENT_TYPES: SecurityEventType[] = [
+  'login-failed', 'two-factor-failed', 'account-locked', 'login-blocked',
+  'account-unlocked', 'rate-limited', 'refresh-token-reused',
+];
+
+export const LOCKOUT = {
+  threshold: 5,         // Failed logins in a row that lock the account
+  firstLockMinutes: 1,  // How long the threshold failure locks it; every further failure doubles this
+  maxLockMinutes: 60,
+  resetAfterHours: 24,  // A failure this long after the previous one starts the count over
+};
+
+// Events are kept this long
+const SECURITY_EVENT_RETENTION_DAYS = 90;
+
+interface SecurityEventInput {
+  type: SecurityEventType;
+  userId?: string | null;
+  actorId?: string | null;
+  identifier?: string | null;
+  details?: Record<string, unknown>;
+}
+
+// Add an event to the security log, with the address and device of the request behind it
+export const recordSecurityEvent = (req: Request | null, event: SecurityEventInput) =>
+  prisma.securityEvent.create({
+    data: {
+      type: event.type,
+      userId: event.userId ?? null,
+      actorId: event.actorId ?? null,
+      identifier: event.identifier?.slice(0, 200) ?? null,
+      details: event.details ? JSON.stringify(event.details) : null,
+      ...(req ? clientDetails(req) : {})
+    }
+  });
+
+// How long the nth failed login in a row locks the account (0 = it doesn't)
+export const lockMinutes = (failures: number) =>
+  failures < LOCKOUT.threshold
+    ? 0
+    : Math.min(LOCKOUT.firstLockMinutes * 2 ** (failures - LOCKOUT.threshold), LOCKOUT.maxLockMinutes);
+
+export const isLocked = (user: Pick<User, 'lockedUntil'>, now = new Date()) =>
+  !!user.lockedUntil && user.lockedUntil > now;
+
+// "3 minutes" until a date, for messages asking to try again later
+export const waitTime = (until: Date) => {
+  const minutes = Math.max(1, Math.ceil(differenceInSeconds(until, new Date()) / 60));
+  return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+};
+
+export const lockedMessage = (lockedUntil: Date) =>
+  `Too many failed logins. This account is locked, try again in ${waitTime(lockedUntil)} or ask a household owner to unlock it.`;
+
+// Count a wrong password or second-factor code. Returns when the account is now locked
+// until, or null if this failure didn't lock it.
+export const recordFailedLogin = async (
+  user: Pick<User, 'id' | 'lastFailedLoginAt'>,
+  req: Request,
+  type: 'login-failed' | 'two-factor-failed'
+) => {
+  const now = new Date();
+  const startOver = !user.lastFailedLoginAt || user.lastFailedLoginAt < subHours(now, LOCKOUT.resetAfterHours);
+
+  // Incrementing in the database keeps parallel attempts from being counted once
+  const { failedLoginCount: failures } = await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginCount: startOver ? 1 : { increment: 1 }, lastFailedLoginAt: now },
+    select: { failedLoginCount: true }
+  });
+  await recordSecurityEvent(req, { type, userId: user.id, details: { failures } });
+
+  const minutes = lockMinutes(failures);
+  if (minutes === 0) return null;
+
+  const lockedUntil = addMinutes(now, minutes);
+  await prisma.user.update({ where: { id: user.id }, data: { lockedUntil } });
+  await recordSecurityEvent(req, { type: 'account-locked', userId: user.id, details: { failures, minutes } });
+  return lockedUntil;
+};
+
+// Forget failed logins after a successful one, or when someone unlocks the account
+export const clearFailedLogins = (userId: string) =>
+  prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null }
+  });
+
+export const purgeOldSecurityEvents = () =>
+  prisma.securityEvent.deleteMany({
+    where: { createdAt: { lt: subDays(new Date(), SECURITY_EVENT_RETENTION_DAYS) } }
+  });
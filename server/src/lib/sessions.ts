@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { addDays, addSeconds, subMinutes } from 'date-fns';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { hashToken } from './authTokens';
+import { recordSecurityEvent } from './security';
+
+// Every login opens a session for that device. The client holds a refresh token that
+// is swapped for a new one on each /auth/refresh (rotation); only hashes are stored.
+// Presenting a token that was already swapped means someone kept a copy, so the whole
+// session is revoked. Access tokens name their session and stop working with it.
+
+const ACCESS_TOKEN_EXPIRES_IN: SignOptions['expiresIn'] = '7d';
+const REFRESH_TOKEN_DAYS = 365;
+// Two tabs refreshing at the same moment both send the same token. A token swapped this
+// recently is treated as that race rather than theft.
+const REUSE_GRACE_SECONDS = 30;
+// How often lastUsedAt is brought up to date, rather than on every request
+const ACTIVITY_UPDATE_MINUTES = 5;
+
+interface TokenUser {
+  id: string;
+  username: string;
+  email: string;
+  isAdmin: boolean;
+}
+
+export const clientDetails = (req: Request) => ({
+  userAgent: req.get('user-agent')?.slice(0, 500) || null,
+  ipAddress: req.ip || null
+});
+
+// A new access token and refresh token for a session
+const issueTokens = async (user: TokenUser, sessionId: string) => {
+  const accessToken = jwt.sign(
+    { id: user.id, username: user.username, email: user.email, isAdmin: user.isAdmin, sid: sessionId },
+    process.env.JWT_SECRET!,
+    { expiresIn: ACCESS_TOKEN_EXPIRES_IN }
+  );
+
+  const refreshToken = crypto.randomBytes(32).toString('hex');
+  await prisma.refreshToken.create({
+    data: {
+      sessionId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: addDays(new Date(), REFRESH_TOKEN_DAYS)
+    }
+  });
+
+  return { accessToken, refreshToken };
+};
+
+// Log a user in on the device making the request
+export const openSession = async (user: TokenUser, req: Request) => {
+  const session = await prisma.session.create({
+    data: { userId: user.id, ...clientDetails(req) }
+  });
+  return issueTokens(user, session.id);
+};
+
+// Swap a refresh token for new tokens. Returns null if the token is unknown, expired
+// or was already swapped (in which case its session is revoked). A token swapped within
+// the grace period gets { superseded: true } instead: only the first request is given
+// new tokens, and the others pick up the ones it saved.
+export const rotateRefreshToken = async (refreshToken: string, req: Request) => {
+  const now = new Date();
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { session: { include: { user: true } } }
+  });
+
+  if (!stored || stored.expiresAt < now || stored.session.user.isDeleted) {
+    return null;
+  }
+
+  // Marking the token used only succeeds once, so racing requests can't both pass as the first
+  const claimed = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: now }
+  });
+
+  if (claimed.count === 0) {
+    const usedAt = stored.usedAt ?? now;
+    if (addSeconds(usedAt, REUSE_GRACE_SECONDS) < now) {
+      console.warn(`Refresh token reused; revoking session ${stored.sessionId} of user ${stored.session.userId}`);
+      await prisma.session.deleteMany({ where: { id: stored.sessionId } });
+      await recordSecurityEvent(req, { type: 'refresh-token-reused', userId: stored.session.userId });
+      return null;
+    }
+    return { superseded: true as const };
+  }
+
+  await prisma.session.update({
+    where: { id: stored.sessionId },
+    data: { lastUsedAt: now, ...clientDetails(req) }
+  });
+
+  return issueTokens(stored.session.user, stored.sessionId);
+};
+
+// Whether an access token's session is still open. Also records activity now and then.
+export const isSessionActive = async (sessionId: unknown, userId: string) => {
+  if (typeof sessionId !== 'string') return false;
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, lastUsedAt: true }
+  });
+  if (!session || session.userId !== userId) return false;
+
+  if (session.lastUsedAt < subMinutes(new Date(), ACTIVITY_UPDATE_MINUTES)) {
+    await prisma.session.updateMany({ where: { id: sessionId }, data: { lastUsedAt: new Date() } });
+  }
+  return true;
+};
+
+// Sign a user out of every session but the one they are using (e.g. after changing their password)
+export const revokeOtherSessions = (userId: string, sessionId: string, tx: Prisma.TransactionClient = prisma) =>
+  tx.session.deleteMany({ where: { userId, id: { not: sessionId } } });
+
+// Sign a user out everywhere (e.g. after their password was reset)
+export const revokeAllSessions = (userIds: string | string[], tx: Prisma.TransactionClient = prisma) =>
+  tx.session.deleteMany({
+    where: { userId: typeof userIds === 'string' ? userIds : { in: userIds } }
+  });
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser/, 'Samsung Internet'],
+  [/Firefox\/|FxiOS/, 'Firefox'],
+  [/Chrome\/|CriOS/, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// A readable name for the device behind a user agent, e.g. "Chrome on Windows"
+export const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || userAgent.split(' ')[0];
+};
+
+// Drop expired refresh tokens, and sessions left with no token that can still be used
+export const purgeExpiredSessions = async () => {
+  const now = new Date();
+  await prisma.refreshToken.deleteMany({ where: { expiresAt: { lt: now } } });
+  await prisma.session.deleteMany({
+    where: { refreshTokens: { none: { usedAt: null, expiresAt: { gt: now } } } }
+  });
+};
@@ -0,0 +1,164 @@
+import { Ledger } from './ledger';
+
+export const SETTLEMENT_STRATEGIES = ['minimal', 'pairwise', 'capped'] as const;
+export type SettlementStrategy = typeof SETTLEMENT_STRATEGIES[number];
+
+export interface Transfer {
+  fromUserId: string;
+  toUserId: string;
+  amount: number;         // Minor units
+}
+
+export interface SettlementOptions {
+  cap?: number;           // capped: most any one person pays in this plan (minor units)
+}
+
+// Exact search is exponential in the number of unsettled members; beyond this fall back to greedy
+const MAX_EXACT_MEMBERS = 16;
+
+interface NetBalance {
+  userId: string;
+  net: number;            // Positive = owed money, negative = owes
+}
+
+// Greedy settlement: repeatedly match the largest debtor with the largest creditor
+const greedyTransfers = (balances: NetBalance[]): Transfer[] => {
+  const creditors = balances
+    .filter(b => b.net > 0)
+    .map(b => ({ userId: b.userId, amount: b.net }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const debtors = balances
+    .filter(b => b.net < 0)
+    .map(b => ({ userId: b.userId, amount: -b.net }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const transfers: Transfer[] = [];
+  let i = 0, j = 0;
+  while (i < debtors.length && j < creditors.length) {
+    const debtor = debtors[i];
+    const creditor = creditors[j];
+    const amount = Math.min(debtor.amount, creditor.amount);
+
+    transfers.push({ fromUserId: debtor.userId, toUserId: creditor.userId, amount });
+
+    debtor.amount -= amount;
+    creditor.amount -= amount;
+
+    if (debtor.amount === 0) i++;
+    if (creditor.amount === 0) j++;
+  }
+
+  return transfers;
+};
+
+// Fewest transfers: a group of k people whose balances sum to zero can always settle in k - 1
+// transfers, so the optimum splits everyone into as many zero-sum groups as possible.
+// Found with a DP over subsets, then each group settles greedily.
+const minimalTransfers = (balances: NetBalance[]): Transfer[] => {
+  const open = balances.filter(b => b.net !== 0);
+  if (open.length > MAX_EXACT_MEMBERS) return greedyTransfers(open);
+
+  const n = open.length;
+  const full = (1 << n) - 1;
+  const sums = new Array<number>(full + 1).fill(0);
+  const groups = new Array<number>(full + 1).fill(0);
+
+  for (let mask = 1; mask <= full; mask++) {
+    const low = mask & -mask;
+    sums[mask] = sums[mask ^ low] + open[31 - Math.clz32(low)].net;
+
+    let best = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) best = Math.max(best, groups[mask ^ (1 << i)]);
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from the full set to recover the order members were added,
+  // cutting a new group every time the running sum returns to zero
+  const order: number[] = [];
+  for (let mask = full; mask > 0;) {
+    const gain = sums[mask] === 0 ? 1 : 0;
+    for (let i = 0; i < n; i++) {
+      const bit = 1 << i;
+      if ((mask & bit) && groups[mask ^ bit] + gain === groups[mask]) {
+        order.push(i);
+        mask ^= bit;
+        break;
+      }
+    }
+  }
+  order.reverse();
+
+  const transfers: Transfer[] = [];
+  let group: NetBalance[] = [];
+  let running = 0;
+  for (const idx of order) {
+    group.push(open[idx]);
+    running += open[idx].net;
+    if (running === 0) {
+      transfers.push(...greedyTransfers(group));
+      group = [];
+    }
+  }
+  if (group.length > 0) transfers.push(...greedyTransfers(group));
+
+  return transfers;
+};
+
+// Pairwise only: everyone settles exactly what they owe each person directly, no routing through others
+const pairwiseTransfers = (ledger: Ledger, userIds: string[]): Transfer[] => {
+  const transfers: Transfer[] = [];
+
+  for (let i = 0; i < userIds.length; i++) {
+    for (let j = i + 1; j < userIds.length; j++) {
+      const { balance } = ledger.between(userIds[i], userIds[j]);
+      if (balance > 0) {
+        transfers.push({ fromUserId: userIds[i], toUserId: userIds[j], amount: balance });
+      } else if (balance < 0) {
+        transfers.push({ fromUserId: userIds[j], toUserId: userIds[i], amount: -balance });
+      }
+    }
+  }
+
+  return transfers.sort((a, b) => b.amount - a.amount);
+};
+
+// Cap per person: the minimal plan, trimmed so nobody pays more than the cap in total.
+// Whatever doesn't fit stays outstanding for a later round.
+const cappedTransfers = (balances: NetBalance[], cap: number): Transfer[] => {
+  const paidSoFar = new Map<string, number>();
+  const transfers: Transfer[] = [];
+
+  for (const transfer of minimalTransfers(balances)) {
+    const paid = paidSoFar.get(transfer.fromUserId) || 0;
+    const amount = Math.min(transfer.amount, cap - paid);
+    if (amount <= 0) continue;
+
+    paidSoFar.set(transfer.fromUserId, paid + amount);
+    transfers.push({ ...transfer, amount });
+  }
+
+  return transfers;
+};
+
+// Plan how the given members settle up under a strategy
+export const planSettlement = (
+  ledger: Ledger,
+  userIds: string[],
+  strategy: SettlementStrategy,
+  options: SettlementOptions = {}
+): Transfer[] => {
+  const balances = userIds.map(userId => ({ userId, net: ledger.totals(userId).net }));
+
+  switch (strategy) {
+    case 'pairwise':
+      return pairwiseTransfers(ledger, userIds);
+    case 'capped':
+      return cappedTransfers(balances, options.cap ?? Infinity);
+    case 'minimal':
+    default:
+      return minimalTransfers(balances);
+  }
+};
@@ -0,0 +1,243 @@
+import { OcrDraft, Prisma } from '@prisma/client';
+import { allocate, parseMinor, percentOf } from './money';
+
+// Itemised split bills: checking a bill's items and working out what everyone owes.
+// The preview and saving or editing a bill all calculate it here, so what is saved
+// is exactly what was previewed.
+
+// Tax and service charge for a subtotal - a percentage wins over a fixed amount.
+// Everything is in minor units.
+export const calculateCharges = (
+  subtotal: number,
+  { taxAmount, taxPercent, serviceCharge, servicePercent }: { taxAmount?: unknown; taxPercent?: unknown; serviceCharge?: unknown; servicePercent?: unknown }
+) => ({
+  tax: taxPercent ? percentOf(subtotal, parseFloat(taxPercent as string)) : parseMinor(taxAmount) || 0,
+  service: servicePercent ? percentOf(subtotal, parseFloat(servicePercent as string)) : parseMinor(serviceCharge) || 0
+});
+
+export interface BillItemShare {
+  userId: string;
+  weight: number;     // Relative share of the item
+}
+
+export interface BillItem {
+  description: string;
+  amount: number;     // Unit price in minor units
+  quantity: number;
+  shares: BillItemShare[];
+}
+
+// Sum what each user owes for their items. A shared item's line total
+// (unit amount x quantity) is divided by the share weights, so the parts
+// stay whole minor units and add up to the line exactly.
+export const sumItemsByUser = (items: BillItem[]) => {
+  const userTotals: { [key: string]: number } = {};
+  items.forEach((item) => {
+    const amounts = allocate(item.amount * item.quantity, item.shares.map(s => s.weight));
+    item.shares.forEach((share, idx) => {
+      userTotals[share.userId] = (userTotals[share.userId] || 0) + amounts[idx];
+    });
+  });
+  return userTotals;
+};
+
+// Validate a bill's line items (a JSON string when sent as multipart).
+// An item is either for one member (`userId`) or shared (`shares` of
+// `{ userId, weight }`; leave out the weights to split it equally).
+export const parseBillItems = (value: unknown): { items: BillItem[] } | { error: string } => {
+  let raw: any;
+  try {
+    raw = typeof value === 'string' ? JSON.parse(value) : value;
+  } catch (e) {
+    return { error: 'Items must be valid JSON' };
+  }
+
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { error: 'At least one item is required' };
+  }
+
+  const items: BillItem[] = [];
+  for (const item of raw) {
+    const amount = parseMinor(item?.amount);
+    const quantity = item?.quantity === undefined || item?.quantity === '' ? 1 : Number(item.quantity);
+
+    const rawShares: any[] = Array.isArray(item?.shares) && item.shares.length > 0
+      ? item.shares
+      : item?.userId ? [{ userId: item.userId }] : [];
+
+    if (rawShares.length === 0) {
+      return { error: 'Every item must be assigned to someone' };
+    }
+    if (amount === null || amount < 0) {
+      return { error: 'Item amounts must be whole numbers of minor units' };
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return { error: 'Item quantities must be whole numbers of at least 1' };
+    }
+
+    const shares: BillItemShare[] = [];
+    for (const share of rawShares) {
+      const weight = share?.weight === undefined || share?.weight === '' ? 1 : Number(share.weight);
+      if (!share?.userId) {
+        return { error: 'Every share must name a member' };
+      }
+      if (!Number.isFinite(weight) || weight <= 0) {
+        return { error: 'Share weights must be positive numbers' };
+      }
+      if (shares.some(s => s.userId === share.userId)) {
+        return { error: 'A member can only have one share of an item' };
+      }
+      shares.push({ userId: share.userId, weight });
+    }
+
+    items.push({
+      description: String(item.description || '').trim() || 'Item',
+      amount,
+      quantity,
+      shares
+    });
+  }
+
+  return { items };
+};
+
+// Everyone the items are for
+export const itemUserIds = (items: BillItem[]) => items.flatMap(item => item.shares.map(s => s.userId));
+
+// Nested create data for saving items with their shares
+export const createItemsData = (items: BillItem[]) => items.map(item => ({
+  description: item.description,
+  amount: item.amount,
+  quantity: item.quantity,
+  shares: {
+    create: item.shares.map(s => ({ userId: s.userId, weight: s.weight }))
+  }
+}));
+
+export type Charges = Parameters<typeof calculateCharges>[1];
+
+// Parse the subtotal charges are worked out on when it differs from the items'
+// (e.g. the receipt's). Blank means there is none.
+export const parseSubtotalOverride = (value: unknown): { value: number | null } | { error: string } => {
+  if (value === undefined || value === null || value === '') return { value: null };
+  const parsed = parseMinor(value);
+  if (parsed === null || parsed < 0) {
+    return { error: 'Subtotal must be a non-negative whole number of minor units' };
+  }
+  return { value: parsed };
+};
+
+// Totals and splits for a set of items. Everyone pays for their items plus a share
+// of the tax and of the service charge in proportion to their items. The charges
+// are worked out on subtotalOverride when there is one, otherwise on the items.
+// The splits are everyone's totals, so they add up to the bill's total exactly.
+export const calculateBill = (items: BillItem[], charges: Charges, subtotalOverride: number | null = null) => {
+  const itemTotals = sumItemsByUser(items);
+  const userIds = Object.keys(itemTotals);
+  const userSubtotals = userIds.map(id => itemTotals[id]);
+  const itemsSubtotal = userSubtotals.reduce((sum, val) => sum + val, 0);
+
+  const subtotal = subtotalOverride ?? itemsSubtotal;
+  const { tax, service } = calculateCharges(subtotal, charges);
+
+  const userTaxes = allocate(tax, userSubtotals);
+  const userServices = allocate(service, userSubtotals);
+  const breakdown = userIds.map((userId, idx) => ({
+    userId,
+    subtotal: userSubtotals[idx],
+    tax: userTaxes[idx],
+    service: userServices[idx],
+    total: userSubtotals[idx] + userTaxes[idx] + userServices[idx]
+  }));
+
+  return {
+    subtotal,
+    tax,
+    service,
+    total: itemsSubtotal + tax + service,
+    breakdown,
+    splits: breakdown.map(b => ({ userId: b.userId, amount: b.total }))
+  };
+};
+
+// Percentages are kept on the bill so edits recalculate the same way
+export const parsePercent = (value: unknown) => {
+  const parsed = parseFloat(value as string);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+// Tax and service that weren't entered fall back to what OCR read from the receipt
+export const withOcrCharges = (charges: Charges, draft: OcrDraft | null): Charges => {
+  if (!draft) return charges;
+  return {
+    ...charges,
+    taxAmount: isBlank(charges.taxAmount) && isBlank(charges.taxPercent) ? draft.taxAmount : charges.taxAmount,
+    serviceCharge: isBlank(charges.serviceCharge) && isBlank(charges.servicePercent) ? draft.serviceCharge : charges.serviceCharge
+  };
+};
+
+// What an edit can change on a bill besides the fields it shares with its expense
+export const BILL_FIELDS = ['items', 'taxAmount', 'taxPercent', 'serviceCharge', 'servicePercent', 'subtotalOverride'];
+
+export type SavedBill = Prisma.SplitBillGetPayload<{ include: { items: { include: { shares: true } } } }>;
+
+export interface BillValues {
+  items: BillItem[];
+  taxAmount: number;
+  taxPercent: number | null;
+  serviceCharge: number;
+  servicePercent: number | null;
+  subtotalOverride: number | null;
+}
+
+// A bill's items and charges as they appear in audit entries and change request diffs
+export const billSnapshot = (bill: BillValues) => ({
+  items: bill.items.map(item => ({
+    description: item.description,
+    amount: item.amount,
+    quantity: item.quantity,
+    shares: item.shares
+      .map(s => ({ userId: s.userId, weight: s.weight }))
+      .sort((a, b) => a.userId.localeCompare(b.userId))
+  })),
+  taxAmount: bill.taxAmount,
+  taxPercent: bill.taxPercent,
+  serviceCharge: bill.serviceCharge,
+  servicePercent: bill.servicePercent,
+  subtotalOverride: bill.subtotalOverride
+});
+
+// Check an edit to a saved bill and recalculate it. Items and charges that aren't
+// sent keep their saved values (a saved percentage wins, as when the bill was created).
+export const prepareBillEdit = (bill: SavedBill, input: Record<string, any>) => {
+  const parsed = input.items !== undefined ? parseBillItems(input.items) : { items: bill.items as BillItem[] };
+  if ('error' in parsed) return parsed;
+
+  const override = input.subtotalOverride !== undefined
+    ? parseSubtotalOverride(input.subtotalOverride)
+    : { value: bill.subtotalOverride };
+  if ('error' in override) return override;
+
+  const charges = {
+    taxAmount: input.taxAmount !== undefined ? input.taxAmount : bill.taxAmount,
+    taxPercent: input.taxPercent !== undefined ? input.taxPercent : bill.taxPercent,
+    serviceCharge: input.serviceCharge !== undefined ? input.serviceCharge : bill.serviceCharge,
+    servicePercent: input.servicePercent !== undefined ? input.servicePercent : bill.servicePercent
+  };
+  const calculated = calculateBill(parsed.items, charges, override.value);
+  if (calculated.total <= 0) {
+    return { error: 'The bill total must be greater than zero' };
+  }
+
+  const values: BillValues = {
+    items: parsed.items,
+    taxAmount: calculated.tax,
+    taxPercent: parsePercent(charges.taxPercent),
+    serviceCharge: calculated.service,
+    servicePercent: parsePercent(charges.servicePercent),
+    subtotalOverride: override.value
+  };
+  return { values, calculated };
+};
@@ -0,0 +1,213 @@
+import { Prisma } from '@prisma/client';
+import { addMonths, format, isValid, parse, subMonths } from 'date-fns';
+import { prisma } from '../index';
+import { getHouseholdConverter } from './currency';
+import { getHouseholdLedger } from './ledger';
+import { formatMinor } from './money';
+import { appUrl, isMailEnabled, sendMail } from './mail';
+import { emailRecipients } from './notifications';
+
+// Monthly statements: for one member of a household and one calendar month, the
+// splits they owe on other people's expenses, the payments they made and their
+// balance at the end of the month. Amounts are in the household's base currency.
+
+export interface StatementLine {
+  date: Date;
+  description: string;
+  counterparty: string;   // Who paid the expense, or who the payment went to
+  amount: number;
+}
+
+export interface Statement {
+  month: string;          // YYYY-MM
+  household: { id: string; name: string };
+  user: { id: string; displayName: string };
+  baseCurrency: string;
+  splits: StatementLine[];
+  splitsTotal: number;
+  payments: StatementLine[];
+  paymentsTotal: number;
+  closingBalance: number; // Positive = others owe you, negative = you owe others
+}
+
+const MONTH_FORMAT = 'yyyy-MM';
+
+// Start of a YYYY-MM month, or null when it isn't one
+export const parseMonth = (month: string) => {
+  if (!/^\d{4}-\d{2}$/.test(month)) return null;
+  const start = parse(month, MONTH_FORMAT, new Date());
+  return isValid(start) ? start : null;
+};
+
+// The last full month before the given date
+export const previousMonth = (date: Date = new Date()) => format(subMonths(date, 1), MONTH_FORMAT);
+
+export const buildStatement = async (householdId: string, userId: string, month: string): Promise<Statement> => {
+  const start = parseMonth(month);
+  if (!start) throw new Error(`Invalid month: ${month}`);
+  const end = addMonths(start, 1);
+  const inMonth = { gte: start, lt: end };
+
+  const [household, user, splits, payments, converter, ledger] = await Promise.all([
+    prisma.household.findUniqueOrThrow({ where: { id: householdId }, select: { id: true, name: true } }),
+    prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { id: true, displayName: true } }),
+    prisma.expenseSplit.findMany({
+      where: {
+        userId,
+        expense: { householdId, isDeleted: false, isDraft: false, userId: { not: userId }, date: inMonth }
+      },
+      select: {
+        amount: true,
+        expense: {
+          select: { description: true, date: true, currency: true, user: { select: { displayName: true } } }
+        }
+      },
+      orderBy: { expense: { date: 'asc' } }
+    }),
+    prisma.payment.findMany({
+      where: { householdId, fromUserId: userId, status: 'confirmed', isDeleted: false, date: inMonth },
+      select: {
+        amount: true,
+        currency: true,
+        date: true,
+        description: true,
+        toUser: { select: { displayName: true } }
+      },
+      orderBy: { date: 'asc' }
+    }),
+    getHouseholdConverter(householdId),
+    getHouseholdLedger(householdId, prisma, end)
+  ]);
+
+  const splitLines = splits.map(split => ({
+    date: split.expense.date,
+    description: split.expense.description,
+    counterparty: split.expense.user.displayName,
+    amount: converter.toBase(split.amount, split.expense.currency, split.expense.date)
+  }));
+
+  const paymentLines = payments.map(payment => ({
+    date: payment.date,
+    description: payment.description || 'Payment',
+    counterparty: payment.toUser.displayName,
+    amount: converter.toBase(payment.amount, payment.currency, payment.date)
+  }));
+
+  return {
+    month,
+    household,
+    user,
+    baseCurrency: converter.baseCurrency,
+    splits: splitLines,
+    splitsTotal: splitLines.reduce((sum, line) => sum + line.amount, 0),
+    payments: paymentLines,
+    paymentsTotal: paymentLines.reduce((sum, line) => sum + line.amount, 0),
+    closingBalance: ledger.totals(userId).net
+  };
+};
+
+// Nothing happened and nothing is outstanding, so there's nothing worth sending
+const isEmptyStatement = (statement: Statement) =>
+  statement.splits.length === 0 && statement.payments.length === 0 && statement.closingBalance === 0;
+
+// Plain-text email for a statement
+export const renderStatement = (statement: Statement) => {
+  const money = (amount: number) => `${statement.baseCurrency} ${formatMinor(amount, statement.baseCurrency)}`;
+  const monthName = format(parseMonth(statement.month)!, 'MMMM yyyy');
+  const line = (l: StatementLine, preposition: string) =>
+    `  ${format(l.date, 'dd MMM')}  ${l.description} (${preposition} ${l.counterparty})  ${money(l.amount)}`;
+
+  const closing = statement.closingBalance > 0
+    ? `You are owed ${money(statement.closingBalance)}`
+    : statement.closingBalance < 0
+      ? `You owe ${money(-statement.closingBalance)}`
+      : 'You are all settled up';
+  const link = appUrl('/');
+
+  const text = [
+    `Hi ${statement.user.displayName},`,
+    '',
+    `Here is your ${monthName} statement for ${statement.household.name}.`,
+    '',
+    'Splits you owe',
+    ...(statement.splits.length > 0 ? statement.splits.map(l => line(l, 'paid by')) : ['  None this month']),
+    `  Total: ${money(statement.splitsTotal)}`,
+    '',
+    'Payments you made',
+    ...(statement.payments.length > 0 ? statement.payments.map(l => line(l, 'to')) : ['  None this month']),
+    `  Total: ${money(statement.paymentsTotal)}`,
+    '',
+    `Closing balance on ${format(addMonths(parseMonth(statement.month)!, 1), 'd MMMM yyyy')}: ${closing}`,
+    ...(link ? ['', link] : []),
+    '',
+    'You can turn these emails off in your profile.'
+  ].join('\n');
+
+  return { subject: `Your ${monthName} statement for ${statement.household.name}`, text };
+};
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+export interface SendStatementsOptions {
+  householdId?: string;   // Only this household (default: every household)
+  userIds?: string[];     // Only these members
+  resend?: boolean;       // Send again to members who already got this month's statement
+}
+
+// Email a month's statements to every member who hasn't turned them off. Each member
+// is claimed in StatementDelivery before sending, so overlapping runs don't send twice;
+// the claim is released when sending fails so the next run tries again.
+export const sendStatements = async (month: string, options: SendStatementsOptions = {}) => {
+  const result = { sent: 0, skipped: 0, failed: 0 };
+  if (!isMailEnabled()) return result;
+
+  const households = options.householdId
+    ? [{ id: options.householdId }]
+    : await prisma.household.findMany({ select: { id: true } });
+
+  for (const household of households) {
+    const members = await prisma.householdMember.findMany({
+      where: {
+        householdId: household.id,
+        user: { isDeleted: false },
+        ...(options.userIds ? { userId: { in: options.userIds } } : {})
+      },
+      select: { userId: true }
+    });
+    const recipients = await emailRecipients(members.map(m => m.userId), 'monthly-statement');
+
+    for (const recipient of recipients) {
+      const key = { householdId: household.id, userId: recipient.id, month };
+
+      try {
+        if (options.resend) {
+          await prisma.statementDelivery.deleteMany({ where: key });
+        }
+        await prisma.statementDelivery.create({ data: key });
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          result.skipped++;
+          continue;
+        }
+        throw error;
+      }
+
+      const statement = await buildStatement(household.id, recipient.id, month);
+      if (isEmptyStatement(statement)) {
+        result.skipped++;
+        continue;
+      }
+
+      const sent = await sendMail({ to: recipient.email, ...renderStatement(statement) });
+      if (sent) {
+        result.sent++;
+      } else {
+        result.failed++;
+        await prisma.statementDelivery.deleteMany({ where: key });
+      }
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,162 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { CATEGORY_FIELDS, expenseSnapshot, PAYMENT_FIELDS, recordAudit, snapshot } from './audit';
+import { addDays, subDays } from 'date-fns';
+import { publish } from './events';
+
+// Deleted expenses, payments and categories stay in the trash (isDeleted) until they
+// are restored or purged. Each household chooses how long the trash keeps them.
+
+export type TrashType = 'expense' | 'payment' | 'category';
+
+export const TRASH_TYPES: TrashType[] = ['expense', 'payment', 'category'];
+
+// Days a deleted record is kept before it is purged; 0 keeps it until purged by hand
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const getRetentionDays = async (householdId: string) => {
+  const setting = await prisma.settings.findUnique({
+    where: { householdId_key: { householdId, key: 'trashRetentionDays' } }
+  });
+  const days = setting ? parseInt(setting.value, 10) : DEFAULT_TRASH_RETENTION_DAYS;
+  return Number.isInteger(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+// When a record deleted at `deletedAt` will be purged (null when the trash is kept)
+export const purgeDate = (deletedAt: Date | null, retentionDays: number) => {
+  if (!deletedAt || retentionDays === 0) return null;
+  return addDays(deletedAt, retentionDays);
+};
+
+// Move an expense or payment to the trash and log it against whoever deleted it.
+// A record that is already gone is skipped.
+export const moveToTrash = async (
+  tx: Prisma.TransactionClient,
+  householdId: string,
+  type: 'expense' | 'payment',
+  id: string,
+  actorId: string,
+  reason?: string | null
+) => {
+  if (type === 'expense') {
+    const expense = await tx.expense.findFirst({ where: { id, householdId, isDeleted: false }, include: { splits: true } });
+    if (!expense) return;
+
+    await tx.expense.update({ where: { id }, data: { isDeleted: true, deletedAt: new Date() } });
+    await recordAudit({
+      householdId,
+      actorId,
+      entityType: 'expense',
+      entityId: expense.id,
+      entityLabel: expense.description,
+      action: 'delete',
+      before: expenseSnapshot(expense),
+      reason
+    }, tx);
+  } else {
+    const payment = await tx.payment.findFirst({ where: { id, householdId, isDeleted: false } });
+    if (!payment) return;
+
+    await tx.payment.update({ where: { id }, data: { isDeleted: true, deletedAt: new Date() } });
+    await recordAudit({
+      householdId,
+      actorId,
+      entityType: 'payment',
+      entityId: payment.id,
+      entityLabel: payment.description || 'Payment',
+      action: 'delete',
+      before: snapshot(payment, PAYMENT_FIELDS),
+      reason
+    }, tx);
+  }
+};
+
+interface PurgeFilter {
+  before?: Date;      // Only records deleted before this
+  type?: TrashType;   // Only records of this type
+  id?: string;        // Only this record
+}
+
+// Permanently delete trashed records of a household (all of them unless filtered).
+// Each purge is written to the audit log.
+export const purgeHouseholdTrash = async (householdId: string, actorId: string | null, filter: PurgeFilter = {}) => {
+  const where = {
+    householdId,
+    isDeleted: true,
+    ...(filter.before ? { deletedAt: { lt: filter.before } } : {}),
+    ...(filter.id ? { id: filter.id } : {})
+  };
+  const wanted = (type: TrashType) => !filter.type || filter.type === type;
+
+  const [expenses, payments, categories] = await Promise.all([
+    wanted('expense') ? prisma.expense.findMany({ where, include: { splits: true } }) : [],
+    wanted('payment') ? prisma.payment.findMany({ where }) : [],
+    wanted('category') ? prisma.category.findMany({ where }) : []
+  ]);
+
+  for (const expense of expenses) {
+    await prisma.$transaction(async (tx) => {
+      await tx.expense.delete({ where: { id: expense.id } });
+      await recordAudit({
+        householdId,
+        actorId,
+        entityType: 'expense',
+        entityId: expense.id,
+        entityLabel: expense.description,
+        action: 'purge',
+        before: expenseSnapshot(expense)
+      }, tx);
+    });
+  }
+
+  for (const payment of payments) {
+    await prisma.$transaction(async (tx) => {
+      await tx.payment.delete({ where: { id: payment.id } });
+      await recordAudit({
+        householdId,
+        actorId,
+        entityType: 'payment',
+        entityId: payment.id,
+        entityLabel: payment.description || 'Payment',
+        action: 'purge',
+        before: snapshot(payment, PAYMENT_FIELDS)
+      }, tx);
+    });
+  }
+
+  // Expenses still in a purged category are left without one
+  for (const category of categories) {
+    await prisma.$transaction(async (tx) => {
+      await tx.category.delete({ where: { id: category.id } });
+      await recordAudit({
+        householdId,
+        actorId,
+        entityType: 'category',
+        entityId: category.id,
+        entityLabel: category.name,
+        action: 'purge',
+        before: snapshot(category, CATEGORY_FIELDS)
+      }, tx);
+    });
+  }
+
+  return { expenses: expenses.length, payments: payments.length, categories: categories.length };
+};
+
+// Purge everything past each household's retention period
+export const purgeExpiredTrash = async () => {
+  const households = await prisma.household.findMany({ select: { id: true } });
+
+  let purged = 0;
+  for (const { id } of households) {
+    const days = await getRetentionDays(id);
+    if (days === 0) continue;
+
+    const counts = await purgeHouseholdTrash(id, null, { before: subDays(new Date(), days) });
+    const count = counts.expenses + counts.payments + counts.categories;
+    if (count > 0) publish(id, ['trash']);
+    purged += count;
+  }
+
+  return purged;
+};
@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { prisma } from '../index';
+import { hashToken } from './authTokens';
+import { ADMIN_ROLES } from './permissions';
+
+// Optional TOTP two-factor authentication (RFC 6238: 6 digits, 30-second steps,
+// HMAC-SHA1, as every authenticator app expects), with single-use recovery codes
+// for a lost phone. Households can require it for their owners and treasurers.
+
+export const TWO_FACTOR_DEFAULTS: Record<string, string> = {
+  requireAdminTwoFactor: 'false',  // Owners and treasurers must turn on two-factor authentication before using the household
+};
+
+const ISSUER = 'Rumah Money Mate';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next code too, for clocks that are slightly off
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+// How long the second login step may take after the password was accepted
+const CHALLENGE_EXPIRES_IN: SignOptions['expiresIn'] = '5m';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+const currentStep = () => Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+// The code an authenticator shows for a secret during a 30-second step
+const totpCode = (secret: string, step: number) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+// The step a code belongs to, or null if it doesn't match any step near now
+const matchTotp = (secret: string, code: string) => {
+  const now = currentStep();
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    const expected = totpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+const normalizeCode = (code: unknown) =>
+  typeof code === 'string' ? code.replace(/[\s-]/g, '').toLowerCase() : '';
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+// What the user scans (or types) into their authenticator app
+export const describeTotpSecret = async (secret: string, accountName: string) => {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl)
+  };
+};
+
+// Check an authenticator code against a secret that isn't turned on yet (setup)
+export const checkTotpCode = (secret: string, code: unknown) => {
+  const digits = normalizeCode(code);
+  return digits.length === DIGITS ? matchTotp(secret, digits) : null;
+};
+
+// Check an authenticator code or a recovery code for a user with two-factor turned on.
+// Each code works once: an authenticator code must be newer than the last one used,
+// and a recovery code is marked used. Claims are conditional updates, so two
+// requests with the same code can't both succeed.
+export const verifySecondFactor = async (userId: string, code: unknown) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true }
+  });
+  if (!user?.totpSecret || !user.totpEnabledAt) {
+    return false;
+  }
+
+  const normalized = normalizeCode(code);
+
+  // Recovery codes are longer, so six digits can only be an authenticator code
+  if (normalized.length === DIGITS && /^\d+$/.test(normalized)) {
+    const step = checkTotpCode(user.totpSecret, normalized);
+    if (step === null) return false;
+
+    const claimed = await prisma.user.updateMany({
+      where: { id: userId, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+      data: { totpLastStep: step }
+    });
+    return claimed.count > 0;
+  }
+
+  if (!normalized) return false;
+  const claimed = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashToken(normalized), usedAt: null },
+    data: { usedAt: new Date() }
+  });
+  return claimed.count > 0;
+};
+
+// Replace a user's recovery codes. The codes are only ever shown here.
+export const issueRecoveryCodes = async (userId: string) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashToken(normalizeCode(code)) }))
+    })
+  ]);
+
+  return codes;
+};
+
+// Turning two-factor on: the first code proves the app was set up correctly
+export const enableTwoFactor = async (userId: string, step: number) => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpEnabledAt: new Date(), totpLastStep: step }
+  });
+  return issueRecoveryCodes(userId);
+};
+
+export const disableTwoFactor = (userId: string) =>
+  prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null }
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } })
+  ]);
+
+export const countRecoveryCodes = (userId: string) =>
+  prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+
+// Whether a household requires its admins to use two-factor authentication
+export const householdRequiresTwoFactor = async (householdId: string) => {
+  const setting = await prisma.settings.findUnique({
+    where: { householdId_key: { householdId, key: 'requireAdminTwoFactor' } }
+  });
+  return (setting?.value ?? TWO_FACTOR_DEFAULTS.requireAdminTwoFactor) === 'true';
+};
+
+// Households where the user is an admin (owner or treasurer) and two-factor is required
+export const householdsRequiringTwoFactor = async (userId: string) => {
+  const memberships = await prisma.householdMember.findMany({
+    where: {
+      userId,
+      role: { in: ADMIN_ROLES },
+      household: { settings: { some: { key: 'requireAdminTwoFactor', value: 'true' } } }
+    },
+    select: { household: { select: { id: true, name: true } } }
+  });
+  return memberships.map((membership) => membership.household);
+};
+
+// After the password is accepted, users with two-factor get a short-lived challenge
+// instead of a session. It is signed with the refresh secret, so it can never pass
+// as an access token, and it isn't stored, so it can't pass as a refresh token either.
+export const createLoginChallenge = (userId: string) =>
+  jwt.sign({ id: userId, purpose: 'two-factor' }, process.env.JWT_REFRESH_SECRET!, {
+    expiresIn: CHALLENGE_EXPIRES_IN
+  });
+
+// The user a login challenge was issued to, or null if it is invalid or expired
+export const readLoginChallenge = (challengeToken: unknown) => {
+  if (typeof challengeToken !== 'string') return null;
+  try {
+    const decoded = jwt.verify(challengeToken, process.env.JWT_REFRESH_SECRET!) as { id: string; purpose?: string };
+    return decoded.purpose === 'two-factor' ? decoded.id : null;
+  } catch (error) {
+    return null;
+  }
+};
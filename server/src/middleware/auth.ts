@@ -1,26 +1,45 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../index';
+import { householdRequiresTwoFactor } from '../lib/twoFactor';
+import { isSessionActive } from '../lib/sessions';
+import {
+  ADMIN_ROLES,
+  OwnablePermission,
+  Permission,
+  Role,
+  canActOn,
+  hasPermission,
+  isRole,
+  permissionsFor
+} from '../lib/permissions';
 
 export interface AuthRequest extends Request {
   user?: {
     id: string;
     username: string;
     email: string;
-    isAdmin: boolean;
+    role: Role | null;          // Role in the active household (null without one)
+    permissions: Permission[];  // What the role and any extra grants allow there
+    householdId: string;        // Active household for this request
+    sessionId: string;      // Login session the access token belongs to
   };
 }
 
-export const authenticateToken = async (
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-) => {
+// Header the client uses to pick which of the user's households a request targets
+export const HOUSEHOLD_HEADER = 'x-household-id';
+
+// All a user who must change their password can do until they have changed it
+const PASSWORD_CHANGE_PATHS = ['/api/auth/me', '/api/auth/logout', '/api/users/profile'];
+
+// Verify the access token and load the user (without resolving a household)
+const verifyUser = async (req: Request, res: Response) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
   if (!token) {
-    return res.status(401).json({ error: 'Access token required' });
+    res.status(401).json({ error: 'Access token required' });
+    return null;
   }
 
   try {
@@ -29,32 +48,147 @@ export const authenticateToken = async (
       username: string;
       email: string;
       isAdmin: boolean;
+      sid?: string;
     };
 
     // Verify user still exists
     const user = await prisma.user.findUnique({
       where: { id: decoded.id },
-      select: { id: true, username: true, email: true, isAdmin: true }
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        isDeleted: true,
+        mustChangePassword: true,
+        totpEnabledAt: true
+      }
     });
 
-    if (!user) {
-      return res.status(401).json({ error: 'User not found' });
+    if (!user || user.isDeleted) {
+      res.status(401).json({ error: 'User not found' });
+      return null;
+    }
+
+    // Signed out from this device, everywhere, or by a password reset
+    if (!(await isSessionActive(decoded.sid, user.id))) {
+      res.status(401).json({ error: 'Your session has ended. Please log in again.' });
+      return null;
     }
 
-    req.user = user;
-    next();
+    if (user.mustChangePassword && !PASSWORD_CHANGE_PATHS.includes(req.baseUrl + req.path)) {
+      res.status(403).json({ error: 'You must change your password first', code: 'PASSWORD_CHANGE_REQUIRED' });
+      return null;
+    }
+
+    return { ...user, sessionId: decoded.sid! };
   } catch (error) {
-    return res.status(403).json({ error: 'Invalid or expired token' });
+    res.status(403).json({ error: 'Invalid or expired token' });
+    return null;
   }
 };
 
-export const requireAdmin = (
+// Authenticate and resolve the active household (from the X-Household-Id header,
+// falling back to the household the user joined first)
+export const authenticateToken = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
-  if (!req.user?.isAdmin) {
-    return res.status(403).json({ error: 'Admin access required' });
+  const user = await verifyUser(req, res);
+  if (!user) return;
+
+  const requestedHouseholdId = req.headers[HOUSEHOLD_HEADER] as string | undefined;
+
+  const membership = await prisma.householdMember.findFirst({
+    where: {
+      userId: user.id,
+      ...(requestedHouseholdId ? { householdId: requestedHouseholdId } : {})
+    },
+    orderBy: { joinedAt: 'asc' }
+  });
+
+  if (!membership) {
+    return res.status(403).json({
+      error: requestedHouseholdId
+        ? 'You are not a member of this household'
+        : 'You are not a member of any household'
+    });
+  }
+
+  // Households can require their admins to use two-factor authentication. Setup lives
+  // under /api/auth, which doesn't need a household, so it stays reachable. A pending
+  // password change comes first (its allowlist already keeps everything else out).
+  if (
+    ADMIN_ROLES.includes(membership.role as Role) &&
+    !user.totpEnabledAt &&
+    !user.mustChangePassword &&
+    await householdRequiresTwoFactor(membership.householdId)
+  ) {
+    return res.status(403).json({
+      error: 'This household requires admins to use two-factor authentication. Turn it on first.',
+      code: 'TWO_FACTOR_SETUP_REQUIRED'
+    });
   }
+
+  req.user = {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: isRole(membership.role) ? membership.role : null,
+    permissions: permissionsFor(membership.role, membership.grants),
+    householdId: membership.householdId,
+    sessionId: user.sessionId
+  };
+  next();
+};
+
+// Authenticate without requiring a household (e.g. listing or creating households).
+// householdId is left empty and there are no household permissions.
+export const authenticateUser = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const user = await verifyUser(req, res);
+  if (!user) return;
+
+  req.user = {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: null,
+    permissions: [],
+    householdId: '',
+    sessionId: user.sessionId
+  };
   next();
 };
+
+// Refuse a request the member's permissions don't cover
+export const denyPermission = (res: Response, permission: string) =>
+  res.status(403).json({ error: 'You do not have permission to do this', code: 'PERMISSION_DENIED', permission });
+
+// Who owns the record a request is about, or null when there is no such record
+type OwnerLookup = (req: AuthRequest) => Promise<(string | null)[] | null>;
+
+// Enforce a permission after authenticateToken. authorize('settings.write') lets
+// members with that permission through. authorize('expense.edit', ownersOf) looks up
+// the record's owners and accepts expense.edit.any, or expense.edit.own for an owner;
+// a record the lookup can't find is left to the route to answer with 404.
+export const authorize = (permission: Permission | OwnablePermission, ownersOf?: OwnerLookup) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (ownersOf) {
+        const owners = await ownersOf(req);
+        if (owners === null || canActOn(req.user, permission as OwnablePermission, owners)) {
+          return next();
+        }
+      } else if (hasPermission(req.user, permission as Permission)) {
+        return next();
+      }
+
+      denyPermission(res, permission);
+    } catch (error) {
+      next(error);
+    }
+  };
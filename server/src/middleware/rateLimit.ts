@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRateLimitStore, rateLimitKey, RateLimitRule } from '../lib/rateLimit';
+import { recordSecurityEvent, waitTime } from '../lib/security';
+
+// Refuse requests over a rule's limit with 429 until its window ends. The first
+// refused request of each window goes into the security log.
+export const rateLimit = (rule: RateLimitRule) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = rateLimitKey(rule, req);
+      if (!key) return next();
+
+      const { count, resetAt } = await getRateLimitStore().hit(
+        `${rule.name}:${rule.per}:${key}`,
+        rule.windowMinutes * 60 * 1000
+      );
+      if (count <= rule.max) return next();
+
+      if (count === rule.max + 1) {
+        await recordSecurityEvent(req, {
+          type: 'rate-limited',
+          identifier: rule.per === 'account' ? key : null,
+          details: { limit: rule.name, per: rule.per, max: rule.max, windowMinutes: rule.windowMinutes }
+        });
+      }
+
+      const retryAfter = Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+      res.set('Retry-After', String(retryAfter));
+      res.status(429).json({
+        error: `Too many attempts. Please try again in ${waitTime(resetAt)}.`,
+        code: 'RATE_LIMITED',
+        retryAfter
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { AuditLog, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { authenticateToken, authorize, denyPermission, AuthRequest } from '../middleware/auth';
+import { hasPermission } from '../lib/permissions';
+import { AUDIT_ENTITIES, AuditEntity } from '../lib/audit';
+
+const router = Router();
+
+// History of these records is open to every member; the rest is for admins
+const MEMBER_ENTITIES: AuditEntity[] = ['expense', 'payment', 'recurring', 'category', 'exchangeRate'];
+
+const actorSelect = { id: true, username: true, displayName: true, avatarUrl: true };
+
+const formatEntry = (entry: AuditLog) => ({
+  ...entry,
+  changes: entry.changes ? JSON.parse(entry.changes) : {}
+});
+
+// Audit log of the active household, newest first (audit.read)
+router.get('/', authenticateToken, authorize('audit.read'), async (req: AuthRequest, res) => {
+  try {
+    const { entityType, entityId, actorId, action, startDate, endDate, page = '1', limit = '50' } = req.query;
+
+    const where: Prisma.AuditLogWhereInput = { householdId: req.user!.householdId };
+    if (entityType) where.entityType = entityType as string;
+    if (entityId) where.entityId = entityId as string;
+    if (actorId) where.actorId = actorId as string;
+    if (action) where.action = action as string;
+    if (startDate || endDate) {
+      where.createdAt = {};
+      if (startDate) where.createdAt.gte = new Date(startDate as string);
+      if (endDate) where.createdAt.lte = new Date(`${endDate}T23:59:59.999Z`);
+    }
+
+    const take = Math.min(parseInt(limit as string) || 50, 200);
+    const skip = (Math.max(parseInt(page as string) || 1, 1) - 1) * take;
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: { actor: { select: actorSelect } },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take
+      }),
+      prisma.auditLog.count({ where })
+    ]);
+
+    res.json({
+      entries: entries.map(formatEntry),
+      pagination: {
+        page: parseInt(page as string) || 1,
+        limit: take,
+        total,
+        pages: Math.ceil(total / take)
+      }
+    });
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    res.status(500).json({ error: 'Failed to get audit log' });
+  }
+});
+
+// History of a single record, oldest first
+router.get('/:entityType/:entityId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const entityType = req.params.entityType as AuditEntity;
+
+    if (!AUDIT_ENTITIES.includes(entityType)) {
+      return res.status(400).json({ error: 'Invalid record type' });
+    }
+    if (!MEMBER_ENTITIES.includes(entityType) && !hasPermission(req.user, 'audit.read')) {
+      return denyPermission(res, 'audit.read');
+    }
+
+    const entries = await prisma.auditLog.findMany({
+      where: {
+        householdId: req.user!.householdId,
+        entityType,
+        entityId: req.params.entityId
+      },
+      include: { actor: { select: actorSelect } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json(entries.map(formatEntry));
+  } catch (error) {
+    console.error('Get record history error:', error);
+    res.status(500).json({ error: 'Failed to get record history' });
+  }
+});
+
+export default router;
@@ -1,43 +1,97 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt, { SignOptions } from 'jsonwebtoken';
-import { v4 as uuidv4 } from 'uuid';
+import { User } from '@prisma/client';
 import { prisma } from '../index';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateUser, AuthRequest } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { RATE_LIMITS } from '../lib/rateLimit';
+import { clearFailedLogins, isLocked, lockedMessage, recordFailedLogin, recordSecurityEvent } from '../lib/security';
+import { createHousehold, getUserHouseholds } from '../lib/households';
+import { checkInvitation, joinWithInvitation, promoteInvitedOwner } from '../lib/invitations';
+import { isMailEnabled } from '../lib/mail';
+import {
+  MIN_PASSWORD_LENGTH,
+  consumeAuthToken,
+  sendPasswordResetEmail,
+  sendVerificationEmail
+} from '../lib/authTokens';
+import {
+  createLoginChallenge,
+  householdsRequiringTwoFactor,
+  readLoginChallenge,
+  verifySecondFactor
+} from '../lib/twoFactor';
+import { openSession, revokeAllSessions, rotateRefreshToken } from '../lib/sessions';
 
 const router = Router();
 
-// Generate tokens
-const generateTokens = (user: { id: string; username: string; email: string; isAdmin: boolean }) => {
-  const accessOptions: SignOptions = { expiresIn: '7d' };
-  const refreshOptions: SignOptions = { expiresIn: '365d' };
+// Log a user in once their password (and second factor, if they use one) was accepted
+const createSession = async (user: User, req: Request) => {
+  const { accessToken, refreshToken } = await openSession(user, req);
 
-  const accessToken = jwt.sign(
-    { id: user.id, username: user.username, email: user.email, isAdmin: user.isAdmin },
-    process.env.JWT_SECRET!,
-    accessOptions
-  );
+  return {
+    user: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      displayName: user.displayName,
+      isAdmin: user.isAdmin,
+      avatarUrl: user.avatarUrl,
+      emailVerified: user.emailVerifiedAt !== null,
+      mustChangePassword: user.mustChangePassword,
+      twoFactorEnabled: user.totpEnabledAt !== null,
+      mustEnableTwoFactor: !user.totpEnabledAt && (await householdsRequiringTwoFactor(user.id)).length > 0
+    },
+    households: await getUserHouseholds(user.id),
+    accessToken,
+    refreshToken
+  };
+};
 
-  const refreshToken = jwt.sign(
-    { id: user.id, tokenId: uuidv4() },
-    process.env.JWT_REFRESH_SECRET!,
-    refreshOptions
-  );
+// Preview an invitation before registering with it: ?code=
+router.get('/invitation', async (req, res) => {
+  try {
+    const check = await checkInvitation(req.query.code);
+    if ('error' in check) {
+      return res.status(404).json({ error: check.error });
+    }
 
-  return { accessToken, refreshToken };
-};
+    const { invitation } = check;
+    res.json({
+      household: invitation.household.name,
+      role: invitation.role,
+      email: invitation.email,
+      invitedBy: invitation.createdBy.displayName,
+      expiresAt: invitation.expiresAt
+    });
+  } catch (error) {
+    console.error('Preview invitation error:', error);
+    res.status(500).json({ error: 'Failed to get invitation' });
+  }
+});
 
-// Register
-router.post('/register', async (req, res) => {
+// Register. The first account starts the first household; everyone after that
+// needs an invitation, which decides the household they join and their role.
+router.post('/register', rateLimit(RATE_LIMITS.registerPerIp), async (req, res) => {
   try {
-    const { username, email, password, displayName, invitationKey } = req.body;
+    const { username, email, password, displayName, invitationCode } = req.body;
+
+    if (typeof username !== 'string' || !username.trim() || typeof email !== 'string' || !email.trim()) {
+      return res.status(400).json({ error: 'Username and email are required' });
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
 
-    // Validate invitation key
-    const isAdminKey = invitationKey === process.env.ADMIN_INVITATION_KEY;
-    const isUserKey = invitationKey === process.env.USER_INVITATION_KEY;
+    const isFirstAccount = (await prisma.user.count()) === 0;
 
-    if (!isAdminKey && !isUserKey) {
-      return res.status(400).json({ error: 'Invalid invitation key' });
+    let invitation = null;
+    if (!isFirstAccount) {
+      const check = await checkInvitation(invitationCode, email);
+      if ('error' in check) {
+        return res.status(400).json({ error: check.error });
+      }
+      invitation = check.invitation;
     }
 
     // Check if user exists
@@ -54,56 +108,61 @@ router.post('/register', async (req, res) => {
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 12);
 
-    // Create user
-    const user = await prisma.user.create({
-      data: {
-        username,
-        email,
-        password: hashedPassword,
-        displayName: displayName || username,
-        isAdmin: isAdminKey
-      }
-    });
+    const userData = {
+      username,
+      email,
+      password: hashedPassword,
+      displayName: displayName || username,
+      isAdmin: isFirstAccount
+    };
+
+    let user: User;
+    if (!invitation) {
+      user = await prisma.user.create({ data: userData });
+      await createHousehold('My House', user.id);
+    } else {
+      const invite = invitation;
+      const created = await prisma.$transaction(async (tx) => {
+        const newUser = await tx.user.create({ data: userData });
+        const joined = await joinWithInvitation(tx, invite, newUser, 'Registered with an invitation');
+        return joined ? newUser : null;
+      });
 
-    // Generate tokens
-    const { accessToken, refreshToken } = generateTokens({
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      isAdmin: user.isAdmin
-    });
+      if (!created) {
+        return res.status(400).json({ error: 'This invitation is invalid or has expired' });
+      }
+      user = created;
 
-    // Store refresh token
-    const expiresAt = new Date();
-    expiresAt.setFullYear(expiresAt.getFullYear() + 1);
+      await promoteInvitedOwner(invite, user.id);
+    }
 
-    await prisma.refreshToken.create({
-      data: {
-        token: refreshToken,
-        userId: user.id,
-        expiresAt
-      }
-    });
+    // Ask the new user to confirm their email address
+    const verificationSent = await sendVerificationEmail(user);
 
-    res.status(201).json({
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        displayName: user.displayName,
-        isAdmin: user.isAdmin
-      },
-      accessToken,
-      refreshToken
-    });
+    res.status(201).json({ ...(await createSession(user, req)), verificationSent });
   } catch (error) {
     console.error('Registration error:', error);
     res.status(500).json({ error: 'Registration failed' });
   }
 });
 
-// Login
-router.post('/login', async (req, res) => {
+// Refuse a login to a locked account, logging the attempt
+const refuseLocked = async (user: User, req: Request, res: Response) => {
+  await recordSecurityEvent(req, { type: 'login-blocked', userId: user.id });
+  res.status(423).json({ error: lockedMessage(user.lockedUntil!), code: 'ACCOUNT_LOCKED', lockedUntil: user.lockedUntil });
+};
+
+// Count a wrong password or code, answering with the lockout if this one locked the account
+const refuseFailed = async (user: User, req: Request, res: Response, type: 'login-failed' | 'two-factor-failed') => {
+  const lockedUntil = await recordFailedLogin(user, req, type);
+  if (lockedUntil) {
+    return res.status(423).json({ error: lockedMessage(lockedUntil), code: 'ACCOUNT_LOCKED', lockedUntil });
+  }
+  res.status(401).json({ error: type === 'two-factor-failed' ? 'Invalid code' : 'Invalid credentials' });
+};
+
+// Login. Limited per address and per account, and repeated wrong passwords lock the account.
+router.post('/login', rateLimit(RATE_LIMITS.loginPerIp), rateLimit(RATE_LIMITS.loginPerAccount), async (req, res) => {
   try {
     const { username, password } = req.body;
 
@@ -115,118 +174,218 @@ router.post('/login', async (req, res) => {
     });
 
     if (!user) {
+      await recordSecurityEvent(req, { type: 'login-failed', identifier: typeof username === 'string' ? username : null });
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
+    // A locked account isn't even checked, so guessing can't go on while it is locked
+    if (isLocked(user)) {
+      return refuseLocked(user, req, res);
+    }
+
     // Verify password
     const isValidPassword = await bcrypt.compare(password, user.password);
     if (!isValidPassword) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+      return refuseFailed(user, req, res, 'login-failed');
     }
 
-    // Generate tokens
-    const { accessToken, refreshToken } = generateTokens({
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      isAdmin: user.isAdmin
-    });
+    // With two-factor on, the password only earns a challenge for the second step
+    if (user.totpEnabledAt) {
+      return res.json({ twoFactorRequired: true, challengeToken: createLoginChallenge(user.id) });
+    }
 
-    // Store refresh token
-    const expiresAt = new Date();
-    expiresAt.setFullYear(expiresAt.getFullYear() + 1);
+    if (user.failedLoginCount > 0) {
+      await clearFailedLogins(user.id);
+    }
+    res.json(await createSession(user, req));
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
 
-    await prisma.refreshToken.create({
-      data: {
-        token: refreshToken,
-        userId: user.id,
-        expiresAt
-      }
-    });
+// Second login step: { challengeToken, code } with an authenticator or recovery code
+router.post('/login/two-factor', rateLimit(RATE_LIMITS.twoFactorPerIp), async (req, res) => {
+  try {
+    const { challengeToken, code } = req.body;
 
-    res.json({
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        displayName: user.displayName,
-        isAdmin: user.isAdmin,
-        avatarUrl: user.avatarUrl
-      },
-      accessToken,
-      refreshToken
-    });
+    const userId = readLoginChallenge(challengeToken);
+    if (!userId) {
+      return res.status(401).json({ error: 'Your login has expired. Please enter your password again.', code: 'LOGIN_EXPIRED' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user || !user.totpEnabledAt) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+    if (isLocked(user)) {
+      return refuseLocked(user, req, res);
+    }
+
+    // Wrong codes count toward the lockout like wrong passwords
+    if (!(await verifySecondFactor(user.id, code))) {
+      return refuseFailed(user, req, res, 'two-factor-failed');
+    }
+
+    if (user.failedLoginCount > 0) {
+      await clearFailedLogins(user.id);
+    }
+    res.json(await createSession(user, req));
   } catch (error) {
-    console.error('Login error:', error);
+    console.error('Two-factor login error:', error);
     res.status(500).json({ error: 'Login failed' });
   }
 });
 
-// Refresh token
-router.post('/refresh', async (req, res) => {
+// Swap a refresh token for new tokens. Each refresh token works once.
+router.post('/refresh', rateLimit(RATE_LIMITS.refreshPerIp), async (req, res) => {
   try {
     const { refreshToken } = req.body;
 
-    if (!refreshToken) {
+    if (typeof refreshToken !== 'string' || !refreshToken) {
       return res.status(401).json({ error: 'Refresh token required' });
     }
 
-    // Verify refresh token
-    const decoded = jwt.verify(refreshToken, process.env.JWT_REFRESH_SECRET!) as { id: string };
+    const tokens = await rotateRefreshToken(refreshToken, req);
+    if (!tokens) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+    if ('superseded' in tokens) {
+      return res.status(409).json({
+        error: 'This refresh token was just swapped by another request. Use the tokens it received.',
+        code: 'REFRESH_TOKEN_SUPERSEDED'
+      });
+    }
 
-    // Check if token exists in database
-    const storedToken = await prisma.refreshToken.findUnique({
-      where: { token: refreshToken },
-      include: { user: true }
-    });
+    res.json(tokens);
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(401).json({ error: 'Invalid refresh token' });
+  }
+});
 
-    if (!storedToken || storedToken.expiresAt < new Date()) {
-      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+// What the login and registration pages can offer (e.g. "forgot password" needs email)
+router.get('/options', (req, res) => {
+  res.json({ mailEnabled: isMailEnabled() });
+});
+
+// Email a password reset link. The answer is the same whether or not the address
+// belongs to an account, so this can't be used to find out who has one.
+router.post('/forgot-password', rateLimit(RATE_LIMITS.forgotPasswordPerIp), async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!isMailEnabled()) {
+      return res.status(400).json({ error: 'Email is not set up on this server. Ask an admin to reset your password.' });
+    }
+    if (typeof email !== 'string' || !email.trim()) {
+      return res.status(400).json({ error: 'Email is required' });
     }
 
-    // Generate new tokens
-    const { accessToken, refreshToken: newRefreshToken } = generateTokens({
-      id: storedToken.user.id,
-      username: storedToken.user.username,
-      email: storedToken.user.email,
-      isAdmin: storedToken.user.isAdmin
+    const user = await prisma.user.findFirst({
+      where: { email: email.trim(), isDeleted: false },
+      select: { id: true, email: true, displayName: true }
     });
+    if (user) {
+      await sendPasswordResetEmail(user);
+    }
 
-    // Delete old token and create new one
-    await prisma.refreshToken.delete({ where: { id: storedToken.id } });
+    res.json({ message: 'If that email belongs to an account, a reset link is on its way' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Failed to send the reset link' });
+  }
+});
 
-    const expiresAt = new Date();
-    expiresAt.setFullYear(expiresAt.getFullYear() + 1);
+// Choose a new password with a reset link: { token, newPassword }
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, newPassword } = req.body;
 
-    await prisma.refreshToken.create({
-      data: {
-        token: newRefreshToken,
-        userId: storedToken.user.id,
-        expiresAt
-      }
-    });
+    if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
 
-    res.json({
-      accessToken,
-      refreshToken: newRefreshToken
+    const result = await consumeAuthToken(token, 'password-reset');
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    // The link arrived by email, so the address is proven too and a lockout can
+    // end. Signing out everywhere else stops whoever may have known the old password.
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: result.user.id },
+        data: {
+          password: await bcrypt.hash(newPassword, 12),
+          mustChangePassword: false,
+          emailVerifiedAt: new Date(),
+          failedLoginCount: 0,
+          lastFailedLoginAt: null,
+          lockedUntil: null
+        }
+      }),
+      revokeAllSessions(result.user.id)
+    ]);
+
+    res.json({ message: 'Password changed. You can log in with your new password.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// Confirm an email address with a verification link: { token }
+router.post('/verify-email', async (req, res) => {
+  try {
+    const result = await consumeAuthToken(req.body.token, 'email-verification');
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    if (result.email !== result.user.email) {
+      return res.status(400).json({ error: 'This link was for an email address you have since changed' });
+    }
+
+    await prisma.user.update({
+      where: { id: result.user.id },
+      data: { emailVerifiedAt: new Date() }
     });
+
+    res.json({ message: 'Email verified' });
   } catch (error) {
-    console.error('Token refresh error:', error);
-    res.status(401).json({ error: 'Invalid refresh token' });
+    console.error('Verify email error:', error);
+    res.status(500).json({ error: 'Failed to verify email' });
   }
 });
 
-// Logout
-router.post('/logout', authenticateToken, async (req: AuthRequest, res) => {
+// Send a new verification link to your current address
+router.post('/resend-verification', authenticateUser, async (req: AuthRequest, res) => {
   try {
-    const { refreshToken } = req.body;
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { id: true, email: true, displayName: true, emailVerifiedAt: true }
+    });
 
-    if (refreshToken) {
-      await prisma.refreshToken.deleteMany({
-        where: { token: refreshToken }
-      });
+    if (user!.emailVerifiedAt) {
+      return res.status(400).json({ error: 'Your email is already verified' });
+    }
+    if (!(await sendVerificationEmail(user!))) {
+      return res.status(400).json({ error: 'Email is not set up on this server' });
     }
 
+    res.json({ message: `Verification link sent to ${user!.email}` });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ error: 'Failed to send verification link' });
+  }
+});
+
+// Logout: ends the session of this device
+router.post('/logout', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    await prisma.session.deleteMany({ where: { id: req.user!.sessionId } });
+
     res.json({ message: 'Logged out successfully' });
   } catch (error) {
     console.error('Logout error:', error);
@@ -235,7 +394,7 @@ router.post('/logout', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Get current user
-router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
+router.get('/me', authenticateUser, async (req: AuthRequest, res) => {
   try {
     const user = await prisma.user.findUnique({
       where: { id: req.user!.id },
@@ -250,11 +409,21 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
         bankAccountName: true,
         paymentQrImage: true,
         avatarUrl: true,
+        emailVerifiedAt: true,
+        mustChangePassword: true,
+        totpEnabledAt: true,
         createdAt: true
       }
     });
 
-    res.json(user);
+    const { emailVerifiedAt, totpEnabledAt, ...profile } = user!;
+    res.json({
+      ...profile,
+      emailVerified: emailVerifiedAt !== null,
+      twoFactorEnabled: totpEnabledAt !== null,
+      mustEnableTwoFactor: !totpEnabledAt && (await householdsRequiringTwoFactor(req.user!.id)).length > 0,
+      households: await getUserHouseholds(req.user!.id)
+    });
   } catch (error) {
     console.error('Get user error:', error);
     res.status(500).json({ error: 'Failed to get user info' });
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { prisma } from '../index';
-import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+import { CATEGORY_FIELDS, recordAudit, snapshot } from '../lib/audit';
 
 const router = Router();
 
@@ -8,6 +9,7 @@ const router = Router();
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const categories = await prisma.category.findMany({
+      where: { householdId: req.user!.householdId, isDeleted: false },
       orderBy: { name: 'asc' }
     });
     res.json(categories);
@@ -20,8 +22,8 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
 // Get category by ID
 router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const category = await prisma.category.findUnique({
-      where: { id: req.params.id }
+    const category = await prisma.category.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false }
     });
 
     if (!category) {
@@ -35,22 +37,36 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Create category (admin only)
-router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Create category (category.write)
+router.post('/', authenticateToken, authorize('category.write'), async (req: AuthRequest, res) => {
   try {
     const { name, icon, color } = req.body;
 
     // Check if category exists
     const existing = await prisma.category.findUnique({
-      where: { name }
+      where: { householdId_name: { householdId: req.user!.householdId, name } }
     });
 
     if (existing) {
-      return res.status(400).json({ error: 'Category already exists' });
+      return res.status(400).json({
+        error: existing.isDeleted
+          ? 'A category with this name is in the trash. Restore it instead.'
+          : 'Category already exists'
+      });
     }
 
     const category = await prisma.category.create({
-      data: { name, icon, color }
+      data: { name, icon, color, householdId: req.user!.householdId }
+    });
+
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'category',
+      entityId: category.id,
+      entityLabel: category.name,
+      action: 'create',
+      after: snapshot(category, CATEGORY_FIELDS)
     });
 
     res.status(201).json(category);
@@ -60,16 +76,50 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res)
   }
 });
 
-// Update category (admin only)
-router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Update category (category.write)
+router.put('/:id', authenticateToken, authorize('category.write'), async (req: AuthRequest, res) => {
   try {
     const { name, icon, color } = req.body;
 
+    const existing = await prisma.category.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    // Names stay unique in a household, trashed categories included
+    if (name !== undefined && name !== existing.name) {
+      const taken = await prisma.category.findUnique({
+        where: { householdId_name: { householdId: req.user!.householdId, name } }
+      });
+      if (taken) {
+        return res.status(409).json({
+          error: taken.isDeleted
+            ? 'A category with this name is in the trash. Restore or permanently delete it first.'
+            : 'Category already exists'
+        });
+      }
+    }
+
     const category = await prisma.category.update({
       where: { id: req.params.id },
       data: { name, icon, color }
     });
 
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'category',
+      entityId: category.id,
+      entityLabel: category.name,
+      action: 'update',
+      before: snapshot(existing, CATEGORY_FIELDS),
+      after: snapshot(category, CATEGORY_FIELDS),
+      reason: req.body.reason
+    });
+
     res.json(category);
   } catch (error) {
     console.error('Update category error:', error);
@@ -77,12 +127,13 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res
   }
 });
 
-// Delete category (admin only) - sets expenses to no category
-router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Delete category (category.write). It moves to the trash and its expenses keep it
+// until it is purged, when they are left without a category.
+router.delete('/:id', authenticateToken, authorize('category.write'), async (req: AuthRequest, res) => {
   try {
     // Check if it's a default category
-    const category = await prisma.category.findUnique({
-      where: { id: req.params.id }
+    const category = await prisma.category.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false }
     });
 
     if (!category) {
@@ -93,12 +144,23 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest,
       return res.status(400).json({ error: 'Cannot delete default category' });
     }
 
-    // Delete the category (expenses will be set to null due to onDelete: SetNull)
-    await prisma.category.delete({
-      where: { id: req.params.id }
+    await prisma.category.update({
+      where: { id: req.params.id },
+      data: { isDeleted: true, deletedAt: new Date() }
+    });
+
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'category',
+      entityId: category.id,
+      entityLabel: category.name,
+      action: 'delete',
+      before: snapshot(category, CATEGORY_FIELDS),
+      reason: req.body?.reason
     });
 
-    res.json({ message: 'Category deleted successfully' });
+    res.json({ message: 'Category moved to the trash' });
   } catch (error) {
     console.error('Delete category error:', error);
     res.status(500).json({ error: 'Failed to delete category' });
@@ -0,0 +1,360 @@
+import { Router, Response } from 'express';
+import { prisma } from '../index';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { canActOn, hasPermission } from '../lib/permissions';
+import { diffSnapshots, recordAudit } from '../lib/audit';
+import { applyEdit, EDIT_FIELDS, EDITABLE_TYPES, EditableType, editableOwners, findEditable, notifyEdit, prepareEdit } from '../lib/edits';
+import { announceRequest, castVote, describeRequest, getApprovalRule, getVoters, heldMessage, holdForApproval, prepareExecution, recordValue, tallyVotes } from '../lib/approvals';
+import { moveToTrash } from '../lib/trash';
+import { notify } from '../lib/notifications';
+
+const router = Router();
+
+const DELETABLE_TYPES = ['expense', 'payment'];
+
+// Keep only the proposed fields that can be edited on this type of record
+const pickEditFields = (type: EditableType, changes: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(changes).filter(([field]) => EDIT_FIELDS[type].includes(field)));
+
+const parseJson = (value: string | null) => (value ? JSON.parse(value) : null);
+
+// Get change requests (all of the household's for reviewers; others see their own
+// and the ones that need more than one approval)
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const where = hasPermission(req.user, 'changeRequest.review')
+      ? { householdId: req.user!.householdId }
+      : {
+          householdId: req.user!.householdId,
+          OR: [{ requestedById: req.user!.id }, { quorum: { not: '1' } }]
+        };
+
+    const requests = await prisma.changeRequest.findMany({
+      where,
+      include: {
+        requestedBy: {
+          select: { id: true, username: true, displayName: true, avatarUrl: true }
+        },
+        reviewedBy: {
+          select: { id: true, username: true, displayName: true }
+        },
+        votes: {
+          include: { voter: { select: { id: true, displayName: true } } },
+          orderBy: { createdAt: 'asc' }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+    const voters = await getVoters(req.user!.householdId);
+
+    // Fetch the actual records for each request
+    const enrichedRequests = await Promise.all(
+      requests.map(async (request) => {
+        let record = null;
+        if (request.recordType === 'expense') {
+          record = await prisma.expense.findUnique({
+            where: { id: request.recordId },
+            include: {
+              user: { select: { id: true, username: true, displayName: true } },
+              category: { select: { id: true, name: true, icon: true } }
+            }
+          });
+        } else if (request.recordType === 'payment') {
+          record = await prisma.payment.findUnique({
+            where: { id: request.recordId },
+            include: {
+              fromUser: { select: { id: true, username: true, displayName: true } },
+              toUser: { select: { id: true, username: true, displayName: true } }
+            }
+          });
+        } else if (request.recordType === 'recurring') {
+          record = await prisma.recurringExpense.findUnique({
+            where: { id: request.recordId },
+            include: {
+              user: { select: { id: true, username: true, displayName: true } }
+            }
+          });
+        } else if (request.recordType === 'user') {
+          record = await prisma.user.findUnique({
+            where: { id: request.recordId },
+            select: { id: true, username: true, displayName: true, isDeleted: true }
+          });
+        } else if (request.recordType === 'household' || request.recordType === 'settings') {
+          record = await prisma.household.findUnique({
+            where: { id: request.recordId },
+            select: { id: true, name: true }
+          });
+        }
+
+        const tally = tallyVotes(request, voters, request.votes);
+        const myVote = request.votes.find(v => v.voterId === req.user!.id);
+        const canVote = request.status === 'pending' && !myVote && tally.eligible.includes(req.user!.id);
+
+        // A request the member can vote on is checked against the household as it is now,
+        // so they see exactly what approving it would change (or why it no longer applies).
+        // Everyone else sees the changes as they were proposed.
+        let diff = parseJson(request.diff);
+        let problem: string | null = null;
+        if (canVote) {
+          const execution = await prepareExecution(request);
+          if ('error' in execution) {
+            problem = execution.error;
+          } else if (execution.diff) {
+            diff = execution.diff;
+          }
+        }
+
+        return {
+          ...request,
+          // The new password hash of a reset stays on the server
+          changes: request.action === 'reset-all-passwords' ? null : parseJson(request.changes),
+          diff,
+          problem,
+          record,
+          tally: {
+            approvals: tally.approvals,
+            rejections: tally.rejections,
+            required: tally.required,
+            eligible: tally.eligible.length,
+            canVote,
+            myVote: myVote ? myVote.approve : null
+          }
+        };
+      })
+    );
+
+    res.json(enrichedRequests);
+  } catch (error) {
+    console.error('Get change requests error:', error);
+    res.status(500).json({ error: 'Failed to fetch change requests' });
+  }
+});
+
+// Request to delete or edit a record (for records you may edit; with the .any permission
+// changes apply directly)
+router.post('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { recordType, recordId, action = 'delete', changes, reason } = req.body;
+    const householdId = req.user!.householdId;
+
+    if (!['delete', 'edit'].includes(action)) {
+      return res.status(400).json({ error: 'Invalid action' });
+    }
+
+    // Validate record type
+    const types = action === 'edit' ? EDITABLE_TYPES as string[] : DELETABLE_TYPES;
+    if (!types.includes(recordType)) {
+      return res.status(400).json({ error: 'Invalid record type' });
+    }
+
+    // Check if record exists and belongs to user
+    const record = await findEditable(recordType, householdId, recordId);
+    if (!record) {
+      return res.status(404).json({ error: 'Record not found' });
+    }
+    if (!canActOn(req.user, `${recordType as EditableType}.edit`, editableOwners(recordType, record))) {
+      return res.status(403).json({ error: `You can only request ${action === 'edit' ? 'changes to' : 'deletion of'} your own records` });
+    }
+    if (record.isLocked) {
+      return res.status(403).json({ error: 'This record is locked and cannot be changed. It is associated with a deleted user.' });
+    }
+
+    // Check for existing pending request
+    const existingRequest = await prisma.changeRequest.findFirst({
+      where: {
+        householdId,
+        recordType,
+        recordId,
+        status: 'pending'
+      }
+    });
+
+    if (existingRequest) {
+      return res.status(400).json({ error: 'A change request is already pending for this record' });
+    }
+
+    const appliesDirectly = hasPermission(req.user, `${recordType as EditableType}.edit.any`);
+
+    // Deletes of valuable records can need more than one approval
+    let quorum = '1';
+    if (action === 'delete') {
+      const value = await recordValue(householdId, record);
+
+      // Delete directly unless other approvals are needed
+      if (appliesDirectly) {
+        const held = await holdForApproval(householdId, req.user!.id, {
+          action, recordType, recordId, value, reason
+        });
+        if (held && 'error' in held) {
+          return res.status(400).json({ error: held.error });
+        }
+        if (held) {
+          return res.status(202).json({ message: heldMessage('Deleting this record', held), request: held.request });
+        }
+
+        await prisma.$transaction((tx) => moveToTrash(tx, householdId, recordType, recordId, req.user!.id, reason || null));
+        return res.json({ message: 'Record deleted successfully' });
+      }
+
+      quorum = await getApprovalRule(householdId, 'delete', value);
+    }
+
+    // An edit is checked now so mistakes show up before a reviewer sees it,
+    // and only the fields it actually changes are kept
+    let proposed: Record<string, unknown> | null = null;
+    let diff: Record<string, { from: unknown; to: unknown }> | null = null;
+    if (action === 'edit') {
+      if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+        return res.status(400).json({ error: 'Changes must be an object of field values' });
+      }
+
+      const fields = pickEditFields(recordType, changes);
+      const edit = await prepareEdit(recordType, householdId, record, fields);
+      if ('error' in edit) {
+        return res.status(400).json({ error: edit.error });
+      }
+
+      diff = diffSnapshots(edit.before, edit.after);
+      if (Object.keys(diff).length === 0) {
+        return res.status(400).json({ error: 'The proposed edit does not change anything' });
+      }
+      proposed = Object.fromEntries(Object.entries(fields).filter(([field]) => field in diff!));
+
+      // Apply directly
+      if (appliesDirectly) {
+        const applied = await prisma.$transaction((tx) => applyEdit(tx, recordType, householdId, record, edit, req.user!.id, reason || null));
+        await notifyEdit(recordType, householdId, applied, edit, req.user!.id);
+        return res.json({ message: 'Record updated successfully' });
+      }
+    }
+
+    // Otherwise it waits for review
+    const request = await prisma.changeRequest.create({
+      data: {
+        recordType,
+        recordId,
+        action,
+        changes: proposed ? JSON.stringify(proposed) : null,
+        diff: diff ? JSON.stringify(diff) : null,
+        reason,
+        quorum,
+        requestedById: req.user!.id,
+        householdId
+      },
+      include: {
+        requestedBy: {
+          select: { id: true, username: true, displayName: true }
+        }
+      }
+    });
+
+    await announceRequest(request);
+
+    res.status(201).json(request);
+  } catch (error) {
+    console.error('Create change request error:', error);
+    res.status(500).json({ error: 'Failed to create change request' });
+  }
+});
+
+// Vote on a change request with an optional comment. Reviewers decide single-approval
+// requests; the others wait until enough eligible members agree. The vote that
+// decides a request carries it out together with the request's new status.
+const vote = (approve: boolean) => async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { comment } = req.body;
+
+    const request = await prisma.changeRequest.findFirst({ where: { id, householdId: req.user!.householdId } });
+    if (!request) {
+      return res.status(404).json({ error: 'Change request not found' });
+    }
+
+    if (request.status !== 'pending') {
+      return res.status(400).json({ error: 'Request has already been processed' });
+    }
+
+    const result = await castVote(request, req.user!.id, approve, comment);
+    if ('error' in result) {
+      return res.status(result.status || 400).json({ error: result.error });
+    }
+
+    const { tally } = result;
+    const message = tally.outcome === 'approved' ? 'Change request approved'
+      : tally.outcome === 'rejected' ? 'Change request rejected'
+      : `Vote recorded. ${tally.approvals} of ${tally.required} approvals so far.`;
+
+    res.json({ message, request: result.request });
+  } catch (error) {
+    console.error(`${approve ? 'Approve' : 'Reject'} change request error:`, error);
+    res.status(500).json({ error: `Failed to ${approve ? 'approve' : 'reject'} change request` });
+  }
+};
+
+router.post('/:id/approve', authenticateToken, vote(true));
+router.post('/:id/reject', authenticateToken, vote(false));
+
+// Cancel a pending change request (your own, or any with changeRequest.review). The
+// request is kept as cancelled with who cancelled it, so its history stays complete.
+router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const request = await prisma.changeRequest.findFirst({ where: { id, householdId: req.user!.householdId } });
+    if (!request) {
+      return res.status(404).json({ error: 'Change request not found' });
+    }
+
+    if (request.requestedById !== req.user!.id && !hasPermission(req.user, 'changeRequest.review')) {
+      return res.status(403).json({ error: 'Not authorized to cancel this request' });
+    }
+
+    if (request.status !== 'pending') {
+      return res.status(400).json({ error: 'Cannot cancel processed request' });
+    }
+
+    const reason = req.body?.reason || null;
+    const cancelled = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.changeRequest.updateMany({
+        where: { id, status: 'pending' },
+        data: { status: 'cancelled', reviewedById: req.user!.id, reviewedAt: new Date(), reviewComment: reason }
+      });
+      if (claimed.count === 0) return false;
+
+      await recordAudit({
+        householdId: req.user!.householdId,
+        actorId: req.user!.id,
+        entityType: 'changeRequest',
+        entityId: id,
+        entityLabel: `Request to ${describeRequest(request)}`,
+        action: 'cancel',
+        before: { status: 'pending' },
+        after: { status: 'cancelled' },
+        reason
+      }, tx);
+      return true;
+    });
+    if (!cancelled) {
+      return res.status(400).json({ error: 'Cannot cancel processed request' });
+    }
+
+    // A reviewer cancelling someone else's request lets them know
+    if (request.requestedById !== req.user!.id) {
+      await notify(req.user!.householdId, [request.requestedById], {
+        type: 'change-request-decided',
+        title: 'Change request cancelled',
+        message: `Your request to ${describeRequest(request)} was cancelled${reason ? `: ${reason}` : ''}`,
+        link: '/actions',
+        entityType: 'changeRequest',
+        entityId: id
+      }, req.user!.id);
+    }
+
+    res.json({ message: 'Change request cancelled' });
+  } catch (error) {
+    console.error('Cancel change request error:', error);
+    res.status(500).json({ error: 'Failed to cancel change request' });
+  }
+});
+
+export default router;
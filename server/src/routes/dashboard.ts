@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { prisma } from '../index';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { getHouseholdLedger } from '../lib/ledger';
+import { planSettlement } from '../lib/settlement';
+import { CurrencyConverter, getHouseholdConverter } from '../lib/currency';
 
 const router = Router();
 
@@ -9,12 +12,12 @@ router.get('/date-range', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const [earliest, latest] = await Promise.all([
       prisma.expense.findFirst({
-        where: { isDeleted: false },
+        where: { householdId: req.user!.householdId, isDeleted: false },
         orderBy: { date: 'asc' },
         select: { date: true }
       }),
       prisma.expense.findFirst({
-        where: { isDeleted: false },
+        where: { householdId: req.user!.householdId, isDeleted: false },
         orderBy: { date: 'desc' },
         select: { date: true }
       })
@@ -37,6 +40,23 @@ router.get('/date-range', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// Total and count per key, with amounts converted to the household's base currency
+function sumByKey<T extends { amount: number; currency: string; date: Date }, K>(
+  records: T[],
+  keyOf: (record: T) => K,
+  converter: CurrencyConverter
+) {
+  const groups = new Map<K, { total: number; count: number }>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const group = groups.get(key) || { total: 0, count: 0 };
+    group.total += converter.toBase(record.amount, record.currency, record.date);
+    group.count++;
+    groups.set(key, group);
+  }
+  return groups;
+}
+
 // Helper to get start date based on period
 function getStartDateForPeriod(period: string, startMonth?: string, startYear?: string): Date {
   const now = new Date();
@@ -98,25 +118,28 @@ router.get('/summary', authenticateToken, async (req: AuthRequest, res) => {
     const startDate = getStartDateForPeriod(period as string, startMonth as string, startYear as string);
     const endDate = getEndDateForPeriod(period as string, endMonth as string, endYear as string);
 
+    // Drafts (variable bills awaiting their amount) only count once confirmed
     const where: any = {
-      date: { gte: startDate, lte: endDate }
+      householdId: req.user!.householdId,
+      date: { gte: startDate, lte: endDate },
+      isDeleted: false,
+      isDraft: false
     };
     if (userId) where.userId = userId;
 
-    // Get total expenses
-    const totalExpenses = await prisma.expense.aggregate({
+    const converter = await getHouseholdConverter(req.user!.householdId);
+    const amountSelect = { amount: true, currency: true, date: true };
+
+    // Get expenses in range (totals are converted to the base currency)
+    const expensesInRange = await prisma.expense.findMany({
       where,
-      _sum: { amount: true },
-      _count: true
+      select: { ...amountSelect, categoryId: true }
     });
+    const totalAmount = converter.sum(expensesInRange);
 
     // Get expenses by category
-    const expensesByCategory = await prisma.expense.groupBy({
-      by: ['categoryId'],
-      where,
-      _sum: { amount: true },
-      _count: true
-    });
+    const expensesByCategory = [...sumByKey(expensesInRange, e => e.categoryId, converter)]
+      .map(([categoryId, group]) => ({ categoryId, ...group }));
 
     // Get category details
     const categoryIds = expensesByCategory.map(e => e.categoryId).filter(Boolean) as string[];
@@ -127,17 +150,17 @@ router.get('/summary', authenticateToken, async (req: AuthRequest, res) => {
 
     const categoryBreakdown = expensesByCategory.map(e => ({
       category: e.categoryId ? categoryMap.get(e.categoryId) : { id: null, name: 'No Category', icon: '❓', color: '#666' },
-      total: e._sum.amount || 0,
-      count: e._count
+      total: e.total,
+      count: e.count
     }));
 
     // Get expenses by user
-    const expensesByUser = await prisma.expense.groupBy({
-      by: ['userId'],
-      where: { date: { gte: startDate } },
-      _sum: { amount: true },
-      _count: true
+    const expensesSinceStart = await prisma.expense.findMany({
+      where: { householdId: req.user!.householdId, date: { gte: startDate }, isDeleted: false, isDraft: false },
+      select: { ...amountSelect, userId: true }
     });
+    const expensesByUser = [...sumByKey(expensesSinceStart, e => e.userId, converter)]
+      .map(([userId, group]) => ({ userId, ...group }));
 
     const userIds = expensesByUser.map(e => e.userId);
     const users = await prisma.user.findMany({
@@ -148,8 +171,8 @@ router.get('/summary', authenticateToken, async (req: AuthRequest, res) => {
 
     const userBreakdown = expensesByUser.map(e => ({
       user: userMap.get(e.userId),
-      total: e._sum.amount || 0,
-      count: e._count
+      total: e.total,
+      count: e.count
     }));
 
     // Get recent expenses
@@ -165,13 +188,14 @@ router.get('/summary', authenticateToken, async (req: AuthRequest, res) => {
 
     // Get pending payments count
     const pendingPayments = await prisma.payment.count({
-      where: { status: 'pending' }
+      where: { householdId: req.user!.householdId, status: 'pending', isDeleted: false }
     });
 
     res.json({
       period,
-      totalAmount: totalExpenses._sum.amount || 0,
-      totalCount: totalExpenses._count,
+      baseCurrency: converter.baseCurrency,
+      totalAmount,
+      totalCount: expensesInRange.length,
       categoryBreakdown,
       userBreakdown,
       recentExpenses,
@@ -208,13 +232,17 @@ router.get('/expense-trend', authenticateToken, async (req: AuthRequest, res) =>
       categoryFilter = [categoryId as string];
     }
 
+    const converter = await getHouseholdConverter(req.user!.householdId);
+
     for (let i = 0; i < numMonths; i++) {
       const date = new Date(baseDate.getFullYear(), baseDate.getMonth() + i, 1);
       const monthEndDate = new Date(date.getFullYear(), date.getMonth() + 1, 0);
 
       const where: any = {
+        householdId: req.user!.householdId,
         date: { gte: date, lte: monthEndDate },
-        isDeleted: false
+        isDeleted: false,
+        isDraft: false
       };
       
       // Handle category filtering
@@ -240,15 +268,15 @@ router.get('/expense-trend', authenticateToken, async (req: AuthRequest, res) =>
       
       if (userId) where.userId = userId;
 
-      const result = await prisma.expense.aggregate({
+      const result = await prisma.expense.findMany({
         where,
-        _sum: { amount: true }
+        select: { amount: true, currency: true, date: true }
       });
 
       months.push({
         month: date.toLocaleString('default', { month: 'short' }),
         year: date.getFullYear(),
-        amount: result._sum.amount || 0
+        amount: converter.sum(result)
       });
     }
 
@@ -277,12 +305,13 @@ router.get('/utilities-trend', authenticateToken, async (req: AuthRequest, res)
 
     // Find Water and Electricity categories
     const waterCategory = await prisma.category.findFirst({
-      where: { name: 'Water' }
+      where: { householdId: req.user!.householdId, name: 'Water', isDeleted: false }
     });
     const electricityCategory = await prisma.category.findFirst({
-      where: { name: 'Electricity' }
+      where: { householdId: req.user!.householdId, name: 'Electricity', isDeleted: false }
     });
 
+    const converter = await getHouseholdConverter(req.user!.householdId);
     const data = [];
 
     for (let i = 0; i < numMonths; i++) {
@@ -296,9 +325,9 @@ router.get('/utilities-trend', authenticateToken, async (req: AuthRequest, res)
       let waterUsage = 0;
       if (waterCategory) {
         const waterExpenses = await prisma.expense.findMany({
-          where: { categoryId: waterCategory.id, date: dateFilter }
+          where: { categoryId: waterCategory.id, date: dateFilter, isDeleted: false, isDraft: false }
         });
-        waterAmount = waterExpenses.reduce((sum, e) => sum + e.amount, 0);
+        waterAmount = converter.sum(waterExpenses);
         waterUsage = waterExpenses.reduce((sum, e) => sum + (e.usage || 0), 0);
       }
 
@@ -307,9 +336,9 @@ router.get('/utilities-trend', authenticateToken, async (req: AuthRequest, res)
       let electricityUsage = 0;
       if (electricityCategory) {
         const electricityExpenses = await prisma.expense.findMany({
-          where: { categoryId: electricityCategory.id, date: dateFilter }
+          where: { categoryId: electricityCategory.id, date: dateFilter, isDeleted: false, isDraft: false }
         });
-        electricityAmount = electricityExpenses.reduce((sum, e) => sum + e.amount, 0);
+        electricityAmount = converter.sum(electricityExpenses);
         electricityUsage = electricityExpenses.reduce((sum, e) => sum + (e.usage || 0), 0);
       }
 
@@ -350,33 +379,38 @@ router.get('/comparison', authenticateToken, async (req: AuthRequest, res) => {
         startDate = new Date(now.getFullYear(), now.getMonth(), 1);
     }
 
+    const householdId = req.user!.householdId;
+
     const users = await prisma.user.findMany({
+      where: { householdMembers: { some: { householdId } } },
       select: { id: true, displayName: true, avatarUrl: true }
     });
 
+    const converter = await getHouseholdConverter(householdId);
+    const amountSelect = { amount: true, currency: true, date: true };
+
     const comparison = await Promise.all(users.map(async (user) => {
       const [expenses, paymentsMade, paymentsReceived] = await Promise.all([
-        prisma.expense.aggregate({
-          where: { userId: user.id, date: { gte: startDate } },
-          _sum: { amount: true },
-          _count: true
+        prisma.expense.findMany({
+          where: { householdId, userId: user.id, date: { gte: startDate }, isDeleted: false, isDraft: false },
+          select: amountSelect
         }),
-        prisma.payment.aggregate({
-          where: { fromUserId: user.id, status: 'confirmed', date: { gte: startDate } },
-          _sum: { amount: true }
+        prisma.payment.findMany({
+          where: { householdId, fromUserId: user.id, status: 'confirmed', isDeleted: false, date: { gte: startDate } },
+          select: amountSelect
         }),
-        prisma.payment.aggregate({
-          where: { toUserId: user.id, status: 'confirmed', date: { gte: startDate } },
-          _sum: { amount: true }
+        prisma.payment.findMany({
+          where: { householdId, toUserId: user.id, status: 'confirmed', isDeleted: false, date: { gte: startDate } },
+          select: amountSelect
         })
       ]);
 
       return {
         user,
-        totalExpenses: expenses._sum.amount || 0,
-        expenseCount: expenses._count,
-        paymentsMade: paymentsMade._sum.amount || 0,
-        paymentsReceived: paymentsReceived._sum.amount || 0
+        totalExpenses: converter.sum(expenses),
+        expenseCount: expenses.length,
+        paymentsMade: converter.sum(paymentsMade),
+        paymentsReceived: converter.sum(paymentsReceived)
       };
     }));
 
@@ -395,27 +429,30 @@ router.get('/category-trend', authenticateToken, async (req: AuthRequest, res) =
     const trend = [];
     const now = new Date();
     const numMonths = parseInt(months as string);
+    const converter = await getHouseholdConverter(req.user!.householdId);
 
     for (let i = numMonths - 1; i >= 0; i--) {
       const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
       const endDate = new Date(date.getFullYear(), date.getMonth() + 1, 0);
 
       const where: any = {
-        date: { gte: date, lte: endDate }
+        householdId: req.user!.householdId,
+        date: { gte: date, lte: endDate },
+        isDeleted: false,
+        isDraft: false
       };
       if (categoryId) where.categoryId = categoryId;
 
-      const result = await prisma.expense.aggregate({
+      const result = await prisma.expense.findMany({
         where,
-        _sum: { amount: true },
-        _count: true
+        select: { amount: true, currency: true, date: true }
       });
 
       trend.push({
         month: date.toLocaleString('default', { month: 'short' }),
         year: date.getFullYear(),
-        amount: result._sum.amount || 0,
-        count: result._count
+        amount: converter.sum(result),
+        count: result.length
       });
     }
 
@@ -446,118 +483,92 @@ router.get('/top-expenses', authenticateToken, async (req: AuthRequest, res) =>
         startDate = new Date(now.getFullYear(), now.getMonth(), 1);
     }
 
-    const expenses = await prisma.expense.findMany({
-      where: { date: { gte: startDate } },
+    const [expenses, converter] = await Promise.all([
+      prisma.expense.findMany({
+        where: { householdId: req.user!.householdId, date: { gte: startDate }, isDeleted: false, isDraft: false },
+        include: {
+          user: { select: { id: true, displayName: true, avatarUrl: true } },
+          category: { select: { id: true, name: true, icon: true, color: true } }
+        }
+      }),
+      getHouseholdConverter(req.user!.householdId)
+    ]);
+
+    // Rank by the amount in the base currency (records keep their original amount)
+    const ranked = expenses
+      .map(e => ({ ...e, baseAmount: converter.toBase(e.amount, e.currency, e.date) }))
+      .sort((a, b) => b.baseAmount - a.baseAmount)
+      .slice(0, parseInt(limit as string));
+
+    res.json(ranked);
+  } catch (error) {
+    console.error('Get top expenses error:', error);
+    res.status(500).json({ error: 'Failed to get top expenses' });
+  }
+});
+
+// Outstanding drafts: variable recurring bills waiting for their actual amount
+router.get('/drafts', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const drafts = await prisma.expense.findMany({
+      where: { householdId: req.user!.householdId, isDraft: true, isDeleted: false },
       include: {
         user: { select: { id: true, displayName: true, avatarUrl: true } },
-        category: { select: { id: true, name: true, icon: true, color: true } }
+        category: { select: { id: true, name: true, icon: true, color: true } },
+        recurringExpense: { select: { id: true, description: true } }
       },
-      orderBy: { amount: 'desc' },
-      take: parseInt(limit as string)
+      orderBy: { date: 'asc' }
     });
 
-    res.json(expenses);
+    res.json(drafts);
   } catch (error) {
-    console.error('Get top expenses error:', error);
-    res.status(500).json({ error: 'Failed to get top expenses' });
+    console.error('Get drafts error:', error);
+    res.status(500).json({ error: 'Failed to get outstanding drafts' });
   }
 });
 
-// Get who owes who summary based on expenses and payments
+// Get who owes who summary based on expense splits and payments
 router.get('/balances', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    // Get all users
+    const householdId = req.user!.householdId;
+
+    // Get all household members
     const users = await prisma.user.findMany({
+      where: { householdMembers: { some: { householdId } } },
       select: { id: true, username: true, displayName: true, avatarUrl: true }
     });
 
-    // Get all confirmed payments
-    const payments = await prisma.payment.findMany({
-      where: { status: 'confirmed' },
-      select: { fromUserId: true, toUserId: true, amount: true }
-    });
-
-    // Get total expenses per user
-    const expensesByUser = await prisma.expense.groupBy({
-      by: ['userId'],
-      _sum: { amount: true }
-    });
+    const ledger = await getHouseholdLedger(householdId);
 
-    const totalExpenses = expensesByUser.reduce((sum, e) => sum + (e._sum.amount || 0), 0);
+    const totalExpenses = users.reduce((sum, u) => sum + ledger.totals(u.id).spent, 0);
     const memberCount = users.length;
-    const fairShare = memberCount > 0 ? totalExpenses / memberCount : 0;
-
-    // Calculate each user's expense total
-    const userExpenses: { [key: string]: number } = {};
-    expensesByUser.forEach(e => {
-      userExpenses[e.userId] = e._sum.amount || 0;
-    });
-
-    // Calculate net balance for each user (positive = they've paid more than fair share)
-    const userBalances: { [key: string]: number } = {};
-    users.forEach(u => {
-      const spent = userExpenses[u.id] || 0;
-      userBalances[u.id] = spent - fairShare;
-    });
-
-    // Adjust for payments already made
-    payments.forEach(p => {
-      userBalances[p.fromUserId] = (userBalances[p.fromUserId] || 0) + p.amount;
-      userBalances[p.toUserId] = (userBalances[p.toUserId] || 0) - p.amount;
-    });
-
-    // Calculate who owes who
-    const debts: Array<{
-      from: typeof users[0];
-      to: typeof users[0];
-      amount: number;
-    }> = [];
-
-    // Create sorted lists of creditors and debtors
-    const creditors = users
-      .filter(u => userBalances[u.id] > 0.01)
-      .map(u => ({ user: u, amount: userBalances[u.id] }))
-      .sort((a, b) => b.amount - a.amount);
-
-    const debtors = users
-      .filter(u => userBalances[u.id] < -0.01)
-      .map(u => ({ user: u, amount: -userBalances[u.id] }))
-      .sort((a, b) => b.amount - a.amount);
-
-    // Simple debt settlement algorithm
-    let i = 0, j = 0;
-    while (i < debtors.length && j < creditors.length) {
-      const debtor = debtors[i];
-      const creditor = creditors[j];
-      const amount = Math.min(debtor.amount, creditor.amount);
-
-      if (amount > 0.01) {
-        debts.push({
-          from: debtor.user,
-          to: creditor.user,
-          amount: Math.round(amount * 100) / 100
-        });
-      }
-
-      debtor.amount -= amount;
-      creditor.amount -= amount;
-
-      if (debtor.amount < 0.01) i++;
-      if (creditor.amount < 0.01) j++;
-    }
+    // Average per member, for display only
+    const fairShare = memberCount > 0 ? Math.round(totalExpenses / memberCount) : 0;
+
+    // Who owes who, using the fewest transfers that settle everyone
+    const usersById = new Map(users.map(u => [u.id, u]));
+    const debts = planSettlement(ledger, users.map(u => u.id), 'minimal')
+      .map(d => ({
+        from: usersById.get(d.fromUserId)!,
+        to: usersById.get(d.toUserId)!,
+        amount: d.amount
+      }));
 
     // User summary
-    const userSummary = users.map(u => ({
-      user: u,
-      totalExpenses: userExpenses[u.id] || 0,
-      fairShare,
-      netBalance: Math.round(userBalances[u.id] * 100) / 100,
-      status: userBalances[u.id] > 0.01 ? 'owed' : userBalances[u.id] < -0.01 ? 'owes' : 'settled'
-    }));
+    const userSummary = users.map(u => {
+      const totals = ledger.totals(u.id);
+      return {
+        user: u,
+        totalExpenses: totals.spent,
+        fairShare: totals.share,
+        netBalance: totals.net,
+        status: totals.net > 0 ? 'owed' : totals.net < 0 ? 'owes' : 'settled'
+      };
+    });
 
     res.json({
       totalExpenses,
-      fairShare: Math.round(fairShare * 100) / 100,
+      fairShare,
       memberCount,
       debts,
       userSummary
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { prisma } from '../index';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { createStreamTicket, readStreamTicket, StreamTicket, subscribe } from '../lib/events';
+import { isSessionActive } from '../lib/sessions';
+
+const router = Router();
+
+// How often a comment is sent to keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+// Whether a ticket's session is still signed in and its user still a member of the household
+const canStream = async (ticket: StreamTicket) => {
+  const membership = await prisma.householdMember.findUnique({
+    where: { householdId_userId: { householdId: ticket.householdId, userId: ticket.userId } },
+    select: { user: { select: { isDeleted: true } } }
+  });
+  return !!membership && !membership.user.isDeleted && (await isSessionActive(ticket.sessionId, ticket.userId));
+};
+
+// A ticket to open the event stream of the active household with
+router.post('/ticket', authenticateToken, (req: AuthRequest, res) => {
+  res.json({
+    ticket: createStreamTicket({
+      userId: req.user!.id,
+      sessionId: req.user!.sessionId,
+      householdId: req.user!.householdId
+    })
+  });
+});
+
+// Stream change events for a ticket's household (Server-Sent Events)
+router.get('/', async (req, res) => {
+  try {
+    const ticket = readStreamTicket(req.query.ticket);
+    if (!ticket) {
+      return res.status(401).json({ error: 'Invalid or expired stream ticket' });
+    }
+
+    // The session and membership may have ended since the ticket was issued
+    if (!(await canStream(ticket))) {
+      return res.status(401).json({ error: 'Your session has ended. Please log in again.' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'  // Don't let nginx buffer the stream
+    });
+    res.write('retry: 5000\n\n');
+
+    const unsubscribe = subscribe(ticket.householdId, ticket.userId, res);
+    const stop = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    // The stream is closed at the next heartbeat once the member logs out, has the
+    // session revoked or their password reset, or is removed from the household
+    const heartbeat = setInterval(async () => {
+      try {
+        if (await canStream(ticket)) {
+          res.write(': ping\n\n');
+          return;
+        }
+      } catch (error) {
+        console.error('Event stream check error:', error);
+      }
+      stop();
+      res.end();
+    }, HEARTBEAT_MS);
+
+    req.on('close', stop);
+  } catch (error) {
+    console.error('Open event stream error:', error);
+    res.status(500).json({ error: 'Failed to open event stream' });
+  }
+});
+
+export default router;
@@ -0,0 +1,272 @@
+import { Router } from 'express';
+import { prisma } from '../index';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+import { DEFAULT_BASE_CURRENCY, normalizeCurrency } from '../lib/currency';
+import { EXCHANGE_RATE_FIELDS, recordAudit, snapshot } from '../lib/audit';
+
+const router = Router();
+
+const getBaseCurrency = async (householdId: string) => {
+  const household = await prisma.household.findUnique({
+    where: { id: householdId },
+    select: { baseCurrency: true }
+  });
+  return household?.baseCurrency || DEFAULT_BASE_CURRENCY;
+};
+
+// Validate a rate entry. The effective date is a calendar day (YYYY-MM-DD).
+const parseRate = (
+  input: { currency?: unknown; rate?: unknown; effectiveDate?: unknown },
+  baseCurrency: string
+): { error: string } | { currency: string; rate: number; effectiveDate: Date } => {
+  const currency = normalizeCurrency(input.currency);
+  if (!currency) {
+    return { error: 'Currency must be a valid ISO 4217 code (e.g. USD)' };
+  }
+  if (currency === baseCurrency) {
+    return { error: `${currency} is the base currency and does not need a rate` };
+  }
+
+  const rate = Number(input.rate);
+  if (!Number.isFinite(rate) || rate <= 0) {
+    return { error: 'Rate must be a positive number' };
+  }
+
+  const day = String(input.effectiveDate ?? '').trim();
+  const effectiveDate = new Date(day);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || isNaN(effectiveDate.getTime())) {
+    return { error: 'Effective date must be a date in YYYY-MM-DD format' };
+  }
+
+  return { currency, rate, effectiveDate };
+};
+
+// List exchange rates for the active household (?currency= to filter)
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { currency } = req.query;
+    const householdId = req.user!.householdId;
+
+    const where: any = { householdId };
+    if (currency) where.currency = String(currency).toUpperCase();
+
+    const [baseCurrency, rates] = await Promise.all([
+      getBaseCurrency(householdId),
+      prisma.exchangeRate.findMany({
+        where,
+        orderBy: [{ currency: 'asc' }, { effectiveDate: 'desc' }]
+      })
+    ]);
+
+    res.json({ baseCurrency, rates });
+  } catch (error) {
+    console.error('Get exchange rates error:', error);
+    res.status(500).json({ error: 'Failed to get exchange rates' });
+  }
+});
+
+// Save a rate, replacing the rate for the same currency and day, and log the change
+const saveRate = async (
+  req: AuthRequest,
+  { currency, rate, effectiveDate }: { currency: string; rate: number; effectiveDate: Date }
+) => {
+  const householdId = req.user!.householdId;
+  const where = { householdId_currency_effectiveDate: { householdId, currency, effectiveDate } };
+
+  const existing = await prisma.exchangeRate.findUnique({ where });
+  const exchangeRate = await prisma.exchangeRate.upsert({
+    where,
+    update: { rate },
+    create: { householdId, currency, rate, effectiveDate }
+  });
+
+  await recordAudit({
+    householdId,
+    actorId: req.user!.id,
+    entityType: 'exchangeRate',
+    entityId: exchangeRate.id,
+    entityLabel: exchangeRate.currency,
+    action: existing ? 'update' : 'create',
+    before: existing ? snapshot(existing, EXCHANGE_RATE_FIELDS) : null,
+    after: snapshot(exchangeRate, EXCHANGE_RATE_FIELDS)
+  });
+
+  return exchangeRate;
+};
+
+// Add a rate, or replace the rate for the same currency and day (exchangeRate.write)
+router.post('/', authenticateToken, authorize('exchangeRate.write'), async (req: AuthRequest, res) => {
+  try {
+    const householdId = req.user!.householdId;
+    const parsed = parseRate(req.body, await getBaseCurrency(householdId));
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const exchangeRate = await saveRate(req, parsed);
+
+    res.status(201).json(exchangeRate);
+  } catch (error) {
+    console.error('Create exchange rate error:', error);
+    res.status(500).json({ error: 'Failed to save exchange rate' });
+  }
+});
+
+// Update a rate (exchangeRate.write)
+router.put('/:id', authenticateToken, authorize('exchangeRate.write'), async (req: AuthRequest, res) => {
+  try {
+    const householdId = req.user!.householdId;
+    const existing = await prisma.exchangeRate.findFirst({
+      where: { id: req.params.id, householdId }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Exchange rate not found' });
+    }
+
+    const parsed = parseRate({
+      currency: req.body.currency ?? existing.currency,
+      rate: req.body.rate ?? existing.rate,
+      effectiveDate: req.body.effectiveDate ?? existing.effectiveDate.toISOString().split('T')[0]
+    }, await getBaseCurrency(householdId));
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const clash = await prisma.exchangeRate.findFirst({
+      where: {
+        householdId,
+        currency: parsed.currency,
+        effectiveDate: parsed.effectiveDate,
+        id: { not: existing.id }
+      }
+    });
+    if (clash) {
+      return res.status(400).json({ error: `A ${parsed.currency} rate already exists for that date` });
+    }
+
+    const exchangeRate = await prisma.exchangeRate.update({
+      where: { id: existing.id },
+      data: parsed
+    });
+
+    await recordAudit({
+      householdId,
+      actorId: req.user!.id,
+      entityType: 'exchangeRate',
+      entityId: exchangeRate.id,
+      entityLabel: exchangeRate.currency,
+      action: 'update',
+      before: snapshot(existing, EXCHANGE_RATE_FIELDS),
+      after: snapshot(exchangeRate, EXCHANGE_RATE_FIELDS),
+      reason: req.body.reason
+    });
+
+    res.json(exchangeRate);
+  } catch (error) {
+    console.error('Update exchange rate error:', error);
+    res.status(500).json({ error: 'Failed to update exchange rate' });
+  }
+});
+
+// Delete a rate (exchangeRate.write). The last rate of a currency that records still use is kept,
+// otherwise those records could no longer be converted.
+router.delete('/:id', authenticateToken, authorize('exchangeRate.write'), async (req: AuthRequest, res) => {
+  try {
+    const householdId = req.user!.householdId;
+    const existing = await prisma.exchangeRate.findFirst({
+      where: { id: req.params.id, householdId }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Exchange rate not found' });
+    }
+
+    const { currency } = existing;
+    const [otherRates, expenses, payments, recurring] = await Promise.all([
+      prisma.exchangeRate.count({ where: { householdId, currency, id: { not: existing.id } } }),
+      prisma.expense.count({ where: { householdId, currency } }),
+      prisma.payment.count({ where: { householdId, currency } }),
+      prisma.recurringExpense.count({ where: { householdId, currency } })
+    ]);
+
+    if (otherRates === 0 && expenses + payments + recurring > 0) {
+      return res.status(400).json({
+        error: `Cannot delete the only ${currency} rate while records use ${currency}`
+      });
+    }
+
+    await prisma.exchangeRate.delete({ where: { id: existing.id } });
+
+    await recordAudit({
+      householdId,
+      actorId: req.user!.id,
+      entityType: 'exchangeRate',
+      entityId: existing.id,
+      entityLabel: existing.currency,
+      action: 'delete',
+      before: snapshot(existing, EXCHANGE_RATE_FIELDS),
+      reason: req.body?.reason
+    });
+
+    res.json({ message: 'Exchange rate deleted' });
+  } catch (error) {
+    console.error('Delete exchange rate error:', error);
+    res.status(500).json({ error: 'Failed to delete exchange rate' });
+  }
+});
+
+// Import rates from CSV with a "currency,rate,date" header (exchangeRate.write).
+// Rows for an existing currency and day replace the stored rate.
+router.post('/import', authenticateToken, authorize('exchangeRate.write'), async (req: AuthRequest, res) => {
+  try {
+    const { csv } = req.body;
+    const householdId = req.user!.householdId;
+
+    if (!csv) {
+      return res.status(400).json({ error: 'CSV data required' });
+    }
+
+    const lines = String(csv).split('\n').filter((l: string) => l.trim());
+    if (lines.length < 2) {
+      return res.status(400).json({ error: 'CSV must have header and at least one data row' });
+    }
+
+    const headers = lines[0].split(',').map((h: string) => h.trim().toLowerCase());
+    if (!['currency', 'rate', 'date'].every(h => headers.includes(h))) {
+      return res.status(400).json({ error: 'CSV header must include currency, rate and date' });
+    }
+
+    const baseCurrency = await getBaseCurrency(householdId);
+    const errors: string[] = [];
+    let imported = 0;
+
+    for (let i = 1; i < lines.length; i++) {
+      const values = lines[i].split(',').map((v: string) => v.trim());
+      const row: Record<string, string> = {};
+      headers.forEach((h: string, idx: number) => {
+        row[h] = values[idx];
+      });
+
+      const parsed = parseRate({ currency: row.currency, rate: row.rate, effectiveDate: row.date }, baseCurrency);
+      if ('error' in parsed) {
+        errors.push(`Row ${i + 1}: ${parsed.error}`);
+        continue;
+      }
+
+      await saveRate(req, parsed);
+      imported++;
+    }
+
+    res.json({
+      message: `Imported ${imported} exchange rates`,
+      imported,
+      errors
+    });
+  } catch (error) {
+    console.error('Import exchange rates error:', error);
+    res.status(500).json({ error: 'Failed to import exchange rates' });
+  }
+});
+
+export default router;
@@ -1,18 +1,38 @@
 import { Router } from 'express';
 import { prisma } from '../index';
-import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
 import { upload, getUploadPath } from '../middleware/upload';
+import { areHouseholdMembers, isHouseholdCategory } from '../lib/households';
+import { allocate, allocateEvenly, parseMinor, splitsError } from '../lib/money';
+import { buildRecurringSplits } from '../lib/recurring';
+import { getHouseholdConverter, resolveRecordCurrency } from '../lib/currency';
+import { loadOcrDraft } from '../lib/ocr';
+import { expenseSnapshot, recordAudit } from '../lib/audit';
+import { applyExpenseEdit, EDITABLE_EXPENSE_INCLUDE, editableOwnersOf, isSelfEditAllowed, prepareExpenseEdit } from '../lib/edits';
+import { heldMessage, holdForApproval, recordValue } from '../lib/approvals';
+import { notifyExpenseShares } from '../lib/notifications';
+import { hasPermission } from '../lib/permissions';
 
 const router = Router();
 
+// A draft's amount is entered by whoever paid it
+const draftPayer = async (req: AuthRequest) => {
+  const expense = await prisma.expense.findFirst({
+    where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false },
+    select: { userId: true }
+  });
+  return expense ? [expense.userId] : null;
+};
+
 // Get all expenses (for transparency)
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { userId, categoryId, startDate, endDate, page = '1', limit = '50' } = req.query;
+    const { userId, categoryId, startDate, endDate, draft, page = '1', limit = '50' } = req.query;
 
-    const where: any = {};
+    const where: any = { householdId: req.user!.householdId, isDeleted: false };
     
     if (userId) where.userId = userId;
+    if (draft !== undefined) where.isDraft = draft === 'true';
     if (categoryId) where.categoryId = categoryId;
     if (startDate || endDate) {
       where.date = {};
@@ -38,6 +58,9 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
           recurringExpense: {
             select: { id: true, description: true, frequency: true }
           },
+          splitBill: {
+            select: { id: true }
+          },
           splits: true
         },
         orderBy: { date: 'desc' },
@@ -65,8 +88,8 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
 // Get single expense
 router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const expense = await prisma.expense.findUnique({
-      where: { id: req.params.id },
+    const expense = await prisma.expense.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false },
       include: {
         user: {
           select: { id: true, username: true, displayName: true, avatarUrl: true }
@@ -96,11 +119,22 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Create expense (can be on behalf of another user, with optional splits)
-router.post('/', authenticateToken, upload.single('receipt'), async (req: AuthRequest, res) => {
+router.post('/', authenticateToken, authorize('expense.create'), upload.single('receipt'), async (req: AuthRequest, res) => {
   try {
-    const { description, amount, date, categoryId, notes, userId, usage, splits } = req.body;
+    const { description, amount, currency, date, categoryId, notes, userId, usage, splits, ocrDraftId } = req.body;
+
+    // Fields left empty fall back to what OCR read from the receipt, and the
+    // receipt it was read from is attached unless another one is uploaded
+    let ocrDraft = null;
+    if (ocrDraftId) {
+      const loaded = await loadOcrDraft(req.user!.householdId, ocrDraftId);
+      if ('error' in loaded) {
+        return res.status(400).json({ error: loaded.error });
+      }
+      ocrDraft = loaded.draft;
+    }
 
-    const receiptImage = req.file ? getUploadPath(req.file.filename, 'receipts') : null;
+    const receiptImage = req.file ? getUploadPath(req.file.filename, 'receipts') : ocrDraft?.receiptImage || null;
 
     // Allow creating expense for another user (on behalf of)
     const targetUserId = userId || req.user!.id;
@@ -116,22 +150,56 @@ router.post('/', authenticateToken, upload.single('receipt'), async (req: AuthRe
       }
     }
 
+    const parsedAmount = parseMinor(amount) ?? ocrDraft?.total ?? null;
+    if (parsedAmount === null || parsedAmount <= 0) {
+      return res.status(400).json({ error: 'Amount must be a positive whole number of minor units' });
+    }
+    const splitError = splitsError(parsedAmount, parsedSplits.map(s => s.amount));
+    if (splitError) {
+      return res.status(400).json({ error: splitError });
+    }
+
+    const expenseDescription = description || ocrDraft?.merchant;
+    if (!expenseDescription) {
+      return res.status(400).json({ error: 'Description is required' });
+    }
+
+    // Payer and everyone in the split must belong to the active household
+    const involvedUserIds = [targetUserId, ...parsedSplits.map(s => s.memberId)];
+    if (!(await areHouseholdMembers(req.user!.householdId, involvedUserIds))) {
+      return res.status(400).json({ error: 'All users must be members of this household' });
+    }
+    if (!(await isHouseholdCategory(req.user!.householdId, categoryId))) {
+      return res.status(400).json({ error: 'Category not found' });
+    }
+
+    const expenseDate = date ? new Date(date) : ocrDraft?.date || new Date();
+    if (isNaN(expenseDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+    const resolved = await resolveRecordCurrency(req.user!.householdId, currency, expenseDate);
+    if ('error' in resolved) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
     const expense = await prisma.expense.create({
       data: {
-        description,
-        amount: parseFloat(amount),
+        description: expenseDescription,
+        amount: parsedAmount,
+        currency: resolved.currency,
         usage: usage ? parseFloat(usage) : null,
-        date: date ? new Date(date) : new Date(),
+        date: expenseDate,
         receiptImage,
         notes,
         userId: targetUserId,
         createdById,
         categoryId: categoryId || null,
+        householdId: req.user!.householdId,
         // Create splits if provided
         splits: parsedSplits.length > 0 ? {
           create: parsedSplits.map(s => ({
             userId: s.memberId,
-            amount: s.amount
+            amount: Number(s.amount)
           }))
         } : undefined
       },
@@ -149,6 +217,22 @@ router.post('/', authenticateToken, upload.single('receipt'), async (req: AuthRe
       }
     });
 
+    if (ocrDraft) {
+      await prisma.ocrDraft.update({ where: { id: ocrDraft.id }, data: { usedAt: new Date() } });
+    }
+
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'expense',
+      entityId: expense.id,
+      entityLabel: expense.description,
+      action: 'create',
+      after: expenseSnapshot(expense)
+    });
+
+    await notifyExpenseShares(req.user!.householdId, expense, 'expense-split', req.user!.id);
+
     res.status(201).json(expense);
   } catch (error) {
     console.error('Create expense error:', error);
@@ -157,10 +241,11 @@ router.post('/', authenticateToken, upload.single('receipt'), async (req: AuthRe
 });
 
 // Update expense (own or admin)
-router.put('/:id', authenticateToken, upload.single('receipt'), async (req: AuthRequest, res) => {
+router.put('/:id', authenticateToken, authorize('expense.edit', editableOwnersOf('expense')), upload.single('receipt'), async (req: AuthRequest, res) => {
   try {
-    const expense = await prisma.expense.findUnique({
-      where: { id: req.params.id }
+    const expense = await prisma.expense.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false },
+      include: EDITABLE_EXPENSE_INCLUDE
     });
 
     if (!expense) {
@@ -172,90 +257,137 @@ router.put('/:id', authenticateToken, upload.single('receipt'), async (req: Auth
       return res.status(403).json({ error: 'This record is locked and cannot be edited. It is associated with a deleted user.' });
     }
 
-    // Check permission - admin can always edit, users can edit own if setting allows
-    const isOwner = expense.userId === req.user!.id || expense.createdById === req.user!.id;
-    if (!req.user!.isAdmin) {
-      // Get the allowUserSelfEdit setting
-      const editSetting = await prisma.settings.findUnique({ where: { key: 'allowUserSelfEdit' } });
-      const allowUserSelfEdit = editSetting?.value === 'true';
-      
-      if (!isOwner) {
-        return res.status(403).json({ error: 'You can only edit your own expenses' });
-      }
-      if (!allowUserSelfEdit) {
-        return res.status(403).json({ error: 'Editing your own records is currently disabled by admin' });
-      }
+    // Owners edit their own while the setting allows it. Otherwise they propose the
+    // edit as a change request for an admin to approve.
+    if (!hasPermission(req.user, 'expense.edit.any') && !(await isSelfEditAllowed(req.user!.householdId))) {
+      return res.status(403).json({ error: 'Editing your own records is currently disabled by admin. Submit a change request instead.' });
     }
 
-    const { description, amount, date, categoryId, notes, userId, usage, splits } = req.body;
+    const edit = await prepareExpenseEdit(
+      req.user!.householdId,
+      expense,
+      req.body,
+      req.file ? getUploadPath(req.file.filename, 'receipts') : undefined
+    );
+    if ('error' in edit) {
+      return res.status(400).json({ error: edit.error });
+    }
 
-    const updateData: any = {};
-    
-    if (description !== undefined) updateData.description = description;
-    if (amount !== undefined) updateData.amount = parseFloat(amount);
-    if (usage !== undefined) updateData.usage = usage ? parseFloat(usage) : null;
-    if (date !== undefined) updateData.date = new Date(date);
-    if (categoryId !== undefined) updateData.categoryId = categoryId || null;
-    if (notes !== undefined) updateData.notes = notes;
-    if (userId !== undefined) updateData.userId = userId;
-    
-    if (req.file) {
-      updateData.receiptImage = getUploadPath(req.file.filename, 'receipts');
+    const updatedExpense = await prisma.$transaction((tx) =>
+      applyExpenseEdit(tx, req.user!.householdId, expense, edit, req.user!.id, req.body.reason)
+    );
+
+    res.json(updatedExpense);
+  } catch (error) {
+    console.error('Update expense error:', error);
+    res.status(500).json({ error: 'Failed to update expense' });
+  }
+});
+
+// Confirm a draft from a variable-amount recurring bill with the actual amount and the bill.
+// Only the payer (or expense.edit.any) can confirm; the expense counts towards balances from then on.
+router.post('/:id/confirm', authenticateToken, authorize('expense.edit', draftPayer), upload.single('receipt'), async (req: AuthRequest, res) => {
+  try {
+    const expense = await prisma.expense.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false },
+      include: { splits: true, recurringExpense: true }
+    });
+
+    if (!expense) {
+      return res.status(404).json({ error: 'Expense not found' });
+    }
+    if (expense.isLocked) {
+      return res.status(403).json({ error: 'This record is locked and cannot be edited. It is associated with a deleted user.' });
+    }
+    if (!expense.isDraft) {
+      return res.status(400).json({ error: 'This expense is not a draft' });
     }
 
-    // Handle splits update
-    let parsedSplits: { memberId: string; amount: number }[] = [];
-    if (splits !== undefined) {
-      try {
-        parsedSplits = typeof splits === 'string' ? JSON.parse(splits) : splits;
-      } catch (e) {
-        console.error('Failed to parse splits:', e);
-      }
+    const { amount, usage } = req.body;
 
-      // Delete existing splits and create new ones
-      await prisma.expenseSplit.deleteMany({
-        where: { expenseId: req.params.id }
-      });
+    const parsedAmount = parseMinor(amount);
+    if (parsedAmount === null || parsedAmount <= 0) {
+      return res.status(400).json({ error: 'Amount must be a positive whole number of minor units' });
     }
 
-    const updatedExpense = await prisma.expense.update({
-      where: { id: req.params.id },
-      data: {
-        ...updateData,
-        // Recreate splits if provided
-        splits: parsedSplits.length > 0 ? {
-          create: parsedSplits.map(s => ({
-            userId: s.memberId,
-            amount: s.amount
-          }))
-        } : undefined
-      },
-      include: {
-        user: {
-          select: { id: true, username: true, displayName: true, avatarUrl: true }
-        },
-        createdBy: {
-          select: { id: true, username: true, displayName: true }
-        },
-        category: {
-          select: { id: true, name: true, icon: true, color: true }
+    const receiptImage = req.file ? getUploadPath(req.file.filename, 'receipts') : expense.receiptImage;
+    if (!receiptImage) {
+      return res.status(400).json({ error: 'Please upload the bill' });
+    }
+
+    // Recalculate the placeholder splits for the actual amount. The recurring expense's split
+    // rules apply to the members the draft was split between; without it, keep the proportions.
+    const memberIds = expense.splits.map(s => s.userId);
+    let splitsData: { userId: string; amount: number }[];
+    if (expense.recurringExpense) {
+      splitsData = buildRecurringSplits({ ...expense.recurringExpense, amount: parsedAmount }, memberIds);
+    } else {
+      const weights = expense.splits.map(s => s.amount);
+      const amounts = weights.some(w => w > 0)
+        ? allocate(parsedAmount, weights)
+        : allocateEvenly(parsedAmount, memberIds.length);
+      splitsData = memberIds.map((userId, idx) => ({ userId, amount: amounts[idx] }));
+    }
+
+    const confirmed = await prisma.$transaction(async (tx) => {
+      await tx.expenseSplit.deleteMany({ where: { expenseId: expense.id } });
+
+      const updated = await tx.expense.update({
+        where: { id: expense.id },
+        data: {
+          amount: parsedAmount,
+          usage: usage ? parseFloat(usage) : expense.usage,
+          receiptImage,
+          isDraft: false,
+          splits: splitsData.length > 0 ? { create: splitsData } : undefined
         },
-        splits: true
-      }
+        include: {
+          user: {
+            select: { id: true, username: true, displayName: true, avatarUrl: true }
+          },
+          category: {
+            select: { id: true, name: true, icon: true, color: true }
+          },
+          splits: true
+        }
+      });
+
+      await recordAudit({
+        householdId: req.user!.householdId,
+        actorId: req.user!.id,
+        entityType: 'expense',
+        entityId: expense.id,
+        entityLabel: expense.description,
+        action: 'confirm',
+        before: expenseSnapshot(expense),
+        after: expenseSnapshot(updated)
+      }, tx);
+
+      return updated;
     });
 
-    res.json(updatedExpense);
+    // The shares are only known now that the bill's amount is in
+    await notifyExpenseShares(
+      req.user!.householdId,
+      confirmed,
+      expense.recurringExpenseId ? 'recurring-generated' : 'expense-split',
+      req.user!.id
+    );
+
+    res.json(confirmed);
   } catch (error) {
-    console.error('Update expense error:', error);
-    res.status(500).json({ error: 'Failed to update expense' });
+    console.error('Confirm expense error:', error);
+    res.status(500).json({ error: 'Failed to confirm expense' });
   }
 });
 
-// Delete expense (admin, or owner if allowUserSelfDelete is enabled)
-router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
+// Delete expense (expense.edit.any, or the owner if allowUserSelfDelete is enabled).
+// The expense moves to the trash, where an admin can restore it until it is purged.
+router.delete('/:id', authenticateToken, authorize('expense.edit', editableOwnersOf('expense')), async (req: AuthRequest, res) => {
   try {
-    const expense = await prisma.expense.findUnique({
-      where: { id: req.params.id }
+    const expense = await prisma.expense.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false },
+      include: { splits: true }
     });
 
     if (!expense) {
@@ -267,16 +399,11 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(403).json({ error: 'This record is locked and cannot be deleted. It is associated with a deleted user.' });
     }
 
-    // Check permissions: admin can always delete
-    if (!req.user!.isAdmin) {
-      // Check if user owns this expense
-      if (expense.userId !== req.user!.id && expense.createdById !== req.user!.id) {
-        return res.status(403).json({ error: 'Permission denied. Only admins or the record owner can delete.' });
-      }
-
+    // Owners only delete while self-deletion is allowed
+    if (!hasPermission(req.user, 'expense.edit.any')) {
       // Check if self-delete is allowed
       const allowSelfDeleteSetting = await prisma.settings.findUnique({
-        where: { key: 'allowUserSelfDelete' }
+        where: { householdId_key: { householdId: req.user!.householdId, key: 'allowUserSelfDelete' } }
       });
       const allowSelfDelete = allowSelfDeleteSetting?.value === 'true';
 
@@ -285,11 +412,40 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
       }
     }
 
-    await prisma.expense.delete({
-      where: { id: req.params.id }
+    // Deletes of valuable records can need more than one approval
+    const held = await holdForApproval(req.user!.householdId, req.user!.id, {
+      action: 'delete',
+      recordType: 'expense',
+      recordId: expense.id,
+      value: await recordValue(req.user!.householdId, expense),
+      reason: req.body?.reason
     });
+    if (held && 'error' in held) {
+      return res.status(400).json({ error: held.error });
+    }
+    if (held) {
+      return res.status(202).json({ message: heldMessage('Deleting this expense', held), request: held.request });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.expense.update({
+        where: { id: req.params.id },
+        data: { isDeleted: true, deletedAt: new Date() }
+      });
 
-    res.json({ message: 'Expense deleted successfully' });
+      await recordAudit({
+        householdId: req.user!.householdId,
+        actorId: req.user!.id,
+        entityType: 'expense',
+        entityId: expense.id,
+        entityLabel: expense.description,
+        action: 'delete',
+        before: expenseSnapshot(expense),
+        reason: req.body?.reason
+      }, tx);
+    });
+
+    res.json({ message: 'Expense moved to the trash' });
   } catch (error) {
     console.error('Delete expense error:', error);
     res.status(500).json({ error: 'Failed to delete expense' });
@@ -301,7 +457,7 @@ router.get('/summary/by-category', authenticateToken, async (req: AuthRequest, r
   try {
     const { startDate, endDate, userId } = req.query;
 
-    const where: any = {};
+    const where: any = { householdId: req.user!.householdId, isDeleted: false, isDraft: false };
     if (userId) where.userId = userId;
     if (startDate || endDate) {
       where.date = {};
@@ -309,12 +465,23 @@ router.get('/summary/by-category', authenticateToken, async (req: AuthRequest, r
       if (endDate) where.date.lte = new Date(endDate as string);
     }
 
-    const expenses = await prisma.expense.groupBy({
-      by: ['categoryId'],
-      where,
-      _sum: { amount: true },
-      _count: true
-    });
+    const [records, converter] = await Promise.all([
+      prisma.expense.findMany({
+        where,
+        select: { categoryId: true, amount: true, currency: true, date: true }
+      }),
+      getHouseholdConverter(req.user!.householdId)
+    ]);
+
+    // Totals per category, in the household's base currency
+    const byCategory = new Map<string | null, { total: number; count: number }>();
+    for (const record of records) {
+      const entry = byCategory.get(record.categoryId) || { total: 0, count: 0 };
+      entry.total += converter.toBase(record.amount, record.currency, record.date);
+      entry.count++;
+      byCategory.set(record.categoryId, entry);
+    }
+    const expenses = [...byCategory].map(([categoryId, entry]) => ({ categoryId, ...entry }));
 
     // Get category details
     const categoryIds = expenses.map(e => e.categoryId).filter(Boolean) as string[];
@@ -326,8 +493,8 @@ router.get('/summary/by-category', authenticateToken, async (req: AuthRequest, r
 
     const result = expenses.map(e => ({
       category: e.categoryId ? categoryMap.get(e.categoryId) : { id: null, name: 'No Category', icon: '❓', color: '#666' },
-      total: e._sum.amount || 0,
-      count: e._count
+      total: e.total,
+      count: e.count
     }));
 
     res.json(result);
@@ -1,14 +1,21 @@
 import { Router } from 'express';
 import { prisma } from '../index';
-import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+import { formatMinor, parseMinor, toMinor } from '../lib/money';
+import { normalizeCurrency, resolveRecordCurrency } from '../lib/currency';
+import { CATEGORY_FIELDS, EXCHANGE_RATE_FIELDS, expenseSnapshot, recordAudit, snapshot } from '../lib/audit';
 
 const router = Router();
 
 // Export all data to JSON
 router.get('/json', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const [users, categories, expenses, payments, splitBills] = await Promise.all([
+    const householdId = req.user!.householdId;
+
+    const [household, users, categories, expenses, payments, splitBills, exchangeRates] = await Promise.all([
+      prisma.household.findUnique({ where: { id: householdId }, select: { baseCurrency: true } }),
       prisma.user.findMany({
+        where: { householdMembers: { some: { householdId } } },
         select: {
           id: true,
           username: true,
@@ -21,32 +28,44 @@ router.get('/json', authenticateToken, async (req: AuthRequest, res) => {
           createdAt: true
         }
       }),
-      prisma.category.findMany(),
+      prisma.category.findMany({ where: { householdId, isDeleted: false } }),
       prisma.expense.findMany({
+        where: { householdId, isDeleted: false },
         include: {
           user: { select: { id: true, displayName: true } },
           category: { select: { id: true, name: true } }
         }
       }),
       prisma.payment.findMany({
+        where: { householdId, isDeleted: false },
         include: {
           fromUser: { select: { id: true, displayName: true } },
           toUser: { select: { id: true, displayName: true } }
         }
       }),
       prisma.splitBill.findMany({
+        where: { householdId, NOT: { expense: { is: { isDeleted: true } } } },
         include: {
           items: {
             include: {
-              user: { select: { id: true, displayName: true } }
+              shares: {
+                include: { user: { select: { id: true, displayName: true } } }
+              }
             }
           }
         }
+      }),
+      prisma.exchangeRate.findMany({
+        where: { householdId },
+        select: { currency: true, rate: true, effectiveDate: true }
       })
     ]);
 
     const data = {
       exportDate: new Date().toISOString(),
+      moneyFormat: 'minor',   // Amounts are integer minor units (e.g. 1250 = 12.50)
+      baseCurrency: household?.baseCurrency,
+      exchangeRates,
       users,
       categories,
       expenses,
@@ -67,6 +86,7 @@ router.get('/json', authenticateToken, async (req: AuthRequest, res) => {
 router.get('/expenses/csv', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const expenses = await prisma.expense.findMany({
+      where: { householdId: req.user!.householdId, isDeleted: false, isDraft: false },
       include: {
         user: { select: { displayName: true } },
         category: { select: { name: true } }
@@ -74,12 +94,13 @@ router.get('/expenses/csv', authenticateToken, async (req: AuthRequest, res) =>
       orderBy: { date: 'desc' }
     });
 
-    const headers = ['ID', 'Date', 'Description', 'Amount', 'Category', 'User', 'Notes', 'Has Receipt', 'Created At'];
+    const headers = ['ID', 'Date', 'Description', 'Amount', 'Currency', 'Category', 'User', 'Notes', 'Has Receipt', 'Created At'];
     const rows = expenses.map(e => [
       e.id,
       e.date.toISOString().split('T')[0],
       `"${e.description.replace(/"/g, '""')}"`,
-      e.amount.toFixed(2),
+      formatMinor(e.amount, e.currency),
+      e.currency,
       e.category?.name || 'No Category',
       e.user.displayName,
       e.notes ? `"${e.notes.replace(/"/g, '""')}"` : '',
@@ -102,6 +123,7 @@ router.get('/expenses/csv', authenticateToken, async (req: AuthRequest, res) =>
 router.get('/payments/csv', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const payments = await prisma.payment.findMany({
+      where: { householdId: req.user!.householdId, isDeleted: false },
       include: {
         fromUser: { select: { displayName: true } },
         toUser: { select: { displayName: true } }
@@ -109,13 +131,14 @@ router.get('/payments/csv', authenticateToken, async (req: AuthRequest, res) =>
       orderBy: { date: 'desc' }
     });
 
-    const headers = ['ID', 'Date', 'From', 'To', 'Amount', 'Description', 'Status', 'Has Receipt', 'Created At'];
+    const headers = ['ID', 'Date', 'From', 'To', 'Amount', 'Currency', 'Description', 'Status', 'Has Receipt', 'Created At'];
     const rows = payments.map(p => [
       p.id,
       p.date.toISOString().split('T')[0],
       p.fromUser.displayName,
       p.toUser.displayName,
-      p.amount.toFixed(2),
+      formatMinor(p.amount, p.currency),
+      p.currency,
       p.description ? `"${p.description.replace(/"/g, '""')}"` : '',
       p.status,
       p.receiptImage ? 'Yes' : 'No',
@@ -133,22 +156,69 @@ router.get('/payments/csv', authenticateToken, async (req: AuthRequest, res) =>
   }
 });
 
-// Import data from JSON (admin only)
-router.post('/import', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Import data from JSON (data.import)
+router.post('/import', authenticateToken, authorize('data.import'), async (req: AuthRequest, res) => {
   try {
-    const { categories, expenses } = req.body;
+    const { categories, expenses, exchangeRates, moneyFormat } = req.body;
+    const householdId = req.user!.householdId;
+
+    // Backups from before minor units stored amounts as decimals of the record's currency
+    const parseAmount = (value: unknown, currency: string) =>
+      moneyFormat === 'minor' ? parseMinor(value) : toMinor(value, currency);
 
     let importedCategories = 0;
     let importedExpenses = 0;
+    let importedRates = 0;
+
+    // Import exchange rates first so foreign-currency expenses can be converted
+    if (exchangeRates && Array.isArray(exchangeRates)) {
+      for (const entry of exchangeRates) {
+        try {
+          const currency = normalizeCurrency(entry.currency);
+          const rate = Number(entry.rate);
+          const effectiveDate = new Date(entry.effectiveDate);
+          if (!currency || !(rate > 0) || isNaN(effectiveDate.getTime())) throw new Error('Invalid rate');
+
+          const saved = await prisma.exchangeRate.upsert({
+            where: { householdId_currency_effectiveDate: { householdId, currency, effectiveDate } },
+            update: { rate },
+            create: { householdId, currency, rate, effectiveDate }
+          });
+          await recordAudit({
+            householdId,
+            actorId: req.user!.id,
+            entityType: 'exchangeRate',
+            entityId: saved.id,
+            entityLabel: saved.currency,
+            action: 'import',
+            after: snapshot(saved, EXCHANGE_RATE_FIELDS),
+            reason: 'Imported from backup'
+          });
+          importedRates++;
+        } catch (e) {
+          console.error('Failed to import exchange rate:', entry.currency);
+        }
+      }
+    }
 
     // Import categories
     if (categories && Array.isArray(categories)) {
       for (const cat of categories) {
         try {
-          await prisma.category.upsert({
-            where: { name: cat.name },
-            update: { icon: cat.icon, color: cat.color },
-            create: { name: cat.name, icon: cat.icon, color: cat.color }
+          const saved = await prisma.category.upsert({
+            where: { householdId_name: { householdId, name: cat.name } },
+            update: { icon: cat.icon, color: cat.color, isDeleted: false, deletedAt: null },
+            create: { name: cat.name, icon: cat.icon, color: cat.color, householdId }
+          });
+          await recordAudit({
+            householdId,
+            actorId: req.user!.id,
+            entityType: 'category',
+            entityId: saved.id,
+            entityLabel: saved.name,
+            action: 'import',
+            after: snapshot(saved, CATEGORY_FIELDS),
+            reason: 'Imported from backup'
           });
           importedCategories++;
         } catch (e) {
@@ -161,33 +231,57 @@ router.post('/import', authenticateToken, requireAdmin, async (req: AuthRequest,
     if (expenses && Array.isArray(expenses)) {
       for (const exp of expenses) {
         try {
-          // Find or use current user
+          // Find household member or use current user
           let userId = req.user!.id;
           if (exp.userId) {
-            const user = await prisma.user.findUnique({ where: { id: exp.userId } });
-            if (user) userId = user.id;
+            const member = await prisma.householdMember.findUnique({
+              where: { householdId_userId: { householdId, userId: exp.userId } }
+            });
+            if (member) userId = member.userId;
           }
 
           // Find category
           let categoryId = null;
           if (exp.categoryId) {
-            const cat = await prisma.category.findUnique({ where: { id: exp.categoryId } });
-            if (cat) categoryId = cat.id;
+            const cat = await prisma.category.findFirst({ where: { id: exp.categoryId, householdId } });
+            if (cat && !cat.isDeleted) categoryId = cat.id;
           } else if (exp.category?.name) {
-            const cat = await prisma.category.findUnique({ where: { name: exp.category.name } });
-            if (cat) categoryId = cat.id;
+            const cat = await prisma.category.findUnique({
+              where: { householdId_name: { householdId, name: exp.category.name } }
+            });
+            if (cat && !cat.isDeleted) categoryId = cat.id;
           }
 
-          await prisma.expense.create({
+          const date = new Date(exp.date);
+          const resolved = await resolveRecordCurrency(householdId, exp.currency, date);
+          if ('error' in resolved) throw new Error(resolved.error);
+
+          const amount = parseAmount(exp.amount, resolved.currency);
+          if (amount === null) throw new Error('Invalid amount');
+
+          const expense = await prisma.expense.create({
             data: {
               description: exp.description,
-              amount: parseFloat(exp.amount),
-              date: new Date(exp.date),
+              amount,
+              currency: resolved.currency,
+              date,
               notes: exp.notes,
+              isDraft: exp.isDraft === true,
               userId,
-              categoryId
+              categoryId,
+              householdId
             }
           });
+          await recordAudit({
+            householdId,
+            actorId: req.user!.id,
+            entityType: 'expense',
+            entityId: expense.id,
+            entityLabel: expense.description,
+            action: 'import',
+            after: expenseSnapshot(expense),
+            reason: 'Imported from backup'
+          });
           importedExpenses++;
         } catch (e) {
           console.error('Failed to import expense:', exp.description);
@@ -199,7 +293,8 @@ router.post('/import', authenticateToken, requireAdmin, async (req: AuthRequest,
       message: 'Import completed',
       imported: {
         categories: importedCategories,
-        expenses: importedExpenses
+        expenses: importedExpenses,
+        exchangeRates: importedRates
       }
     });
   } catch (error) {
@@ -208,8 +303,8 @@ router.post('/import', authenticateToken, requireAdmin, async (req: AuthRequest,
   }
 });
 
-// Import from CSV (admin only)
-router.post('/import/csv', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Import from CSV (data.import)
+router.post('/import/csv', authenticateToken, authorize('data.import'), async (req: AuthRequest, res) => {
   try {
     const { csv, type = 'expenses' } = req.body;
 
@@ -236,20 +331,38 @@ router.post('/import/csv', authenticateToken, requireAdmin, async (req: AuthRequ
         if (type === 'expenses') {
           let categoryId = null;
           if (row.category) {
-            const cat = await prisma.category.findUnique({ where: { name: row.category } });
-            if (cat) categoryId = cat.id;
+            const cat = await prisma.category.findUnique({
+              where: { householdId_name: { householdId: req.user!.householdId, name: row.category } }
+            });
+            if (cat && !cat.isDeleted) categoryId = cat.id;
           }
 
-          await prisma.expense.create({
+          const date = row.date ? new Date(row.date) : new Date();
+          const resolved = await resolveRecordCurrency(req.user!.householdId, row.currency, date);
+          if ('error' in resolved) throw new Error(resolved.error);
+
+          const expense = await prisma.expense.create({
             data: {
               description: row.description || 'Imported expense',
-              amount: parseFloat(row.amount) || 0,
-              date: row.date ? new Date(row.date) : new Date(),
+              amount: toMinor(row.amount, resolved.currency) ?? 0,
+              currency: resolved.currency,
+              date,
               notes: row.notes,
               userId: req.user!.id,
-              categoryId
+              categoryId,
+              householdId: req.user!.householdId
             }
           });
+          await recordAudit({
+            householdId: req.user!.householdId,
+            actorId: req.user!.id,
+            entityType: 'expense',
+            entityId: expense.id,
+            entityLabel: expense.description,
+            action: 'import',
+            after: expenseSnapshot(expense),
+            reason: 'Imported from CSV'
+          });
           imported++;
         }
       } catch (e) {
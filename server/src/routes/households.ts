@@ -0,0 +1,288 @@
+import { Router } from 'express';
+import { prisma } from '../index';
+import { authenticateToken, authenticateUser, authorize, denyPermission, AuthRequest } from '../middleware/auth';
+import { createHousehold, getUserHouseholds } from '../lib/households';
+import { INVITATION_LIMITS, createInvitation, sendInvitationEmail } from '../lib/invitations';
+import { getHouseholdLedger } from '../lib/ledger';
+import { normalizeCurrency } from '../lib/currency';
+import { recordAudit, snapshot } from '../lib/audit';
+import { hasPermission, isRole, ROLE_PERMISSIONS } from '../lib/permissions';
+
+const router = Router();
+
+// Get households the current user belongs to
+router.get('/', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const households = await getUserHouseholds(req.user!.id);
+    res.json(households);
+  } catch (error) {
+    console.error('Get households error:', error);
+    res.status(500).json({ error: 'Failed to get households' });
+  }
+});
+
+// Create a new household (creator becomes its owner)
+router.post('/', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const { name } = req.body;
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ error: 'Household name is required' });
+    }
+
+    const household = await createHousehold(String(name).trim(), req.user!.id);
+
+    res.status(201).json({
+      id: household.id,
+      name: household.name,
+      baseCurrency: household.baseCurrency,
+      role: 'owner',
+      permissions: ROLE_PERMISSIONS.owner
+    });
+  } catch (error) {
+    console.error('Create household error:', error);
+    res.status(500).json({ error: 'Failed to create household' });
+  }
+});
+
+// Get the active household with its members
+router.get('/current', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const household = await prisma.household.findUnique({
+      where: { id: req.user!.householdId },
+      include: {
+        members: {
+          include: {
+            user: { select: { id: true, username: true, displayName: true, avatarUrl: true } }
+          },
+          orderBy: { joinedAt: 'asc' }
+        }
+      }
+    });
+
+    res.json(household);
+  } catch (error) {
+    console.error('Get household error:', error);
+    res.status(500).json({ error: 'Failed to get household' });
+  }
+});
+
+// Rename the active household or change its base currency (settings.write)
+router.put('/current', authenticateToken, authorize('settings.write'), async (req: AuthRequest, res) => {
+  try {
+    const { name, baseCurrency } = req.body;
+    const householdId = req.user!.householdId;
+    const data: { name?: string; baseCurrency?: string } = {};
+
+    if (name !== undefined) {
+      if (!String(name).trim()) {
+        return res.status(400).json({ error: 'Household name is required' });
+      }
+      data.name = String(name).trim();
+    }
+
+    if (baseCurrency !== undefined) {
+      const currency = normalizeCurrency(baseCurrency);
+      if (!currency) {
+        return res.status(400).json({ error: 'Base currency must be a valid ISO 4217 code (e.g. MYR, USD)' });
+      }
+
+      // Rates are quoted against the base currency, so it can only change while
+      // there are no rates and every record is already in the new currency
+      const [rates, expenses, payments, recurring] = await Promise.all([
+        prisma.exchangeRate.count({ where: { householdId } }),
+        prisma.expense.count({ where: { householdId, currency: { not: currency } } }),
+        prisma.payment.count({ where: { householdId, currency: { not: currency } } }),
+        prisma.recurringExpense.count({ where: { householdId, currency: { not: currency } } })
+      ]);
+      if (rates + expenses + payments + recurring > 0) {
+        return res.status(400).json({
+          error: 'The base currency can only be changed before any exchange rates or records in other currencies exist'
+        });
+      }
+      data.baseCurrency = currency;
+    }
+
+    if (Object.keys(data).length === 0) {
+      return res.status(400).json({ error: 'Nothing to update' });
+    }
+
+    const before = await prisma.household.findUnique({ where: { id: householdId } });
+    const household = await prisma.household.update({
+      where: { id: householdId },
+      data
+    });
+
+    await recordAudit({
+      householdId,
+      actorId: req.user!.id,
+      entityType: 'household',
+      entityId: householdId,
+      entityLabel: household.name,
+      action: 'update',
+      before: before ? snapshot(before, ['name', 'baseCurrency']) : null,
+      after: snapshot(household, ['name', 'baseCurrency']),
+      reason: req.body.reason
+    });
+
+    res.json(household);
+  } catch (error) {
+    console.error('Update household error:', error);
+    res.status(500).json({ error: 'Failed to update household' });
+  }
+});
+
+// Invite an existing user to the active household by username or email (members.manage;
+// roles other than member also need roles.manage). They only join once they accept it.
+router.post('/current/members', authenticateToken, authorize('members.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { username, role = 'member' } = req.body;
+
+    if (!isRole(role)) {
+      return res.status(400).json({ error: 'Invalid role' });
+    }
+    // Making someone an owner can need approvals, so that goes through Members
+    if (role === 'owner') {
+      return res.status(400).json({ error: 'Invite them with another role, then make them an owner from Members' });
+    }
+    if (role !== 'member' && !hasPermission(req.user, 'roles.manage')) {
+      return denyPermission(res, 'roles.manage');
+    }
+
+    const user = await prisma.user.findFirst({
+      where: {
+        OR: [{ username }, { email: username }],
+        isDeleted: false
+      }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const householdId = req.user!.householdId;
+    const [existing, pending] = await Promise.all([
+      prisma.householdMember.findUnique({
+        where: { householdId_userId: { householdId, userId: user.id } }
+      }),
+      prisma.invitation.findFirst({
+        where: { householdId, inviteeId: user.id, revokedAt: null, useCount: 0, expiresAt: { gt: new Date() } }
+      })
+    ]);
+
+    if (existing) {
+      return res.status(400).json({ error: 'User is already a member of this household' });
+    }
+    if (pending) {
+      return res.status(400).json({ error: 'This user already has an invitation waiting' });
+    }
+
+    const { invitation, code } = await createInvitation(householdId, req.user!.id, {
+      role,
+      email: user.email,
+      inviteeId: user.id,
+      maxUses: 1,
+      expiresInDays: INVITATION_LIMITS.defaultExpiresInDays
+    });
+
+    await recordAudit({
+      householdId,
+      actorId: req.user!.id,
+      entityType: 'invitation',
+      entityId: invitation.id,
+      entityLabel: user.displayName,
+      action: 'create',
+      after: { role, inviteeId: user.id, expiresAt: invitation.expiresAt }
+    });
+
+    const [household, inviter] = await Promise.all([
+      prisma.household.findUnique({ where: { id: householdId }, select: { name: true } }),
+      prisma.user.findUnique({ where: { id: req.user!.id }, select: { displayName: true } })
+    ]);
+    await sendInvitationEmail(invitation, code, {
+      householdName: household!.name,
+      inviterName: inviter!.displayName
+    });
+
+    res.status(201).json({
+      message: `${user.displayName} has been invited. They join once they accept.`,
+      invitation: { id: invitation.id, role, expiresAt: invitation.expiresAt }
+    });
+  } catch (error) {
+    console.error('Invite household member error:', error);
+    res.status(500).json({ error: 'Failed to invite member' });
+  }
+});
+
+// Remove a member from the active household (members.manage, or a member leaving)
+router.delete('/current/members/:userId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { userId } = req.params;
+    const householdId = req.user!.householdId;
+
+    if (userId !== req.user!.id && !hasPermission(req.user, 'members.manage')) {
+      return denyPermission(res, 'members.manage');
+    }
+
+    const member = await prisma.householdMember.findUnique({
+      where: { householdId_userId: { householdId, userId } }
+    });
+
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    // A household must always keep at least one owner
+    if (member.role === 'owner') {
+      const ownerCount = await prisma.householdMember.count({
+        where: { householdId, role: 'owner' }
+      });
+      if (ownerCount <= 1) {
+        return res.status(400).json({ error: 'Cannot remove the last owner of a household' });
+      }
+    }
+
+    const pendingPayments = await prisma.payment.count({
+      where: {
+        householdId,
+        status: 'pending',
+        isDeleted: false,
+        OR: [{ fromUserId: userId }, { toUserId: userId }]
+      }
+    });
+
+    if (pendingPayments > 0) {
+      return res.status(400).json({
+        error: 'Cannot remove a member with pending payments. Please confirm or reject them first.'
+      });
+    }
+
+    const ledger = await getHouseholdLedger(householdId);
+    if (!ledger.isSettled(userId)) {
+      return res.status(400).json({
+        error: 'Cannot remove a member with outstanding balances. All debts must be settled first.'
+      });
+    }
+
+    await prisma.householdMember.delete({ where: { id: member.id } });
+
+    const removed = await prisma.user.findUnique({ where: { id: userId }, select: { displayName: true } });
+    await recordAudit({
+      householdId,
+      actorId: req.user!.id,
+      entityType: 'user',
+      entityId: userId,
+      entityLabel: removed?.displayName,
+      action: 'remove-member',
+      before: { role: member.role },
+      reason: req.body?.reason
+    });
+
+    res.json({ message: 'Member removed from household' });
+  } catch (error) {
+    console.error('Remove household member error:', error);
+    res.status(500).json({ error: 'Failed to remove member' });
+  }
+});
+
+export default router;
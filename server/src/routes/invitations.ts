@@ -0,0 +1,290 @@
+import { Router, Response } from 'express';
+import { prisma } from '../index';
+import { Invitation } from '@prisma/client';
+import { authenticateToken, authenticateUser, authorize, denyPermission, AuthRequest } from '../middleware/auth';
+import { recordAudit } from '../lib/audit';
+import { publish } from '../lib/events';
+import { hasPermission, isRole } from '../lib/permissions';
+import {
+  INVITATION_LIMITS,
+  checkInvitation,
+  createInvitation,
+  invitationLink,
+  invitationStatus,
+  joinWithInvitation,
+  promoteInvitedOwner,
+  sendInvitationEmail
+} from '../lib/invitations';
+
+const router = Router();
+
+const userSelect = { id: true, username: true, displayName: true, avatarUrl: true };
+
+// Invitations for the active household, newest first, with who they are for and who used them
+router.get('/', authenticateToken, authorize('members.manage'), async (req: AuthRequest, res) => {
+  try {
+    const invitations = await prisma.invitation.findMany({
+      where: { householdId: req.user!.householdId },
+      include: {
+        createdBy: { select: userSelect },
+        invitee: { select: userSelect },
+        uses: {
+          include: { user: { select: userSelect } },
+          orderBy: { createdAt: 'asc' }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const now = new Date();
+    res.json(invitations.map(({ tokenHash, uses, ...invitation }) => ({
+      ...invitation,
+      status: invitationStatus(invitation, now),
+      usedBy: uses.map(use => ({ ...use.user, registeredAt: use.createdAt }))
+    })));
+  } catch (error) {
+    console.error('Get invitations error:', error);
+    res.status(500).json({ error: 'Failed to get invitations' });
+  }
+});
+
+// Create an invitation: { role, email?, maxUses?, expiresInDays? }. The code and link
+// are only returned here, and emailed when the invitation is for one address.
+router.post('/', authenticateToken, authorize('members.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { role = 'member', email, maxUses = 1, expiresInDays = INVITATION_LIMITS.defaultExpiresInDays } = req.body;
+
+    if (!isRole(role)) {
+      return res.status(400).json({ error: 'Invalid role' });
+    }
+    // Inviting someone into any other role is a role change
+    if (role !== 'member' && !hasPermission(req.user, 'roles.manage')) {
+      return denyPermission(res, 'roles.manage');
+    }
+    if (email !== undefined && email !== null && email !== '' &&
+        (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(email.trim()))) {
+      return res.status(400).json({ error: 'Invalid email address' });
+    }
+    if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > INVITATION_LIMITS.maxUses) {
+      return res.status(400).json({ error: `Uses must be a whole number from 1 to ${INVITATION_LIMITS.maxUses}` });
+    }
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > INVITATION_LIMITS.expiresInDays) {
+      return res.status(400).json({ error: `Expiry must be a whole number of days from 1 to ${INVITATION_LIMITS.expiresInDays}` });
+    }
+
+    const restrictTo = typeof email === 'string' && email.trim() ? email.trim() : null;
+    if (restrictTo) {
+      const registered = await prisma.user.findFirst({
+        where: { email: restrictTo, isDeleted: false },
+        select: { id: true }
+      });
+      if (registered) {
+        return res.status(400).json({ error: 'Someone already has an account with this email. Add them from Members instead.' });
+      }
+    }
+
+    const { invitation, code } = await createInvitation(req.user!.householdId, req.user!.id, {
+      role,
+      email: restrictTo,
+      maxUses,
+      expiresInDays
+    });
+
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'invitation',
+      entityId: invitation.id,
+      entityLabel: restrictTo || `${role} invitation`,
+      action: 'create',
+      after: { role, email: restrictTo, maxUses, expiresAt: invitation.expiresAt }
+    });
+
+    const [household, inviter] = await Promise.all([
+      prisma.household.findUnique({ where: { id: req.user!.householdId }, select: { name: true } }),
+      prisma.user.findUnique({ where: { id: req.user!.id }, select: { displayName: true } })
+    ]);
+    const emailSent = await sendInvitationEmail(invitation, code, {
+      householdName: household!.name,
+      inviterName: inviter!.displayName
+    });
+
+    const { tokenHash, ...details } = invitation;
+    res.status(201).json({
+      ...details,
+      status: invitationStatus(invitation),
+      code,
+      link: invitationLink(code),
+      emailSent
+    });
+  } catch (error) {
+    console.error('Create invitation error:', error);
+    res.status(500).json({ error: 'Failed to create invitation' });
+  }
+});
+
+// Invitations addressed to the logged-in account that it can still accept
+router.get('/received', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const invitations = await prisma.invitation.findMany({
+      where: { inviteeId: req.user!.id, revokedAt: null, expiresAt: { gt: new Date() } },
+      include: {
+        household: { select: { id: true, name: true } },
+        createdBy: { select: { id: true, displayName: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json(invitations
+      .filter(invitation => invitationStatus(invitation) === 'active')
+      .map(invitation => ({
+        id: invitation.id,
+        household: invitation.household,
+        role: invitation.role,
+        invitedBy: invitation.createdBy,
+        expiresAt: invitation.expiresAt
+      })));
+  } catch (error) {
+    console.error('Get received invitations error:', error);
+    res.status(500).json({ error: 'Failed to get invitations' });
+  }
+});
+
+// Join an invitation's household with the logged-in account
+const acceptInvitation = async (req: AuthRequest, res: Response, invitation: Invitation) => {
+  const existing = await prisma.householdMember.findUnique({
+    where: { householdId_userId: { householdId: invitation.householdId, userId: req.user!.id } }
+  });
+  if (existing) {
+    return res.status(400).json({ error: 'You are already a member of this household' });
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: req.user!.id }, select: { id: true, displayName: true } });
+  const joined = await prisma.$transaction((tx) =>
+    joinWithInvitation(tx, invitation, user!, 'Accepted an invitation')
+  );
+  if (!joined) {
+    return res.status(400).json({ error: 'This invitation is invalid or has expired' });
+  }
+
+  await promoteInvitedOwner(invitation, user!.id);
+  publish(invitation.householdId, ['members'], { actorId: user!.id });
+
+  const household = await prisma.household.findUnique({
+    where: { id: invitation.householdId },
+    select: { id: true, name: true }
+  });
+  res.json({ message: `You joined ${household!.name}`, household });
+};
+
+// Accept an invitation with the code from its link: { code }
+router.post('/accept', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const check = await checkInvitation(req.body.code, req.user!.email, req.user!.id);
+    if ('error' in check) {
+      return res.status(400).json({ error: check.error });
+    }
+
+    await acceptInvitation(req, res, check.invitation);
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    res.status(500).json({ error: 'Failed to accept invitation' });
+  }
+});
+
+// Accept an invitation addressed to the logged-in account
+router.post('/:id/accept', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const invitation = await prisma.invitation.findFirst({
+      where: { id: req.params.id, inviteeId: req.user!.id }
+    });
+
+    if (!invitation) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+    if (invitationStatus(invitation) !== 'active') {
+      return res.status(400).json({ error: 'This invitation is invalid or has expired' });
+    }
+
+    await acceptInvitation(req, res, invitation);
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    res.status(500).json({ error: 'Failed to accept invitation' });
+  }
+});
+
+// Decline an invitation addressed to the logged-in account, so it can't be used
+router.post('/:id/decline', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const invitation = await prisma.invitation.findFirst({
+      where: { id: req.params.id, inviteeId: req.user!.id, revokedAt: null }
+    });
+
+    if (!invitation) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id }, select: { displayName: true } });
+    await prisma.$transaction(async (tx) => {
+      await tx.invitation.update({
+        where: { id: invitation.id },
+        data: { revokedAt: new Date() }
+      });
+
+      await recordAudit({
+        householdId: invitation.householdId,
+        actorId: req.user!.id,
+        entityType: 'invitation',
+        entityId: invitation.id,
+        entityLabel: user?.displayName,
+        action: 'decline'
+      }, tx);
+    });
+    publish(invitation.householdId, ['members'], { actorId: req.user!.id });
+
+    res.json({ message: 'Invitation declined' });
+  } catch (error) {
+    console.error('Decline invitation error:', error);
+    res.status(500).json({ error: 'Failed to decline invitation' });
+  }
+});
+
+// Revoke an invitation so it can't be used any more
+router.delete('/:id', authenticateToken, authorize('members.manage'), async (req: AuthRequest, res) => {
+  try {
+    const invitation = await prisma.invitation.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId }
+    });
+
+    if (!invitation) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+    if (invitation.revokedAt) {
+      return res.status(400).json({ error: 'Invitation is already revoked' });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.invitation.update({
+        where: { id: invitation.id },
+        data: { revokedAt: new Date() }
+      });
+
+      await recordAudit({
+        householdId: req.user!.householdId,
+        actorId: req.user!.id,
+        entityType: 'invitation',
+        entityId: invitation.id,
+        entityLabel: invitation.email || `${invitation.role} invitation`,
+        action: 'revoke',
+        reason: req.body?.reason
+      }, tx);
+    });
+
+    res.json({ message: 'Invitation revoked' });
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    res.status(500).json({ error: 'Failed to revoke invitation' });
+  }
+});
+
+export default router;
@@ -0,0 +1,212 @@
+import { Router } from 'express';
+import { prisma } from '../index';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { EMAIL_TYPES, NOTIFICATION_TYPES } from '../lib/notifications';
+import { isMailEnabled } from '../lib/mail';
+
+const router = Router();
+
+// Every notification type with whether the user has it on (types are on by default)
+const loadPreferences = async (userId: string) => {
+  const saved = await prisma.notificationPreference.findMany({ where: { userId } });
+  const enabled = new Map(saved.map(p => [p.type, p.enabled]));
+
+  return Object.entries(NOTIFICATION_TYPES).map(([type, description]) => ({
+    type,
+    description,
+    enabled: enabled.get(type) ?? true
+  }));
+};
+
+// Every email type with whether the user gets it (on by default), plus whether the
+// server can send email at all and the address it goes to
+const loadEmailPreferences = async (userId: string) => {
+  const [saved, user] = await Promise.all([
+    prisma.notificationPreference.findMany({ where: { userId } }),
+    prisma.user.findUnique({ where: { id: userId }, select: { email: true } })
+  ]);
+  const enabled = new Map(saved.map(p => [p.type, p.email]));
+
+  return {
+    available: isMailEnabled(),
+    email: user?.email || null,
+    preferences: Object.entries(EMAIL_TYPES).map(([type, description]) => ({
+      type,
+      description,
+      enabled: enabled.get(type) ?? true
+    }))
+  };
+};
+
+// Get your notifications in the active household, newest first, with the unread count
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { unread, page = '1', limit = '20' } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const take = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+
+    const where = {
+      userId: req.user!.id,
+      householdId: req.user!.householdId,
+      ...(unread === 'true' ? { readAt: null } : {})
+    };
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (pageNum - 1) * take,
+        take
+      }),
+      prisma.notification.count({ where }),
+      prisma.notification.count({
+        where: { userId: req.user!.id, householdId: req.user!.householdId, readAt: null }
+      })
+    ]);
+
+    res.json({
+      notifications,
+      unreadCount,
+      pagination: {
+        page: pageNum,
+        limit: take,
+        total,
+        pages: Math.ceil(total / take)
+      }
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({ error: 'Failed to get notifications' });
+  }
+});
+
+// Number of unread notifications (for the bell badge)
+router.get('/unread-count', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const count = await prisma.notification.count({
+      where: { userId: req.user!.id, householdId: req.user!.householdId, readAt: null }
+    });
+
+    res.json({ count });
+  } catch (error) {
+    console.error('Get unread count error:', error);
+    res.status(500).json({ error: 'Failed to get unread count' });
+  }
+});
+
+// Get your notification preferences: every type with whether it is on
+router.get('/preferences', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    res.json(await loadPreferences(req.user!.id));
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to get notification preferences' });
+  }
+});
+
+// Turn notification types on or off: { type: boolean }
+router.put('/preferences', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const updates = req.body || {};
+
+    for (const [type, enabled] of Object.entries(updates)) {
+      if (!(type in NOTIFICATION_TYPES)) {
+        return res.status(400).json({ error: `Unknown notification type: ${type}` });
+      }
+      if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ error: 'Preferences must be true or false' });
+      }
+    }
+
+    for (const [type, enabled] of Object.entries(updates)) {
+      await prisma.notificationPreference.upsert({
+        where: { userId_type: { userId: req.user!.id, type } },
+        update: { enabled: enabled as boolean },
+        create: { userId: req.user!.id, type, enabled: enabled as boolean }
+      });
+    }
+
+    res.json(await loadPreferences(req.user!.id));
+  } catch (error) {
+    console.error('Update notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
+// Get your email preferences
+router.get('/email-preferences', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    res.json(await loadEmailPreferences(req.user!.id));
+  } catch (error) {
+    console.error('Get email preferences error:', error);
+    res.status(500).json({ error: 'Failed to get email preferences' });
+  }
+});
+
+// Turn emails on or off: { type: boolean }
+router.put('/email-preferences', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const updates = req.body || {};
+
+    for (const [type, enabled] of Object.entries(updates)) {
+      if (!(type in EMAIL_TYPES)) {
+        return res.status(400).json({ error: `Unknown email type: ${type}` });
+      }
+      if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ error: 'Preferences must be true or false' });
+      }
+    }
+
+    for (const [type, email] of Object.entries(updates)) {
+      await prisma.notificationPreference.upsert({
+        where: { userId_type: { userId: req.user!.id, type } },
+        update: { email: email as boolean },
+        create: { userId: req.user!.id, type, email: email as boolean }
+      });
+    }
+
+    res.json(await loadEmailPreferences(req.user!.id));
+  } catch (error) {
+    console.error('Update email preferences error:', error);
+    res.status(500).json({ error: 'Failed to update email preferences' });
+  }
+});
+
+// Mark all your notifications in the active household as read
+router.post('/read-all', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const result = await prisma.notification.updateMany({
+      where: { userId: req.user!.id, householdId: req.user!.householdId, readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    res.json({ message: `Marked ${result.count} notifications as read` });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+// Mark one notification as read
+router.post('/:id/read', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const notification = await prisma.notification.findFirst({
+      where: { id: req.params.id, userId: req.user!.id }
+    });
+
+    if (!notification) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    const updated = notification.readAt
+      ? notification
+      : await prisma.notification.update({ where: { id: notification.id }, data: { readAt: new Date() } });
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({ error: 'Failed to mark notification as read' });
+  }
+});
+
+export default router;
@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { OcrDraft } from '@prisma/client';
+import { prisma } from '../index';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+import { upload, getUploadPath } from '../middleware/upload';
+import { readReceipt } from '../lib/ocr';
+import { DEFAULT_BASE_CURRENCY } from '../lib/currency';
+
+const router = Router();
+
+const formatDraft = (draft: OcrDraft) => ({
+  ...draft,
+  items: draft.items ? JSON.parse(draft.items) : []
+});
+
+// Drafts belong to whoever scanned the receipt
+const draftOwner = async (req: AuthRequest) => {
+  const draft = await prisma.ocrDraft.findFirst({
+    where: { id: req.params.id, householdId: req.user!.householdId },
+    select: { createdById: true }
+  });
+  return draft ? [draft.createdById] : null;
+};
+
+// Read an uploaded receipt (image or PDF) into a draft the user confirms.
+// A receipt that can't be read still gets a draft, so the upload can be reused.
+router.post('/receipts', authenticateToken, authorize('expense.create'), upload.single('receipt'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'Receipt file is required' });
+    }
+
+    const base = {
+      receiptImage: getUploadPath(req.file.filename, 'receipts'),
+      createdById: req.user!.id,
+      householdId: req.user!.householdId
+    };
+
+    let draft: OcrDraft;
+    try {
+      // Receipts are read in the household's base currency
+      const household = await prisma.household.findUnique({
+        where: { id: req.user!.householdId },
+        select: { baseCurrency: true }
+      });
+      const result = await readReceipt(req.file.path, req.file.mimetype, household?.baseCurrency || DEFAULT_BASE_CURRENCY);
+      draft = await prisma.ocrDraft.create({
+        data: {
+          ...base,
+          status: 'completed',
+          text: result.text,
+          confidence: result.confidence,
+          merchant: result.merchant,
+          date: result.date,
+          total: result.total,
+          taxAmount: result.taxAmount,
+          serviceCharge: result.serviceCharge,
+          items: result.items.length > 0 ? JSON.stringify(result.items) : null
+        }
+      });
+    } catch (error) {
+      console.error('Receipt OCR error:', error);
+      draft = await prisma.ocrDraft.create({
+        data: {
+          ...base,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error)
+        }
+      });
+    }
+
+    res.status(201).json(formatDraft(draft));
+  } catch (error) {
+    console.error('Create OCR draft error:', error);
+    res.status(500).json({ error: 'Failed to read receipt' });
+  }
+});
+
+// Get an OCR draft
+router.get('/drafts/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const draft = await prisma.ocrDraft.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId }
+    });
+
+    if (!draft) {
+      return res.status(404).json({ error: 'OCR draft not found' });
+    }
+
+    res.json(formatDraft(draft));
+  } catch (error) {
+    console.error('Get OCR draft error:', error);
+    res.status(500).json({ error: 'Failed to get OCR draft' });
+  }
+});
+
+// Discard an OCR draft that won't be used
+router.delete('/drafts/:id', authenticateToken, authorize('expense.edit', draftOwner), async (req: AuthRequest, res) => {
+  try {
+    const draft = await prisma.ocrDraft.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId }
+    });
+
+    if (!draft) {
+      return res.status(404).json({ error: 'OCR draft not found' });
+    }
+
+    await prisma.ocrDraft.delete({ where: { id: draft.id } });
+
+    res.json({ message: 'OCR draft discarded' });
+  } catch (error) {
+    console.error('Delete OCR draft error:', error);
+    res.status(500).json({ error: 'Failed to discard OCR draft' });
+  }
+});
+
+export default router;
@@ -1,16 +1,34 @@
 import { Router } from 'express';
 import { prisma } from '../index';
-import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
 import { upload, getUploadPath } from '../middleware/upload';
+import { areHouseholdMembers } from '../lib/households';
+import { getHouseholdLedger } from '../lib/ledger';
+import { getHouseholdConverter, resolveRecordCurrency } from '../lib/currency';
+import { parseMinor, formatMinor } from '../lib/money';
+import { PAYMENT_FIELDS, recordAudit, snapshot } from '../lib/audit';
+import { applyPaymentEdit, editableOwnersOf, isSelfEditAllowed, notifyPaymentEdit, preparePaymentEdit } from '../lib/edits';
+import { heldMessage, holdForApproval, recordValue } from '../lib/approvals';
+import { describeAmount, notify } from '../lib/notifications';
+import { hasPermission } from '../lib/permissions';
 
 const router = Router();
 
+// A payment is confirmed or rejected by whoever it was made to
+const paymentReceiver = async (req: AuthRequest) => {
+  const payment = await prisma.payment.findFirst({
+    where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false },
+    select: { toUserId: true }
+  });
+  return payment ? [payment.toUserId] : null;
+};
+
 // Get all payments
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { fromUserId, toUserId, status, startDate, endDate, page = '1', limit = '50' } = req.query;
 
-    const where: any = {};
+    const where: any = { householdId: req.user!.householdId, isDeleted: false };
     
     if (fromUserId) where.fromUserId = fromUserId;
     if (toUserId) where.toUserId = toUserId;
@@ -62,8 +80,8 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
 // Get single payment
 router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const payment = await prisma.payment.findUnique({
-      where: { id: req.params.id },
+    const payment = await prisma.payment.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false },
       include: {
         fromUser: {
           select: { id: true, username: true, displayName: true, avatarUrl: true, bankName: true, bankAccountNo: true, bankAccountName: true, paymentQrImage: true }
@@ -89,11 +107,11 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Create payment (receipt may be optional based on settings)
-router.post('/', authenticateToken, upload.single('receipt'), async (req: AuthRequest, res) => {
+router.post('/', authenticateToken, authorize('payment.create'), upload.single('receipt'), async (req: AuthRequest, res) => {
   try {
     // Check if receipt is required
     const requireReceiptSetting = await prisma.settings.findUnique({
-      where: { key: 'requirePaymentReceipt' }
+      where: { householdId_key: { householdId: req.user!.householdId, key: 'requirePaymentReceipt' } }
     });
     const requireReceipt = requireReceiptSetting?.value !== 'false';  // default true
 
@@ -101,21 +119,35 @@ router.post('/', authenticateToken, upload.single('receipt'), async (req: AuthRe
       return res.status(400).json({ error: 'Receipt image is required as proof of payment' });
     }
 
-    const { fromUserId, toUserId, amount, description } = req.body;
+    const { fromUserId, toUserId, amount, currency, description } = req.body;
 
     // Allow creating payment on behalf of another user
     const actualFromUserId = fromUserId || req.user!.id;
     const createdById = fromUserId && fromUserId !== req.user!.id ? req.user!.id : null;
 
+    const parsedAmount = parseMinor(amount);
+    if (parsedAmount === null || parsedAmount <= 0) {
+      return res.status(400).json({ error: 'Amount must be a positive whole number of minor units' });
+    }
+
     if (actualFromUserId === toUserId) {
       return res.status(400).json({ error: 'Cannot make payment to yourself' });
     }
 
+    if (!(await areHouseholdMembers(req.user!.householdId, [actualFromUserId, toUserId]))) {
+      return res.status(400).json({ error: 'Both users must be members of this household' });
+    }
+
+    const resolved = await resolveRecordCurrency(req.user!.householdId, currency, new Date());
+    if ('error' in resolved) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
     const receiptImage = req.file ? getUploadPath(req.file.filename, 'receipts') : null;
 
     // Check if auto-accept is enabled
     const autoAcceptSetting = await prisma.settings.findUnique({
-      where: { key: 'autoAcceptPayments' }
+      where: { householdId_key: { householdId: req.user!.householdId, key: 'autoAcceptPayments' } }
     });
     const autoAccept = autoAcceptSetting?.value !== 'false';  // default true
 
@@ -123,10 +155,12 @@ router.post('/', authenticateToken, upload.single('receipt'), async (req: AuthRe
       data: {
         fromUserId: actualFromUserId,
         toUserId,
-        amount: parseFloat(amount),
+        amount: parsedAmount,
+        currency: resolved.currency,
         description,
         receiptImage,
         createdById,
+        householdId: req.user!.householdId,
         status: autoAccept ? 'confirmed' : 'pending'
       },
       include: {
@@ -142,6 +176,27 @@ router.post('/', authenticateToken, upload.single('receipt'), async (req: AuthRe
       }
     });
 
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'payment',
+      entityId: payment.id,
+      entityLabel: payment.description || 'Payment',
+      action: 'create',
+      after: snapshot(payment, PAYMENT_FIELDS)
+    });
+
+    const pending = payment.status === 'pending';
+    await notify(req.user!.householdId, [payment.toUserId], {
+      type: pending ? 'payment-pending' : 'payment-received',
+      title: pending ? 'Payment to confirm' : 'Payment received',
+      message: `${payment.fromUser.displayName} paid you ${describeAmount(payment.amount, payment.currency)}${pending ? '. Please confirm you received it.' : ''}`,
+      link: '/payments',
+      entityType: 'payment',
+      entityId: payment.id,
+      email: pending
+    }, req.user!.id);
+
     res.status(201).json(payment);
   } catch (error) {
     console.error('Create payment error:', error);
@@ -149,17 +204,55 @@ router.post('/', authenticateToken, upload.single('receipt'), async (req: AuthRe
   }
 });
 
-// Confirm/reject payment (receiver or admin)
-router.put('/:id/status', authenticateToken, async (req: AuthRequest, res) => {
+// Update payment details (payment.edit.any, or the owner if allowUserSelfEdit is enabled).
+// The status is changed separately by the receiver.
+router.put('/:id', authenticateToken, authorize('payment.edit', editableOwnersOf('payment')), async (req: AuthRequest, res) => {
   try {
-    const { status } = req.body;
+    const payment = await prisma.payment.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false }
+    });
+
+    if (!payment) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    // Check if record is locked (associated with deleted user)
+    if (payment.isLocked) {
+      return res.status(403).json({ error: 'This payment is locked and cannot be modified. It is associated with a deleted user.' });
+    }
+
+    if (!hasPermission(req.user, 'payment.edit.any') && !(await isSelfEditAllowed(req.user!.householdId))) {
+      return res.status(403).json({ error: 'Editing your own records is currently disabled by admin. Submit a change request instead.' });
+    }
+
+    const edit = await preparePaymentEdit(req.user!.householdId, payment, req.body);
+    if ('error' in edit) {
+      return res.status(400).json({ error: edit.error });
+    }
+
+    const updatedPayment = await prisma.$transaction((tx) =>
+      applyPaymentEdit(tx, req.user!.householdId, payment, edit, req.user!.id, req.body.reason)
+    );
+    await notifyPaymentEdit(req.user!.householdId, updatedPayment, edit, req.user!.id);
+
+    res.json(updatedPayment);
+  } catch (error) {
+    console.error('Update payment error:', error);
+    res.status(500).json({ error: 'Failed to update payment' });
+  }
+});
+
+// Confirm/reject payment (the receiver, or payment.confirm.any)
+router.put('/:id/status', authenticateToken, authorize('payment.confirm', paymentReceiver), async (req: AuthRequest, res) => {
+  try {
+    const { status, reason } = req.body;
 
     if (!['confirmed', 'rejected'].includes(status)) {
       return res.status(400).json({ error: 'Invalid status' });
     }
 
-    const payment = await prisma.payment.findUnique({
-      where: { id: req.params.id }
+    const payment = await prisma.payment.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false }
     });
 
     if (!payment) {
@@ -171,24 +264,45 @@ router.put('/:id/status', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(403).json({ error: 'This payment is locked and cannot be modified. It is associated with a deleted user.' });
     }
 
-    // Only receiver or admin can confirm/reject
-    if (payment.toUserId !== req.user!.id && !req.user!.isAdmin) {
-      return res.status(403).json({ error: 'Permission denied' });
-    }
-
-    const updatedPayment = await prisma.payment.update({
-      where: { id: req.params.id },
-      data: { status },
-      include: {
-        fromUser: {
-          select: { id: true, displayName: true, avatarUrl: true }
-        },
-        toUser: {
-          select: { id: true, displayName: true, avatarUrl: true }
+    const updatedPayment = await prisma.$transaction(async (tx) => {
+      const updated = await tx.payment.update({
+        where: { id: req.params.id },
+        data: { status },
+        include: {
+          fromUser: {
+            select: { id: true, displayName: true, avatarUrl: true }
+          },
+          toUser: {
+            select: { id: true, displayName: true, avatarUrl: true }
+          }
         }
-      }
+      });
+
+      await recordAudit({
+        householdId: req.user!.householdId,
+        actorId: req.user!.id,
+        entityType: 'payment',
+        entityId: payment.id,
+        entityLabel: payment.description || 'Payment',
+        action: 'status',
+        before: snapshot(payment, PAYMENT_FIELDS),
+        after: snapshot(updated, PAYMENT_FIELDS),
+        reason
+      }, tx);
+
+      return updated;
     });
 
+    await notify(req.user!.householdId, [payment.fromUserId], {
+      type: 'payment-status',
+      title: `Payment ${status}`,
+      message: `Your payment of ${describeAmount(payment.amount, payment.currency)} to ${updatedPayment.toUser.displayName} was ${status}`,
+      link: '/payments',
+      entityType: 'payment',
+      entityId: payment.id,
+      email: status === 'confirmed'
+    }, req.user!.id);
+
     res.json(updatedPayment);
   } catch (error) {
     console.error('Update payment status error:', error);
@@ -196,11 +310,12 @@ router.put('/:id/status', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Delete payment (admin, or owner if allowUserSelfDelete is enabled)
-router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
+// Delete payment (payment.edit.any, or the owner if allowUserSelfDelete is enabled).
+// The payment moves to the trash, where an admin can restore it until it is purged.
+router.delete('/:id', authenticateToken, authorize('payment.edit', editableOwnersOf('payment')), async (req: AuthRequest, res) => {
   try {
-    const payment = await prisma.payment.findUnique({
-      where: { id: req.params.id }
+    const payment = await prisma.payment.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, isDeleted: false }
     });
 
     if (!payment) {
@@ -212,16 +327,11 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(403).json({ error: 'This payment is locked and cannot be deleted. It is associated with a deleted user.' });
     }
 
-    // Check permissions: admin can always delete
-    if (!req.user!.isAdmin) {
-      // Check if user owns this payment (either sender or creator)
-      if (payment.fromUserId !== req.user!.id && payment.createdById !== req.user!.id) {
-        return res.status(403).json({ error: 'Permission denied. Only admins or the record owner can delete.' });
-      }
-
+    // Owners only delete while self-deletion is allowed
+    if (!hasPermission(req.user, 'payment.edit.any')) {
       // Check if self-delete is allowed
       const allowSelfDeleteSetting = await prisma.settings.findUnique({
-        where: { key: 'allowUserSelfDelete' }
+        where: { householdId_key: { householdId: req.user!.householdId, key: 'allowUserSelfDelete' } }
       });
       const allowSelfDelete = allowSelfDeleteSetting?.value === 'true';
 
@@ -230,11 +340,40 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
       }
     }
 
-    await prisma.payment.delete({
-      where: { id: req.params.id }
+    // Deletes of valuable records can need more than one approval
+    const held = await holdForApproval(req.user!.householdId, req.user!.id, {
+      action: 'delete',
+      recordType: 'payment',
+      recordId: payment.id,
+      value: await recordValue(req.user!.householdId, payment),
+      reason: req.body?.reason
+    });
+    if (held && 'error' in held) {
+      return res.status(400).json({ error: held.error });
+    }
+    if (held) {
+      return res.status(202).json({ message: heldMessage('Deleting this payment', held), request: held.request });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.payment.update({
+        where: { id: req.params.id },
+        data: { isDeleted: true, deletedAt: new Date() }
+      });
+
+      await recordAudit({
+        householdId: req.user!.householdId,
+        actorId: req.user!.id,
+        entityType: 'payment',
+        entityId: payment.id,
+        entityLabel: payment.description || 'Payment',
+        action: 'delete',
+        before: snapshot(payment, PAYMENT_FIELDS),
+        reason: req.body?.reason
+      }, tx);
     });
 
-    res.json({ message: 'Payment deleted successfully' });
+    res.json({ message: 'Payment moved to the trash' });
   } catch (error) {
     console.error('Delete payment error:', error);
     res.status(500).json({ error: 'Failed to delete payment' });
@@ -247,37 +386,47 @@ router.get('/balance/:userId', authenticateToken, async (req: AuthRequest, res)
     const otherUserId = req.params.userId;
     const currentUserId = req.user!.id;
 
-    const [paidToOther, receivedFromOther] = await Promise.all([
-      prisma.payment.aggregate({
+    const amountSelect = { amount: true, currency: true, date: true };
+
+    const [paidToOther, receivedFromOther, converter] = await Promise.all([
+      prisma.payment.findMany({
         where: {
+          householdId: req.user!.householdId,
           fromUserId: currentUserId,
           toUserId: otherUserId,
-          status: 'confirmed'
+          status: 'confirmed',
+          isDeleted: false
         },
-        _sum: { amount: true }
+        select: amountSelect
       }),
-      prisma.payment.aggregate({
+      prisma.payment.findMany({
         where: {
+          householdId: req.user!.householdId,
           fromUserId: otherUserId,
           toUserId: currentUserId,
-          status: 'confirmed'
+          status: 'confirmed',
+          isDeleted: false
         },
-        _sum: { amount: true }
-      })
+        select: amountSelect
+      }),
+      getHouseholdConverter(req.user!.householdId)
     ]);
 
-    const paid = paidToOther._sum.amount || 0;
-    const received = receivedFromOther._sum.amount || 0;
+    // Converted to the household's base currency
+    const paid = converter.sum(paidToOther);
+    const received = converter.sum(receivedFromOther);
     const balance = paid - received; // Positive means you've paid more
+    const currency = converter.baseCurrency;
 
     res.json({
       paidToOther: paid,
       receivedFromOther: received,
       balance,
+      currency,
       message: balance > 0 
-        ? `They owe you RM ${balance.toFixed(2)}` 
+        ? `They owe you ${currency} ${formatMinor(balance, currency)}` 
         : balance < 0 
-          ? `You owe them RM ${Math.abs(balance).toFixed(2)}`
+          ? `You owe them ${currency} ${formatMinor(Math.abs(balance), currency)}`
           : 'You are even'
     });
   } catch (error) {
@@ -291,85 +440,35 @@ router.get('/balances/all', authenticateToken, async (req: AuthRequest, res) =>
   try {
     const currentUserId = req.user!.id;
 
-    // Get all other users
+    const householdId = req.user!.householdId;
+
+    // Get all other members of the household
     const users = await prisma.user.findMany({
-      where: { id: { not: currentUserId } },
+      where: { id: { not: currentUserId }, householdMembers: { some: { householdId } } },
       select: { id: true, displayName: true, avatarUrl: true, bankName: true, bankAccountNo: true, bankAccountName: true, paymentQrImage: true }
     });
 
-    const balances = await Promise.all(users.map(async (otherUser) => {
-      // 1. Get expense splits where current user owes otherUser
-      // (otherUser paid for expense, current user has a split)
-      const expensesIPaidFor = await prisma.expense.findMany({
-        where: { userId: currentUserId },
-        include: { splits: true }
-      });
-      
-      const expensesTheyPaidFor = await prisma.expense.findMany({
-        where: { userId: otherUser.id },
-        include: { splits: true }
-      });
-
-      // Amount I owe them: My split amount from their expenses
-      let iOweThem = 0;
-      for (const expense of expensesTheyPaidFor) {
-        const mySplit = expense.splits.find(s => s.userId === currentUserId);
-        if (mySplit) {
-          iOweThem += mySplit.amount;
-        }
-      }
-
-      // Amount they owe me: Their split amount from my expenses
-      let theyOweMe = 0;
-      for (const expense of expensesIPaidFor) {
-        const theirSplit = expense.splits.find(s => s.userId === otherUser.id);
-        if (theirSplit) {
-          theyOweMe += theirSplit.amount;
-        }
-      }
+    const ledger = await getHouseholdLedger(householdId);
 
-      // 2. Factor in confirmed payments
-      const [paidToThem, receivedFromThem] = await Promise.all([
-        prisma.payment.aggregate({
-          where: {
-            fromUserId: currentUserId,
-            toUserId: otherUser.id,
-            status: 'confirmed'
-          },
-          _sum: { amount: true }
-        }),
-        prisma.payment.aggregate({
-          where: {
-            fromUserId: otherUser.id,
-            toUserId: currentUserId,
-            status: 'confirmed'
-          },
-          _sum: { amount: true }
-        })
-      ]);
-
-      const paid = paidToThem._sum.amount || 0;
-      const received = receivedFromThem._sum.amount || 0;
-
-      // Net balance: what I owe them - what they owe me - what I paid + what I received
+    const balances = users.map((otherUser) => {
       // Positive = I owe them, Negative = They owe me
-      const netBalance = iOweThem - theyOweMe - paid + received;
+      const pair = ledger.between(currentUserId, otherUser.id);
 
       return {
         user: otherUser,
-        expenseIOwe: iOweThem,
-        expenseTheyOwe: theyOweMe,
-        paidToThem: paid,
-        receivedFromThem: received,
-        balance: netBalance,
-        youOwe: netBalance > 0,
-        theyOwe: netBalance < 0,
-        amount: Math.abs(netBalance)
+        expenseIOwe: pair.expenseOwed,
+        expenseTheyOwe: pair.expenseOwing,
+        paidToThem: pair.paid,
+        receivedFromThem: pair.received,
+        balance: pair.balance,
+        youOwe: pair.balance > 0,
+        theyOwe: pair.balance < 0,
+        amount: Math.abs(pair.balance)
       };
-    }));
+    });
 
     // Only return balances with non-zero amounts
-    res.json(balances.filter(b => b.amount > 0.01));
+    res.json(balances.filter(b => b.amount > 0));
   } catch (error) {
     console.error('Get all balances error:', error);
     res.status(500).json({ error: 'Failed to get balances' });
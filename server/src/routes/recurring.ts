@@ -1,10 +1,42 @@
 import { Router } from 'express';
 import { prisma } from '../index';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
-import { addDays, addWeeks, addMonths, addYears, isBefore, isAfter, startOfDay } from 'date-fns';
+import { authenticateToken, authorize, denyPermission, AuthRequest } from '../middleware/auth';
+import { areHouseholdMembers, isHouseholdCategory } from '../lib/households';
+import { parseMinor } from '../lib/money';
+import { resolveRecordCurrency } from '../lib/currency';
+import { processHouseholdRecurring } from '../lib/recurring';
+import { RECURRING_FIELDS, recordAudit, snapshot } from '../lib/audit';
+import { applyRecurringEdit, editableOwnersOf, isSelfEditAllowed, prepareRecurringEdit } from '../lib/edits';
+import { hasPermission } from '../lib/permissions';
+import { describeRule, firstOccurrence, listOccurrences, nextOccurrence, resolveSchedule, ruleFor } from '../lib/recurrence';
+import { startOfDay } from 'date-fns';
 
 const router = Router();
 
+type RecurringRecord = { id: string; description: string } & Record<string, any>;
+
+// Log a change to a recurring expense in the audit log
+const auditRecurring = (
+  req: AuthRequest,
+  action: string,
+  before: RecurringRecord | null,
+  after: RecurringRecord | null,
+  reason?: string
+) => {
+  const record = (after || before)!;
+  return recordAudit({
+    householdId: req.user!.householdId,
+    actorId: req.user!.id,
+    entityType: 'recurring',
+    entityId: record.id,
+    entityLabel: record.description,
+    action,
+    before: before ? snapshot(before, RECURRING_FIELDS) : null,
+    after: after ? snapshot(after, RECURRING_FIELDS) : null,
+    reason
+  });
+};
+
 // Get frequency label
 const getFrequencyLabel = (freq: string) => {
   switch (freq) {
@@ -16,26 +48,11 @@ const getFrequencyLabel = (freq: string) => {
   }
 };
 
-// Calculate next due date based on frequency
-const calculateNextDueDate = (currentDate: Date, frequency: string): Date => {
-  switch (frequency) {
-    case 'daily':
-      return addDays(currentDate, 1);
-    case 'weekly':
-      return addWeeks(currentDate, 1);
-    case 'monthly':
-      return addMonths(currentDate, 1);
-    case 'yearly':
-      return addYears(currentDate, 1);
-    default:
-      return addMonths(currentDate, 1);
-  }
-};
-
 // Get all recurring expenses
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const recurring = await prisma.recurringExpense.findMany({
+      where: { householdId: req.user!.householdId },
       include: {
         user: {
           select: { id: true, username: true, displayName: true, avatarUrl: true }
@@ -44,33 +61,104 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
       orderBy: { nextDueDate: 'asc' }
     });
 
-    res.json(recurring);
+    res.json(recurring.map(r => ({ ...r, schedule: describeRule(ruleFor(r)) })));
   } catch (error) {
     console.error('Get recurring expenses error:', error);
     res.status(500).json({ error: 'Failed to fetch recurring expenses' });
   }
 });
 
+// Preview the next occurrences of a schedule before saving it
+router.get('/preview', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { frequency, interval, rrule, startDate, endDate, totalOccurrences, count } = req.query;
+
+    const schedule = resolveSchedule({ frequency, interval, rrule });
+    if ('error' in schedule) {
+      return res.status(400).json({ error: schedule.error });
+    }
+
+    const start = startDate ? new Date(String(startDate)) : startOfDay(new Date());
+    if (isNaN(start.getTime())) {
+      return res.status(400).json({ error: 'Invalid start date' });
+    }
+
+    const until = endDate ? new Date(String(endDate)) : schedule.until || null;
+    const occurrenceLimit = totalOccurrences ? parseInt(String(totalOccurrences)) : schedule.count;
+    const limit = Math.min(parseInt(String(count)) || 5, 50, occurrenceLimit || Infinity);
+
+    res.json({
+      schedule: describeRule(schedule.rule),
+      rrule: schedule.rrule,
+      occurrences: listOccurrences(schedule.rule, start, { until, limit })
+    });
+  } catch (error) {
+    console.error('Preview recurring schedule error:', error);
+    res.status(500).json({ error: 'Failed to preview schedule' });
+  }
+});
+
 // Create recurring expense
-router.post('/', authenticateToken, async (req: AuthRequest, res) => {
+router.post('/', authenticateToken, authorize('recurring.create'), async (req: AuthRequest, res) => {
   try {
-    const { description, amount, frequency, startDate, endDate, totalOccurrences, categoryId, notes, userId, splitEqually, splitType, splitConfig } = req.body;
+    const { description, amount, currency, isVariableAmount, frequency, interval, rrule, startDate, endDate, totalOccurrences, categoryId, notes, userId, splitEqually, splitType, splitConfig } = req.body;
 
     // Allow creating for another user
     const targetUserId = userId || req.user!.id;
 
+    // A variable amount is only an estimate, which may be left at zero
+    const variable = isVariableAmount === true;
+    const parsedAmount = parseMinor(variable ? amount || 0 : amount);
+    if (parsedAmount === null || parsedAmount < 0 || (!variable && parsedAmount === 0)) {
+      return res.status(400).json({ error: 'Amount must be a positive whole number of minor units' });
+    }
+
+    if (!(await areHouseholdMembers(req.user!.householdId, [targetUserId]))) {
+      return res.status(400).json({ error: 'User must be a member of this household' });
+    }
+    if (!(await isHouseholdCategory(req.user!.householdId, categoryId))) {
+      return res.status(400).json({ error: 'Category not found' });
+    }
+
+    const schedule = resolveSchedule({ frequency, interval, rrule });
+    if ('error' in schedule) {
+      return res.status(400).json({ error: schedule.error });
+    }
+
+    const start = new Date(startDate);
+    if (isNaN(start.getTime())) {
+      return res.status(400).json({ error: 'Invalid start date' });
+    }
+
+    // The start date need not match the rule (e.g. "1st Saturday" starting on a Monday)
+    const nextDueDate = firstOccurrence(schedule.rule, start);
+    if (!nextDueDate) {
+      return res.status(400).json({ error: 'This schedule never produces a date' });
+    }
+
+    // A rate on or before the start date also covers every later occurrence
+    const resolved = await resolveRecordCurrency(req.user!.householdId, currency, start);
+    if ('error' in resolved) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
     const recurring = await prisma.recurringExpense.create({
       data: {
         description,
-        amount: parseFloat(amount),
-        frequency,
-        startDate: new Date(startDate),
-        endDate: endDate ? new Date(endDate) : null,
-        totalOccurrences: totalOccurrences ? parseInt(totalOccurrences) : null,
-        nextDueDate: new Date(startDate),
+        amount: parsedAmount,
+        currency: resolved.currency,
+        isVariableAmount: variable,
+        frequency: schedule.frequency,
+        interval: schedule.interval,
+        rrule: schedule.rrule,
+        startDate: start,
+        endDate: endDate ? new Date(endDate) : schedule.until || null,
+        totalOccurrences: totalOccurrences ? parseInt(totalOccurrences) : schedule.count || null,
+        nextDueDate,
         categoryId: categoryId || null,
         notes,
         userId: targetUserId,
+        householdId: req.user!.householdId,
         splitEqually: splitEqually !== undefined ? splitEqually : true,
         splitType: splitType || 'equal',
         splitConfig: splitConfig ? JSON.stringify(splitConfig) : null
@@ -82,6 +170,8 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
       }
     });
 
+    await auditRecurring(req, 'create', null, recurring);
+
     res.status(201).json(recurring);
   } catch (error) {
     console.error('Create recurring expense error:', error);
@@ -90,51 +180,29 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Update recurring expense
-router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
+router.put('/:id', authenticateToken, authorize('recurring.edit', editableOwnersOf('recurring')), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { description, amount, frequency, startDate, endDate, totalOccurrences, categoryId, notes, isActive, splitEqually, splitType, splitConfig, userId } = req.body;
 
-    const existing = await prisma.recurringExpense.findUnique({ where: { id } });
+    const existing = await prisma.recurringExpense.findFirst({ where: { id, householdId: req.user!.householdId } });
     if (!existing) {
       return res.status(404).json({ error: 'Recurring expense not found' });
     }
 
-    // Only owner or admin can update
-    if (existing.userId !== req.user!.id && !req.user!.isAdmin) {
-      return res.status(403).json({ error: 'Not authorized to update this recurring expense' });
+    // Owners only edit while self-editing is allowed (otherwise they propose the edit
+    // as a change request)
+    if (!hasPermission(req.user, 'recurring.edit.any') && !(await isSelfEditAllowed(req.user!.householdId))) {
+      return res.status(403).json({ error: 'Editing your own records is currently disabled by admin. Submit a change request instead.' });
     }
 
-    // If startDate changed and is in the future, update nextDueDate as well
-    let newNextDueDate = existing.nextDueDate;
-    if (startDate && new Date(startDate).getTime() !== existing.startDate.getTime()) {
-      newNextDueDate = new Date(startDate);
+    const edit = await prepareRecurringEdit(req.user!.householdId, existing, req.body);
+    if ('error' in edit) {
+      return res.status(400).json({ error: edit.error });
     }
 
-    const recurring = await prisma.recurringExpense.update({
-      where: { id },
-      data: {
-        description,
-        amount: amount ? parseFloat(amount) : undefined,
-        frequency,
-        startDate: startDate ? new Date(startDate) : undefined,
-        nextDueDate: newNextDueDate,
-        endDate: endDate ? new Date(endDate) : endDate === '' ? null : undefined,
-        totalOccurrences: totalOccurrences ? parseInt(totalOccurrences) : totalOccurrences === '' ? null : undefined,
-        categoryId: categoryId || categoryId === '' ? (categoryId || null) : undefined,
-        notes,
-        isActive: isActive !== undefined ? isActive : undefined,
-        splitEqually: splitEqually !== undefined ? splitEqually : undefined,
-        splitType: splitType || undefined,
-        splitConfig: splitConfig !== undefined ? (splitConfig ? JSON.stringify(splitConfig) : null) : undefined,
-        userId: userId || undefined
-      },
-      include: {
-        user: {
-          select: { id: true, username: true, displayName: true }
-        }
-      }
-    });
+    const recurring = await prisma.$transaction((tx) =>
+      applyRecurringEdit(tx, req.user!.householdId, existing, edit, req.user!.id, req.body.reason)
+    );
 
     res.json(recurring);
   } catch (error) {
@@ -144,25 +212,22 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Cancel/deactivate recurring expense (doesn't delete existing records)
-router.post('/:id/cancel', authenticateToken, async (req: AuthRequest, res) => {
+router.post('/:id/cancel', authenticateToken, authorize('recurring.edit', editableOwnersOf('recurring')), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
-    const existing = await prisma.recurringExpense.findUnique({ where: { id } });
+    const existing = await prisma.recurringExpense.findFirst({ where: { id, householdId: req.user!.householdId } });
     if (!existing) {
       return res.status(404).json({ error: 'Recurring expense not found' });
     }
 
-    // Only owner or admin can cancel
-    if (existing.userId !== req.user!.id && !req.user!.isAdmin) {
-      return res.status(403).json({ error: 'Not authorized to cancel this recurring expense' });
-    }
-
     const recurring = await prisma.recurringExpense.update({
       where: { id },
       data: { isActive: false }
     });
 
+    await auditRecurring(req, 'cancel', existing, recurring, req.body?.reason);
+
     res.json({ message: 'Recurring expense cancelled', recurring });
   } catch (error) {
     console.error('Cancel recurring expense error:', error);
@@ -171,25 +236,20 @@ router.post('/:id/cancel', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Reactivate recurring expense
-router.post('/:id/reactivate', authenticateToken, async (req: AuthRequest, res) => {
+router.post('/:id/reactivate', authenticateToken, authorize('recurring.edit', editableOwnersOf('recurring')), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
-    const existing = await prisma.recurringExpense.findUnique({ where: { id } });
+    const existing = await prisma.recurringExpense.findFirst({ where: { id, householdId: req.user!.householdId } });
     if (!existing) {
       return res.status(404).json({ error: 'Recurring expense not found' });
     }
 
-    // Only owner or admin can reactivate
-    if (existing.userId !== req.user!.id && !req.user!.isAdmin) {
-      return res.status(403).json({ error: 'Not authorized to reactivate this recurring expense' });
-    }
-
-    // Calculate next due date from today
+    // Resume from the first occurrence on or after today; missed ones are not generated
     const today = startOfDay(new Date());
-    let nextDueDate = new Date(existing.startDate);
-    while (isBefore(nextDueDate, today)) {
-      nextDueDate = calculateNextDueDate(nextDueDate, existing.frequency);
+    const nextDueDate = nextOccurrence(ruleFor(existing), existing.startDate, new Date(today.getTime() - 1));
+    if (!nextDueDate) {
+      return res.status(400).json({ error: 'This recurring expense has no further dates' });
     }
 
     const recurring = await prisma.recurringExpense.update({
@@ -200,6 +260,8 @@ router.post('/:id/reactivate', authenticateToken, async (req: AuthRequest, res)
       }
     });
 
+    await auditRecurring(req, 'reactivate', existing, recurring, req.body?.reason);
+
     res.json({ message: 'Recurring expense reactivated', recurring });
   } catch (error) {
     console.error('Reactivate recurring expense error:', error);
@@ -207,17 +269,19 @@ router.post('/:id/reactivate', authenticateToken, async (req: AuthRequest, res)
   }
 });
 
-// Delete recurring expense (admin only)
-router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
+// Delete recurring expense (recurring.edit.any)
+router.delete('/:id', authenticateToken, authorize('recurring.edit.any'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
-    if (!req.user!.isAdmin) {
-      return res.status(403).json({ error: 'Only admins can delete recurring expenses' });
+    const existing = await prisma.recurringExpense.findFirst({ where: { id, householdId: req.user!.householdId } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Recurring expense not found' });
     }
 
     // Delete the recurring expense (generated expenses remain)
     await prisma.recurringExpense.delete({ where: { id } });
+    await auditRecurring(req, 'delete', existing, null, req.body?.reason);
 
     res.json({ message: 'Recurring expense deleted' });
   } catch (error) {
@@ -226,141 +290,65 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Process due recurring expenses (creates expense records with splits)
-router.post('/process', authenticateToken, async (req: AuthRequest, res) => {
+// Process due recurring expenses now. With recurring.edit.any you can process ahead up
+// to a date; a dry run lists what would be created without creating anything.
+router.post('/process', authenticateToken, authorize('expense.create'), async (req: AuthRequest, res) => {
   try {
-    const today = startOfDay(new Date());
-    
-    // Find all active recurring expenses that are due
-    const dueRecurring = await prisma.recurringExpense.findMany({
-      where: {
-        isActive: true,
-        nextDueDate: { lte: today },
-        OR: [
-          { endDate: null },
-          { endDate: { gte: today } }
-        ]
+    const { dryRun, upTo } = req.body || {};
+
+    let processUpTo = new Date();
+    if (upTo) {
+      if (!hasPermission(req.user, 'recurring.edit.any')) {
+        return denyPermission(res, 'recurring.edit.any');
       }
-    });
+      const day = String(upTo).trim();
+      processUpTo = new Date(day);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || isNaN(processUpTo.getTime())) {
+        return res.status(400).json({ error: 'Process up to date must be in YYYY-MM-DD format' });
+      }
+    }
 
-    // Get all active users for splitting
-    const activeUsers = await prisma.user.findMany({
-      where: { isDeleted: false },
-      select: { id: true }
+    const { run, items } = await processHouseholdRecurring(req.user!.householdId, {
+      upTo: processUpTo,
+      dryRun: dryRun === true,
+      trigger: 'manual',
+      triggeredById: req.user!.id
     });
 
-    const created: any[] = [];
+    const message = run.dryRun
+      ? `${items.length} recurring expenses would be created`
+      : `Processed ${run.created} recurring expenses`;
 
-    for (const recurring of dueRecurring) {
-      // Check if max occurrences reached
-      if (recurring.totalOccurrences && recurring.occurrencesCreated >= recurring.totalOccurrences) {
-        await prisma.recurringExpense.update({
-          where: { id: recurring.id },
-          data: { isActive: false }
-        });
-        continue;
-      }
+    res.json({ message, run, items });
+  } catch (error) {
+    console.error('Process recurring expenses error:', error);
+    res.status(500).json({ error: 'Failed to process recurring expenses' });
+  }
+});
 
-      // Calculate splits based on configuration
-      let splitsData: { userId: string; amount: number }[] = [];
-      
-      if (recurring.splitEqually) {
-        // Split equally among all active users
-        if (activeUsers.length > 0) {
-          const perPerson = Math.floor((recurring.amount / activeUsers.length) * 100) / 100;
-          const totalOthers = perPerson * (activeUsers.length - 1);
-          const ownerAmount = Math.round((recurring.amount - totalOthers) * 100) / 100;
-          
-          splitsData = activeUsers.map((u) => ({
-            userId: u.id,
-            amount: u.id === recurring.userId ? ownerAmount : perPerson
-          }));
-        }
-      } else if (recurring.splitConfig) {
-        // Use custom split configuration
-        const config = JSON.parse(recurring.splitConfig) as Array<{ memberId: string; percentage?: number; amount?: number }>;
-        const splitType = recurring.splitType || 'equal';
-        
-        if (splitType === 'percentage') {
-          // Calculate based on percentage
-          let totalOthersAmount = 0;
-          const othersAmounts = config.slice(1).map((c) => {
-            const percentage = c.percentage || 0;
-            const amount = Math.round((recurring.amount * percentage / 100) * 100) / 100;
-            totalOthersAmount += amount;
-            return { userId: c.memberId, amount };
-          });
-          
-          // Owner gets remainder
-          const ownerAmount = Math.round((recurring.amount - totalOthersAmount) * 100) / 100;
-          splitsData = [
-            { userId: config[0]?.memberId || recurring.userId, amount: ownerAmount },
-            ...othersAmounts
-          ];
-        } else if (splitType === 'amount') {
-          // Calculate based on fixed amounts
-          let totalOthersAmount = 0;
-          const othersAmounts = config.slice(1).map((c) => {
-            totalOthersAmount += c.amount || 0;
-            return { userId: c.memberId, amount: c.amount || 0 };
-          });
-          
-          // Owner gets remainder
-          const ownerAmount = Math.round((recurring.amount - totalOthersAmount) * 100) / 100;
-          splitsData = [
-            { userId: config[0]?.memberId || recurring.userId, amount: Math.max(0, ownerAmount) },
-            ...othersAmounts
-          ];
-        } else {
-          // Equal split among selected members
-          const perPerson = Math.floor((recurring.amount / config.length) * 100) / 100;
-          const totalOthers = perPerson * (config.length - 1);
-          const ownerAmount = Math.round((recurring.amount - totalOthers) * 100) / 100;
-          
-          splitsData = config.map((c, idx) => ({
-            userId: c.memberId,
-            amount: idx === 0 ? ownerAmount : perPerson
-          }));
-        }
-      }
+// Run log of recurring processing, newest first (reports.read)
+router.get('/runs', authenticateToken, authorize('reports.read'), async (req: AuthRequest, res) => {
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit)) || 50, 200);
 
-      // Create expense record with splits
-      const expense = await prisma.expense.create({
-        data: {
-          description: recurring.description,
-          amount: recurring.amount,
-          date: recurring.nextDueDate,
-          categoryId: recurring.categoryId,
-          userId: recurring.userId,
-          recurringExpenseId: recurring.id,
-          notes: `Auto-generated from recurring: ${recurring.description}`,
-          splits: splitsData.length > 0 ? {
-            create: splitsData.map(s => ({
-              userId: s.userId,
-              amount: s.amount
-            }))
-          } : undefined
-        }
-      });
-
-      created.push(expense);
-
-      // Update next due date and occurrences count
-      const nextDueDate = calculateNextDueDate(recurring.nextDueDate, recurring.frequency);
-      
-      await prisma.recurringExpense.update({
-        where: { id: recurring.id },
-        data: {
-          nextDueDate,
-          occurrencesCreated: recurring.occurrencesCreated + 1
+    const runs = await prisma.recurringRun.findMany({
+      where: { householdId: req.user!.householdId },
+      include: {
+        triggeredBy: {
+          select: { id: true, username: true, displayName: true }
         }
-      });
-    }
+      },
+      orderBy: { startedAt: 'desc' },
+      take: limit
+    });
 
-    res.json({ message: `Processed ${created.length} recurring expenses`, created });
+    res.json(runs.map(run => ({
+      ...run,
+      details: run.details ? JSON.parse(run.details) : []
+    })));
   } catch (error) {
-    console.error('Process recurring expenses error:', error);
-    res.status(500).json({ error: 'Failed to process recurring expenses' });
+    console.error('Get recurring runs error:', error);
+    res.status(500).json({ error: 'Failed to fetch recurring runs' });
   }
 });
 
@@ -0,0 +1,237 @@
+import { Router } from 'express';
+import { addDays } from 'date-fns';
+import { prisma } from '../index';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+import { parseMinor } from '../lib/money';
+import { PAYMENT_FIELDS, recordAudit, snapshot } from '../lib/audit';
+import { describeAmount, notify } from '../lib/notifications';
+import {
+  AGEING_BUCKETS,
+  MAX_SNOOZE_DAYS,
+  ageDebt,
+  getReminderSchedule,
+  oldestItem,
+  outstandingDebts,
+  pendingPayments,
+  processHouseholdReminders
+} from '../lib/reminders';
+
+const router = Router();
+
+const userSelect = { id: true, username: true, displayName: true, avatarUrl: true };
+
+// What you owe each member in the active household, how old it is and where its
+// reminders stand
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const householdId = req.user!.householdId;
+    const [debts, pendingFor, reminders, household] = await Promise.all([
+      outstandingDebts(householdId),
+      pendingPayments(householdId),
+      prisma.paymentReminder.findMany({ where: { householdId, debtorId: req.user!.id } }),
+      prisma.household.findUnique({ where: { id: householdId }, select: { baseCurrency: true } })
+    ]);
+
+    const mine = debts.filter(d => d.debtorId === req.user!.id);
+    const creditors = await prisma.user.findMany({
+      where: { id: { in: mine.map(d => d.creditorId) } },
+      select: userSelect
+    });
+    const creditorMap = new Map(creditors.map(c => [c.id, c]));
+    const reminderMap = new Map(reminders.map(r => [r.creditorId, r]));
+
+    res.json({
+      baseCurrency: household?.baseCurrency,
+      debts: mine
+        .map(debt => {
+          const reminder = reminderMap.get(debt.creditorId);
+          return {
+            creditor: creditorMap.get(debt.creditorId),
+            balance: debt.balance,
+            pending: pendingFor(debt.debtorId, debt.creditorId),
+            oldestDate: oldestItem(debt).date,
+            buckets: ageDebt(debt),
+            reminder: reminder
+              ? { level: reminder.level, lastSentAt: reminder.lastSentAt, snoozedUntil: reminder.snoozedUntil }
+              : null
+          };
+        })
+        .sort((a, b) => b.balance - a.balance)
+    });
+  } catch (error) {
+    console.error('Get reminders error:', error);
+    res.status(500).json({ error: 'Failed to get reminders' });
+  }
+});
+
+// Ageing report: what each member owes each other member, bucketed by how long ago
+// the unpaid expenses were dated (reports.read)
+router.get('/ageing', authenticateToken, authorize('reports.read'), async (req: AuthRequest, res) => {
+  try {
+    const householdId = req.user!.householdId;
+    const asOf = new Date();
+    const [debts, reminders, household, schedule] = await Promise.all([
+      outstandingDebts(householdId),
+      prisma.paymentReminder.findMany({ where: { householdId } }),
+      prisma.household.findUnique({ where: { id: householdId }, select: { baseCurrency: true } }),
+      getReminderSchedule(householdId)
+    ]);
+
+    const userIds = [...new Set(debts.flatMap(d => [d.debtorId, d.creditorId]))];
+    const users = await prisma.user.findMany({ where: { id: { in: userIds } }, select: userSelect });
+    const userMap = new Map(users.map(u => [u.id, u]));
+    const reminderMap = new Map(reminders.map(r => [`${r.debtorId}:${r.creditorId}`, r]));
+
+    const totals = { balance: 0, current: 0, days31to60: 0, over60: 0 };
+    const rows = debts
+      .map(debt => {
+        const buckets = ageDebt(debt, asOf);
+        totals.balance += debt.balance;
+        totals.current += buckets.current;
+        totals.days31to60 += buckets.days31to60;
+        totals.over60 += buckets.over60;
+
+        const reminder = reminderMap.get(`${debt.debtorId}:${debt.creditorId}`);
+        return {
+          debtor: userMap.get(debt.debtorId),
+          creditor: userMap.get(debt.creditorId),
+          balance: debt.balance,
+          oldestDate: oldestItem(debt).date,
+          buckets,
+          reminder: reminder
+            ? { level: reminder.level, lastSentAt: reminder.lastSentAt, snoozedUntil: reminder.snoozedUntil }
+            : null
+        };
+      })
+      .sort((a, b) => b.buckets.over60 - a.buckets.over60 || b.balance - a.balance);
+
+    res.json({
+      asOf,
+      baseCurrency: household?.baseCurrency,
+      buckets: AGEING_BUCKETS.map(({ key, label }) => ({ key, label })),
+      schedule,
+      rows,
+      totals
+    });
+  } catch (error) {
+    console.error('Get ageing report error:', error);
+    res.status(500).json({ error: 'Failed to get ageing report' });
+  }
+});
+
+// Send any reminders that are due in the active household now (statements.send)
+router.post('/run', authenticateToken, authorize('statements.send'), async (req: AuthRequest, res) => {
+  try {
+    const { sent } = await processHouseholdReminders(req.user!.householdId);
+    res.json({ message: `Sent ${sent} reminders`, sent });
+  } catch (error) {
+    console.error('Run reminders error:', error);
+    res.status(500).json({ error: 'Failed to send reminders' });
+  }
+});
+
+// Snooze reminders about what you owe a member: { days } (default 7)
+router.post('/:creditorId/snooze', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const householdId = req.user!.householdId;
+    const { creditorId } = req.params;
+    const days = req.body.days === undefined ? 7 : Number(req.body.days);
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_SNOOZE_DAYS) {
+      return res.status(400).json({ error: `Snooze for 1 to ${MAX_SNOOZE_DAYS} days` });
+    }
+
+    const debts = await outstandingDebts(householdId);
+    if (!debts.some(d => d.debtorId === req.user!.id && d.creditorId === creditorId)) {
+      return res.status(400).json({ error: 'You don\'t owe this member anything' });
+    }
+
+    const snoozedUntil = addDays(new Date(), days);
+    const reminder = await prisma.paymentReminder.upsert({
+      where: { householdId_debtorId_creditorId: { householdId, debtorId: req.user!.id, creditorId } },
+      update: { snoozedUntil },
+      create: { householdId, debtorId: req.user!.id, creditorId, snoozedUntil }
+    });
+
+    res.json({ message: `Reminders snoozed for ${days} days`, reminder });
+  } catch (error) {
+    console.error('Snooze reminder error:', error);
+    res.status(500).json({ error: 'Failed to snooze reminders' });
+  }
+});
+
+// Say you paid a member outside the app: { amount?, description? }. This records a
+// pending payment (by default for everything not already pending) that the member
+// confirms like any other; reminders stop while it covers the debt.
+router.post('/:creditorId/paid-offline', authenticateToken, authorize('payment.create'), async (req: AuthRequest, res) => {
+  try {
+    const householdId = req.user!.householdId;
+    const { creditorId } = req.params;
+    const { amount, description } = req.body;
+
+    const [debts, pendingFor, household] = await Promise.all([
+      outstandingDebts(householdId),
+      pendingPayments(householdId),
+      prisma.household.findUnique({ where: { id: householdId }, select: { baseCurrency: true } })
+    ]);
+
+    const debt = debts.find(d => d.debtorId === req.user!.id && d.creditorId === creditorId);
+    if (!debt || !household) {
+      return res.status(400).json({ error: 'You don\'t owe this member anything' });
+    }
+
+    const unpaid = debt.balance - pendingFor(req.user!.id, creditorId);
+    const parsedAmount = amount === undefined ? unpaid : parseMinor(amount);
+    if (parsedAmount === null || parsedAmount <= 0) {
+      return res.status(400).json({
+        error: amount === undefined
+          ? 'Payments already waiting for confirmation cover what you owe'
+          : 'Amount must be a positive whole number of minor units'
+      });
+    }
+
+    const payment = await prisma.payment.create({
+      data: {
+        fromUserId: req.user!.id,
+        toUserId: creditorId,
+        amount: parsedAmount,
+        currency: household.baseCurrency,
+        description: typeof description === 'string' && description.trim() ? description.trim() : 'Paid offline',
+        householdId,
+        status: 'pending'
+      },
+      include: {
+        fromUser: { select: userSelect },
+        toUser: { select: userSelect }
+      }
+    });
+
+    await recordAudit({
+      householdId,
+      actorId: req.user!.id,
+      entityType: 'payment',
+      entityId: payment.id,
+      entityLabel: payment.description || 'Payment',
+      action: 'create',
+      after: snapshot(payment, PAYMENT_FIELDS),
+      reason: 'Paid offline'
+    });
+
+    await notify(householdId, [creditorId], {
+      type: 'payment-pending',
+      title: 'Payment to confirm',
+      message: `${payment.fromUser.displayName} says they paid you ${describeAmount(payment.amount, payment.currency)} outside the app. Please confirm you received it.`,
+      link: '/payments',
+      entityType: 'payment',
+      entityId: payment.id,
+      email: true
+    }, req.user!.id);
+
+    res.status(201).json(payment);
+  } catch (error) {
+    console.error('Paid offline error:', error);
+    res.status(500).json({ error: 'Failed to record the payment' });
+  }
+});
+
+export default router;
@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { Prisma, SecurityEvent } from '@prisma/client';
+import { prisma } from '../index';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+import { SECURITY_EVENT_TYPES, SecurityEventType } from '../lib/security';
+import { describeDevice } from '../lib/sessions';
+
+const router = Router();
+
+const userSelect = { id: true, username: true, displayName: true, avatarUrl: true };
+
+const formatEvent = (event: SecurityEvent) => ({
+  ...event,
+  device: describeDevice(event.userAgent),
+  details: event.details ? JSON.parse(event.details) : {}
+});
+
+// Security log, newest first (security.manage). Covers the active household's members,
+// and attempts on usernames that match no account, which could have been aimed at anyone.
+router.get('/', authenticateToken, authorize('security.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { type, userId, startDate, endDate, page = '1', limit = '50' } = req.query;
+
+    if (type && !SECURITY_EVENT_TYPES.includes(type as SecurityEventType)) {
+      return res.status(400).json({ error: 'Invalid event type' });
+    }
+
+    const where: Prisma.SecurityEventWhereInput = {
+      OR: [
+        { user: { householdMembers: { some: { householdId: req.user!.householdId } } } },
+        { userId: null }
+      ]
+    };
+    if (type) where.type = type as string;
+    if (userId) where.userId = userId as string;
+    if (startDate || endDate) {
+      where.createdAt = {};
+      if (startDate) where.createdAt.gte = new Date(startDate as string);
+      if (endDate) where.createdAt.lte = new Date(`${endDate}T23:59:59.999Z`);
+    }
+
+    const take = Math.min(parseInt(limit as string) || 50, 200);
+    const skip = (Math.max(parseInt(page as string) || 1, 1) - 1) * take;
+
+    const [events, total] = await Promise.all([
+      prisma.securityEvent.findMany({
+        where,
+        include: { user: { select: userSelect }, actor: { select: userSelect } },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take
+      }),
+      prisma.securityEvent.count({ where })
+    ]);
+
+    res.json({
+      events: events.map(formatEvent),
+      pagination: {
+        page: parseInt(page as string) || 1,
+        limit: take,
+        total,
+        pages: Math.ceil(total / take)
+      }
+    });
+  } catch (error) {
+    console.error('Get security events error:', error);
+    res.status(500).json({ error: 'Failed to get security events' });
+  }
+});
+
+export default router;
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { prisma } from '../index';
+import { authenticateUser, AuthRequest } from '../middleware/auth';
+import { describeDevice } from '../lib/sessions';
+
+const router = Router();
+
+// Where you are logged in, most recently used first
+router.get('/', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: { userId: req.user!.id },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+
+    res.json(sessions.map((session) => ({
+      id: session.id,
+      device: describeDevice(session.userAgent),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      current: session.id === req.user!.sessionId
+    })));
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Failed to get sessions' });
+  }
+});
+
+// Log out everywhere, including this device
+router.delete('/', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const { count } = await prisma.session.deleteMany({ where: { userId: req.user!.id } });
+
+    res.json({ message: `Logged out of ${count} ${count === 1 ? 'session' : 'sessions'}` });
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    res.status(500).json({ error: 'Failed to log out everywhere' });
+  }
+});
+
+// Log out one of your sessions
+router.delete('/:id', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const { count } = await prisma.session.deleteMany({
+      where: { id: req.params.id, userId: req.user!.id }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ message: 'Session logged out' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to log out session' });
+  }
+});
+
+export default router;
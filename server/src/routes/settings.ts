@@ -1,9 +1,26 @@
 import { Router } from 'express';
 import { prisma } from '../index';
-import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+import { recordAudit } from '../lib/audit';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../lib/trash';
+import { APPROVAL_DEFAULTS, APPROVAL_RULE_KEYS, APPROVAL_RULE_PATTERN, getRulesChangeQuorum, heldMessage, holdForApproval } from '../lib/approvals';
+import { REMINDER_DEFAULTS } from '../lib/reminders';
+import { TWO_FACTOR_DEFAULTS } from '../lib/twoFactor';
 
 const router = Router();
 
+// Every setting of a household, with defaults for the ones never saved
+const loadSettings = async (householdId: string) => {
+  const settings = await prisma.settings.findMany({ where: { householdId } });
+  const settingsMap: Record<string, string> = { ...DEFAULT_SETTINGS };
+
+  for (const setting of settings) {
+    settingsMap[setting.key] = setting.value;
+  }
+
+  return settingsMap;
+};
+
 // Default settings
 const DEFAULT_SETTINGS: Record<string, string> = {
   currency: 'RM',
@@ -13,31 +30,87 @@ const DEFAULT_SETTINGS: Record<string, string> = {
   allowUserSelfEdit: 'false',    // Allow users to edit their own records (default: disabled)
   autoAcceptPayments: 'true',    // Auto-accept payments when made (default: enabled)
   requirePaymentReceipt: 'true', // Require receipt upload for payments (default: required)
+  trashRetentionDays: String(DEFAULT_TRASH_RETENTION_DAYS), // Days deleted records stay in the trash (0 = until purged by hand)
+  ...APPROVAL_DEFAULTS,          // Approvals needed for sensitive actions
+  ...REMINDER_DEFAULTS,          // When members are reminded about what they owe
+  ...TWO_FACTOR_DEFAULTS,        // Whether admins must use two-factor authentication
 };
 
 // Get all settings (anyone can view)
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const settings = await prisma.settings.findMany();
-    
-    // Create a map of settings with defaults
-    const settingsMap: Record<string, string> = { ...DEFAULT_SETTINGS };
-    
-    for (const setting of settings) {
-      settingsMap[setting.key] = setting.value;
-    }
-
-    res.json(settingsMap);
+    res.json(await loadSettings(req.user!.householdId));
   } catch (error) {
     console.error('Get settings error:', error);
     res.status(500).json({ error: 'Failed to get settings' });
   }
 });
 
-// Update settings (admin only)
-router.put('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Update settings (settings.write)
+router.put('/', authenticateToken, authorize('settings.write'), async (req: AuthRequest, res) => {
   try {
-    const updates = req.body;
+    const { reason, ...updates } = req.body;
+    const before = await loadSettings(req.user!.householdId);
+
+    if (updates.trashRetentionDays !== undefined && !/^\d+$/.test(String(updates.trashRetentionDays))) {
+      return res.status(400).json({ error: 'Trash retention must be a whole number of days (0 to keep until purged)' });
+    }
+
+    for (const key of ['approvalDelete', 'approvalResetAllPasswords', 'approvalPromoteAdmin', 'approvalDeleteUser']) {
+      if (updates[key] !== undefined && !APPROVAL_RULE_PATTERN.test(String(updates[key]))) {
+        return res.status(400).json({ error: 'Approval rules must be a number of admins, "majority" or "all"' });
+      }
+    }
+
+    if (updates.approvalDeleteAmount !== undefined && !/^\d+$/.test(String(updates.approvalDeleteAmount))) {
+      return res.status(400).json({ error: 'The approval amount must be a whole amount in minor units' });
+    }
+
+    if (updates.reminderAfterDays !== undefined && !/^\d+$/.test(String(updates.reminderAfterDays))) {
+      return res.status(400).json({ error: 'Reminders must start after a whole number of days (0 to turn them off)' });
+    }
+
+    if (updates.reminderRepeatDays !== undefined && !/^[1-9]\d*$/.test(String(updates.reminderRepeatDays))) {
+      return res.status(400).json({ error: 'Reminders must repeat every 1 or more days' });
+    }
+
+    // Requiring two-factor would lock out an admin who hasn't turned it on yet
+    if (String(updates.requireAdminTwoFactor) === 'true' && before.requireAdminTwoFactor !== 'true') {
+      const admin = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { totpEnabledAt: true }
+      });
+      if (!admin?.totpEnabledAt) {
+        return res.status(400).json({ error: 'Turn on two-factor authentication for your own account first' });
+      }
+    }
+
+    // Changed approval rules wait for the approvals of the strictest rule being changed
+    const ruleChanges: Record<string, string> = {};
+    for (const key of APPROVAL_RULE_KEYS) {
+      if (updates[key] !== undefined && String(updates[key]) !== before[key]) {
+        ruleChanges[key] = String(updates[key]);
+      }
+      delete updates[key];
+    }
+
+    let held = null;
+    if (Object.keys(ruleChanges).length > 0) {
+      held = await holdForApproval(req.user!.householdId, req.user!.id, {
+        action: 'approval-rules',
+        recordType: 'settings',
+        recordId: req.user!.householdId,
+        quorum: await getRulesChangeQuorum(req.user!.householdId, req.user!.id, Object.keys(ruleChanges)),
+        changes: ruleChanges,
+        reason
+      });
+      if (held && 'error' in held) {
+        return res.status(400).json({ error: held.error });
+      }
+      if (!held) {
+        Object.assign(updates, ruleChanges);
+      }
+    }
 
     // Validate that only allowed keys are being updated
     const allowedKeys = Object.keys(DEFAULT_SETTINGS);
@@ -48,18 +121,33 @@ router.put('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) =
       }
 
       await prisma.settings.upsert({
-        where: { key },
+        where: { householdId_key: { householdId: req.user!.householdId, key } },
         update: { value: String(value) },
-        create: { key, value: String(value) },
+        create: { householdId: req.user!.householdId, key, value: String(value) },
       });
     }
 
     // Return updated settings
-    const settings = await prisma.settings.findMany();
-    const settingsMap: Record<string, string> = { ...DEFAULT_SETTINGS };
-    
-    for (const setting of settings) {
-      settingsMap[setting.key] = setting.value;
+    const settingsMap = await loadSettings(req.user!.householdId);
+
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'settings',
+      entityId: req.user!.householdId,
+      entityLabel: 'Household settings',
+      action: 'update',
+      before,
+      after: settingsMap,
+      reason
+    });
+
+    if (held) {
+      return res.status(202).json({
+        message: heldMessage('Changing the approval rules', held),
+        request: held.request,
+        settings: settingsMap
+      });
     }
 
     res.json(settingsMap);
@@ -75,7 +163,7 @@ router.get('/:key', authenticateToken, async (req: AuthRequest, res) => {
     const { key } = req.params;
     
     const setting = await prisma.settings.findUnique({
-      where: { key },
+      where: { householdId_key: { householdId: req.user!.householdId, key } },
     });
 
     const value = setting?.value || DEFAULT_SETTINGS[key] || null;
@@ -0,0 +1,179 @@
+import { Router } from 'express';
+import { prisma } from '../index';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+import { hasPermission } from '../lib/permissions';
+import { getHouseholdLedger } from '../lib/ledger';
+import { DEFAULT_BASE_CURRENCY } from '../lib/currency';
+import { parseMinor } from '../lib/money';
+import { PAYMENT_FIELDS, recordAudit, snapshot } from '../lib/audit';
+import { describeAmount, notify } from '../lib/notifications';
+import { planSettlement, SETTLEMENT_STRATEGIES, SettlementStrategy } from '../lib/settlement';
+
+const router = Router();
+
+const userSelect = { id: true, username: true, displayName: true, avatarUrl: true };
+
+// Validate strategy/cap input shared by plan and apply
+const parsePlanOptions = (strategy: unknown, cap: unknown) => {
+  const selected = (strategy || 'minimal') as SettlementStrategy;
+  if (!SETTLEMENT_STRATEGIES.includes(selected)) {
+    return { error: `Strategy must be one of: ${SETTLEMENT_STRATEGIES.join(', ')}` };
+  }
+
+  let parsedCap: number | undefined;
+  if (selected === 'capped') {
+    const minorCap = parseMinor(cap);
+    if (minorCap === null || minorCap <= 0) {
+      return { error: 'A positive cap is required for the capped strategy' };
+    }
+    parsedCap = minorCap;
+  }
+
+  return { strategy: selected, cap: parsedCap };
+};
+
+// Build the plan for the active household
+const buildPlan = async (householdId: string, strategy: SettlementStrategy, cap?: number) => {
+  const members = await prisma.user.findMany({
+    where: { householdMembers: { some: { householdId } } },
+    select: userSelect
+  });
+
+  const ledger = await getHouseholdLedger(householdId);
+  const transfers = planSettlement(ledger, members.map(m => m.id), strategy, { cap });
+
+  return { members, transfers };
+};
+
+// Get a settlement plan (?strategy=minimal|pairwise|capped, &cap= in minor units for capped)
+router.get('/plan', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const options = parsePlanOptions(req.query.strategy, req.query.cap);
+    if ('error' in options) {
+      return res.status(400).json({ error: options.error });
+    }
+
+    const { members, transfers } = await buildPlan(req.user!.householdId, options.strategy, options.cap);
+    const membersById = new Map(members.map(m => [m.id, m]));
+
+    res.json({
+      strategy: options.strategy,
+      cap: options.cap ?? null,
+      transfers: transfers.map(t => ({
+        from: membersById.get(t.fromUserId),
+        to: membersById.get(t.toUserId),
+        amount: t.amount
+      })),
+      transferCount: transfers.length,
+      totalAmount: transfers.reduce((sum, t) => sum + t.amount, 0)
+    });
+  } catch (error) {
+    console.error('Get settlement plan error:', error);
+    res.status(500).json({ error: 'Failed to get settlement plan' });
+  }
+});
+
+// Create pending payments from a plan.
+// Members create the payments they have to make; with payment.edit.any the whole plan.
+// Transfers that already have a pending payment between the same people are skipped.
+router.post('/plan/apply', authenticateToken, authorize('payment.create'), async (req: AuthRequest, res) => {
+  try {
+    const options = parsePlanOptions(req.body.strategy, req.body.cap);
+    if ('error' in options) {
+      return res.status(400).json({ error: options.error });
+    }
+
+    const householdId = req.user!.householdId;
+    const { transfers } = await buildPlan(householdId, options.strategy, options.cap);
+
+    // Plans are in the base currency, so the payments are too
+    const household = await prisma.household.findUnique({
+      where: { id: householdId },
+      select: { baseCurrency: true }
+    });
+    const currency = household?.baseCurrency || DEFAULT_BASE_CURRENCY;
+
+    const mine = hasPermission(req.user, 'payment.edit.any')
+      ? transfers
+      : transfers.filter(t => t.fromUserId === req.user!.id);
+
+    const pending = await prisma.payment.findMany({
+      where: { householdId, status: 'pending', isDeleted: false },
+      select: { fromUserId: true, toUserId: true }
+    });
+    const pendingPairs = new Set(pending.map(p => `${p.fromUserId}:${p.toUserId}`));
+
+    const toCreate = mine.filter(t => !pendingPairs.has(`${t.fromUserId}:${t.toUserId}`));
+
+    const payments = await prisma.$transaction(async (tx) => {
+      const created = [];
+      for (const t of toCreate) {
+        const payment = await tx.payment.create({
+          data: {
+            fromUserId: t.fromUserId,
+            toUserId: t.toUserId,
+            amount: t.amount,
+            currency,
+            description: 'Settlement plan',
+            createdById: t.fromUserId !== req.user!.id ? req.user!.id : null,
+            householdId,
+            status: 'pending'
+          },
+          include: {
+            fromUser: { select: userSelect },
+            toUser: { select: userSelect },
+            createdBy: { select: userSelect }
+          }
+        });
+
+        await recordAudit({
+          householdId,
+          actorId: req.user!.id,
+          entityType: 'payment',
+          entityId: payment.id,
+          entityLabel: payment.description,
+          action: 'create',
+          after: snapshot(payment, PAYMENT_FIELDS)
+        }, tx);
+
+        created.push(payment);
+      }
+      return created;
+    });
+
+    for (const payment of payments) {
+      const amount = describeAmount(payment.amount, payment.currency);
+      await notify(householdId, [payment.toUserId], {
+        type: 'payment-pending',
+        title: 'Payment to confirm',
+        message: `${payment.fromUser.displayName} paid you ${amount}. Please confirm you received it.`,
+        link: '/payments',
+        entityType: 'payment',
+        entityId: payment.id,
+        email: true
+      }, req.user!.id);
+
+      // Someone settling for the payer lets them know it was recorded for them
+      if (payment.createdBy) {
+        await notify(householdId, [payment.fromUserId], {
+          type: 'payment-recorded',
+          title: 'Payment recorded for you',
+          message: `${payment.createdBy.displayName} recorded your payment of ${amount} to ${payment.toUser.displayName} from the settlement plan`,
+          link: '/payments',
+          entityType: 'payment',
+          entityId: payment.id
+        }, req.user!.id);
+      }
+    }
+
+    res.status(201).json({
+      created: payments,
+      skipped: mine.length - toCreate.length
+    });
+  } catch (error) {
+    console.error('Apply settlement plan error:', error);
+    res.status(500).json({ error: 'Failed to create payments from plan' });
+  }
+});
+
+export default router;
@@ -1,71 +1,93 @@
 import { Router } from 'express';
+import { OcrDraft } from '@prisma/client';
 import { prisma } from '../index';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
 import { upload, getUploadPath } from '../middleware/upload';
+import { areHouseholdMembers, isHouseholdCategory } from '../lib/households';
+import { allocateEvenly, parseMinor } from '../lib/money';
+import { resolveRecordCurrency } from '../lib/currency';
+import { loadOcrDraft } from '../lib/ocr';
+import { expenseSnapshot, recordAudit } from '../lib/audit';
+import { notifyExpenseShares } from '../lib/notifications';
+import { applyExpenseEdit, editableOwners, findEditable, isSelfEditAllowed, prepareExpenseEdit } from '../lib/edits';
+import { hasPermission } from '../lib/permissions';
+import {
+  calculateBill, calculateCharges, createItemsData, itemUserIds, parseBillItems, parsePercent,
+  parseSubtotalOverride, withOcrCharges
+} from '../lib/splitBills';
 
 const router = Router();
 
+// A bill is edited under the same rules as its expense; bills without one are left to the route
+const splitBillOwners = async (req: AuthRequest) => {
+  const splitBill = await prisma.splitBill.findFirst({
+    where: { id: req.params.id, householdId: req.user!.householdId },
+    select: { expense: { select: { userId: true, createdById: true } } }
+  });
+  return splitBill?.expense ? editableOwners('expense', splitBill.expense) : null;
+};
+
+const userSelect = { id: true, username: true, displayName: true, avatarUrl: true };
+
+// Items with who shares them, for responses
+const itemsInclude = {
+  include: {
+    shares: { include: { user: { select: userSelect } } }
+  },
+  orderBy: { createdAt: 'asc' as const }
+};
+
 // Calculate split bill (preview without saving)
 router.post('/calculate', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { items, taxAmount = 0, serviceCharge = 0, taxPercent, servicePercent, subtotalOverride } = req.body;
-
-    const userTotals: { [key: string]: { userId: string; subtotal: number; tax: number; service: number; total: number } } = {};
-    
-    items.forEach((item: any) => {
-      if (!userTotals[item.userId]) {
-        userTotals[item.userId] = {
-          userId: item.userId,
-          subtotal: 0,
-          tax: 0,
-          service: 0,
-          total: 0
-        };
-      }
-      userTotals[item.userId].subtotal += parseFloat(item.amount) * (parseInt(item.quantity) || 1);
-    });
+    const { items, taxPercent, servicePercent, subtotalOverride, ocrDraftId } = req.body;
 
-    const subtotal = subtotalOverride ? parseFloat(subtotalOverride) : Object.values(userTotals).reduce((sum, ut) => sum + ut.subtotal, 0);
-    
-    // Calculate tax and service - support both fixed amount and percentage
-    let actualTax = parseFloat(taxAmount) || 0;
-    let actualService = parseFloat(serviceCharge) || 0;
-    
-    if (taxPercent) {
-      actualTax = subtotal * (parseFloat(taxPercent) / 100);
+    const parsed = parseBillItems(items);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const override = parseSubtotalOverride(subtotalOverride);
+    if ('error' in override) {
+      return res.status(400).json({ error: override.error });
     }
-    if (servicePercent) {
-      actualService = subtotal * (parseFloat(servicePercent) / 100);
+    if (!(await areHouseholdMembers(req.user!.householdId, itemUserIds(parsed.items)))) {
+      return res.status(400).json({ error: 'All users must be members of this household' });
     }
 
-    const taxRate = subtotal > 0 ? actualTax / subtotal : 0;
-    const serviceRate = subtotal > 0 ? actualService / subtotal : 0;
+    let ocrDraft: OcrDraft | null = null;
+    if (ocrDraftId) {
+      const loaded = await loadOcrDraft(req.user!.householdId, ocrDraftId);
+      if ('error' in loaded) {
+        return res.status(400).json({ error: loaded.error });
+      }
+      ocrDraft = loaded.draft;
+    }
+    const { taxAmount, serviceCharge } = withOcrCharges(req.body, ocrDraft);
 
-    Object.values(userTotals).forEach(ut => {
-      ut.tax = ut.subtotal * taxRate;
-      ut.service = ut.subtotal * serviceRate;
-      ut.total = ut.subtotal + ut.tax + ut.service;
-    });
+    const bill = calculateBill(parsed.items, { taxAmount, taxPercent, serviceCharge, servicePercent }, override.value);
 
     // Get user details
-    const userIds = Object.keys(userTotals);
     const users = await prisma.user.findMany({
-      where: { id: { in: userIds } },
+      where: {
+        id: { in: bill.breakdown.map(b => b.userId) },
+        householdMembers: { some: { householdId: req.user!.householdId } }
+      },
       select: { id: true, username: true, displayName: true, avatarUrl: true }
     });
 
-    const result = Object.values(userTotals).map(ut => ({
+    const result = bill.breakdown.map(ut => ({
       ...ut,
       user: users.find(u => u.id === ut.userId)
     }));
 
     res.json({
-      subtotal,
-      taxAmount: actualTax,
+      subtotal: bill.subtotal,
+      taxAmount: bill.tax,
       taxPercent: taxPercent || null,
-      serviceCharge: actualService,
+      serviceCharge: bill.service,
       servicePercent: servicePercent || null,
-      total: subtotal + actualTax + actualService,
+      total: bill.total,
+      receiptTotal: ocrDraft?.total ?? null,   // What OCR read as the total, to compare against
       userBreakdown: result
     });
   } catch (error) {
@@ -74,85 +96,142 @@ router.post('/calculate', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Create expenses from split bill calculation (single grouped record with splits)
-router.post('/create-expenses', authenticateToken, upload.single('receipt'), async (req: AuthRequest, res) => {
+// Create expenses from split bill calculation (single grouped record with splits).
+// The bill itself is saved with its items and linked to the expense.
+router.post('/create-expenses', authenticateToken, authorize('expense.create'), upload.single('receipt'), async (req: AuthRequest, res) => {
   try {
-    const { title, items, taxAmount = 0, serviceCharge = 0, taxPercent, servicePercent, categoryId, date, notes, paidByUserId } = req.body;
-
-    // Parse items if it's a string
-    const parsedItems = typeof items === 'string' ? JSON.parse(items) : items;
-
-    const receiptImage = req.file ? getUploadPath(req.file.filename, 'receipts') : null;
+    const { items, currency, taxPercent, servicePercent, subtotalOverride, categoryId, date, notes, paidByUserId, ocrDraftId } = req.body;
 
-    // Calculate user totals
-    const userTotals: { [key: string]: number } = {};
-    
-    parsedItems.forEach((item: any) => {
-      if (!userTotals[item.userId]) {
-        userTotals[item.userId] = 0;
+    // The receipt, title, date, tax and service fall back to what OCR read from the receipt
+    let ocrDraft: OcrDraft | null = null;
+    if (ocrDraftId) {
+      const loaded = await loadOcrDraft(req.user!.householdId, ocrDraftId);
+      if ('error' in loaded) {
+        return res.status(400).json({ error: loaded.error });
       }
-      userTotals[item.userId] += parseFloat(item.amount) * (parseInt(item.quantity) || 1);
-    });
+      ocrDraft = loaded.draft;
+    }
 
-    const subtotal = Object.values(userTotals).reduce((sum, val) => sum + val, 0);
+    const title = req.body.title || ocrDraft?.merchant;
+    if (!title) {
+      return res.status(400).json({ error: 'Title is required' });
+    }
 
-    // Calculate tax and service - support both fixed amount and percentage
-    let actualTax = parseFloat(taxAmount) || 0;
-    let actualService = parseFloat(serviceCharge) || 0;
-    
-    if (taxPercent) {
-      actualTax = subtotal * (parseFloat(taxPercent) / 100);
+    const parsed = parseBillItems(items);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
     }
-    if (servicePercent) {
-      actualService = subtotal * (parseFloat(servicePercent) / 100);
+    const override = parseSubtotalOverride(subtotalOverride);
+    if ('error' in override) {
+      return res.status(400).json({ error: override.error });
     }
 
-    const taxRate = subtotal > 0 ? actualTax / subtotal : 0;
-    const serviceRate = subtotal > 0 ? actualService / subtotal : 0;
-    const grandTotal = subtotal + actualTax + actualService;
+    const receiptImage = req.file ? getUploadPath(req.file.filename, 'receipts') : ocrDraft?.receiptImage || null;
 
-    // Calculate each user's total (their portion of subtotal + proportional tax + service)
-    const userSplits = Object.entries(userTotals).map(([userId, userSubtotal]) => {
-      const userTax = userSubtotal * taxRate;
-      const userService = userSubtotal * serviceRate;
-      const total = Math.round((userSubtotal + userTax + userService) * 100) / 100;
-      return { userId, amount: total };
-    });
+    const { taxAmount, serviceCharge } = withOcrCharges(req.body, ocrDraft);
+    const charges = { taxAmount, taxPercent, serviceCharge, servicePercent };
+    const { subtotal, tax: actualTax, service: actualService, total: grandTotal, splits: userSplits } = calculateBill(parsed.items, charges, override.value);
+
+    if (grandTotal <= 0) {
+      return res.status(400).json({ error: 'The bill total must be greater than zero' });
+    }
 
     // Use paidByUserId if provided, otherwise default to creator
     const expenseUserId = paidByUserId || req.user!.id;
-    
-    const expense = await prisma.expense.create({
-      data: {
-        description: title,
-        amount: Math.round(grandTotal * 100) / 100,
-        date: date ? new Date(date) : new Date(),
-        receiptImage,
-        notes: notes || `Split bill - ${userSplits.length} people`,
-        userId: expenseUserId,
-        createdById: req.user!.id,
-        categoryId: categoryId || null,
-        splits: {
-          create: userSplits.map(s => ({
-            userId: s.userId,
-            amount: s.amount
-          }))
-        }
-      },
-      include: {
-        user: {
-          select: { id: true, username: true, displayName: true, avatarUrl: true }
+
+    if (!(await areHouseholdMembers(req.user!.householdId, [expenseUserId, ...itemUserIds(parsed.items)]))) {
+      return res.status(400).json({ error: 'All users must be members of this household' });
+    }
+    if (!(await isHouseholdCategory(req.user!.householdId, categoryId))) {
+      return res.status(400).json({ error: 'Category not found' });
+    }
+
+    const expenseDate = date ? new Date(date) : ocrDraft?.date || new Date();
+    if (isNaN(expenseDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+    const resolved = await resolveRecordCurrency(req.user!.householdId, currency, expenseDate);
+    if ('error' in resolved) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
+    const { expense, splitBill } = await prisma.$transaction(async (tx) => {
+      const expense = await tx.expense.create({
+        data: {
+          description: title,
+          amount: grandTotal,
+          currency: resolved.currency,
+          date: expenseDate,
+          receiptImage,
+          notes: notes || `Split bill - ${userSplits.length} people`,
+          userId: expenseUserId,
+          createdById: req.user!.id,
+          categoryId: categoryId || null,
+          householdId: req.user!.householdId,
+          splits: {
+            create: userSplits.map(s => ({
+              userId: s.userId,
+              amount: s.amount
+            }))
+          }
         },
-        category: {
-          select: { id: true, name: true, icon: true, color: true }
+        include: {
+          user: {
+            select: userSelect
+          },
+          category: {
+            select: { id: true, name: true, icon: true, color: true }
+          },
+          splits: true
+        }
+      });
+
+      const splitBill = await tx.splitBill.create({
+        data: {
+          title,
+          totalAmount: grandTotal,
+          currency: resolved.currency,
+          taxAmount: actualTax,
+          taxPercent: parsePercent(taxPercent),
+          serviceCharge: actualService,
+          servicePercent: parsePercent(servicePercent),
+          subtotalOverride: override.value,
+          date: expenseDate,
+          receiptImage,
+          notes: notes || null,
+          categoryId: categoryId || null,
+          expenseId: expense.id,
+          householdId: req.user!.householdId,
+          items: {
+            create: createItemsData(parsed.items)
+          }
         },
-        splits: true
+        include: { items: itemsInclude }
+      });
+
+      if (ocrDraft) {
+        await tx.ocrDraft.update({ where: { id: ocrDraft.id }, data: { usedAt: new Date() } });
       }
+
+      await recordAudit({
+        householdId: req.user!.householdId,
+        actorId: req.user!.id,
+        entityType: 'expense',
+        entityId: expense.id,
+        entityLabel: expense.description,
+        action: 'create',
+        after: expenseSnapshot(expense)
+      }, tx);
+
+      return { expense, splitBill };
     });
 
+    await notifyExpenseShares(req.user!.householdId, expense, 'expense-split', req.user!.id);
+
     res.status(201).json({
       message: `Created expense with ${userSplits.length} splits`,
       expense,
+      splitBill,
       summary: {
         title,
         subtotal,
@@ -168,9 +247,9 @@ router.post('/create-expenses', authenticateToken, upload.single('receipt'), asy
 });
 
 // Quick split - split a total amount equally among users (single grouped record)
-router.post('/quick-split', authenticateToken, upload.single('receipt'), async (req: AuthRequest, res) => {
+router.post('/quick-split', authenticateToken, authorize('expense.create'), upload.single('receipt'), async (req: AuthRequest, res) => {
   try {
-    const { description, totalAmount, taxAmount = 0, serviceCharge = 0, taxPercent, servicePercent, userIds, categoryId, date, notes, paidByUserId } = req.body;
+    const { description, totalAmount, currency, taxAmount = 0, serviceCharge = 0, taxPercent, servicePercent, userIds, categoryId, date, notes, paidByUserId } = req.body;
 
     // Parse userIds if it's a string
     const parsedUserIds: string[] = typeof userIds === 'string' ? JSON.parse(userIds) : userIds;
@@ -181,45 +260,55 @@ router.post('/quick-split', authenticateToken, upload.single('receipt'), async (
 
     const receiptImage = req.file ? getUploadPath(req.file.filename, 'receipts') : null;
 
-    const subtotal = parseFloat(totalAmount);
-
-    // Calculate tax and service
-    let actualTax = parseFloat(taxAmount) || 0;
-    let actualService = parseFloat(serviceCharge) || 0;
-    
-    if (taxPercent) {
-      actualTax = subtotal * (parseFloat(taxPercent) / 100);
-    }
-    if (servicePercent) {
-      actualService = subtotal * (parseFloat(servicePercent) / 100);
+    const subtotal = parseMinor(totalAmount);
+    if (subtotal === null || subtotal <= 0) {
+      return res.status(400).json({ error: 'Total amount must be a positive whole number of minor units' });
     }
 
+    const { tax: actualTax, service: actualService } = calculateCharges(subtotal, { taxAmount, taxPercent, serviceCharge, servicePercent });
     const grandTotal = subtotal + actualTax + actualService;
     
-    // Calculate per person with smart rounding (first person gets remainder)
-    const perPerson = Math.floor((grandTotal / parsedUserIds.length) * 100) / 100;
-    const totalOthers = perPerson * (parsedUserIds.length - 1);
-    const firstPersonAmount = Math.round((grandTotal - totalOthers) * 100) / 100;
+    // Split evenly; any leftover minor units go to the first people in the list
+    const perPerson = Math.floor(grandTotal / parsedUserIds.length);
+    const amounts = allocateEvenly(grandTotal, parsedUserIds.length);
 
     // Create splits array
     const userSplits = parsedUserIds.map((userId, idx) => ({
       userId,
-      amount: idx === 0 ? firstPersonAmount : perPerson
+      amount: amounts[idx]
     }));
 
     // Use paidByUserId if provided, otherwise use creator or first in list
     const expenseUserId = paidByUserId || (parsedUserIds.includes(req.user!.id) ? req.user!.id : parsedUserIds[0]);
+
+    if (!(await areHouseholdMembers(req.user!.householdId, [expenseUserId, ...parsedUserIds]))) {
+      return res.status(400).json({ error: 'All users must be members of this household' });
+    }
+    if (!(await isHouseholdCategory(req.user!.householdId, categoryId))) {
+      return res.status(400).json({ error: 'Category not found' });
+    }
+
+    const expenseDate = date ? new Date(date) : new Date();
+    if (isNaN(expenseDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+    const resolved = await resolveRecordCurrency(req.user!.householdId, currency, expenseDate);
+    if ('error' in resolved) {
+      return res.status(400).json({ error: resolved.error });
+    }
     
     const expense = await prisma.expense.create({
       data: {
         description: description,
-        amount: Math.round(grandTotal * 100) / 100,
-        date: date ? new Date(date) : new Date(),
+        amount: grandTotal,
+        currency: resolved.currency,
+        date: expenseDate,
         receiptImage,
         notes: notes || `Equal split among ${parsedUserIds.length} people`,
         userId: expenseUserId,
         createdById: req.user!.id,
         categoryId: categoryId || null,
+        householdId: req.user!.householdId,
         splits: {
           create: userSplits.map(s => ({
             userId: s.userId,
@@ -238,6 +327,18 @@ router.post('/quick-split', authenticateToken, upload.single('receipt'), async (
       }
     });
 
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'expense',
+      entityId: expense.id,
+      entityLabel: expense.description,
+      action: 'create',
+      after: expenseSnapshot(expense)
+    });
+
+    await notifyExpenseShares(req.user!.householdId, expense, 'expense-split', req.user!.id);
+
     res.status(201).json({
       message: `Created expense with ${parsedUserIds.length} equal splits`,
       expense,
@@ -257,4 +358,163 @@ router.post('/quick-split', authenticateToken, upload.single('receipt'), async (
   }
 });
 
+// List saved split bills
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { page = '1', limit = '50' } = req.query;
+    // Bills whose expense is in the trash are hidden with it
+    const where = { householdId: req.user!.householdId, NOT: { expense: { is: { isDeleted: true } } } };
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    const [splitBills, total] = await Promise.all([
+      prisma.splitBill.findMany({
+        where,
+        include: {
+          expense: {
+            select: { id: true, userId: true, isLocked: true, user: { select: userSelect } }
+          },
+          _count: { select: { items: true } }
+        },
+        orderBy: { date: 'desc' },
+        skip,
+        take: parseInt(limit as string)
+      }),
+      prisma.splitBill.count({ where })
+    ]);
+
+    res.json({
+      splitBills,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        pages: Math.ceil(total / parseInt(limit as string))
+      }
+    });
+  } catch (error) {
+    console.error('Get split bills error:', error);
+    res.status(500).json({ error: 'Failed to get split bills' });
+  }
+});
+
+// Get a saved split bill with its items and the linked expense's splits
+router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const splitBill = await prisma.splitBill.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, NOT: { expense: { is: { isDeleted: true } } } },
+      include: {
+        items: itemsInclude,
+        expense: {
+          include: {
+            user: { select: userSelect },
+            createdBy: { select: { id: true, username: true, displayName: true } },
+            category: { select: { id: true, name: true, icon: true, color: true } },
+            splits: {
+              include: { user: { select: userSelect } }
+            }
+          }
+        }
+      }
+    });
+
+    if (!splitBill) {
+      return res.status(404).json({ error: 'Split bill not found' });
+    }
+
+    res.json(splitBill);
+  } catch (error) {
+    console.error('Get split bill error:', error);
+    res.status(500).json({ error: 'Failed to get split bill' });
+  }
+});
+
+// Update a saved split bill. It is edited as its expense, under the same rules: the
+// items replace the old ones and the expense's amount and splits are recalculated.
+// Members who can't edit their own records propose the edit as a change request.
+router.put('/:id', authenticateToken, authorize('expense.edit', splitBillOwners), upload.single('receipt'), async (req: AuthRequest, res) => {
+  try {
+    const splitBill = await prisma.splitBill.findFirst({
+      where: { id: req.params.id, householdId: req.user!.householdId, NOT: { expense: { is: { isDeleted: true } } } },
+      select: { expenseId: true }
+    });
+
+    if (!splitBill) {
+      return res.status(404).json({ error: 'Split bill not found' });
+    }
+
+    const expense = splitBill.expenseId
+      ? await findEditable('expense', req.user!.householdId, splitBill.expenseId)
+      : null;
+    if (!expense) {
+      return res.status(400).json({ error: 'This split bill has no linked expense to update' });
+    }
+
+    // Same rules as editing the expense directly
+    if (expense.isLocked) {
+      return res.status(403).json({ error: 'This record is locked and cannot be edited. It is associated with a deleted user.' });
+    }
+    if (!hasPermission(req.user, 'expense.edit.any') && !(await isSelfEditAllowed(req.user!.householdId))) {
+      return res.status(403).json({ error: 'Editing your own records is currently disabled by admin. Submit a change request instead.' });
+    }
+
+    const {
+      title, items, currency, taxAmount, serviceCharge, taxPercent, servicePercent, subtotalOverride,
+      categoryId, date, notes, paidByUserId, reason
+    } = req.body;
+
+    if (title !== undefined && !title) {
+      return res.status(400).json({ error: 'Title is required' });
+    }
+
+    const edit = await prepareExpenseEdit(
+      req.user!.householdId,
+      expense,
+      {
+        description: title,
+        items, currency, taxAmount, serviceCharge, taxPercent, servicePercent, subtotalOverride,
+        categoryId, date, notes,
+        userId: paidByUserId || undefined
+      },
+      req.file ? getUploadPath(req.file.filename, 'receipts') : undefined
+    );
+    if ('error' in edit) {
+      return res.status(400).json({ error: edit.error });
+    }
+
+    await prisma.$transaction((tx) =>
+      applyExpenseEdit(tx, req.user!.householdId, expense, edit, req.user!.id, reason)
+    );
+
+    const updated = await prisma.splitBill.findUnique({
+      where: { id: req.params.id },
+      include: {
+        items: itemsInclude,
+        expense: {
+          include: {
+            user: { select: userSelect },
+            splits: {
+              include: { user: { select: userSelect } }
+            }
+          }
+        }
+      }
+    });
+
+    res.json({
+      message: 'Split bill updated',
+      splitBill: updated,
+      summary: {
+        title: updated!.title,
+        subtotal: updated!.subtotalOverride ?? updated!.totalAmount - updated!.taxAmount - updated!.serviceCharge,
+        taxAmount: updated!.taxAmount,
+        serviceCharge: updated!.serviceCharge,
+        total: updated!.totalAmount
+      }
+    });
+  } catch (error) {
+    console.error('Update split bill error:', error);
+    res.status(500).json({ error: 'Failed to update split bill' });
+  }
+});
+
 export default router;
@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+import { buildStatement, parseMonth, previousMonth, renderStatement, sendStatements } from '../lib/statements';
+import { isMailEnabled } from '../lib/mail';
+
+const router = Router();
+
+// Your statement for a month in the active household (default: last month),
+// with the text of the email it is sent as
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const month = typeof req.query.month === 'string' ? req.query.month : previousMonth();
+    if (!parseMonth(month)) {
+      return res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+    }
+
+    const statement = await buildStatement(req.user!.householdId, req.user!.id, month);
+    res.json({ ...statement, email: renderStatement(statement) });
+  } catch (error) {
+    console.error('Get statement error:', error);
+    res.status(500).json({ error: 'Failed to get statement' });
+  }
+});
+
+// Email a month's statements to the household now (statements.send). By default members
+// who already got that month's statement are skipped; resend sends it again.
+router.post('/send', authenticateToken, authorize('statements.send'), async (req: AuthRequest, res) => {
+  try {
+    const { month = previousMonth(), userIds, resend = false } = req.body;
+
+    if (!isMailEnabled()) {
+      return res.status(400).json({ error: 'Email is not configured on this server' });
+    }
+    if (typeof month !== 'string' || !parseMonth(month)) {
+      return res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+    }
+    if (userIds !== undefined && (!Array.isArray(userIds) || !userIds.every(id => typeof id === 'string'))) {
+      return res.status(400).json({ error: 'userIds must be a list of user IDs' });
+    }
+
+    const result = await sendStatements(month, {
+      householdId: req.user!.householdId,
+      userIds,
+      resend: resend === true
+    });
+
+    res.json({ message: `Sent ${result.sent} statements for ${month}`, ...result });
+  } catch (error) {
+    console.error('Send statements error:', error);
+    res.status(500).json({ error: 'Failed to send statements' });
+  }
+});
+
+export default router;
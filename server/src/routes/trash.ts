@@ -0,0 +1,157 @@
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+import { CATEGORY_FIELDS, expenseSnapshot, PAYMENT_FIELDS, recordAudit, snapshot, Snapshot } from '../lib/audit';
+import { getRetentionDays, purgeDate, purgeHouseholdTrash, TRASH_TYPES, TrashType } from '../lib/trash';
+
+const router = Router();
+
+const userSelect = { id: true, username: true, displayName: true, avatarUrl: true };
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Everything in the active household's trash, most recently deleted first (trash.manage)
+router.get('/', authenticateToken, authorize('trash.manage'), async (req: AuthRequest, res) => {
+  try {
+    const householdId = req.user!.householdId;
+    const where = { householdId, isDeleted: true };
+    const orderBy = { deletedAt: 'desc' as const };
+
+    const [retentionDays, expenses, payments, categories] = await Promise.all([
+      getRetentionDays(householdId),
+      prisma.expense.findMany({
+        where,
+        include: {
+          user: { select: userSelect },
+          category: { select: { id: true, name: true, icon: true, color: true } }
+        },
+        orderBy
+      }),
+      prisma.payment.findMany({
+        where,
+        include: {
+          fromUser: { select: userSelect },
+          toUser: { select: userSelect }
+        },
+        orderBy
+      }),
+      prisma.category.findMany({ where, orderBy })
+    ]);
+
+    const withPurgeDate = <T extends { deletedAt: Date | null }>(records: T[]) =>
+      records.map(record => ({ ...record, purgeAt: purgeDate(record.deletedAt, retentionDays) }));
+
+    res.json({
+      retentionDays,
+      expenses: withPurgeDate(expenses),
+      payments: withPurgeDate(payments),
+      categories: withPurgeDate(categories)
+    });
+  } catch (error) {
+    console.error('Get trash error:', error);
+    res.status(500).json({ error: 'Failed to get trash' });
+  }
+});
+
+// Restore a record from the trash (trash.manage)
+router.post('/:type/:id/restore', authenticateToken, authorize('trash.manage'), async (req: AuthRequest, res) => {
+  try {
+    const type = req.params.type as TrashType;
+    if (!TRASH_TYPES.includes(type)) {
+      return res.status(400).json({ error: 'Invalid record type' });
+    }
+
+    const householdId = req.user!.householdId;
+    const where = { id: req.params.id, householdId, isDeleted: true };
+    const data = { isDeleted: false, deletedAt: null };
+
+    let restored: { id: string; label: string; after: Snapshot } | null = null;
+    if (type === 'expense') {
+      const expense = await prisma.expense.findFirst({ where });
+      if (expense) {
+        const updated = await prisma.expense.update({ where: { id: expense.id }, data, include: { splits: true } });
+        restored = { id: updated.id, label: updated.description, after: expenseSnapshot(updated) };
+      }
+    } else if (type === 'payment') {
+      const payment = await prisma.payment.findFirst({ where });
+      if (payment) {
+        const updated = await prisma.payment.update({ where: { id: payment.id }, data });
+        restored = { id: updated.id, label: updated.description || 'Payment', after: snapshot(updated, PAYMENT_FIELDS) };
+      }
+    } else {
+      const category = await prisma.category.findFirst({ where });
+      if (category) {
+        // A category created or renamed to this name since it was deleted keeps it
+        const active = await prisma.category.findFirst({
+          where: { householdId, name: category.name, isDeleted: false, id: { not: category.id } }
+        });
+        if (active) {
+          return res.status(409).json({
+            error: `Another category is already named "${category.name}". Rename it before restoring this one.`
+          });
+        }
+        const updated = await prisma.category.update({ where: { id: category.id }, data });
+        restored = { id: updated.id, label: updated.name, after: snapshot(updated, CATEGORY_FIELDS) };
+      }
+    }
+
+    if (!restored) {
+      return res.status(404).json({ error: 'Record not found in the trash' });
+    }
+
+    await recordAudit({
+      householdId,
+      actorId: req.user!.id,
+      entityType: type,
+      entityId: restored.id,
+      entityLabel: restored.label,
+      action: 'restore',
+      after: restored.after,
+      reason: req.body?.reason
+    });
+
+    res.json({ message: 'Record restored' });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ error: 'Another record now uses this name. Rename it before restoring this one.' });
+    }
+    console.error('Restore from trash error:', error);
+    res.status(500).json({ error: 'Failed to restore record' });
+  }
+});
+
+// Permanently delete one record from the trash (trash.manage)
+router.delete('/:type/:id', authenticateToken, authorize('trash.manage'), async (req: AuthRequest, res) => {
+  try {
+    const type = req.params.type as TrashType;
+    if (!TRASH_TYPES.includes(type)) {
+      return res.status(400).json({ error: 'Invalid record type' });
+    }
+
+    const counts = await purgeHouseholdTrash(req.user!.householdId, req.user!.id, { type, id: req.params.id });
+    if (counts.expenses + counts.payments + counts.categories === 0) {
+      return res.status(404).json({ error: 'Record not found in the trash' });
+    }
+
+    res.json({ message: 'Record permanently deleted' });
+  } catch (error) {
+    console.error('Purge record error:', error);
+    res.status(500).json({ error: 'Failed to delete record' });
+  }
+});
+
+// Permanently delete everything in the trash (trash.manage)
+router.post('/empty', authenticateToken, authorize('trash.manage'), async (req: AuthRequest, res) => {
+  try {
+    const counts = await purgeHouseholdTrash(req.user!.householdId, req.user!.id);
+
+    res.json({ message: 'Trash emptied', purged: counts });
+  } catch (error) {
+    console.error('Empty trash error:', error);
+    res.status(500).json({ error: 'Failed to empty trash' });
+  }
+});
+
+export default router;
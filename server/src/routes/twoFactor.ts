@@ -0,0 +1,145 @@
+import { Router } from 'express';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../index';
+import { authenticateUser, AuthRequest } from '../middleware/auth';
+import {
+  checkTotpCode,
+  countRecoveryCodes,
+  describeTotpSecret,
+  disableTwoFactor,
+  enableTwoFactor,
+  generateTotpSecret,
+  householdsRequiringTwoFactor,
+  issueRecoveryCodes,
+  verifySecondFactor
+} from '../lib/twoFactor';
+
+const router = Router();
+
+// Your two-factor status, and the households that require it of you
+router.get('/', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { totpEnabledAt: true }
+    });
+
+    res.json({
+      enabled: user!.totpEnabledAt !== null,
+      enabledAt: user!.totpEnabledAt,
+      recoveryCodesLeft: user!.totpEnabledAt ? await countRecoveryCodes(req.user!.id) : 0,
+      requiredBy: await householdsRequiringTwoFactor(req.user!.id)
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({ error: 'Failed to get two-factor status' });
+  }
+});
+
+// Start setup: a new secret to add to an authenticator app. It is only used
+// for logins once a code from the app has been confirmed with /enable.
+router.post('/setup', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { username: true, totpEnabledAt: true }
+    });
+
+    if (user!.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is already turned on' });
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { totpSecret: secret }
+    });
+
+    res.json(await describeTotpSecret(secret, user!.username));
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Finish setup with a code from the app: { code }. Returns the recovery codes, shown once.
+router.post('/enable', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { totpSecret: true, totpEnabledAt: true }
+    });
+
+    if (user!.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is already turned on' });
+    }
+    if (!user!.totpSecret) {
+      return res.status(400).json({ error: 'Start two-factor setup first' });
+    }
+
+    const step = checkTotpCode(user!.totpSecret, req.body.code);
+    if (step === null) {
+      return res.status(400).json({ error: 'Invalid code. Check the time on your phone and try again.' });
+    }
+
+    const recoveryCodes = await enableTwoFactor(req.user!.id, step);
+
+    res.json({ message: 'Two-factor authentication turned on', recoveryCodes });
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({ error: 'Failed to turn on two-factor authentication' });
+  }
+});
+
+// Replace the recovery codes: { code } (an authenticator or unused recovery code)
+router.post('/recovery-codes', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    if (!(await verifySecondFactor(req.user!.id, req.body.code))) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    res.json({ recoveryCodes: await issueRecoveryCodes(req.user!.id) });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ error: 'Failed to create new recovery codes' });
+  }
+});
+
+// Turn two-factor off: { password, code }
+router.post('/disable', authenticateUser, async (req: AuthRequest, res) => {
+  try {
+    const { password, code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { password: true, totpEnabledAt: true }
+    });
+
+    if (!user!.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is not turned on' });
+    }
+
+    const requiredBy = await householdsRequiringTwoFactor(req.user!.id);
+    if (requiredBy.length > 0) {
+      return res.status(400).json({
+        error: `${requiredBy.map((household) => household.name).join(', ')} requires admins to use two-factor authentication`
+      });
+    }
+
+    if (typeof password !== 'string' || !(await bcrypt.compare(password, user!.password))) {
+      return res.status(400).json({ error: 'Password is incorrect' });
+    }
+    if (!(await verifySecondFactor(req.user!.id, code))) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    await disableTwoFactor(req.user!.id);
+
+    res.json({ message: 'Two-factor authentication turned off' });
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({ error: 'Failed to turn off two-factor authentication' });
+  }
+});
+
+export default router;
@@ -1,33 +1,85 @@
 import { Router } from 'express';
 import bcrypt from 'bcryptjs';
 import { prisma } from '../index';
-import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
 import { upload, getUploadPath } from '../middleware/upload';
+import { getHouseholdLedger } from '../lib/ledger';
+import { recordAudit } from '../lib/audit';
+import {
+  checkMemberDeletable,
+  deleteMemberAccount,
+  managesAccount,
+  resetHouseholdPasswords,
+  setMemberRole
+} from '../lib/households';
+import { heldMessage, holdForApproval } from '../lib/approvals';
+import { MIN_PASSWORD_LENGTH, sendPasswordResetEmail, sendVerificationEmail } from '../lib/authTokens';
+import { disableTwoFactor } from '../lib/twoFactor';
+import { revokeAllSessions, revokeOtherSessions } from '../lib/sessions';
+import { isPermission, isRole, OWNER_PERMISSIONS, parseGrants, Permission, PERMISSIONS, permissionsFor, ROLE_PERMISSIONS, ROLES } from '../lib/permissions';
+import { clearFailedLogins, isLocked, recordSecurityEvent } from '../lib/security';
 
 const router = Router();
 
-// Get all users (for transparency - all members can see)
+// A member's details, with the invitation they joined this household with
+const memberUserSelect = (householdId: string) => ({
+  id: true,
+  username: true,
+  email: true,
+  displayName: true,
+  bankName: true,
+  bankAccountNo: true,
+  bankAccountName: true,
+  paymentQrImage: true,
+  avatarUrl: true,
+  totpEnabledAt: true,
+  lockedUntil: true,
+  createdAt: true,
+  invitationUses: {
+    where: { invitation: { householdId } },
+    select: { invitation: { select: { createdBy: { select: { id: true, displayName: true } } } } },
+    take: 1
+  }
+});
+
+type MemberUser = {
+  totpEnabledAt: Date | null;
+  lockedUntil: Date | null;
+  invitationUses: { invitation: { createdBy: { id: string; displayName: string } } }[];
+};
+
+// A member as others see them: their role and extra permissions in this household,
+// whether they use two-factor, whether failed logins locked them out and who invited them
+const toMember = (member: { role: string; grants: string; user: MemberUser }) => {
+  const { totpEnabledAt, lockedUntil, invitationUses, ...user } = member.user;
+  return {
+    ...user,
+    lockedUntil: isLocked({ lockedUntil }) ? lockedUntil : null,
+    role: member.role,
+    grants: parseGrants(member.grants),
+    twoFactorEnabled: totpEnabledAt !== null,
+    invitedBy: invitationUses[0]?.invitation.createdBy ?? null
+  };
+};
+
+// The built-in roles with what each allows, and what every permission means
+router.get('/roles', authenticateToken, async (req: AuthRequest, res) => {
+  res.json({
+    roles: ROLES.map(role => ({ role, permissions: ROLE_PERMISSIONS[role] })),
+    permissions: PERMISSIONS
+  });
+});
+
+// Get all household members (for transparency - all members can see)
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const users = await prisma.user.findMany({
-      where: { isDeleted: false },  // Only show active users
-      select: {
-        id: true,
-        username: true,
-        email: true,
-        displayName: true,
-        isAdmin: true,
-        bankName: true,
-        bankAccountNo: true,
-        bankAccountName: true,
-        paymentQrImage: true,
-        avatarUrl: true,
-        createdAt: true
-      },
-      orderBy: { displayName: 'asc' }
+    const members = await prisma.householdMember.findMany({
+      where: { householdId: req.user!.householdId, user: { isDeleted: false } },  // Only show active users
+      include: { user: { select: memberUserSelect(req.user!.householdId) } },
+      orderBy: { user: { displayName: 'asc' } }
     });
 
-    res.json(users);
+    res.json(members.map(toMember));
   } catch (error) {
     console.error('Get users error:', error);
     res.status(500).json({ error: 'Failed to get users' });
@@ -37,28 +89,16 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
 // Get user by ID
 router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const user = await prisma.user.findUnique({
-      where: { id: req.params.id },
-      select: {
-        id: true,
-        username: true,
-        email: true,
-        displayName: true,
-        isAdmin: true,
-        bankName: true,
-        bankAccountNo: true,
-        bankAccountName: true,
-        paymentQrImage: true,
-        avatarUrl: true,
-        createdAt: true
-      }
+    const member = await prisma.householdMember.findUnique({
+      where: { householdId_userId: { householdId: req.user!.householdId, userId: req.params.id } },
+      include: { user: { select: memberUserSelect(req.user!.householdId) } }
     });
 
-    if (!user) {
+    if (!member) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json(user);
+    res.json(toMember(member));
   } catch (error) {
     console.error('Get user error:', error);
     res.status(500).json({ error: 'Failed to get user' });
@@ -93,7 +133,11 @@ router.put('/profile', authenticateToken, async (req: AuthRequest, res) => {
       if (existingUser) {
         return res.status(400).json({ error: 'Email already in use' });
       }
-      updateData.email = email;
+      // A new address has to be verified again
+      if (email !== req.user!.email) {
+        updateData.email = email;
+        updateData.emailVerifiedAt = null;
+      }
     }
     
     // Bank info - explicitly set even if empty string (to allow clearing)
@@ -114,27 +158,48 @@ router.put('/profile', authenticateToken, async (req: AuthRequest, res) => {
         return res.status(400).json({ error: 'Current password is incorrect' });
       }
 
+      if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+      if (newPassword === currentPassword) {
+        return res.status(400).json({ error: 'Choose a password different from the current one' });
+      }
+
       updateData.password = await bcrypt.hash(newPassword, 12);
+      updateData.mustChangePassword = false;
     }
 
-    const updatedUser = await prisma.user.update({
-      where: { id: req.user!.id },
-      data: updateData,
-      select: {
-        id: true,
-        username: true,
-        email: true,
-        displayName: true,
-        isAdmin: true,
-        bankName: true,
-        bankAccountNo: true,
-        bankAccountName: true,
-        paymentQrImage: true,
-        avatarUrl: true
+    // A new password signs every other device out; this one stays logged in
+    const updatedUser = await prisma.$transaction(async (tx) => {
+      if (updateData.password) {
+        await revokeOtherSessions(req.user!.id, req.user!.sessionId, tx);
       }
+      return tx.user.update({
+        where: { id: req.user!.id },
+        data: updateData,
+        select: {
+          id: true,
+          username: true,
+          email: true,
+          displayName: true,
+          isAdmin: true,
+          bankName: true,
+          bankAccountNo: true,
+          bankAccountName: true,
+          paymentQrImage: true,
+          avatarUrl: true,
+          emailVerifiedAt: true,
+          mustChangePassword: true
+        }
+      });
     });
 
-    res.json(updatedUser);
+    if (updateData.email) {
+      await sendVerificationEmail(updatedUser);
+    }
+
+    const { emailVerifiedAt, ...profile } = updatedUser;
+    res.json({ ...profile, emailVerified: emailVerifiedAt !== null });
   } catch (error) {
     console.error('Update profile error:', error);
     res.status(500).json({ error: 'Failed to update profile' });
@@ -191,19 +256,19 @@ router.post('/avatar', authenticateToken, upload.single('avatar'), async (req: A
   }
 });
 
-// Admin: Reset user password
-router.post('/:id/reset-password', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Reset user password (members.manage)
+router.post('/:id/reset-password', authenticateToken, authorize('members.manage'), async (req: AuthRequest, res) => {
   try {
     const { newPassword } = req.body;
     const userId = req.params.id;
 
-    if (!newPassword || newPassword.length < 6) {
-      return res.status(400).json({ error: 'Password must be at least 6 characters' });
+    if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
     }
 
-    // Check if user exists and is not deleted
-    const targetUser = await prisma.user.findUnique({
-      where: { id: userId }
+    // Check if user exists in this household and is not deleted
+    const targetUser = await prisma.user.findFirst({
+      where: { id: userId, householdMembers: { some: { householdId: req.user!.householdId } } }
     });
 
     if (!targetUser) {
@@ -214,15 +279,30 @@ router.post('/:id/reset-password', authenticateToken, requireAdmin, async (req:
       return res.status(400).json({ error: 'Cannot reset password for deleted user' });
     }
 
+    if (!(await managesAccount(req.user!.householdId, userId))) {
+      return res.status(403).json({ error: `${targetUser.displayName} also belongs to another household, so only they can change their password` });
+    }
+
     const hashedPassword = await bcrypt.hash(newPassword, 12);
 
+    // Whoever reset it knows this password, so the user has to replace it when they next log in
     await prisma.user.update({
       where: { id: userId },
-      data: { password: hashedPassword }
+      data: { password: hashedPassword, mustChangePassword: true }
     });
 
-    // Invalidate all refresh tokens for this user (force re-login)
-    await prisma.refreshToken.deleteMany({ where: { userId } });
+    // End all of this user's sessions (force re-login)
+    await revokeAllSessions(userId);
+
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'user',
+      entityId: userId,
+      entityLabel: targetUser.displayName,
+      action: 'reset-password',
+      reason: req.body.reason
+    });
 
     res.json({ message: 'Password reset successfully' });
   } catch (error) {
@@ -231,28 +311,158 @@ router.post('/:id/reset-password', authenticateToken, requireAdmin, async (req:
   }
 });
 
-// Admin: Reset all passwords
-router.post('/reset-all-passwords', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Turn off two-factor authentication for a member who lost their phone and recovery codes (members.manage)
+router.delete('/:id/two-factor', authenticateToken, authorize('members.manage'), async (req: AuthRequest, res) => {
+  try {
+    const targetUser = await prisma.user.findFirst({
+      where: { id: req.params.id, householdMembers: { some: { householdId: req.user!.householdId } } },
+      select: { id: true, displayName: true, isDeleted: true, totpEnabledAt: true }
+    });
+
+    if (!targetUser || targetUser.isDeleted) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (targetUser.id === req.user!.id) {
+      return res.status(400).json({ error: 'Turn off your own two-factor authentication from your profile' });
+    }
+
+    if (!targetUser.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is not turned on for this user' });
+    }
+
+    if (!(await managesAccount(req.user!.householdId, targetUser.id))) {
+      return res.status(403).json({ error: `${targetUser.displayName} also belongs to another household, so only they can turn off their two-factor authentication` });
+    }
+
+    await disableTwoFactor(targetUser.id);
+
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'user',
+      entityId: targetUser.id,
+      entityLabel: targetUser.displayName,
+      action: 'reset-two-factor',
+      reason: req.body.reason
+    });
+
+    res.json({ message: `Two-factor authentication turned off for ${targetUser.displayName}` });
+  } catch (error) {
+    console.error('Reset two-factor error:', error);
+    res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+  }
+});
+
+// Unlock an account that failed logins locked, and forget its failed logins (security.manage)
+router.post('/:id/unlock', authenticateToken, authorize('security.manage'), async (req: AuthRequest, res) => {
+  try {
+    const targetUser = await prisma.user.findFirst({
+      where: { id: req.params.id, householdMembers: { some: { householdId: req.user!.householdId } } },
+      select: { id: true, displayName: true, failedLoginCount: true, lockedUntil: true }
+    });
+
+    if (!targetUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!isLocked(targetUser) && targetUser.failedLoginCount === 0) {
+      return res.status(400).json({ error: 'This account is not locked' });
+    }
+
+    await clearFailedLogins(targetUser.id);
+    await recordSecurityEvent(req, {
+      type: 'account-unlocked',
+      userId: targetUser.id,
+      actorId: req.user!.id,
+      details: { failures: targetUser.failedLoginCount }
+    });
+
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'user',
+      entityId: targetUser.id,
+      entityLabel: targetUser.displayName,
+      action: 'unlock',
+      reason: req.body?.reason
+    });
+
+    res.json({ message: `${targetUser.displayName} can log in again` });
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    res.status(500).json({ error: 'Failed to unlock account' });
+  }
+});
+
+// Email a member a link to choose a new password themselves (members.manage)
+router.post('/:id/send-password-reset', authenticateToken, authorize('members.manage'), async (req: AuthRequest, res) => {
+  try {
+    const targetUser = await prisma.user.findFirst({
+      where: { id: req.params.id, householdMembers: { some: { householdId: req.user!.householdId } } },
+      select: { id: true, email: true, displayName: true, isDeleted: true }
+    });
+
+    if (!targetUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (targetUser.isDeleted) {
+      return res.status(400).json({ error: 'Cannot reset password for deleted user' });
+    }
+
+    if (!(await sendPasswordResetEmail(targetUser))) {
+      return res.status(400).json({ error: 'Email is not set up on this server' });
+    }
+
+    await recordAudit({
+      householdId: req.user!.householdId,
+      actorId: req.user!.id,
+      entityType: 'user',
+      entityId: targetUser.id,
+      entityLabel: targetUser.displayName,
+      action: 'send-password-reset',
+      reason: req.body.reason
+    });
+
+    res.json({ message: `Password reset link sent to ${targetUser.email}` });
+  } catch (error) {
+    console.error('Send password reset error:', error);
+    res.status(500).json({ error: 'Failed to send password reset link' });
+  }
+});
+
+// Reset all passwords (members.manage)
+router.post('/reset-all-passwords', authenticateToken, authorize('members.manage'), async (req: AuthRequest, res) => {
   try {
     const { newPassword } = req.body;
 
-    if (!newPassword || newPassword.length < 6) {
-      return res.status(400).json({ error: 'Password must be at least 6 characters' });
+    if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
     }
 
     const hashedPassword = await bcrypt.hash(newPassword, 12);
 
-    // Update all active users' passwords
-    const result = await prisma.user.updateMany({
-      where: { isDeleted: false },
-      data: { password: hashedPassword }
+    // Only the hash is kept while the reset waits for approvals
+    const held = await holdForApproval(req.user!.householdId, req.user!.id, {
+      action: 'reset-all-passwords',
+      recordType: 'household',
+      recordId: req.user!.householdId,
+      changes: { passwordHash: hashedPassword },
+      reason: req.body.reason
     });
+    if (held && 'error' in held) {
+      return res.status(400).json({ error: held.error });
+    }
+    if (held) {
+      return res.status(202).json({ message: heldMessage('Resetting all passwords', held), request: held.request });
+    }
 
-    // Invalidate all refresh tokens (force everyone to re-login)
-    await prisma.refreshToken.deleteMany({});
+    const count = await prisma.$transaction((tx) =>
+      resetHouseholdPasswords(tx, req.user!.householdId, hashedPassword, req.user!.id, req.body.reason)
+    );
 
     res.json({ 
-      message: `Password reset for ${result.count} users. Everyone will need to log in again.`
+      message: `Password reset for ${count} users. Everyone will need to log in again. Members who also belong to another household keep their own password.`
     });
   } catch (error) {
     console.error('Reset all passwords error:', error);
@@ -260,31 +470,72 @@ router.post('/reset-all-passwords', authenticateToken, requireAdmin, async (req:
   }
 });
 
-// Admin: Promote/demote user
-router.put('/:id/admin', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Change a member's role and extra permissions: { role, grants?, reason? } (roles.manage)
+router.put('/:id/role', authenticateToken, authorize('roles.manage'), async (req: AuthRequest, res) => {
   try {
-    const { isAdmin } = req.body;
+    const { role, grants, reason } = req.body;
+    const householdId = req.user!.householdId;
 
-    // Prevent self-demotion
-    if (req.params.id === req.user!.id && !isAdmin) {
-      return res.status(400).json({ error: 'Cannot demote yourself' });
+    if (!isRole(role)) {
+      return res.status(400).json({ error: 'Invalid role' });
+    }
+    if (grants !== undefined && (!Array.isArray(grants) || !grants.every(isPermission))) {
+      return res.status(400).json({ error: 'Grants must be a list of permissions' });
     }
 
-    const updatedUser = await prisma.user.update({
-      where: { id: req.params.id },
-      data: { isAdmin },
-      select: {
-        id: true,
-        username: true,
-        displayName: true,
-        isAdmin: true
-      }
+    // Prevent locking yourself out
+    if (req.params.id === req.user!.id) {
+      return res.status(400).json({ error: 'Cannot change your own role' });
+    }
+
+    const member = await prisma.householdMember.findUnique({
+      where: { householdId_userId: { householdId, userId: req.params.id } }
     });
 
-    res.json(updatedUser);
+    if (!member) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // A household must always keep at least one owner
+    if (member.role === 'owner' && role !== 'owner') {
+      const ownerCount = await prisma.householdMember.count({ where: { householdId, role: 'owner' } });
+      if (ownerCount <= 1) {
+        return res.status(400).json({ error: 'Cannot change the role of the last owner of a household' });
+      }
+    }
+
+    // Making someone an owner, or granting them a permission only owners have, can need
+    // more than one approval
+    const current = permissionsFor(member.role, member.grants);
+    const promotes = role === 'owner' && member.role !== 'owner';
+    const grantsOwnerPermissions = (grants as Permission[] | undefined)?.some(
+      permission => OWNER_PERMISSIONS.includes(permission) && !current.includes(permission)
+    );
+    if (promotes || grantsOwnerPermissions) {
+      const held = await holdForApproval(householdId, req.user!.id, {
+        action: 'promote-admin',
+        recordType: 'user',
+        recordId: member.userId,
+        changes: promotes ? null : { role, grants },
+        reason
+      });
+      if (held && 'error' in held) {
+        return res.status(400).json({ error: held.error });
+      }
+      if (held) {
+        const what = promotes ? 'Making this member an owner' : 'Giving this member owner permissions';
+        return res.status(202).json({ message: heldMessage(what, held), request: held.request });
+      }
+    }
+
+    const updated = await prisma.$transaction((tx) =>
+      setMemberRole(tx, householdId, member.userId, { role, grants }, req.user!.id, reason)
+    );
+
+    res.json({ ...updated!.user, role: updated!.role, grants: parseGrants(updated!.grants) });
   } catch (error) {
-    console.error('Update admin status error:', error);
-    res.status(500).json({ error: 'Failed to update admin status' });
+    console.error('Update member role error:', error);
+    res.status(500).json({ error: 'Failed to update role' });
   }
 });
 
@@ -293,93 +544,23 @@ router.get('/:id/stats', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.params.id;
     const currentUserId = req.user!.id;
+    const householdId = req.user!.householdId;
 
-    const [totalExpenses, totalPaymentsMade, totalPaymentsReceived, expenseCount] = await Promise.all([
-      prisma.expense.aggregate({
-        where: { userId },
-        _sum: { amount: true }
-      }),
-      prisma.payment.aggregate({
-        where: { fromUserId: userId, status: 'confirmed' },
-        _sum: { amount: true }
-      }),
-      prisma.payment.aggregate({
-        where: { toUserId: userId, status: 'confirmed' },
-        _sum: { amount: true }
-      }),
-      prisma.expense.count({ where: { userId } })
+    // Totals and debt information all come from the household ledger
+    const [ledger, expenseCount] = await Promise.all([
+      getHouseholdLedger(householdId),
+      prisma.expense.count({ where: { householdId, userId, isDeleted: false } })
     ]);
-
-    // Calculate debt information
-    // Get all active users for fair share calculation
-    const allUsers = await prisma.user.findMany({
-      where: { isDeleted: false },
-      select: { id: true }
-    });
-    
-    // Get all expenses with splits
-    const allExpenses = await prisma.expense.findMany({
-      where: { isDeleted: false },
-      include: { splits: true }
-    });
-    
-    // Get all confirmed payments
-    const allPayments = await prisma.payment.findMany({
-      where: { status: 'confirmed' },
-      select: { fromUserId: true, toUserId: true, amount: true }
-    });
-
-    // Calculate what this user owes to others (their debt)
-    let userTotalDebt = 0;
-    
-    // Calculate what they owe each person
-    const userDebts: { [key: string]: number } = {};
-    
-    for (const otherUser of allUsers) {
-      if (otherUser.id === userId) continue;
-      
-      // Amount userId owes to otherUser (from otherUser's expenses that userId was split into)
-      let owes = 0;
-      for (const expense of allExpenses) {
-        if (expense.userId === otherUser.id) {
-          const split = expense.splits.find(s => s.userId === userId);
-          if (split) owes += split.amount;
-        }
-      }
-      
-      // Amount otherUser owes to userId (from userId's expenses)
-      let owed = 0;
-      for (const expense of allExpenses) {
-        if (expense.userId === userId) {
-          const split = expense.splits.find(s => s.userId === otherUser.id);
-          if (split) owed += split.amount;
-        }
-      }
-      
-      // Factor in payments
-      const paidToOther = allPayments
-        .filter(p => p.fromUserId === userId && p.toUserId === otherUser.id)
-        .reduce((sum, p) => sum + p.amount, 0);
-      
-      const receivedFromOther = allPayments
-        .filter(p => p.fromUserId === otherUser.id && p.toUserId === userId)
-        .reduce((sum, p) => sum + p.amount, 0);
-      
-      // Net: positive = userId owes otherUser, negative = otherUser owes userId
-      const netWithOther = owes - owed - paidToOther + receivedFromOther;
-      userDebts[otherUser.id] = netWithOther;
-      
-      if (netWithOther > 0) {
-        userTotalDebt += netWithOther;
-      }
-    }
+    const totals = ledger.totals(userId);
+    const userTotalDebt = ledger.totalDebt(userId);
 
     // If checking another user, also calculate debt between current user and target user
     let debtToCurrentUser = 0;  // What userId owes to currentUser
     let currentUserDebt = 0;    // What currentUser owes to userId
     
     if (userId !== currentUserId) {
-      const netWithCurrent = userDebts[currentUserId] || 0;
+      // Positive = userId owes currentUser, negative = currentUser owes userId
+      const netWithCurrent = ledger.between(userId, currentUserId).balance;
       if (netWithCurrent > 0) {
         // userId owes currentUser
         debtToCurrentUser = netWithCurrent;
@@ -390,14 +571,14 @@ router.get('/:id/stats', authenticateToken, async (req: AuthRequest, res) => {
     }
 
     res.json({
-      totalExpenses: totalExpenses._sum.amount || 0,
-      totalPaymentsMade: totalPaymentsMade._sum.amount || 0,
-      totalPaymentsReceived: totalPaymentsReceived._sum.amount || 0,
+      totalExpenses: totals.spent,
+      totalPaymentsMade: totals.paymentsMade,
+      totalPaymentsReceived: totals.paymentsReceived,
       expenseCount,
       // Debt information
-      userTotalDebt: Math.round(userTotalDebt * 100) / 100,
-      debtToCurrentUser: Math.round(debtToCurrentUser * 100) / 100,
-      currentUserDebt: Math.round(currentUserDebt * 100) / 100
+      userTotalDebt,
+      debtToCurrentUser,
+      currentUserDebt
     });
   } catch (error) {
     console.error('Get user stats error:', error);
@@ -405,9 +586,10 @@ router.get('/:id/stats', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Delete user (admin only, only when no outstanding balances)
-// Performs soft delete and locks associated records
-router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Delete user (members.manage, only when no outstanding balances)
+// Removes them from the household and locks their records here. The account itself
+// is soft deleted only when this is the only household they belong to.
+router.delete('/:id', authenticateToken, authorize('members.manage'), async (req: AuthRequest, res) => {
   try {
     const userId = req.params.id;
 
@@ -416,161 +598,36 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest,
       return res.status(400).json({ error: 'Cannot delete yourself' });
     }
 
-    // Check if user exists and is not already deleted
-    const userToDelete = await prisma.user.findUnique({
-      where: { id: userId }
-    });
-
-    if (!userToDelete) {
-      return res.status(404).json({ error: 'User not found' });
+    // Check the user exists and has nothing left to settle
+    const check = await checkMemberDeletable(req.user!.householdId, userId);
+    if ('error' in check) {
+      return res.status(check.error === 'User not found' ? 404 : 400).json({ error: check.error });
     }
 
-    if (userToDelete.isDeleted) {
-      return res.status(400).json({ error: 'User is already deleted' });
-    }
-
-    // Get all other active users to calculate balances
-    const otherUsers = await prisma.user.findMany({
-      where: { id: { not: userId }, isDeleted: false },
-      select: { id: true }
+    // Deleting a member can need the agreement of the rest of the household
+    const held = await holdForApproval(req.user!.householdId, req.user!.id, {
+      action: 'delete-user',
+      recordType: 'user',
+      recordId: userId,
+      reason: req.body?.reason
     });
-
-    // Check balance with each user
-    for (const otherUser of otherUsers) {
-      // Get expense splits where this user owes otherUser
-      const expensesOtherPaidFor = await prisma.expense.findMany({
-        where: { userId: otherUser.id },
-        include: { splits: true }
-      });
-      
-      const expensesThisUserPaidFor = await prisma.expense.findMany({
-        where: { userId: userId },
-        include: { splits: true }
-      });
-
-      // Amount this user owes otherUser
-      let thisUserOwes = 0;
-      for (const expense of expensesOtherPaidFor) {
-        const split = expense.splits.find(s => s.userId === userId);
-        if (split) {
-          thisUserOwes += split.amount;
-        }
-      }
-
-      // Amount otherUser owes this user
-      let otherUserOwes = 0;
-      for (const expense of expensesThisUserPaidFor) {
-        const split = expense.splits.find(s => s.userId === otherUser.id);
-        if (split) {
-          otherUserOwes += split.amount;
-        }
-      }
-
-      // Factor in confirmed payments
-      const [paidToOther, receivedFromOther] = await Promise.all([
-        prisma.payment.aggregate({
-          where: {
-            fromUserId: userId,
-            toUserId: otherUser.id,
-            status: 'confirmed'
-          },
-          _sum: { amount: true }
-        }),
-        prisma.payment.aggregate({
-          where: {
-            fromUserId: otherUser.id,
-            toUserId: userId,
-            status: 'confirmed'
-          },
-          _sum: { amount: true }
-        })
-      ]);
-
-      const paid = paidToOther._sum.amount || 0;
-      const received = receivedFromOther._sum.amount || 0;
-
-      // Net balance calculation
-      const netBalance = thisUserOwes - otherUserOwes - paid + received;
-
-      // If there's any outstanding balance (either way), block deletion
-      if (Math.abs(netBalance) > 0.01) {
-        return res.status(400).json({ 
-          error: 'Cannot delete user with outstanding balances. All debts must be settled first.' 
-        });
-      }
+    if (held && 'error' in held) {
+      return res.status(400).json({ error: held.error });
     }
-
-    // Check for pending payments
-    const pendingPayments = await prisma.payment.count({
-      where: {
-        OR: [
-          { fromUserId: userId, status: 'pending' },
-          { toUserId: userId, status: 'pending' }
-        ]
-      }
-    });
-
-    if (pendingPayments > 0) {
-      return res.status(400).json({ 
-        error: 'Cannot delete user with pending payments. Please confirm or reject all pending payments first.' 
-      });
+    if (held) {
+      return res.status(202).json({ message: heldMessage('Deleting this member', held), request: held.request });
     }
 
-    // All checks passed - perform soft delete and lock associated records
-    await prisma.$transaction(async (tx) => {
-      // Lock all expenses where this user is the primary payer
-      await tx.expense.updateMany({ 
-        where: { userId }, 
-        data: { isLocked: true } 
-      });
-      
-      // Lock all expenses where this user has a split
-      const expensesWithSplits = await tx.expenseSplit.findMany({
-        where: { userId },
-        select: { expenseId: true }
-      });
-      if (expensesWithSplits.length > 0) {
-        await tx.expense.updateMany({
-          where: { id: { in: expensesWithSplits.map(e => e.expenseId) } },
-          data: { isLocked: true }
-        });
-      }
-      
-      // Lock all payments involving this user
-      await tx.payment.updateMany({ 
-        where: { OR: [{ fromUserId: userId }, { toUserId: userId }] },
-        data: { isLocked: true }
-      });
-      
-      // Delete refresh tokens (these can be hard deleted)
-      await tx.refreshToken.deleteMany({ where: { userId } });
-      
-      // Delete delete requests (these can be hard deleted)
-      await tx.deleteRequest.deleteMany({ 
-        where: { OR: [{ requestedById: userId }, { approvedById: userId }] } 
-      });
-      
-      // Delete recurring expenses (since they're for future, no need to keep)
-      await tx.recurringExpense.deleteMany({ where: { userId } });
-      
-      // Delete split bill items (part of split bill process, not historical)
-      await tx.splitBillItem.deleteMany({ where: { userId } });
-      
-      // Soft delete the user - mark as deleted but keep the record
-      await tx.user.update({ 
-        where: { id: userId },
-        data: { 
-          isDeleted: true,
-          deletedAt: new Date(),
-          // Scramble credentials so they can't log in
-          password: 'DELETED',
-          email: `deleted_${userId}@deleted.local`,
-          username: `deleted_${userId}`
-        }
-      });
-    });
+    // All checks passed - remove them and lock associated records
+    const { accountDeleted } = await prisma.$transaction((tx) =>
+      deleteMemberAccount(tx, req.user!.householdId, check.user!, req.user!.id, req.body?.reason)
+    );
 
-    res.json({ message: 'User deleted successfully. Associated records have been locked for historical reference.' });
+    res.json({
+      message: accountDeleted
+        ? 'User deleted successfully. Associated records have been locked for historical reference.'
+        : 'User removed from this household. They belong to another household, so their account is kept. Associated records here have been locked for historical reference.'
+    });
   } catch (error) {
     console.error('Delete user error:', error);
     res.status(500).json({ error: 'Failed to delete user' });
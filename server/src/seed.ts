@@ -9,6 +9,14 @@ const prisma = new PrismaClient();
 async function seed() {
   console.log('🌱 Seeding database...');
 
+  // Create the default household (first household is the one new registrations join)
+  let household = await prisma.household.findFirst({ orderBy: { createdAt: 'asc' } });
+  if (!household) {
+    household = await prisma.household.create({ data: { name: 'My House' } });
+  }
+
+  console.log(`✅ Using household "${household.name}"`);
+
   // Create default categories (only Water and Electricity)
   const categories = [
     { name: 'Water', icon: '💧', color: '#06B6D4', isDefault: true },
@@ -17,9 +25,9 @@ async function seed() {
 
   for (const category of categories) {
     await prisma.category.upsert({
-      where: { name: category.name },
+      where: { householdId_name: { householdId: household.id, name: category.name } },
       update: {},
-      create: category,
+      create: { ...category, householdId: household.id },
     });
   }
 
@@ -34,9 +42,9 @@ async function seed() {
 
   for (const setting of defaultSettings) {
     await prisma.settings.upsert({
-      where: { key: setting.key },
+      where: { householdId_key: { householdId: household.id, key: setting.key } },
       update: {},
-      create: setting,
+      create: { ...setting, householdId: household.id },
     });
   }
 
@@ -45,7 +53,7 @@ async function seed() {
   // Create a demo admin user (optional - comment out in production)
   const adminPassword = await bcrypt.hash('admin123', 12);
   
-  await prisma.user.upsert({
+  const admin = await prisma.user.upsert({
     where: { username: 'admin' },
     update: {},
     create: {
@@ -57,6 +65,12 @@ async function seed() {
     },
   });
 
+  await prisma.householdMember.upsert({
+    where: { householdId_userId: { householdId: household.id, userId: admin.id } },
+    update: {},
+    create: { householdId: household.id, userId: admin.id, role: 'owner' },
+  });
+
   console.log('✅ Created demo admin user (username: admin, password: admin123)');
   console.log('⚠️  Remember to change the password in production!');
 
@@ -0,0 +1,127 @@
+import { RateEntry } from '../../src/lib/currency';
+
+// Households with known records and the balances they must produce. Amounts are
+// minor units; every fixture's expected balances were worked out by hand.
+
+interface FixtureExpense {
+  userId: string;
+  amount: number;
+  currency?: string;
+  date?: string;
+  splits: { userId: string; amount: number }[];
+}
+
+interface FixturePayment {
+  fromUserId: string;
+  toUserId: string;
+  amount: number;
+  currency?: string;
+  date?: string;
+}
+
+export interface HouseholdFixture {
+  name: string;
+  baseCurrency: string;
+  rates: RateEntry[];
+  members: string[];
+  expenses: FixtureExpense[];
+  payments: FixturePayment[];   // Confirmed payments only
+  expected: {
+    net: Record<string, number>;                     // Positive = owed money, negative = owes
+    pairs: { from: string; to: string; balance: number }[];  // What from owes to
+  };
+}
+
+export const HOUSEHOLDS: HouseholdFixture[] = [
+  {
+    name: 'three housemates splitting rent and electricity',
+    baseCurrency: 'MYR',
+    rates: [],
+    members: ['ali', 'bala', 'chong'],
+    expenses: [
+      { userId: 'ali', amount: 90000, splits: [{ userId: 'ali', amount: 30000 }, { userId: 'bala', amount: 30000 }, { userId: 'chong', amount: 30000 }] },
+      { userId: 'bala', amount: 12000, splits: [{ userId: 'ali', amount: 4000 }, { userId: 'bala', amount: 4000 }, { userId: 'chong', amount: 4000 }] }
+    ],
+    payments: [
+      { fromUserId: 'chong', toUserId: 'ali', amount: 30000 }
+    ],
+    expected: {
+      net: { ali: 26000, bala: -22000, chong: -4000 },
+      pairs: [
+        { from: 'bala', to: 'ali', balance: 26000 },
+        { from: 'chong', to: 'ali', balance: 0 },
+        { from: 'chong', to: 'bala', balance: 4000 }
+      ]
+    }
+  },
+  {
+    name: 'payer keeps the part of an expense not split out',
+    baseCurrency: 'MYR',
+    rates: [],
+    members: ['ali', 'bala'],
+    expenses: [
+      { userId: 'ali', amount: 10000, splits: [{ userId: 'bala', amount: 3000 }] }
+    ],
+    payments: [],
+    expected: {
+      net: { ali: 3000, bala: -3000 },
+      pairs: [{ from: 'bala', to: 'ali', balance: 3000 }]
+    }
+  },
+  {
+    name: 'fully settled household',
+    baseCurrency: 'MYR',
+    rates: [],
+    members: ['ali', 'bala'],
+    expenses: [
+      { userId: 'ali', amount: 2000, splits: [{ userId: 'ali', amount: 1000 }, { userId: 'bala', amount: 1000 }] }
+    ],
+    payments: [
+      { fromUserId: 'bala', toUserId: 'ali', amount: 1000 },
+      { fromUserId: 'ali', toUserId: 'ali', amount: 500 }  // A payment to yourself changes nothing
+    ],
+    expected: {
+      net: { ali: 0, bala: 0 },
+      pairs: [{ from: 'bala', to: 'ali', balance: 0 }]
+    }
+  },
+  {
+    name: 'records in a foreign currency converted with the rate on their date',
+    baseCurrency: 'MYR',
+    rates: [
+      { currency: 'USD', rate: 4.5, effectiveDate: new Date('2026-01-01') },
+      { currency: 'USD', rate: 4.7, effectiveDate: new Date('2026-02-01') }
+    ],
+    members: ['ali', 'bala'],
+    expenses: [
+      { userId: 'ali', amount: 10000, currency: 'USD', date: '2026-01-15', splits: [{ userId: 'ali', amount: 5000 }, { userId: 'bala', amount: 5000 }] },
+      { userId: 'bala', amount: 3000, date: '2026-01-20', splits: [{ userId: 'ali', amount: 1500 }, { userId: 'bala', amount: 1500 }] }
+    ],
+    payments: [
+      { fromUserId: 'bala', toUserId: 'ali', amount: 2000, currency: 'USD', date: '2026-02-10' }
+    ],
+    expected: {
+      net: { ali: 11600, bala: -11600 },
+      pairs: [{ from: 'bala', to: 'ali', balance: 11600 }]
+    }
+  },
+  {
+    name: 'converted splits still add up to the converted expense',
+    baseCurrency: 'MYR',
+    rates: [{ currency: 'USD', rate: 4.5, effectiveDate: new Date('2026-01-01') }],
+    members: ['ali', 'bala', 'chong'],
+    expenses: [
+      // USD 3.33 is MYR 14.985, rounded to 14.99 and shared 5.00 / 5.00 / 4.99
+      { userId: 'ali', amount: 333, currency: 'USD', date: '2026-01-15', splits: [{ userId: 'ali', amount: 111 }, { userId: 'bala', amount: 111 }, { userId: 'chong', amount: 111 }] }
+    ],
+    payments: [],
+    expected: {
+      net: { ali: 999, bala: -500, chong: -499 },
+      pairs: [
+        { from: 'bala', to: 'ali', balance: 500 },
+        { from: 'chong', to: 'ali', balance: 499 },
+        { from: 'chong', to: 'bala', balance: 0 }
+      ]
+    }
+  }
+];
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildConverter } from '../src/lib/currency';
+import { buildConvertedLedger } from '../src/lib/ledger';
+import { planSettlement, SETTLEMENT_STRATEGIES } from '../src/lib/settlement';
+import { HOUSEHOLDS, HouseholdFixture } from './fixtures/households';
+
+// Build a fixture's ledger the way getHouseholdLedger does for a stored household
+const ledgerFor = (household: HouseholdFixture) => {
+  const converter = buildConverter(household.baseCurrency, household.rates);
+  const dated = <T extends { currency?: string; date?: string }>(record: T) => ({
+    ...record,
+    currency: record.currency || household.baseCurrency,
+    date: new Date(record.date || '2026-01-15')
+  });
+
+  return buildConvertedLedger(household.expenses.map(dated), household.payments.map(dated), converter);
+};
+
+for (const household of HOUSEHOLDS) {
+  describe(`ledger: ${household.name}`, () => {
+    const ledger = ledgerFor(household);
+
+    it('gives every member the expected net balance', () => {
+      for (const [userId, net] of Object.entries(household.expected.net)) {
+        assert.equal(ledger.totals(userId).net, net, userId);
+      }
+    });
+
+    it('gives every pair the expected balance, seen from either side', () => {
+      for (const { from, to, balance } of household.expected.pairs) {
+        assert.equal(ledger.between(from, to).balance, balance, `${from} -> ${to}`);
+        assert.equal(ledger.between(to, from).balance + balance, 0, `${to} -> ${from}`);
+      }
+    });
+
+    it('nets add up to zero across the household', () => {
+      const total = household.members.reduce((sum, userId) => sum + ledger.totals(userId).net, 0);
+      assert.equal(total, 0);
+    });
+
+    it('agrees between net balances and the sum of pairwise balances', () => {
+      for (const userId of household.members) {
+        const owedByOthers = household.members
+          .filter(otherId => otherId !== userId)
+          .reduce((sum, otherId) => sum - ledger.between(userId, otherId).balance, 0);
+        assert.equal(ledger.totals(userId).net, owedByOthers, userId);
+      }
+    });
+
+    it('reports debts and settled members consistently', () => {
+      for (const userId of household.members) {
+        const debt = household.members
+          .filter(otherId => otherId !== userId)
+          .reduce((sum, otherId) => sum + Math.max(0, ledger.between(userId, otherId).balance), 0);
+        assert.equal(ledger.totalDebt(userId), debt, userId);
+
+        const settled = household.members.every(otherId =>
+          otherId === userId || ledger.between(userId, otherId).balance === 0);
+        assert.equal(ledger.isSettled(userId), settled, userId);
+      }
+    });
+
+    for (const strategy of SETTLEMENT_STRATEGIES) {
+      it(`settles everyone with the ${strategy} strategy`, () => {
+        const remaining = new Map(household.members.map(userId => [userId, ledger.totals(userId).net]));
+        for (const transfer of planSettlement(ledger, household.members, strategy)) {
+          assert.ok(transfer.amount > 0);
+          remaining.set(transfer.fromUserId, remaining.get(transfer.fromUserId)! + transfer.amount);
+          remaining.set(transfer.toUserId, remaining.get(transfer.toUserId)! - transfer.amount);
+        }
+        for (const [userId, net] of remaining) {
+          assert.equal(net, 0, userId);
+        }
+      });
+    }
+  });
+}
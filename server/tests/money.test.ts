@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildConverter } from '../src/lib/currency';
+import { formatMinor, minorDigits, toMinor } from '../src/lib/money';
+
+const day = new Date('2026-01-15');
+
+describe('money in each currency\'s own minor units', () => {
+  it('knows how many decimals a currency has', () => {
+    assert.equal(minorDigits('MYR'), 2);
+    assert.equal(minorDigits('jpy'), 0);
+    assert.equal(minorDigits('KWD'), 3);
+    assert.equal(minorDigits('BHD'), 3);
+  });
+
+  it('parses typed amounts with the currency\'s decimals', () => {
+    assert.equal(toMinor('12.50', 'MYR'), 1250);
+    assert.equal(toMinor('12.505', 'MYR'), 1251);
+    assert.equal(toMinor('1200', 'JPY'), 1200);
+    assert.equal(toMinor('1200.5', 'JPY'), 1201);
+    assert.equal(toMinor('1.250', 'KWD'), 1250);
+    assert.equal(toMinor('1.2505', 'KWD'), 1251);
+    assert.equal(toMinor('-0.5', 'BHD'), -500);
+    assert.equal(toMinor('abc', 'MYR'), null);
+  });
+
+  it('formats minor units with the currency\'s decimals', () => {
+    assert.equal(formatMinor(1250, 'MYR'), '12.50');
+    assert.equal(formatMinor(5, 'MYR'), '0.05');
+    assert.equal(formatMinor(1250, 'JPY'), '1250');
+    assert.equal(formatMinor(1250, 'KWD'), '1.250');
+    assert.equal(formatMinor(-7, 'BHD'), '-0.007');
+  });
+
+  it('converts between currencies with different decimals', () => {
+    // 1 JPY = 0.03 MYR and 1 KWD = 14.5 MYR
+    const toMyr = buildConverter('MYR', [
+      { currency: 'JPY', rate: 0.03, effectiveDate: day },
+      { currency: 'KWD', rate: 14.5, effectiveDate: day }
+    ]);
+    assert.equal(toMyr.toBase(1000, 'JPY', day), 3000);       // ¥1,000 = RM30.00
+    assert.equal(toMyr.toBase(2000, 'KWD', day), 2900);       // KWD 2.000 = RM29.00
+
+    // 1 MYR = 33 JPY
+    const toJpy = buildConverter('JPY', [{ currency: 'MYR', rate: 33, effectiveDate: day }]);
+    assert.equal(toJpy.toBase(1250, 'MYR', day), 413);        // RM12.50 = ¥412.5, rounded
+  });
+
+  it('keeps converted splits adding up to the converted amount', () => {
+    const converter = buildConverter('KWD', [{ currency: 'JPY', rate: 0.002, effectiveDate: day }]);
+    const expense = converter.convertExpense({
+      amount: 1001,
+      currency: 'JPY',
+      date: day,
+      splits: [{ userId: 'a', amount: 334 }, { userId: 'b', amount: 334 }, { userId: 'c', amount: 333 }]
+    });
+    assert.equal(expense.amount, 2002);
+    assert.equal(expense.splits.reduce((sum, s) => sum + s.amount, 0), 2002);
+  });
+});
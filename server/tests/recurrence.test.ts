@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeRule, listOccurrences, parseRRule, RecurrenceRule } from '../src/lib/recurrence';
+
+const days = (dates: Date[]) => dates.map(d => d.toISOString().slice(0, 10));
+
+// Occurrences of an RRULE from a start date, with its COUNT and UNTIL applied
+const occurrences = (rrule: string, start: string, limit = 6) => {
+  const parsed = parseRRule(rrule);
+  assert.ok('rule' in parsed, `${rrule} should parse`);
+  return days(listOccurrences(parsed.rule, new Date(start), {
+    until: parsed.until,
+    limit: Math.min(limit, parsed.count ?? limit)
+  }));
+};
+
+describe('recurrence rules', () => {
+  it('parses an RRULE with or without its prefix', () => {
+    const parsed = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=1SA,-1FR;COUNT=4');
+    assert.ok('rule' in parsed);
+    assert.deepEqual(parsed.rule, {
+      freq: 'monthly',
+      interval: 2,
+      byDay: [{ weekday: 6, nth: 1 }, { weekday: 5, nth: -1 }]
+    });
+    assert.equal(parsed.count, 4);
+
+    const until = parseRRule('freq=yearly;bymonth=3;until=20301231T235959Z');
+    assert.ok('rule' in until);
+    assert.equal(until.until?.toISOString(), '2030-12-31T00:00:00.000Z');
+  });
+
+  it('rejects what it doesn\'t support', () => {
+    assert.ok('error' in parseRRule('INTERVAL=2'));
+    assert.ok('error' in parseRRule('FREQ=HOURLY'));
+    assert.ok('error' in parseRRule('FREQ=WEEKLY;BYDAY=1MO'));
+    assert.ok('error' in parseRRule('FREQ=YEARLY;BYDAY=1MO'));
+    assert.ok('error' in parseRRule('FREQ=WEEKLY;BYMONTHDAY=1'));
+    assert.ok('error' in parseRRule('FREQ=MONTHLY;BYMONTHDAY=0'));
+    assert.ok('error' in parseRRule('FREQ=MONTHLY;COUNT=2;COUNT=3'));
+    assert.ok('error' in parseRRule('FREQ=MONTHLY;UNTIL=next-year'));
+  });
+
+  it('repeats every interval units from the start date', () => {
+    const rule: RecurrenceRule = { freq: 'monthly', interval: 2 };
+    assert.deepEqual(days(listOccurrences(rule, new Date('2026-01-15T10:00:00Z'), { limit: 4 })), [
+      '2026-01-15', '2026-03-15', '2026-05-15', '2026-07-15'
+    ]);
+    assert.equal(describeRule(rule), 'Every 2 months');
+  });
+
+  it('keeps a month-end date anchored to the start rather than the previous occurrence', () => {
+    assert.deepEqual(occurrences('FREQ=MONTHLY', '2026-01-31', 4), [
+      '2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30'
+    ]);
+    assert.deepEqual(occurrences('FREQ=MONTHLY;BYMONTHDAY=-1', '2026-01-10', 3), [
+      '2026-01-31', '2026-02-28', '2026-03-31'
+    ]);
+  });
+
+  it('finds the nth weekday of each month', () => {
+    assert.deepEqual(occurrences('FREQ=MONTHLY;BYDAY=1SA,3SA', '2026-01-01', 4), [
+      '2026-01-03', '2026-01-17', '2026-02-07', '2026-02-21'
+    ]);
+    assert.deepEqual(occurrences('FREQ=MONTHLY;BYDAY=-1FR', '2026-01-01', 2), ['2026-01-30', '2026-02-27']);
+
+    const parsed = parseRRule('FREQ=MONTHLY;BYDAY=1SA,3SA');
+    assert.ok('rule' in parsed);
+    assert.equal(describeRule(parsed.rule), 'Monthly on the 1st Saturday and 3rd Saturday');
+  });
+
+  it('stops after COUNT occurrences', () => {
+    assert.deepEqual(occurrences('FREQ=WEEKLY;COUNT=3', '2026-01-01', 10), ['2026-01-01', '2026-01-08', '2026-01-15']);
+  });
+
+  it('includes the UNTIL day whatever the time of the start date', () => {
+    assert.deepEqual(occurrences('FREQ=MONTHLY;UNTIL=20260301', '2026-01-01T10:00:00Z'), [
+      '2026-01-01', '2026-02-01', '2026-03-01'
+    ]);
+    assert.deepEqual(occurrences('FREQ=DAILY;UNTIL=20260103T000000Z', '2026-01-01T23:30:00Z'), [
+      '2026-01-01', '2026-01-02', '2026-01-03'
+    ]);
+  });
+
+  it('applies a yearly BYMONTHDAY or BYDAY without BYMONTH to every month', () => {
+    assert.deepEqual(occurrences('FREQ=YEARLY;BYMONTHDAY=1', '2026-01-01', 3), ['2026-01-01', '2026-02-01', '2026-03-01']);
+    assert.deepEqual(occurrences('FREQ=YEARLY;BYDAY=SU', '2026-01-25', 3), ['2026-01-25', '2026-02-01', '2026-02-08']);
+    assert.deepEqual(occurrences('FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=1', '2026-01-01', 2), ['2026-03-01', '2027-03-01']);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BillItem, calculateBill, parseSubtotalOverride, prepareBillEdit, SavedBill } from '../src/lib/splitBills';
+
+const item = (userId: string, amount: number): BillItem => ({
+  description: `${userId}'s meal`,
+  amount,
+  quantity: 1,
+  shares: [{ userId, weight: 1 }]
+});
+
+const MEALS = [item('alice', 100), item('bob', 100), item('carol', 100)];
+
+describe('split bills', () => {
+  it('shares tax and service separately, the same way the preview shows them', () => {
+    const bill = calculateBill(MEALS, { taxAmount: 7, serviceCharge: 13 });
+
+    assert.deepEqual(bill.breakdown.map(b => [b.userId, b.tax, b.service]), [
+      ['alice', 3, 5],
+      ['bob', 2, 4],
+      ['carol', 2, 4]
+    ]);
+    assert.deepEqual(bill.splits, [
+      { userId: 'alice', amount: 108 },
+      { userId: 'bob', amount: 106 },
+      { userId: 'carol', amount: 106 }
+    ]);
+    assert.equal(bill.total, 320);
+  });
+
+  it('works out charges on the subtotal override but splits only the items', () => {
+    const bill = calculateBill(MEALS, { taxPercent: 10 }, 400);
+
+    assert.equal(bill.subtotal, 400);
+    assert.equal(bill.tax, 40);
+    assert.equal(bill.total, 340);
+    assert.deepEqual(bill.splits.map(s => s.amount), [114, 113, 113]);
+  });
+
+  it('splits always add up to the total', () => {
+    const items = [item('alice', 999), item('bob', 1), { ...item('carol', 333), shares: [{ userId: 'carol', weight: 2 }, { userId: 'bob', weight: 1 }] }];
+    for (const charges of [{ taxPercent: 6, servicePercent: 10 }, { taxAmount: 1, serviceCharge: 1 }, {}]) {
+      const bill = calculateBill(items, charges, 1500);
+      assert.equal(bill.splits.reduce((sum, s) => sum + s.amount, 0), bill.total);
+    }
+  });
+
+  it('accepts a blank subtotal override and rejects an invalid one', () => {
+    assert.deepEqual(parseSubtotalOverride(''), { value: null });
+    assert.deepEqual(parseSubtotalOverride(null), { value: null });
+    assert.deepEqual(parseSubtotalOverride('2500'), { value: 2500 });
+    assert.ok('error' in parseSubtotalOverride(-5));
+    assert.ok('error' in parseSubtotalOverride('12.5'));
+  });
+
+  it('edits a saved bill with its saved items and charges unless they are changed', () => {
+    const saved = {
+      items: MEALS, taxAmount: 30, taxPercent: 10, serviceCharge: 0, servicePercent: null, subtotalOverride: null
+    } as unknown as SavedBill;
+
+    const unchanged = prepareBillEdit(saved, { description: 'Dinner' });
+    assert.ok(!('error' in unchanged));
+    assert.equal(unchanged.calculated.total, 330);
+    assert.equal(unchanged.values.items, MEALS);
+
+    const newItems = prepareBillEdit(saved, { items: JSON.stringify([item('alice', 200)]), taxPercent: '' });
+    assert.ok(!('error' in newItems));
+    assert.deepEqual(newItems.calculated.splits, [{ userId: 'alice', amount: 230 }]);
+    assert.equal(newItems.values.taxPercent, null);
+
+    assert.ok('error' in prepareBillEdit(saved, { items: '[]' }));
+  });
+});